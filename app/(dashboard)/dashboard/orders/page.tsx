@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { PLATFORM_CONFIGS } from "@/types/platforms"
-import { ORDER_STATUS } from "@/types/order"
+import { ORDER_STATUS, ORDER_TRANSITIONS, OrderStatus } from "@/types/order"
 
 interface OrderItem {
   id: string
@@ -28,9 +28,30 @@ interface Order {
   total: number
   currency: string
   orderDate: Date
+  trackingNumber?: string
+  carrier?: string
   items: OrderItem[]
 }
 
+interface OrderEvent {
+  id: string
+  fromStatus: string | null
+  toStatus: string
+  actorType: string
+  actorId: string
+  reason: string | null
+  createdAt: string
+}
+
+interface ShippingRate {
+  carrier: string
+  service: string
+  serviceName: string
+  amount: number
+  currency: string
+  estimatedDays?: number
+}
+
 export default function OrdersPage() {
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
@@ -39,6 +60,16 @@ export default function OrdersPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all")
   const [platformFilter, setPlatformFilter] = useState<string>("all")
   const [searchQuery, setSearchQuery] = useState("")
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [printing, setPrinting] = useState(false)
+  const [labelOrder, setLabelOrder] = useState<Order | null>(null)
+  const [rates, setRates] = useState<ShippingRate[]>([])
+  const [rateErrors, setRateErrors] = useState<Array<{ carrier: string; message: string }>>([])
+  const [loadingRates, setLoadingRates] = useState(false)
+  const [purchasing, setPurchasing] = useState<string | null>(null)
+  const [statusReason, setStatusReason] = useState("")
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null)
+  const [history, setHistory] = useState<OrderEvent[]>([])
 
   useEffect(() => {
     fetchOrders()
@@ -103,12 +134,13 @@ export default function OrdersPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, reason: statusReason || undefined }),
       })
 
       if (response.ok) {
         fetchOrders()
         setSelectedOrder(null)
+        setStatusReason("")
       } else {
         const error = await response.json()
         alert(error.error || "Failed to update order")
@@ -119,6 +151,126 @@ export default function OrdersPage() {
     }
   }
 
+  const handleShowHistory = async (order: Order) => {
+    setHistoryOrder(order)
+    setHistory([])
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}`)
+      const data = await response.json()
+      setHistory(data.order?.events || [])
+    } catch (err) {
+      console.error("Failed to fetch order history:", err)
+    }
+  }
+
+  const describeActor = (event: OrderEvent) => {
+    if (event.actorType === "USER") return "You"
+    if (event.actorType === "PLATFORM") {
+      return PLATFORM_CONFIGS[event.actorId as keyof typeof PLATFORM_CONFIGS]?.displayName || event.actorId
+    }
+    return event.actorId
+  }
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(orderId) ? ids.filter((id) => id !== orderId) : [...ids, orderId]
+    )
+  }
+
+  const handleOpenLabel = async (order: Order) => {
+    setLabelOrder(order)
+    setRates([])
+    setRateErrors([])
+    setLoadingRates(true)
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/rates`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setRates(data.rates)
+        setRateErrors(data.errors)
+      } else {
+        setRateErrors([{ carrier: "", message: data.error || "Failed to get rates" }])
+      }
+    } catch (err) {
+      console.error("Get rates error:", err)
+      setRateErrors([{ carrier: "", message: "Failed to get rates" }])
+    } finally {
+      setLoadingRates(false)
+    }
+  }
+
+  const handleBuyLabel = async (rate: ShippingRate) => {
+    if (!labelOrder) return
+    setPurchasing(`${rate.carrier}:${rate.service}`)
+
+    try {
+      const response = await fetch(`/api/orders/${labelOrder.id}/labels`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          carrier: rate.carrier,
+          service: rate.service,
+          serviceName: rate.serviceName,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setLabelOrder(null)
+        setSelectedIds((ids) => (ids.includes(labelOrder.id) ? ids : [...ids, labelOrder.id]))
+        fetchOrders()
+      } else {
+        alert(data.error || "Failed to buy label")
+      }
+    } catch (err) {
+      console.error("Buy label error:", err)
+      alert("Failed to buy label")
+    } finally {
+      setPurchasing(null)
+    }
+  }
+
+  const handlePrintLabels = async () => {
+    setPrinting(true)
+
+    try {
+      const response = await fetch("/api/orders/labels/print", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderIds: selectedIds, reprint: true }),
+      })
+
+      if (response.ok) {
+        const pdf = await response.blob()
+        window.open(URL.createObjectURL(pdf), "_blank")
+        setSelectedIds([])
+      } else {
+        const error = await response.json()
+        alert(error.error || "Failed to print labels")
+      }
+    } catch (err) {
+      console.error("Print labels error:", err)
+      alert("Failed to print labels")
+    } finally {
+      setPrinting(false)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       PENDING: "bg-yellow-100 text-yellow-700",
@@ -150,9 +302,16 @@ export default function OrdersPage() {
               Manage orders from all your connected platforms
             </p>
           </div>
-          <Button onClick={handleImportOrders} disabled={importing}>
-            {importing ? "Importing..." : "↻ Import Orders"}
-          </Button>
+          <div className="flex gap-2">
+            {selectedIds.length > 0 && (
+              <Button variant="outline" onClick={handlePrintLabels} disabled={printing}>
+                {printing ? "Preparing..." : `🖨 Print Labels (${selectedIds.length})`}
+              </Button>
+            )}
+            <Button onClick={handleImportOrders} disabled={importing}>
+              {importing ? "Importing..." : "↻ Import Orders"}
+            </Button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -277,6 +436,12 @@ export default function OrdersPage() {
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select order ${order.platformOrderId}`}
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                        />
                         <h3 className="font-semibold text-lg">
                           {PLATFORM_CONFIGS[order.platform as keyof typeof PLATFORM_CONFIGS]?.icon}{" "}
                           Order #{order.platformOrderId}
@@ -284,6 +449,11 @@ export default function OrdersPage() {
                         <span className={`text-xs px-2 py-1 rounded ${getStatusColor(order.status)}`}>
                           {order.status}
                         </span>
+                        {order.trackingNumber && (
+                          <span className="text-xs text-muted-foreground">
+                            {order.carrier} {order.trackingNumber}
+                          </span>
+                        )}
                       </div>
 
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm mb-3">
@@ -334,14 +504,31 @@ export default function OrdersPage() {
                       </div>
                     </div>
 
-                    <div className="ml-4">
+                    <div className="ml-4 flex flex-col gap-2">
                       <Button
                         size="sm"
                         variant="outline"
                         onClick={() => setSelectedOrder(order)}
+                        disabled={ORDER_TRANSITIONS[order.status as OrderStatus]?.length === 0}
                       >
                         Update Status
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleShowHistory(order)}
+                      >
+                        History
+                      </Button>
+                      {(order.status === "PENDING" || order.status === "PROCESSING") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleOpenLabel(order)}
+                        >
+                          Buy Label
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -350,6 +537,114 @@ export default function OrdersPage() {
           )}
         </div>
 
+        {/* Buy Label Modal */}
+        {labelOrder && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <Card className="w-full max-w-lg">
+              <CardHeader>
+                <CardTitle>Buy Shipping Label</CardTitle>
+                <CardDescription>Order #{labelOrder.platformOrderId}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {loadingRates ? (
+                    <p className="text-sm text-muted-foreground">Getting rates...</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {rates.map((rate) => (
+                        <div
+                          key={`${rate.carrier}:${rate.service}`}
+                          className="flex items-center justify-between border rounded p-3"
+                        >
+                          <div>
+                            <p className="font-medium">{rate.serviceName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {rate.carrier}
+                              {rate.estimatedDays ? ` • ${rate.estimatedDays} days` : ""}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            onClick={() => handleBuyLabel(rate)}
+                            disabled={purchasing !== null}
+                          >
+                            {purchasing === `${rate.carrier}:${rate.service}`
+                              ? "Buying..."
+                              : `${rate.amount.toFixed(2)} ${rate.currency}`}
+                          </Button>
+                        </div>
+                      ))}
+
+                      {rateErrors.map((error) => (
+                        <p key={error.carrier} className="text-sm text-red-600">
+                          {error.carrier && `${error.carrier}: `}{error.message}
+                        </p>
+                      ))}
+
+                      {rates.length === 0 && rateErrors.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No carrier serves this address</p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setLabelOrder(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Order History Modal */}
+        {historyOrder && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <Card className="w-full max-w-lg">
+              <CardHeader>
+                <CardTitle>Order History</CardTitle>
+                <CardDescription>Order #{historyOrder.platformOrderId}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <ol className="space-y-3 max-h-96 overflow-y-auto">
+                    {history.map((event) => (
+                      <li key={event.id} className="border-l-2 pl-3">
+                        <div className="flex items-center gap-2">
+                          <span className={`text-xs px-2 py-1 rounded ${getStatusColor(event.toStatus)}`}>
+                            {event.toStatus}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(event.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-sm mt-1">
+                          {event.fromStatus ? `From ${event.fromStatus} by ` : "Created by "}
+                          {describeActor(event)}
+                        </p>
+                        {event.reason && (
+                          <p className="text-xs text-muted-foreground">{event.reason}</p>
+                        )}
+                      </li>
+                    ))}
+
+                    {history.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No status changes recorded</p>
+                    )}
+                  </ol>
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setHistoryOrder(null)}>
+                      Close
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Update Status Modal */}
         {selectedOrder && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -360,6 +655,16 @@ export default function OrdersPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="statusReason">Reason (optional)</Label>
+                    <Input
+                      id="statusReason"
+                      value={statusReason}
+                      onChange={(e) => setStatusReason(e.target.value)}
+                      placeholder="e.g. Customer asked to cancel"
+                    />
+                  </div>
+
                   <div>
                     <Label htmlFor="newStatus">New Status</Label>
                     <Select
@@ -369,7 +674,7 @@ export default function OrdersPage() {
                         <SelectValue placeholder="Select status" />
                       </SelectTrigger>
                       <SelectContent>
-                        {Object.keys(ORDER_STATUS).map((status) => (
+                        {(ORDER_TRANSITIONS[selectedOrder.status as OrderStatus] || []).map((status) => (
                           <SelectItem key={status} value={status}>
                             {status}
                           </SelectItem>
@@ -379,7 +684,13 @@ export default function OrdersPage() {
                   </div>
 
                   <div className="flex justify-end gap-2">
-                    <Button variant="outline" onClick={() => setSelectedOrder(null)}>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSelectedOrder(null)
+                        setStatusReason("")
+                      }}
+                    >
                       Cancel
                     </Button>
                   </div>
@@ -3,14 +3,32 @@
 import { useEffect, useState } from "react"
 import { useSearchParams } from "next/navigation"
 import { Platform } from "@prisma/client"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { wooCommerceConnectSchema, type WooCommerceConnectInput } from "@/lib/validations/platform"
 import { Button } from "@/components/ui/button"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { PLATFORM_CONFIGS } from "@/types/platforms"
 
 interface PlatformConnection {
   id: string
   platform: Platform
   status: string
+  metadata?: {
+    lastError?: string | null
+    lastHealthCheck?: { checkedAt: string; healthy: boolean }
+  } | null
+  webhookUrl?: string | null
+  apiMetrics?: {
+    calls: number
+    failures: number
+    retries: number
+    throttled: number
+    averageLatencyMs: number
+  } | null
+  circuit?: "closed" | "open" | "half-open"
   createdAt: Date
 }
 
@@ -19,6 +37,17 @@ export default function PlatformsPage() {
   const [connections, setConnections] = useState<PlatformConnection[]>([])
   const [loading, setLoading] = useState(true)
   const [connectingPlatform, setConnectingPlatform] = useState<string | null>(null)
+  const [showWooForm, setShowWooForm] = useState(false)
+  const [wooError, setWooError] = useState<string>("")
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<WooCommerceConnectInput>({
+    resolver: zodResolver(wooCommerceConnectSchema),
+  })
 
   // Show success/error messages from OAuth callbacks
   const success = searchParams?.get("success")
@@ -41,6 +70,12 @@ export default function PlatformsPage() {
   }
 
   const handleConnect = async (platform: Platform) => {
+    // WooCommerce is connected with REST API keys instead of an OAuth redirect
+    if (platform === Platform.WOOCOMMERCE) {
+      setShowWooForm(true)
+      return
+    }
+
     setConnectingPlatform(platform)
 
     try {
@@ -67,6 +102,36 @@ export default function PlatformsPage() {
     }
   }
 
+  const handleWooConnect = async (data: WooCommerceConnectInput) => {
+    setConnectingPlatform(Platform.WOOCOMMERCE)
+    setWooError("")
+
+    try {
+      const response = await fetch("/api/platforms/connect", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ platform: Platform.WOOCOMMERCE, ...data }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.connected) {
+        throw new Error(result.error || "Failed to connect WooCommerce store")
+      }
+
+      setShowWooForm(false)
+      reset()
+      fetchConnections()
+    } catch (err) {
+      console.error("WooCommerce connect error:", err)
+      setWooError(err instanceof Error ? err.message : "Failed to connect WooCommerce store")
+    } finally {
+      setConnectingPlatform(null)
+    }
+  }
+
   const handleDisconnect = async (platform: Platform) => {
     if (!confirm(`Are you sure you want to disconnect from ${platform}?`)) {
       return
@@ -95,7 +160,13 @@ export default function PlatformsPage() {
     )
   }
 
-  const priorityPlatforms = [Platform.EBAY, Platform.AMAZON, Platform.ETSY, Platform.SHOPIFY]
+  const priorityPlatforms: Platform[] = [
+    Platform.EBAY,
+    Platform.AMAZON,
+    Platform.ETSY,
+    Platform.SHOPIFY,
+    Platform.WOOCOMMERCE,
+  ]
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
@@ -146,7 +217,7 @@ export default function PlatformsPage() {
         {/* Priority Platforms */}
         <div className="mb-8">
           <h2 className="text-2xl font-semibold mb-4">Popular Platforms</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             {priorityPlatforms.map((platform) => {
               const config = PLATFORM_CONFIGS[platform]
               const connected = isConnected(platform)
@@ -194,6 +265,82 @@ export default function PlatformsPage() {
           </div>
         </div>
 
+        {/* WooCommerce API Keys */}
+        {showWooForm && (
+          <Card className="mb-8 max-w-xl">
+            <CardHeader>
+              <CardTitle>Connect WooCommerce</CardTitle>
+              <CardDescription>
+                Create a REST API key with Read/Write access under WooCommerce → Settings → Advanced → REST API
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit(handleWooConnect)}>
+              <CardContent className="space-y-4">
+                {wooError && (
+                  <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+                    {wooError}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="storeUrl">Store URL</Label>
+                  <Input
+                    id="storeUrl"
+                    placeholder="https://your-store.com"
+                    {...register("storeUrl")}
+                    disabled={connectingPlatform === Platform.WOOCOMMERCE}
+                  />
+                  {errors.storeUrl && (
+                    <p className="text-sm text-destructive">{errors.storeUrl.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="consumerKey">Consumer Key</Label>
+                  <Input
+                    id="consumerKey"
+                    placeholder="ck_..."
+                    {...register("consumerKey")}
+                    disabled={connectingPlatform === Platform.WOOCOMMERCE}
+                  />
+                  {errors.consumerKey && (
+                    <p className="text-sm text-destructive">{errors.consumerKey.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="consumerSecret">Consumer Secret</Label>
+                  <Input
+                    id="consumerSecret"
+                    type="password"
+                    placeholder="cs_..."
+                    {...register("consumerSecret")}
+                    disabled={connectingPlatform === Platform.WOOCOMMERCE}
+                  />
+                  {errors.consumerSecret && (
+                    <p className="text-sm text-destructive">{errors.consumerSecret.message}</p>
+                  )}
+                </div>
+              </CardContent>
+              <CardFooter className="gap-2">
+                <Button type="submit" disabled={connectingPlatform === Platform.WOOCOMMERCE}>
+                  {connectingPlatform === Platform.WOOCOMMERCE ? "Verifying..." : "Connect Store"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setShowWooForm(false)
+                    setWooError("")
+                  }}
+                >
+                  Cancel
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+
         {/* All Platforms */}
         <div>
           <h2 className="text-2xl font-semibold mb-4">All Platforms</h2>
@@ -248,7 +395,31 @@ export default function PlatformsPage() {
                           <div className="font-medium">{config.displayName}</div>
                           <div className="text-xs text-muted-foreground">
                             Connected on {new Date(conn.createdAt).toLocaleDateString()}
+                            {conn.metadata?.lastHealthCheck && (
+                              <> · Checked {new Date(conn.metadata.lastHealthCheck.checkedAt).toLocaleString()}</>
+                            )}
                           </div>
+                          {conn.status !== "ACTIVE" && conn.metadata?.lastError && (
+                            <div className="text-xs text-red-600">{conn.metadata.lastError}</div>
+                          )}
+                          {conn.webhookUrl && (
+                            <div className="text-xs text-muted-foreground break-all">
+                              Webhook URL: {conn.webhookUrl}
+                            </div>
+                          )}
+                          {conn.apiMetrics && (
+                            <div className="text-xs text-muted-foreground">
+                              Last 24h: {conn.apiMetrics.calls} calls · {conn.apiMetrics.failures} failed ·{" "}
+                              {conn.apiMetrics.throttled} throttled · {conn.apiMetrics.averageLatencyMs}ms avg
+                            </div>
+                          )}
+                          {conn.circuit && conn.circuit !== "closed" && (
+                            <div className="text-xs text-red-600">
+                              {conn.circuit === "open"
+                                ? "API calls paused after repeated failures"
+                                : "Retrying API calls after repeated failures"}
+                            </div>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -256,11 +427,18 @@ export default function PlatformsPage() {
                           className={`text-xs px-2 py-1 rounded ${
                             conn.status === "ACTIVE"
                               ? "bg-green-100 text-green-700"
+                              : conn.status === "EXPIRED" || conn.status === "ERROR"
+                              ? "bg-red-100 text-red-700"
                               : "bg-gray-100 text-gray-700"
                           }`}
                         >
                           {conn.status}
                         </div>
+                        {conn.status === "EXPIRED" && (
+                          <Button size="sm" onClick={() => handleConnect(conn.platform)}>
+                            Reconnect
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
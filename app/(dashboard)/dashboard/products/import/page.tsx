@@ -0,0 +1,435 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PLATFORM_CONFIGS } from "@/types/platforms"
+
+interface CatalogImport {
+  id: string
+  platform: string
+  status: "FETCHING" | "REVIEW" | "COMMITTED" | "FAILED"
+  syncJobId: string | null
+  committedAt: string | null
+  createdAt: string
+  _count?: { items: number }
+}
+
+interface Conflict {
+  field: "title" | "price" | "quantity"
+  local: string | number
+  platform: string | number
+  resolution: "LOCAL" | "PLATFORM"
+}
+
+interface ImportItem {
+  id: string
+  platformProductId: string
+  sku: string | null
+  title: string
+  price: string | null
+  quantity: number | null
+  images: string[]
+  matchType: "LISTING" | "SKU" | "GTIN" | "TITLE" | "NONE"
+  matchScore: number | null
+  action: "LINK" | "CREATE" | "SKIP"
+  importedAt: string | null
+  error: string | null
+  product: { id: string; sku: string; title: string; price: string; quantity: number } | null
+  conflicts: Conflict[]
+}
+
+interface SyncJob {
+  id: string
+  status: string
+  progress: number
+  total: number | null
+  error: string | null
+}
+
+const MATCH_LABELS: Record<ImportItem["matchType"], string> = {
+  LISTING: "Already linked",
+  SKU: "SKU match",
+  GTIN: "Barcode match",
+  TITLE: "Similar title",
+  NONE: "No match",
+}
+
+const STATUS_COLORS: Record<CatalogImport["status"], string> = {
+  FETCHING: "bg-blue-100 text-blue-700",
+  REVIEW: "bg-yellow-100 text-yellow-700",
+  COMMITTED: "bg-green-100 text-green-700",
+  FAILED: "bg-red-100 text-red-700",
+}
+
+function platformName(platform: string) {
+  return PLATFORM_CONFIGS[platform as keyof typeof PLATFORM_CONFIGS]?.displayName || platform
+}
+
+export default function CatalogImportPage() {
+  const [imports, setImports] = useState<CatalogImport[]>([])
+  const [platforms, setPlatforms] = useState<string[]>([])
+  const [platform, setPlatform] = useState("")
+  const [selected, setSelected] = useState<CatalogImport | null>(null)
+  const [items, setItems] = useState<ImportItem[]>([])
+  const [syncJob, setSyncJob] = useState<SyncJob | null>(null)
+  const [linkSkus, setLinkSkus] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [committing, setCommitting] = useState(false)
+
+  useEffect(() => {
+    fetchImports()
+    fetchPlatforms()
+  }, [])
+
+  // Follow the fetch until the listings are ready for review
+  useEffect(() => {
+    if (selected?.status !== "FETCHING") return
+
+    const timer = setInterval(() => fetchImport(selected.id), 3000)
+    return () => clearInterval(timer)
+  }, [selected?.id, selected?.status])
+
+  const fetchImports = async () => {
+    try {
+      const response = await fetch("/api/products/imports")
+      const data = await response.json()
+      setImports(data.imports || [])
+    } catch (err) {
+      console.error("Failed to fetch catalog imports:", err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchPlatforms = async () => {
+    try {
+      const response = await fetch("/api/platforms/connections")
+      const data = await response.json()
+      setPlatforms((data.connections || []).map((conn: { platform: string }) => conn.platform))
+    } catch (err) {
+      console.error("Failed to fetch connections:", err)
+    }
+  }
+
+  const fetchImport = async (importId: string) => {
+    try {
+      const response = await fetch(`/api/products/imports/${importId}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setSelected(data.catalogImport)
+        setItems(data.items)
+        setSyncJob(data.syncJob)
+      }
+    } catch (err) {
+      console.error("Failed to fetch catalog import:", err)
+    }
+  }
+
+  const handleStartImport = async () => {
+    if (!platform) return
+
+    try {
+      const response = await fetch("/api/products/imports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ platform }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        fetchImports()
+        fetchImport(data.catalogImport.id)
+      } else {
+        alert(data.error || "Failed to start import")
+      }
+    } catch (err) {
+      console.error("Start import error:", err)
+      alert("Failed to start import")
+    }
+  }
+
+  const updateItem = async (item: ImportItem, changes: Record<string, unknown>) => {
+    if (!selected) return
+
+    try {
+      const response = await fetch(`/api/products/imports/${selected.id}/items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setItems((current) => current.map((i) => (i.id === item.id ? data.item : i)))
+      } else {
+        alert(data.error || "Failed to update listing")
+      }
+    } catch (err) {
+      console.error("Update import item error:", err)
+      alert("Failed to update listing")
+    }
+  }
+
+  const handleLinkToSku = async (item: ImportItem) => {
+    const sku = (linkSkus[item.id] || "").trim()
+    if (!sku) return
+
+    const response = await fetch(`/api/products?search=${encodeURIComponent(sku)}&limit=10`)
+    const data = await response.json()
+    const product = (data.products || []).find((p: { sku: string }) => p.sku === sku)
+
+    if (!product) {
+      alert(`No product with SKU ${sku}`)
+      return
+    }
+
+    await updateItem(item, { action: "LINK", productId: product.id })
+  }
+
+  const handleCommit = async () => {
+    if (!selected) return
+
+    const counts = items.filter((item) => !item.importedAt).reduce(
+      (acc, item) => ({ ...acc, [item.action]: (acc[item.action] || 0) + 1 }),
+      {} as Record<string, number>
+    )
+
+    if (!confirm(`Link ${counts.LINK || 0} listings and create ${counts.CREATE || 0} products?`)) return
+
+    setCommitting(true)
+
+    try {
+      const response = await fetch(`/api/products/imports/${selected.id}/commit`, { method: "POST" })
+      const data = await response.json()
+
+      if (response.ok) {
+        const { linked, created, skipped, failed } = data.result
+        alert(`Import committed!\nLinked: ${linked}\nCreated: ${created}\nSkipped: ${skipped}\nFailed: ${failed}`)
+        fetchImports()
+        fetchImport(selected.id)
+      } else {
+        alert(data.error || "Failed to commit import")
+      }
+    } catch (err) {
+      console.error("Commit import error:", err)
+      alert("Failed to commit import")
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="text-lg">Loading imports...</div>
+      </div>
+    )
+  }
+
+  const reviewable = selected?.status === "REVIEW"
+  const conflicted = items.filter((item) => item.conflicts.length > 0).length
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="container mx-auto p-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Import Catalog</h1>
+            <p className="text-muted-foreground">
+              Bring listings from your marketplaces in, matched to your products
+            </p>
+          </div>
+          <Link href="/dashboard/products">
+            <Button variant="ghost">← Products</Button>
+          </Link>
+        </div>
+
+        {/* Start Import */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>New Import</CardTitle>
+            <CardDescription>
+              Listings are matched by SKU, barcode, then title. Nothing changes until you commit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-4 items-end">
+              <div className="w-64">
+                <Label htmlFor="platform">Platform</Label>
+                <Select value={platform} onValueChange={setPlatform}>
+                  <SelectTrigger id="platform">
+                    <SelectValue placeholder="Choose a connected platform" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {platforms.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {platformName(p)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleStartImport} disabled={!platform}>
+                Start Import
+              </Button>
+            </div>
+
+            {imports.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-6">
+                {imports.map((catalogImport) => (
+                  <button
+                    key={catalogImport.id}
+                    onClick={() => fetchImport(catalogImport.id)}
+                    className={`text-sm border rounded px-3 py-2 text-left ${
+                      selected?.id === catalogImport.id ? "border-primary" : ""
+                    }`}
+                  >
+                    <div className="font-medium">{platformName(catalogImport.platform)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(catalogImport.createdAt).toLocaleString()} • {catalogImport._count?.items || 0} listings
+                    </div>
+                    <span className={`text-xs px-2 py-0.5 rounded ${STATUS_COLORS[catalogImport.status]}`}>
+                      {catalogImport.status}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Review */}
+        {selected && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{platformName(selected.platform)} Import</CardTitle>
+                  <CardDescription>
+                    {selected.status === "FETCHING" &&
+                      `Fetching listings... ${syncJob?.progress || 0}${syncJob?.total ? ` of ${syncJob.total}` : ""}`}
+                    {selected.status === "FAILED" && `Fetching failed: ${syncJob?.error || "unknown error"}`}
+                    {reviewable && `${items.length} listings, ${conflicted} with fields that differ`}
+                    {selected.status === "COMMITTED" &&
+                      `Committed ${new Date(selected.committedAt!).toLocaleString()}`}
+                  </CardDescription>
+                </div>
+                {reviewable && (
+                  <Button onClick={handleCommit} disabled={committing}>
+                    {committing ? "Committing..." : "Commit Import"}
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {items.map((item) => (
+                <div key={item.id} className="border rounded p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex gap-4">
+                      {item.images[0] && (
+                        <img src={item.images[0]} alt={item.title} className="w-16 h-16 object-cover rounded" />
+                      )}
+                      <div>
+                        <h3 className="font-semibold">{item.title}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          SKU: {item.sku || "none"} •{" "}
+                          {item.price !== null ? `$${item.price}` : "no price"} •{" "}
+                          {item.quantity !== null ? `${item.quantity} in stock` : "stock not reported"}
+                        </p>
+                        <div className="flex gap-2 mt-2 text-xs">
+                          <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded">
+                            {MATCH_LABELS[item.matchType]}
+                            {item.matchScore !== null && ` (${Math.round(item.matchScore * 100)}%)`}
+                          </span>
+                          {item.product && item.action === "LINK" && (
+                            <span className="bg-gray-100 px-2 py-1 rounded">
+                              → {item.product.sku}: {item.product.title}
+                            </span>
+                          )}
+                          {item.importedAt && (
+                            <span className="bg-green-100 text-green-700 px-2 py-1 rounded">Imported</span>
+                          )}
+                        </div>
+                        {item.error && <p className="text-xs text-red-600 mt-2">{item.error}</p>}
+                      </div>
+                    </div>
+
+                    {reviewable && !item.importedAt && (
+                      <div className="w-40">
+                        <Select
+                          value={item.action}
+                          onValueChange={(action) => updateItem(item, { action })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="LINK" disabled={!item.product}>
+                              Link
+                            </SelectItem>
+                            <SelectItem value="CREATE">Create product</SelectItem>
+                            <SelectItem value="SKIP">Skip</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  {reviewable && !item.importedAt && (
+                    <div className="flex gap-2 mt-3">
+                      <Input
+                        className="w-48"
+                        placeholder="Link to SKU..."
+                        value={linkSkus[item.id] || ""}
+                        onChange={(e) => setLinkSkus({ ...linkSkus, [item.id]: e.target.value })}
+                      />
+                      <Button size="sm" variant="ghost" onClick={() => handleLinkToSku(item)}>
+                        Link
+                      </Button>
+                    </div>
+                  )}
+
+                  {item.conflicts.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      {item.conflicts.map((conflict) => (
+                        <div key={conflict.field} className="flex items-center gap-3 text-sm">
+                          <span className="w-20 font-medium capitalize">{conflict.field}</span>
+                          {(["LOCAL", "PLATFORM"] as const).map((side) => (
+                            <label key={side} className="flex items-center gap-1">
+                              <input
+                                type="radio"
+                                name={`${item.id}-${conflict.field}`}
+                                checked={conflict.resolution === side}
+                                disabled={!reviewable || Boolean(item.importedAt)}
+                                onChange={() =>
+                                  updateItem(item, { resolutions: { [conflict.field]: side } })
+                                }
+                              />
+                              {side === "LOCAL" ? "Keep " : "Use "}
+                              <span className="font-mono">
+                                {side === "LOCAL" ? conflict.local : conflict.platform}
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
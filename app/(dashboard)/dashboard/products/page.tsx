@@ -1,11 +1,12 @@
 "use client"
 
 import { useEffect, useState } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { PLATFORM_CONFIGS } from "@/types/platforms"
+import { PLATFORM_CONFIGS, PLATFORM_ERROR_ACTIONS, PlatformErrorDetails } from "@/types/platforms"
 
 interface Product {
   id: string
@@ -15,14 +16,51 @@ interface Product {
   quantity: number
   status: string
   images: string[]
+  options: string[]
+  variants: Array<{
+    id: string
+    sku: string
+    title: string
+    price: number
+    quantity: number
+  }>
   platformListings: Array<{
     platform: string
     status: string
     lastSyncedAt: Date
+    syncErrors: PlatformErrorDetails | null
+  }>
+  // Channels whose listing differs from the product, by an override or pricing rule
+  listingDivergence: Array<{
+    platform: string
+    listed: boolean
+    fields: string[]
   }>
   createdAt: Date
 }
 
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  price: "price",
+  compareAtPrice: "compare-at price",
+  category: "category",
+  itemSpecifics: "item specifics",
+  images: "images",
+}
+
+// "Brand: Canon, Model: AE-1" to { Brand: "Canon", Model: "AE-1" }
+function parseAttributes(input: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const pair of input.split(",")) {
+    const [name, ...value] = pair.split(":")
+    if (name.trim() && value.join(":").trim()) {
+      attributes[name.trim()] = value.join(":").trim()
+    }
+  }
+  return attributes
+}
+
 export default function ProductsPage() {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
@@ -33,11 +71,18 @@ export default function ProductsPage() {
     title: "",
     description: "",
     sku: "",
+    gtin: "",
     price: "",
     quantity: "",
     images: "",
     category: "",
     tags: "",
+    options: "",
+    attributes: "",
+    weight: "",
+    length: "",
+    width: "",
+    height: "",
   })
 
   useEffect(() => {
@@ -69,11 +114,18 @@ export default function ProductsPage() {
           title: formData.title,
           description: formData.description,
           sku: formData.sku,
+          gtin: formData.gtin || undefined,
           price: parseFloat(formData.price),
           quantity: parseInt(formData.quantity),
           images: formData.images.split(",").map((url) => url.trim()).filter(Boolean),
           category: formData.category,
           tags: formData.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+          options: formData.options.split(",").map((option) => option.trim()).filter(Boolean),
+          attributes: parseAttributes(formData.attributes),
+          weight: formData.weight ? parseFloat(formData.weight) : undefined,
+          length: formData.length ? parseFloat(formData.length) : undefined,
+          width: formData.width ? parseFloat(formData.width) : undefined,
+          height: formData.height ? parseFloat(formData.height) : undefined,
           status: "ACTIVE",
         }),
       })
@@ -84,11 +136,18 @@ export default function ProductsPage() {
           title: "",
           description: "",
           sku: "",
+          gtin: "",
           price: "",
           quantity: "",
           images: "",
           category: "",
           tags: "",
+          options: "",
+          attributes: "",
+          weight: "",
+          length: "",
+          width: "",
+          height: "",
         })
         fetchProducts()
       } else {
@@ -101,6 +160,46 @@ export default function ProductsPage() {
     }
   }
 
+  const handleAddVariant = async (product: Product) => {
+    const sku = prompt("Variant SKU:")
+    if (!sku) return
+
+    const options: Record<string, string> = {}
+    for (const name of product.options) {
+      const value = prompt(`${name}:`)
+      if (!value) return
+      options[name] = value
+    }
+
+    const price = prompt("Price:", product.price.toString())
+    const quantity = prompt("Quantity in stock:", "0")
+
+    try {
+      const response = await fetch(`/api/products/${product.id}/variants`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          sku,
+          options,
+          price: parseFloat(price || "0"),
+          quantity: parseInt(quantity || "0"),
+        }),
+      })
+
+      if (response.ok) {
+        fetchProducts()
+      } else {
+        const error = await response.json()
+        alert(error.error || "Failed to add variant")
+      }
+    } catch (err) {
+      console.error("Add variant error:", err)
+      alert("Failed to add variant")
+    }
+  }
+
   const handleSyncProduct = async (productId: string, platforms: string[]) => {
     setSyncing(productId)
 
@@ -116,8 +215,10 @@ export default function ProductsPage() {
       const data = await response.json()
 
       if (response.ok) {
+        const warnings = data.results.flatMap((result: { warnings?: string[] }) => result.warnings || [])
         alert(
-          `Sync complete!\nSuccessful: ${data.summary.successful}\nFailed: ${data.summary.failed}`
+          `Sync complete!\nSuccessful: ${data.summary.successful}\nFailed: ${data.summary.failed}` +
+            (warnings.length ? `\n\n${warnings.join("\n")}` : "")
         )
         fetchProducts()
       } else {
@@ -150,9 +251,14 @@ export default function ProductsPage() {
               Manage your products and sync them across platforms
             </p>
           </div>
-          <Button onClick={() => setShowCreateForm(!showCreateForm)}>
-            {showCreateForm ? "Cancel" : "+ Add Product"}
-          </Button>
+          <div className="flex gap-2">
+            <Link href="/dashboard/products/import">
+              <Button variant="outline">Import Catalog</Button>
+            </Link>
+            <Button onClick={() => setShowCreateForm(!showCreateForm)}>
+              {showCreateForm ? "Cancel" : "+ Add Product"}
+            </Button>
+          </div>
         </div>
 
         {/* Create Product Form */}
@@ -185,6 +291,15 @@ export default function ProductsPage() {
                     />
                   </div>
 
+                  <div>
+                    <Label htmlFor="gtin">Barcode (UPC/EAN)</Label>
+                    <Input
+                      id="gtin"
+                      value={formData.gtin}
+                      onChange={(e) => setFormData({ ...formData, gtin: e.target.value })}
+                    />
+                  </div>
+
                   <div>
                     <Label htmlFor="price">Price *</Label>
                     <Input
@@ -245,6 +360,67 @@ export default function ProductsPage() {
                       placeholder="electronics, gadgets, sale"
                     />
                   </div>
+
+                  <div className="md:col-span-2">
+                    <Label htmlFor="options">Variant Options (comma-separated, up to 3)</Label>
+                    <Input
+                      id="options"
+                      value={formData.options}
+                      onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                      placeholder="Size, Color"
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <Label htmlFor="attributes">Item Specifics (Name: Value, comma-separated)</Label>
+                    <Input
+                      id="attributes"
+                      value={formData.attributes}
+                      onChange={(e) => setFormData({ ...formData, attributes: e.target.value })}
+                      placeholder="Brand: Canon, Model: AE-1"
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="weight">Shipping Weight (oz)</Label>
+                    <Input
+                      id="weight"
+                      type="number"
+                      step="0.1"
+                      value={formData.weight}
+                      onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+                    />
+                  </div>
+
+                  <div>
+                    <Label>Package Size (in)</Label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        id="length"
+                        type="number"
+                        step="0.1"
+                        placeholder="L"
+                        value={formData.length}
+                        onChange={(e) => setFormData({ ...formData, length: e.target.value })}
+                      />
+                      <Input
+                        id="width"
+                        type="number"
+                        step="0.1"
+                        placeholder="W"
+                        value={formData.width}
+                        onChange={(e) => setFormData({ ...formData, width: e.target.value })}
+                      />
+                      <Input
+                        id="height"
+                        type="number"
+                        step="0.1"
+                        placeholder="H"
+                        value={formData.height}
+                        onChange={(e) => setFormData({ ...formData, height: e.target.value })}
+                      />
+                    </div>
+                  </div>
                 </div>
 
                 <Button type="submit" className="w-full">Create Product</Button>
@@ -321,6 +497,15 @@ export default function ProductsPage() {
                         <p className="text-sm mt-1">
                           ${product.price} • {product.quantity} in stock
                         </p>
+                        {product.variants.length > 0 && (
+                          <ul className="text-sm text-muted-foreground mt-1">
+                            {product.variants.map((variant) => (
+                              <li key={variant.id}>
+                                {variant.title} ({variant.sku}) • ${variant.price} • {variant.quantity} in stock
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                         <div className="flex gap-2 mt-2">
                           <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
                             {product.status}
@@ -330,17 +515,63 @@ export default function ProductsPage() {
                             return (
                               <span
                                 key={listing.platform}
-                                className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded flex items-center gap-1"
+                                className={`text-xs px-2 py-1 rounded flex items-center gap-1 ${
+                                  listing.syncErrors ? "bg-red-100 text-red-700" : "bg-blue-100 text-blue-700"
+                                }`}
                               >
                                 {config.icon} {config.displayName}
                               </span>
                             )
                           })}
                         </div>
+                        {product.listingDivergence
+                          .filter((divergence) => divergence.fields.length > 0)
+                          .map((divergence) => {
+                            const config = PLATFORM_CONFIGS[divergence.platform as keyof typeof PLATFORM_CONFIGS]
+                            return (
+                              <div key={divergence.platform} className="text-xs mt-2 text-amber-700">
+                                {config.displayName} {divergence.listed ? "lists" : "will list"} its own{" "}
+                                {divergence.fields.map((field) => FIELD_LABELS[field] || field).join(", ")}
+                              </div>
+                            )
+                          })}
+                        {product.platformListings
+                          .filter((listing) => listing.syncErrors)
+                          .map((listing) => {
+                            const syncError = listing.syncErrors!
+                            const config = PLATFORM_CONFIGS[listing.platform as keyof typeof PLATFORM_CONFIGS]
+                            return (
+                              <div key={listing.platform} className="text-xs mt-2">
+                                <div className="text-red-600">
+                                  {config.displayName}: {PLATFORM_ERROR_ACTIONS[syncError.code]}
+                                  {syncError.retryAfter && (
+                                    <> (after {new Date(syncError.retryAfter).toLocaleString()})</>
+                                  )}
+                                </div>
+                                {syncError.fields && syncError.fields.length > 0 ? (
+                                  <ul className="list-disc ml-4 text-muted-foreground">
+                                    {syncError.fields.map((field, i) => (
+                                      <li key={i}>
+                                        {field.field && <span className="font-medium">{field.field}: </span>}
+                                        {field.message}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : (
+                                  <div className="text-muted-foreground break-all">{syncError.message}</div>
+                                )}
+                              </div>
+                            )
+                          })}
                       </div>
                     </div>
 
                     <div className="flex gap-2">
+                      {product.options.length > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => handleAddVariant(product)}>
+                          + Variant
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         onClick={() => {
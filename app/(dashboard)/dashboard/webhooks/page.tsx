@@ -0,0 +1,193 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PLATFORM_CONFIGS } from "@/types/platforms"
+
+interface WebhookEvent {
+  id: string
+  platform: string
+  eventId: string | null
+  event: string
+  payload: any
+  status: string
+  error: string | null
+  processedAt: Date | null
+  createdAt: Date
+}
+
+const WEBHOOK_STATUSES = ["failed", "pending", "processing", "processed", "ignored"]
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<string>("failed")
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [statusFilter])
+
+  const fetchWebhooks = async () => {
+    try {
+      const params = new URLSearchParams({ limit: "50" })
+      if (statusFilter !== "all") params.append("status", statusFilter)
+
+      const response = await fetch(`/api/webhook-events?${params}`)
+      const data = await response.json()
+      setWebhooks(data.webhooks || [])
+    } catch (err) {
+      console.error("Failed to fetch webhook events:", err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReplay = async (webhookId: string) => {
+    setReplayingId(webhookId)
+
+    try {
+      const response = await fetch(`/api/webhook-events/${webhookId}/replay`, {
+        method: "POST",
+      })
+
+      if (response.ok) {
+        fetchWebhooks()
+      } else {
+        const error = await response.json()
+        alert(error.error || "Failed to replay webhook")
+      }
+    } catch (err) {
+      console.error("Replay webhook error:", err)
+      alert("Failed to replay webhook")
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    const colors: Record<string, string> = {
+      failed: "bg-red-100 text-red-700",
+      pending: "bg-yellow-100 text-yellow-700",
+      processing: "bg-blue-100 text-blue-700",
+      processed: "bg-green-100 text-green-700",
+    }
+    return colors[status] || "bg-gray-100 text-gray-700"
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
+        <div className="text-lg">Loading webhook events...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="container mx-auto p-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Webhooks</h1>
+            <p className="text-muted-foreground">
+              Inspect events received from your platforms and replay the ones that failed
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchWebhooks}>
+            ↻ Refresh
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="max-w-xs">
+              <Label htmlFor="status">Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger id="status">
+                  <SelectValue placeholder="All Statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {WEBHOOK_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Webhook Events */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Events</CardTitle>
+            <CardDescription>{webhooks.length} event(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {webhooks.length === 0 ? (
+              <p className="text-center text-muted-foreground">No webhook events</p>
+            ) : (
+              <div className="space-y-2">
+                {webhooks.map((webhook) => (
+                  <div key={webhook.id} className="p-3 border rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xl">
+                            {PLATFORM_CONFIGS[webhook.platform as keyof typeof PLATFORM_CONFIGS]?.icon}
+                          </span>
+                          <span className="font-medium">{webhook.event}</span>
+                          <span className={`text-xs px-2 py-1 rounded ${getStatusColor(webhook.status)}`}>
+                            {webhook.status}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Received {new Date(webhook.createdAt).toLocaleString()}
+                          {webhook.eventId && <> · ID {webhook.eventId}</>}
+                        </div>
+                        {webhook.error && (
+                          <div className="text-xs text-red-600">{webhook.error}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                        >
+                          {expandedId === webhook.id ? "Hide Payload" : "Payload"}
+                        </Button>
+                        {(webhook.status === "failed" || webhook.status === "ignored") && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleReplay(webhook.id)}
+                            disabled={replayingId === webhook.id}
+                          >
+                            {replayingId === webhook.id ? "Replaying..." : "Replay"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {expandedId === webhook.id && (
+                      <pre className="mt-3 p-3 bg-gray-50 rounded text-xs overflow-auto max-h-64">
+                        {JSON.stringify(webhook.payload, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
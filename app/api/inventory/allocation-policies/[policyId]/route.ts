@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { allocationPolicyUpdateSchema } from "@/lib/validations/inventory"
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { policyId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = allocationPolicyUpdateSchema.parse(body)
+
+    const policy = await prisma.allocationPolicy.findFirst({
+      where: {
+        id: params.policyId,
+        userId: user.id,
+      },
+    })
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "Allocation policy not found" },
+        { status: 404 }
+      )
+    }
+
+    const updated = await prisma.allocationPolicy.update({
+      where: { id: policy.id },
+      data: validatedData,
+    })
+
+    return NextResponse.json({ policy: updated })
+  } catch (error) {
+    console.error("Update allocation policy error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update allocation policy" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { policyId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const policy = await prisma.allocationPolicy.findFirst({
+      where: {
+        id: params.policyId,
+        userId: user.id,
+      },
+    })
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: "Allocation policy not found" },
+        { status: 404 }
+      )
+    }
+
+    await prisma.allocationPolicy.delete({
+      where: { id: policy.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete allocation policy error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete allocation policy" },
+      { status: 500 }
+    )
+  }
+}
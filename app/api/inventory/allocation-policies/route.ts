@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { allocationPolicySchema } from "@/lib/validations/inventory"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const policies = await prisma.allocationPolicy.findMany({
+      where: { userId: user.id },
+      include: {
+        product: {
+          select: { id: true, sku: true, title: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ policies })
+  } catch (error) {
+    console.error("Get allocation policies error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch allocation policies" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = allocationPolicySchema.parse(body)
+
+    if (validatedData.productId) {
+      const product = await prisma.product.findFirst({
+        where: {
+          id: validatedData.productId,
+          userId: user.id,
+        },
+      })
+
+      if (!product) {
+        return NextResponse.json(
+          { error: "Product not found" },
+          { status: 404 }
+        )
+      }
+    }
+
+    // Checked explicitly since unique indexes do not cover the default policy's null scope
+    const existing = await prisma.allocationPolicy.findFirst({
+      where: {
+        userId: user.id,
+        productId: validatedData.productId ?? null,
+        category: validatedData.category ?? null,
+      },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "An allocation policy already exists for this scope" },
+        { status: 409 }
+      )
+    }
+
+    const policy = await prisma.allocationPolicy.create({
+      data: {
+        ...validatedData,
+        userId: user.id,
+      },
+    })
+
+    return NextResponse.json({ policy }, { status: 201 })
+  } catch (error) {
+    console.error("Create allocation policy error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create allocation policy" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
-import { Platform } from "@prisma/client"
+import { InventoryChange } from "@prisma/client"
 import { requireAuth } from "@/lib/auth/session"
 import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
-import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,37 +19,30 @@ export async function POST(req: NextRequest) {
     }
 
     const syncEngine = new InventorySyncEngine(user.id)
+    const ledger = new InventoryLedger(user.id)
 
     // First, update local database
+    const platformUpdates = []
     for (const update of updates) {
-      const product = await prisma.product.findUnique({
-        where: { sku: update.sku },
-      })
+      const target = await ledger.resolveSku(update.sku)
 
-      if (product) {
-        const oldQuantity = product.quantity
-
-        await prisma.product.update({
-          where: { sku: update.sku },
-          data: { quantity: update.quantity },
+      if (target?.tracked) {
+        const variantId = target.variantId || undefined
+        await ledger.setQuantity(target.productId, update.quantity, InventoryChange.ADJUSTMENT, {
+          variantId,
+          reason: update.reason || "Bulk update",
         })
 
-        // Log the change
-        await prisma.inventoryLog.create({
-          data: {
-            productId: product.id,
-            oldQuantity,
-            newQuantity: update.quantity,
-            changeReason: update.reason || "Bulk update",
-          },
-        })
+        // Channels receive what is left after reservations for open orders
+        const level = await ledger.getStockLevel(target.productId, variantId)
+        platformUpdates.push({ ...update, quantity: level.available })
       }
     }
 
     // Then sync to platforms if requested
     let syncResults = []
     if (updates[0]?.platforms && updates[0].platforms.length > 0) {
-      syncResults = await syncEngine.bulkUpdateInventory(updates)
+      syncResults = await syncEngine.bulkUpdateInventory(platformUpdates)
     }
 
     return NextResponse.json({
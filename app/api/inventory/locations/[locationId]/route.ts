@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { findMappingConflict } from "@/lib/inventory/locations"
+import { locationUpdateSchema } from "@/lib/validations/inventory"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const { searchParams } = new URL(req.url)
+
+    const page = parseInt(searchParams.get("page") || "1")
+    const limit = parseInt(searchParams.get("limit") || "50")
+    const skip = (page - 1) * limit
+
+    const location = await prisma.location.findFirst({
+      where: {
+        id: params.locationId,
+        userId: user.id,
+      },
+      include: { platformMappings: true },
+    })
+
+    if (!location) {
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      )
+    }
+
+    const [levels, total] = await Promise.all([
+      prisma.inventoryLevel.findMany({
+        where: { locationId: location.id },
+        include: {
+          product: {
+            select: { id: true, sku: true, title: true },
+          },
+        },
+        orderBy: { quantity: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.inventoryLevel.count({ where: { locationId: location.id } }),
+    ])
+
+    return NextResponse.json({
+      location,
+      levels,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get location error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch location" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const { platformMappings, ...validatedData } = locationUpdateSchema.parse(body)
+
+    const location = await prisma.location.findFirst({
+      where: {
+        id: params.locationId,
+        userId: user.id,
+      },
+    })
+
+    if (!location) {
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      )
+    }
+
+    // Stock changes that name no location land on the default, so it is moved rather than cleared
+    if (location.isDefault && validatedData.isDefault === false) {
+      return NextResponse.json(
+        { error: "Make another location the default first" },
+        { status: 400 }
+      )
+    }
+
+    if (validatedData.name && validatedData.name !== location.name) {
+      const existing = await prisma.location.findFirst({
+        where: { userId: user.id, name: validatedData.name },
+      })
+
+      if (existing) {
+        return NextResponse.json(
+          { error: "A location with this name already exists" },
+          { status: 409 }
+        )
+      }
+    }
+
+    if (platformMappings) {
+      const conflict = await findMappingConflict(user.id, platformMappings, location.id)
+
+      if (conflict) {
+        return NextResponse.json(
+          { error: `${conflict.platform} location ${conflict.platformLocationId} is already mapped to ${conflict.location.name}` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (validatedData.isDefault) {
+        await tx.location.updateMany({
+          where: { userId: user.id, id: { not: location.id } },
+          data: { isDefault: false },
+        })
+      }
+
+      // Mappings are replaced as a whole when provided
+      if (platformMappings) {
+        await tx.locationPlatformMapping.deleteMany({
+          where: { locationId: location.id },
+        })
+      }
+
+      return await tx.location.update({
+        where: { id: location.id },
+        data: {
+          ...validatedData,
+          ...(platformMappings ? { platformMappings: { create: platformMappings } } : {}),
+        },
+        include: { platformMappings: true },
+      })
+    })
+
+    return NextResponse.json({ location: updated })
+  } catch (error) {
+    console.error("Update location error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update location" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const location = await prisma.location.findFirst({
+      where: {
+        id: params.locationId,
+        userId: user.id,
+      },
+    })
+
+    if (!location) {
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      )
+    }
+
+    // Deleting stock with its location would leave product totals out of step with their levels
+    const stocked = await prisma.inventoryLevel.count({
+      where: {
+        locationId: location.id,
+        OR: [{ quantity: { gt: 0 } }, { reservedQuantity: { gt: 0 } }],
+      },
+    })
+
+    if (stocked) {
+      return NextResponse.json(
+        { error: "Transfer stock out of this location before deleting it" },
+        { status: 409 }
+      )
+    }
+
+    if (location.isDefault) {
+      const others = await prisma.location.count({
+        where: { userId: user.id, id: { not: location.id } },
+      })
+
+      if (others) {
+        return NextResponse.json(
+          { error: "Make another location the default first" },
+          { status: 400 }
+        )
+      }
+    }
+
+    await prisma.location.delete({
+      where: { id: location.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete location error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete location" },
+      { status: 500 }
+    )
+  }
+}
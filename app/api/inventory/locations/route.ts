@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { findMappingConflict } from "@/lib/inventory/locations"
+import { locationSchema } from "@/lib/validations/inventory"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const [locations, totals] = await Promise.all([
+      prisma.location.findMany({
+        where: { userId: user.id },
+        include: { platformMappings: true },
+        orderBy: [{ priority: "asc" }, { name: "asc" }],
+      }),
+      prisma.inventoryLevel.groupBy({
+        by: ["locationId"],
+        where: { location: { userId: user.id } },
+        _sum: { quantity: true, reservedQuantity: true },
+      }),
+    ])
+
+    return NextResponse.json({
+      locations: locations.map((location) => {
+        const total = totals.find((t) => t.locationId === location.id)
+        return {
+          ...location,
+          stock: {
+            quantity: total?._sum.quantity || 0,
+            reserved: total?._sum.reservedQuantity || 0,
+          },
+        }
+      }),
+    })
+  } catch (error) {
+    console.error("Get locations error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch locations" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const { platformMappings, ...validatedData } = locationSchema.parse(body)
+
+    const existing = await prisma.location.findFirst({
+      where: { userId: user.id, name: validatedData.name },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A location with this name already exists" },
+        { status: 409 }
+      )
+    }
+
+    const conflict = await findMappingConflict(user.id, platformMappings)
+
+    if (conflict) {
+      return NextResponse.json(
+        { error: `${conflict.platform} location ${conflict.platformLocationId} is already mapped to ${conflict.location.name}` },
+        { status: 409 }
+      )
+    }
+
+    // The first location becomes the default and takes over all existing stock
+    const isFirst = (await prisma.location.count({ where: { userId: user.id } })) === 0
+    const isDefault = isFirst || validatedData.isDefault
+
+    const location = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.location.updateMany({
+          where: { userId: user.id },
+          data: { isDefault: false },
+        })
+      }
+
+      return await tx.location.create({
+        data: {
+          ...validatedData,
+          isDefault,
+          userId: user.id,
+          platformMappings: {
+            create: platformMappings,
+          },
+        },
+        include: { platformMappings: true },
+      })
+    })
+
+    if (isFirst) {
+      await new InventoryLedger(user.id).assignUnlocatedStock(location.id)
+    }
+
+    return NextResponse.json({ location }, { status: 201 })
+  } catch (error) {
+    console.error("Create location error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create location" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { InsufficientStockError, InventoryLedger } from "@/lib/inventory/ledger"
+import { InventorySyncEngine, InventorySyncResult } from "@/lib/sync/inventory-sync"
+import { inventoryTransferSchema } from "@/lib/validations/inventory"
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = inventoryTransferSchema.parse(body)
+
+    const [product, locations] = await Promise.all([
+      prisma.product.findFirst({
+        where: { id: validatedData.productId, userId: user.id },
+      }),
+      prisma.location.count({
+        where: {
+          id: { in: [validatedData.fromLocationId, validatedData.toLocationId] },
+          userId: user.id,
+        },
+      }),
+    ])
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      )
+    }
+
+    if (locations !== 2) {
+      return NextResponse.json(
+        { error: "Location not found" },
+        { status: 404 }
+      )
+    }
+
+    const levels = await new InventoryLedger(user.id).transfer(
+      product.id,
+      validatedData.fromLocationId,
+      validatedData.toLocationId,
+      validatedData.quantity,
+      { reason: validatedData.reason || "Transfer" }
+    )
+
+    // Platforms with mapped locations list stock per location, so they need the new split
+    let syncResults: InventorySyncResult[] = []
+    if (validatedData.platforms.length > 0) {
+      syncResults = await new InventorySyncEngine(user.id).syncInventoryToPlatforms(
+        product.id,
+        validatedData.platforms
+      )
+    }
+
+    return NextResponse.json({ levels, syncResults })
+  } catch (error) {
+    console.error("Inventory transfer error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to transfer inventory" },
+      { status: 500 }
+    )
+  }
+}
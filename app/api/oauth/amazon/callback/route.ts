@@ -8,6 +8,7 @@ export async function GET(req: NextRequest) {
   try {
     const searchParams = req.nextUrl.searchParams
     const code = searchParams.get("spapi_oauth_code")
+    const sellingPartnerId = searchParams.get("selling_partner_id")
     const state = searchParams.get("state")
     const error = searchParams.get("error")
 
@@ -39,6 +40,10 @@ export async function GET(req: NextRequest) {
         accessToken,
         refreshToken,
         expiresAt,
+      },
+      {
+        // Identifies the seller in SP-API notifications
+        sellerId: sellingPartnerId,
       }
     )
 
@@ -55,6 +55,7 @@ export async function GET(req: NextRequest) {
         expiresAt,
       },
       {
+        shopId: shops[0]?.shop_id?.toString(),
         shops: shops.map((shop: any) => ({
           shopId: shop.shop_id,
           shopName: shop.shop_name,
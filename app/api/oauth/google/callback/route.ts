@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { Platform } from "@prisma/client"
 import { getCurrentUser } from "@/lib/auth/session"
-import { exchangeCodeForToken } from "@/lib/integrations/google/oauth"
+import { exchangeCodeForToken, getMerchantId } from "@/lib/integrations/google/oauth"
 import { storePlatformConnection } from "@/lib/integrations/connection-manager"
 
 export async function GET(req: NextRequest) {
@@ -32,6 +32,15 @@ export async function GET(req: NextRequest) {
 
     const expiresAt = new Date(Date.now() + expiresIn * 1000)
 
+    // The Content API addresses every call by Merchant Center account
+    let merchantId
+    try {
+      merchantId = await getMerchantId(accessToken)
+    } catch (err) {
+      console.error("Failed to fetch Google merchant account:", err)
+      merchantId = null
+    }
+
     await storePlatformConnection(
       user.id,
       Platform.GOOGLE_SHOPPING,
@@ -39,6 +48,9 @@ export async function GET(req: NextRequest) {
         accessToken,
         refreshToken,
         expiresAt,
+      },
+      {
+        merchantId,
       }
     )
 
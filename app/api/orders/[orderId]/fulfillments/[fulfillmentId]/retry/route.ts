@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { FulfillmentSyncEngine } from "@/lib/sync/fulfillment-sync"
+import { FULFILLMENT_SUBMISSION_STATUS } from "@/types/order"
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string; fulfillmentId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const fulfillment = await prisma.fulfillment.findFirst({
+      where: {
+        id: params.fulfillmentId,
+        orderId: params.orderId,
+        order: { userId: user.id },
+      },
+    })
+
+    if (!fulfillment) {
+      return NextResponse.json(
+        { error: "Fulfillment not found" },
+        { status: 404 }
+      )
+    }
+
+    if (fulfillment.status !== FULFILLMENT_SUBMISSION_STATUS.FAILED) {
+      return NextResponse.json(
+        { error: "Only failed fulfillments can be retried" },
+        { status: 409 }
+      )
+    }
+
+    const updated = await new FulfillmentSyncEngine(user.id).submitFulfillment(fulfillment.id)
+
+    // Another request or the fulfillment agent claimed it first
+    if (updated.status === FULFILLMENT_SUBMISSION_STATUS.SUBMITTING) {
+      return NextResponse.json(
+        { error: "Fulfillment is already being submitted" },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ fulfillment: updated })
+  } catch (error) {
+    console.error("Retry fulfillment error:", error)
+    return NextResponse.json(
+      { error: "Failed to retry fulfillment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { InvalidTransitionError } from "@/lib/orders/lifecycle"
+import { FulfillmentQuantityError, FulfillmentSyncEngine } from "@/lib/sync/fulfillment-sync"
+import { fulfillmentSchema } from "@/lib/validations/order"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const fulfillments = await prisma.fulfillment.findMany({
+      where: { orderId: order.id },
+      include: { items: true },
+      orderBy: { createdAt: "asc" },
+    })
+
+    return NextResponse.json({ fulfillments })
+  } catch (error) {
+    console.error("Get fulfillments error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch fulfillments" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Ship some or all of an order's items and send the tracking to the marketplace.
+ * The fulfillment is returned as FAILED with the platform's error when the marketplace rejects it.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = fulfillmentSchema.parse(body)
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const fulfillment = await new FulfillmentSyncEngine(user.id).createFulfillment(order.id, validatedData)
+
+    return NextResponse.json({ fulfillment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof FulfillmentQuantityError || error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error("Create fulfillment error:", error)
+    return NextResponse.json(
+      { error: "Failed to create fulfillment" },
+      { status: 500 }
+    )
+  }
+}
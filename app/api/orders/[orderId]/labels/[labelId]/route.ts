@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+
+/**
+ * The label PDF
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { orderId: string; labelId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const label = await prisma.shippingLabel.findFirst({
+      where: {
+        id: params.labelId,
+        orderId: params.orderId,
+        order: { userId: user.id },
+      },
+    })
+
+    if (!label) {
+      return NextResponse.json(
+        { error: "Shipping label not found" },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(label.labelPdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="label-${label.trackingNumber}.pdf"`,
+      },
+    })
+  } catch (error) {
+    console.error("Get shipping label error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch shipping label" },
+      { status: 500 }
+    )
+  }
+}
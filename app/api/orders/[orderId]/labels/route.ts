@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { LabelExistsError, ShipmentDetailsError, ShippingLabelService, labelSummarySelect } from "@/lib/shipping/labels"
+import { CarrierApiError } from "@/lib/tracking/carrier-client"
+import { labelPurchaseSchema } from "@/lib/validations/shipping"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const labels = await prisma.shippingLabel.findMany({
+      where: { orderId: order.id },
+      select: labelSummarySelect,
+      orderBy: { createdAt: "asc" },
+    })
+
+    return NextResponse.json({ labels })
+  } catch (error) {
+    console.error("Get shipping labels error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch shipping labels" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Buy a label with one of the quoted rates. Its tracking number goes on the order.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = labelPurchaseSchema.parse(body)
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const label = await new ShippingLabelService(user.id).purchaseLabel(order.id, validatedData)
+
+    return NextResponse.json({ label }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof LabelExistsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    // The carrier turned the shipment down, e.g. for an address it cannot deliver to
+    if (error instanceof ShipmentDetailsError || error instanceof CarrierApiError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error("Purchase shipping label error:", error)
+    return NextResponse.json(
+      { error: "Failed to purchase shipping label" },
+      { status: 500 }
+    )
+  }
+}
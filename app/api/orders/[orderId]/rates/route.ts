@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { ShipmentDetailsError, ShippingLabelService } from "@/lib/shipping/labels"
+import { shippingRateRequestSchema } from "@/lib/validations/shipping"
+
+/**
+ * Shipping rates from every configured carrier, cheapest first
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json().catch(() => ({}))
+
+    const validatedData = shippingRateRequestSchema.parse(body)
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const quote = await new ShippingLabelService(user.id).quoteRates(order.id, validatedData.parcel)
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ShipmentDetailsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error("Get shipping rates error:", error)
+    return NextResponse.json(
+      { error: "Failed to get shipping rates" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
 import { requireAuth } from "@/lib/auth/session"
 import { prisma } from "@/lib/db/client"
+import { InvalidTransitionError, OrderLifecycle, canTransition } from "@/lib/orders/lifecycle"
+import { FulfillmentQuantityError, FulfillmentSyncEngine } from "@/lib/sync/fulfillment-sync"
 import { orderUpdateSchema } from "@/lib/validations/order"
+import { ORDER_ACTOR_TYPE, ORDER_STATUS } from "@/types/order"
 
 export async function GET(
   req: NextRequest,
@@ -17,6 +21,13 @@ export async function GET(
       },
       include: {
         items: true,
+        fulfillments: {
+          include: { items: true },
+          orderBy: { createdAt: "asc" },
+        },
+        events: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     })
 
@@ -61,9 +72,48 @@ export async function PUT(
       )
     }
 
-    const updated = await prisma.order.update({
+    const { status, reason, trackingNumber, carrier, shippedAt, notes } = validatedData
+    const actor = { type: ORDER_ACTOR_TYPE.USER, id: user.id }
+
+    if (status && status !== order.status && !canTransition(order.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot move an order from ${order.status} to ${status}` },
+        { status: 409 }
+      )
+    }
+
+    // Shipping with tracking goes through a fulfillment, so the marketplace hears about it too
+    let fulfilled = false
+
+    if (status === ORDER_STATUS.SHIPPED && trackingNumber && carrier) {
+      try {
+        await new FulfillmentSyncEngine(user.id).createFulfillment(
+          order.id,
+          { trackingNumber, carrier, shippedAt },
+          actor
+        )
+        fulfilled = true
+      } catch (error) {
+        // Everything has shipped already, only the local fields change
+        if (!(error instanceof FulfillmentQuantityError)) throw error
+      }
+    }
+
+    const changes = fulfilled ? { notes } : { trackingNumber, carrier, shippedAt, notes }
+
+    // A fulfillment that shipped everything has moved the order already. The other fields are
+    // written with the status, so a move that is turned down leaves the order as it was.
+    if (status) {
+      await new OrderLifecycle(user.id).transition(order.id, status, actor, { reason, changes })
+    } else {
+      await prisma.order.update({
+        where: { id: params.orderId },
+        data: changes,
+      })
+    }
+
+    const updated = await prisma.order.findUnique({
       where: { id: params.orderId },
-      data: validatedData,
       include: {
         items: true,
       },
@@ -71,6 +121,20 @@ export async function PUT(
 
     return NextResponse.json({ order: updated })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
     console.error("Update order error:", error)
     return NextResponse.json(
       { error: "Failed to update order" },
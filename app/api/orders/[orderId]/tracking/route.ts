@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+
+/**
+ * Carrier status of each of the order's shipments with every scan seen so far, oldest first
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: params.orderId,
+        userId: user.id,
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      )
+    }
+
+    const [shipments, events] = await Promise.all([
+      prisma.fulfillment.findMany({
+        where: { orderId: order.id },
+        select: {
+          id: true,
+          trackingNumber: true,
+          carrier: true,
+          trackingUrl: true,
+          shippedAt: true,
+          trackingStatus: true,
+          estimatedDeliveryAt: true,
+          deliveredAt: true,
+          lastTrackedAt: true,
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.trackingEvent.findMany({
+        where: { orderId: order.id },
+        orderBy: { occurredAt: "asc" },
+      }),
+    ])
+
+    return NextResponse.json({ shipments, events })
+  } catch (error) {
+    console.error("Get order tracking error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch order tracking" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Platform, Prisma } from "@prisma/client"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { queueOrderSync } from "@/lib/queue/jobs"
+import { orderBackfillSchema } from "@/lib/validations/order"
+
+/**
+ * Queue a one-off import of historical orders. Progress is reported on the returned sync job.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = orderBackfillSchema.parse(body)
+    const platforms = validatedData.platforms as Platform[]
+
+    // Two backfills of the same history would only repeat each other's work
+    const running = await prisma.syncJob.findFirst({
+      where: {
+        userId: user.id,
+        type: "ORDER_SYNC",
+        status: { in: ["pending", "running"] },
+        params: { path: ["mode"], equals: "backfill" },
+      },
+    })
+
+    if (running) {
+      return NextResponse.json(
+        { error: "An order backfill is already in progress", syncJobId: running.id },
+        { status: 409 }
+      )
+    }
+
+    const params = {
+      mode: "backfill" as const,
+      platforms,
+      startDate: validatedData.startDate,
+      endDate: validatedData.endDate,
+    }
+
+    const syncJob = await prisma.syncJob.create({
+      data: {
+        userId: user.id,
+        type: "ORDER_SYNC",
+        platform: platforms[0], // Primary platform
+        status: "pending",
+        params: params as Prisma.InputJsonObject,
+      },
+    })
+
+    await queueOrderSync({ ...params, userId: user.id, syncJobId: syncJob.id })
+
+    return NextResponse.json({ syncJob }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error("Order backfill error:", error)
+    return NextResponse.json(
+      { error: "Failed to start order backfill" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { ShipmentDetailsError, ShippingLabelService } from "@/lib/shipping/labels"
+import { labelPrintSchema } from "@/lib/validations/shipping"
+
+/**
+ * The labels of several orders in one PDF, which marks them printed
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = labelPrintSchema.parse(body)
+
+    const { pdf } = await new ShippingLabelService(user.id).printLabels(validatedData)
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="labels-${new Date().toISOString().slice(0, 10)}.pdf"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ShipmentDetailsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error("Print shipping labels error:", error)
+    return NextResponse.json(
+      { error: "Failed to print shipping labels" },
+      { status: 500 }
+    )
+  }
+}
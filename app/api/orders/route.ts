@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth/session"
 import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { reconcileOrderStock } from "@/lib/inventory/order-stock"
+import { createdEvent } from "@/lib/orders/lifecycle"
+import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
 import { orderSchema } from "@/lib/validations/order"
+import { ORDER_ACTOR_TYPE } from "@/types/order"
 
 export async function GET(req: NextRequest) {
   try {
@@ -89,28 +94,56 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const order = await prisma.order.create({
+    const ledger = new InventoryLedger(user.id)
+    const targets = await Promise.all(validatedData.items.map((item) => ledger.resolveSku(item.sku)))
+
+    const created = await prisma.order.create({
       data: {
         userId: user.id,
         platform: validatedData.platform as any,
         platformOrderId: validatedData.platformOrderId,
+        platformOrderNumber: validatedData.platformOrderNumber,
         status: validatedData.status,
+        paymentStatus: validatedData.paymentStatus,
+        fulfillmentStatus: validatedData.fulfillmentStatus,
         customerName: validatedData.customerName,
         customerEmail: validatedData.customerEmail,
         shippingAddress: validatedData.shippingAddress,
+        billingAddress: validatedData.billingAddress,
+        subtotal: validatedData.subtotal,
+        tax: validatedData.tax,
+        shipping: validatedData.shipping,
         total: validatedData.total,
         currency: validatedData.currency,
         orderDate: validatedData.orderDate,
         items: {
-          create: validatedData.items.map((item) => ({
+          create: validatedData.items.map((item, index) => ({
+            productId: targets[index]?.productId,
+            variantId: targets[index]?.variantId,
             sku: item.sku,
             title: item.title,
             quantity: item.quantity,
             price: item.price,
+            total: item.total ?? item.price * item.quantity,
             platformItemId: item.platformItemId,
+            // The parent SKU of a product with variants does not say whose stock to take
+            stockDeducted: targets[index]?.tracked === false ? null : 0,
           })),
         },
+        events: {
+          create: createdEvent(validatedData.status, { type: ORDER_ACTOR_TYPE.USER, id: user.id }, "Entered manually"),
+        },
       },
+    })
+
+    // Take the sold units from stock and tell every channel about it
+    const changed = await reconcileOrderStock(user.id, created.id)
+    if (changed.length) {
+      await new InventorySyncEngine(user.id).pushStockChanges(changed)
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: created.id },
       include: {
         items: true,
       },
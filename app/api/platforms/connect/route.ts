@@ -6,12 +6,18 @@ import { getAmazonAuthUrl } from "@/lib/integrations/amazon/oauth"
 import { getEtsyAuthUrl, generateCodeVerifier } from "@/lib/integrations/etsy/oauth"
 import { getShopifyAuthUrl } from "@/lib/integrations/shopify/oauth"
 import { getGoogleAuthUrl } from "@/lib/integrations/google/oauth"
+import { verifyCredentials as verifyWooCommerceCredentials } from "@/lib/integrations/woocommerce/credentials"
+import { storePlatformConnection } from "@/lib/integrations/connection-manager"
+import { wooCommerceConnectSchema } from "@/lib/validations/platform"
+import { assertPublicHost } from "@/lib/utils/network"
+import { z } from "zod"
 import crypto from "crypto"
 
 export async function POST(req: NextRequest) {
   try {
     const user = await requireAuth()
-    const { platform, shop } = await req.json()
+    const body = await req.json()
+    const { platform, shop } = body
 
     if (!platform) {
       return NextResponse.json(
@@ -20,6 +26,46 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    // WooCommerce uses per-store REST API keys instead of OAuth
+    if (platform.toUpperCase() === Platform.WOOCOMMERCE) {
+      const { storeUrl, consumerKey, consumerSecret } = wooCommerceConnectSchema.parse(body)
+
+      // The keys are sent to the store, which must not be this server or its network
+      try {
+        await assertPublicHost(storeUrl)
+      } catch (err) {
+        console.error("WooCommerce store address rejected:", err)
+        return NextResponse.json(
+          { error: "Store URL must point to a public address" },
+          { status: 400 }
+        )
+      }
+
+      let store
+      try {
+        store = await verifyWooCommerceCredentials(storeUrl, consumerKey, consumerSecret)
+      } catch (err) {
+        console.error("WooCommerce credential check failed:", err)
+        return NextResponse.json(
+          { error: "Could not connect to the store with these API keys" },
+          { status: 400 }
+        )
+      }
+
+      // Consumer key/secret are stored in the encrypted token columns
+      await storePlatformConnection(
+        user.id,
+        Platform.WOOCOMMERCE,
+        {
+          accessToken: consumerKey,
+          refreshToken: consumerSecret,
+        },
+        store
+      )
+
+      return NextResponse.json({ connected: true })
+    }
+
     // Generate state for CSRF protection
     const state = crypto.randomBytes(32).toString("hex")
 
@@ -74,6 +120,13 @@ export async function POST(req: NextRequest) {
       state,
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
     console.error("Platform connect error:", error)
     return NextResponse.json(
       { error: "Failed to initiate platform connection" },
@@ -1,12 +1,29 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth/session"
 import { getAllPlatformConnections } from "@/lib/integrations/connection-manager"
+import { getWebhookUrl } from "@/lib/integrations/webhook-routing"
+import { getConnectionApiMetrics } from "@/lib/integrations/metrics"
+import { getCircuitStatus } from "@/lib/integrations/transport"
 
 export async function GET(req: NextRequest) {
   try {
     const user = await requireAuth()
 
-    const connections = await getAllPlatformConnections(user.id)
+    const platformConnections = await getAllPlatformConnections(user.id)
+    const apiMetrics = await getConnectionApiMetrics(
+      platformConnections.map((conn) => conn.id),
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    )
+
+    const connections = platformConnections.map((conn) => {
+      const token = (conn.metadata as Record<string, any> | null)?.webhookToken
+      return {
+        ...conn,
+        webhookUrl: token ? getWebhookUrl(req.nextUrl.origin, conn.platform, token) : null,
+        apiMetrics: apiMetrics[conn.id] || null,
+        circuit: getCircuitStatus(conn.id),
+      }
+    })
 
     return NextResponse.json({ connections })
   } catch (error) {
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { Platform, Prisma } from "@prisma/client"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { listingOverrideSchema } from "@/lib/validations/product"
+
+/**
+ * Set what the product's listing on one channel changes from the product. Takes effect
+ * on the next sync to that channel.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { productId: string; platform: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const platform = z.nativeEnum(Platform).parse(params.platform.toUpperCase())
+    const validatedData = listingOverrideSchema.parse(body)
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.productId,
+        userId: user.id,
+      },
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      )
+    }
+
+    const unknownImages = (validatedData.images || []).filter((url) => !product.images.includes(url))
+    if (unknownImages.length) {
+      return NextResponse.json(
+        { error: "Listings can only use the product's own images" },
+        { status: 400 }
+      )
+    }
+
+    const { itemSpecifics, ...fields } = validatedData
+    const data = {
+      ...fields,
+      ...(itemSpecifics !== undefined ? { itemSpecifics: itemSpecifics === null ? Prisma.DbNull : itemSpecifics } : {}),
+    }
+
+    const override = await prisma.listingOverride.upsert({
+      where: { productId_platform: { productId: product.id, platform } },
+      create: { ...data, productId: product.id, platform },
+      update: data,
+    })
+
+    return NextResponse.json({ override })
+  } catch (error) {
+    console.error("Update listing override error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update listing override" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Drop the override, the listing follows the product again
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { productId: string; platform: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const platform = z.nativeEnum(Platform).safeParse(params.platform.toUpperCase())
+
+    const override = platform.success
+      ? await prisma.listingOverride.findFirst({
+          where: {
+            productId: params.productId,
+            platform: platform.data,
+            product: { userId: user.id },
+          },
+        })
+      : null
+
+    if (!override) {
+      return NextResponse.json(
+        { error: "Listing override not found" },
+        { status: 404 }
+      )
+    }
+
+    await prisma.listingOverride.delete({
+      where: { id: override.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete listing override error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete listing override" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { buildListingProduct, getListingDivergence } from "@/lib/products/listings"
+import { checkListingAttributes } from "@/lib/taxonomy/attributes"
+
+/**
+ * What each channel lists for the product, where that differs from the product and
+ * which attributes its marketplace category still needs
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.productId,
+        userId: user.id,
+      },
+      include: {
+        platformListings: true,
+        listingOverrides: true,
+        variants: { orderBy: { position: "asc" } },
+      },
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      )
+    }
+
+    const rules = await prisma.pricingRule.findMany({
+      where: { userId: user.id },
+    })
+
+    const listings = await Promise.all(
+      getListingDivergence(product, rules).map(async (divergence) => {
+        const listed = await buildListingProduct(product, divergence.platform)
+
+        return {
+          ...divergence,
+          override: product.listingOverrides.find((o) => o.platform === divergence.platform) || null,
+          content: {
+            title: listed.title,
+            description: listed.description,
+            price: listed.price,
+            compareAtPrice: listed.compareAtPrice,
+            category: listed.category,
+            images: listed.images,
+            itemSpecifics: listed.itemSpecifics,
+          },
+          attributes: checkListingAttributes(listed, divergence.platform),
+        }
+      })
+    )
+
+    return NextResponse.json({ listings })
+  } catch (error) {
+    console.error("Get product listings error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch product listings" },
+      { status: 500 }
+    )
+  }
+}
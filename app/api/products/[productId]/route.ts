@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
+import { InventoryChange } from "@prisma/client"
 import { requireAuth } from "@/lib/auth/session"
 import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
 import { productUpdateSchema } from "@/lib/validations/product"
 
 export async function GET(
@@ -17,6 +19,7 @@ export async function GET(
       },
       include: {
         platformListings: true,
+        variants: { orderBy: { position: "asc" } },
         inventoryLogs: {
           take: 10,
           orderBy: { createdAt: "desc" },
@@ -56,6 +59,7 @@ export async function PUT(
         id: params.productId,
         userId: user.id,
       },
+      include: { _count: { select: { variants: true } } },
     })
 
     if (!product) {
@@ -65,9 +69,44 @@ export async function PUT(
       )
     }
 
+    const ledger = new InventoryLedger(user.id)
+
+    // SKUs are unique per seller, across products and their variants
+    if (validatedData.sku && validatedData.sku !== product.sku && (await ledger.resolveSku(validatedData.sku))) {
+      return NextResponse.json(
+        { error: "Product with this SKU already exists" },
+        { status: 400 }
+      )
+    }
+
+    // The variants' stock and option values are changed on the variants
+    if (product._count.variants) {
+      if (validatedData.quantity !== undefined && validatedData.quantity !== product.quantity) {
+        return NextResponse.json(
+          { error: "Stock of a product with variants is changed per variant" },
+          { status: 400 }
+        )
+      }
+
+      if (validatedData.options && validatedData.options.join() !== product.options.join()) {
+        return NextResponse.json(
+          { error: "Options cannot change while the product has variants" },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Stock changes go through the inventory ledger so they are logged
+    const { quantity, ...productData } = validatedData
+    if (quantity !== undefined && !product._count.variants) {
+      await ledger.setQuantity(product.id, quantity, InventoryChange.ADJUSTMENT, {
+        reason: "Manual update",
+      })
+    }
+
     const updated = await prisma.product.update({
       where: { id: params.productId },
-      data: validatedData,
+      data: productData,
     })
 
     return NextResponse.json({ product: updated })
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { ProductVariantError, ProductVariantService } from "@/lib/products/variants"
+import { productVariantUpdateSchema } from "@/lib/validations/product"
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { productId: string; variantId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = productVariantUpdateSchema.parse(body)
+
+    const variant = await prisma.productVariant.findFirst({
+      where: {
+        id: params.variantId,
+        productId: params.productId,
+        userId: user.id,
+      },
+    })
+
+    if (!variant) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      )
+    }
+
+    const updated = await new ProductVariantService(user.id).update(variant.productId, variant.id, validatedData)
+
+    return NextResponse.json({ variant: updated })
+  } catch (error) {
+    console.error("Update product variant error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProductVariantError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update product variant" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove a variant, its stock is counted out of the product first
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { productId: string; variantId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const variant = await prisma.productVariant.findFirst({
+      where: {
+        id: params.variantId,
+        productId: params.productId,
+        userId: user.id,
+      },
+    })
+
+    if (!variant) {
+      return NextResponse.json(
+        { error: "Variant not found" },
+        { status: 404 }
+      )
+    }
+
+    await new ProductVariantService(user.id).remove(variant.productId, variant.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete product variant error:", error)
+
+    if (error instanceof ProductVariantError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete product variant" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { ProductVariantError, ProductVariantService } from "@/lib/products/variants"
+import { productVariantSchema } from "@/lib/validations/product"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.productId,
+        userId: user.id,
+      },
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      )
+    }
+
+    const variants = await new ProductVariantService(user.id).list(product.id)
+
+    return NextResponse.json({ variants })
+  } catch (error) {
+    console.error("Get product variants error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch product variants" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a variant, with its opening stock. Its option values must cover the product's options.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = productVariantSchema.parse(body)
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.productId,
+        userId: user.id,
+      },
+    })
+
+    if (!product) {
+      return NextResponse.json(
+        { error: "Product not found" },
+        { status: 404 }
+      )
+    }
+
+    const [variant] = await new ProductVariantService(user.id).create(product.id, [validatedData])
+
+    return NextResponse.json({ variant }, { status: 201 })
+  } catch (error) {
+    console.error("Create product variant error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProductVariantError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create product variant" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { findMarketplaceCategory } from "@/lib/taxonomy/marketplace-categories"
+import { categoryMappingUpdateSchema } from "@/lib/validations/product"
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { mappingId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = categoryMappingUpdateSchema.parse(body)
+
+    const mapping = await prisma.categoryMapping.findFirst({
+      where: {
+        id: params.mappingId,
+        userId: user.id,
+      },
+    })
+
+    if (!mapping) {
+      return NextResponse.json(
+        { error: "Category mapping not found" },
+        { status: 404 }
+      )
+    }
+
+    const known = findMarketplaceCategory(mapping.platform, validatedData.platformCategoryId)
+    const updated = await prisma.categoryMapping.update({
+      where: { id: mapping.id },
+      data: {
+        platformCategoryId: validatedData.platformCategoryId,
+        platformCategoryName: validatedData.platformCategoryName || known?.name || null,
+      },
+    })
+
+    return NextResponse.json({ mapping: updated })
+  } catch (error) {
+    console.error("Update category mapping error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update category mapping" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { mappingId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const mapping = await prisma.categoryMapping.findFirst({
+      where: {
+        id: params.mappingId,
+        userId: user.id,
+      },
+    })
+
+    if (!mapping) {
+      return NextResponse.json(
+        { error: "Category mapping not found" },
+        { status: 404 }
+      )
+    }
+
+    await prisma.categoryMapping.delete({
+      where: { id: mapping.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete category mapping error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete category mapping" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { findMarketplaceCategory } from "@/lib/taxonomy/marketplace-categories"
+import { categoryMappingSchema } from "@/lib/validations/product"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const mappings = await prisma.categoryMapping.findMany({
+      where: { userId: user.id },
+      orderBy: [{ category: "asc" }, { platform: "asc" }],
+    })
+
+    return NextResponse.json({
+      mappings: mappings.map((mapping) => ({
+        ...mapping,
+        // Null for categories whose attributes we do not know
+        marketplaceCategory: findMarketplaceCategory(mapping.platform, mapping.platformCategoryId) || null,
+      })),
+    })
+  } catch (error) {
+    console.error("Get category mappings error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch category mappings" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Map one of the user's categories to a marketplace category. IDs outside the known
+ * categories are taken as is, their listings sync without an attribute check.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = categoryMappingSchema.parse(body)
+
+    const existing = await prisma.categoryMapping.findUnique({
+      where: {
+        userId_category_platform: {
+          userId: user.id,
+          category: validatedData.category,
+          platform: validatedData.platform,
+        },
+      },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "This category is already mapped for the platform" },
+        { status: 409 }
+      )
+    }
+
+    const known = findMarketplaceCategory(validatedData.platform, validatedData.platformCategoryId)
+    const mapping = await prisma.categoryMapping.create({
+      data: {
+        ...validatedData,
+        platformCategoryName: validatedData.platformCategoryName || known?.name,
+        userId: user.id,
+      },
+    })
+
+    return NextResponse.json({ mapping }, { status: 201 })
+  } catch (error) {
+    console.error("Create category mapping error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create category mapping" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { CatalogImportEngine, CatalogImportError } from "@/lib/sync/catalog-import"
+
+/**
+ * Link and create the reviewed listings. Listings that fail keep their error and can be
+ * committed again once fixed.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { importId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const catalogImport = await prisma.catalogImport.findFirst({
+      where: {
+        id: params.importId,
+        userId: user.id,
+      },
+    })
+
+    if (!catalogImport) {
+      return NextResponse.json(
+        { error: "Catalog import not found" },
+        { status: 404 }
+      )
+    }
+
+    const result = await new CatalogImportEngine(user.id).commit(catalogImport.id)
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    if (error instanceof CatalogImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error("Commit catalog import error:", error)
+    return NextResponse.json(
+      { error: "Failed to commit catalog import" },
+      { status: 500 }
+    )
+  }
+}
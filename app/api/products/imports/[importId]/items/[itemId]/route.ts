@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { CatalogImportEngine, CatalogImportError } from "@/lib/sync/catalog-import"
+import { catalogItemUpdateSchema } from "@/lib/validations/catalog-import"
+
+/**
+ * Resolve a listing during review: the product it links to, whether it is linked,
+ * created or skipped, and which side wins for fields that differ
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { importId: string; itemId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = catalogItemUpdateSchema.parse(body)
+
+    const item = await prisma.catalogImportItem.findFirst({
+      where: {
+        id: params.itemId,
+        importId: params.importId,
+        catalogImport: { userId: user.id },
+      },
+    })
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Catalog import item not found" },
+        { status: 404 }
+      )
+    }
+
+    const updated = await new CatalogImportEngine(user.id).updateItem(item.importId, item.id, validatedData)
+
+    return NextResponse.json({ item: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof CatalogImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error("Update catalog import item error:", error)
+    return NextResponse.json(
+      { error: "Failed to update catalog import item" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { CatalogImportEngine } from "@/lib/sync/catalog-import"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { importId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const catalogImport = await prisma.catalogImport.findFirst({
+      where: {
+        id: params.importId,
+        userId: user.id,
+      },
+    })
+
+    if (!catalogImport) {
+      return NextResponse.json(
+        { error: "Catalog import not found" },
+        { status: 404 }
+      )
+    }
+
+    const [review, syncJob] = await Promise.all([
+      new CatalogImportEngine(user.id).getReview(catalogImport.id),
+      catalogImport.syncJobId
+        ? prisma.syncJob.findUnique({ where: { id: catalogImport.syncJobId } })
+        : null,
+    ])
+
+    return NextResponse.json({ ...review, syncJob })
+  } catch (error) {
+    console.error("Get catalog import error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch catalog import" },
+      { status: 500 }
+    )
+  }
+}
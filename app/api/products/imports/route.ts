@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { PlatformNotConnectedError } from "@/lib/integrations/errors"
+import { queueCatalogImport } from "@/lib/queue/jobs"
+import { CatalogImportEngine } from "@/lib/sync/catalog-import"
+import { catalogImportSchema } from "@/lib/validations/catalog-import"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const imports = await prisma.catalogImport.findMany({
+      where: { userId: user.id },
+      include: { _count: { select: { items: true } } },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    })
+
+    return NextResponse.json({ imports })
+  } catch (error) {
+    console.error("Get catalog imports error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch catalog imports" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Start pulling a platform's catalog in. The listings are fetched in the background
+ * and the import moves to REVIEW once they are all matched.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const { platform } = catalogImportSchema.parse(body)
+
+    const catalogImport = await new CatalogImportEngine(user.id).createImport(platform)
+
+    await queueCatalogImport({
+      userId: user.id,
+      importId: catalogImport.id,
+      platform,
+    })
+
+    return NextResponse.json({ catalogImport }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof PlatformNotConnectedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error("Start catalog import error:", error)
+    return NextResponse.json(
+      { error: "Failed to start catalog import" },
+      { status: 500 }
+    )
+  }
+}
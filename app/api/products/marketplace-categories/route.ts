@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { Platform } from "@prisma/client"
+import { requireAuth } from "@/lib/auth/session"
+import { CATEGORY_PLATFORMS, searchMarketplaceCategories } from "@/lib/taxonomy/marketplace-categories"
+
+/**
+ * Known categories of a marketplace with the attributes they ask for, to pick a mapping from
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireAuth()
+    const searchParams = req.nextUrl.searchParams
+
+    const platform = z.nativeEnum(Platform).parse(searchParams.get("platform")?.toUpperCase())
+
+    if (!CATEGORY_PLATFORMS.includes(platform)) {
+      return NextResponse.json(
+        { error: `${platform} has no category tree to map to` },
+        { status: 400 }
+      )
+    }
+
+    const categories = searchMarketplaceCategories(platform, searchParams.get("search") || undefined)
+
+    return NextResponse.json({ categories })
+  } catch (error) {
+    console.error("Get marketplace categories error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch marketplace categories" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { pricingRuleUpdateSchema } from "@/lib/validations/product"
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = pricingRuleUpdateSchema.parse(body)
+
+    const rule = await prisma.pricingRule.findFirst({
+      where: {
+        id: params.ruleId,
+        userId: user.id,
+      },
+    })
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Pricing rule not found" },
+        { status: 404 }
+      )
+    }
+
+    const updated = await prisma.pricingRule.update({
+      where: { id: rule.id },
+      data: validatedData,
+    })
+
+    return NextResponse.json({ rule: updated })
+  } catch (error) {
+    console.error("Update pricing rule error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update pricing rule" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const rule = await prisma.pricingRule.findFirst({
+      where: {
+        id: params.ruleId,
+        userId: user.id,
+      },
+    })
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Pricing rule not found" },
+        { status: 404 }
+      )
+    }
+
+    await prisma.pricingRule.delete({
+      where: { id: rule.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete pricing rule error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete pricing rule" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { pricingRuleSchema } from "@/lib/validations/product"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const rules = await prisma.pricingRule.findMany({
+      where: { userId: user.id },
+      orderBy: [{ platform: "asc" }, { createdAt: "asc" }],
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error("Get pricing rules error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch pricing rules" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = pricingRuleSchema.parse(body)
+
+    // Checked explicitly since unique indexes do not cover the all-products rule's null category
+    const existing = await prisma.pricingRule.findFirst({
+      where: {
+        userId: user.id,
+        platform: validatedData.platform,
+        category: validatedData.category ?? null,
+      },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A pricing rule already exists for this channel and category" },
+        { status: 409 }
+      )
+    }
+
+    const rule = await prisma.pricingRule.create({
+      data: {
+        ...validatedData,
+        userId: user.id,
+      },
+    })
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error("Create pricing rule error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create pricing rule" },
+      { status: 500 }
+    )
+  }
+}
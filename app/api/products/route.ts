@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requireAuth } from "@/lib/auth/session"
 import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { getListingDivergence } from "@/lib/products/listings"
+import { ProductVariantError, ProductVariantService } from "@/lib/products/variants"
 import { productSchema } from "@/lib/validations/product"
 
 export async function GET(req: NextRequest) {
@@ -21,6 +24,7 @@ export async function GET(req: NextRequest) {
       where.OR = [
         { title: { contains: search, mode: "insensitive" } },
         { sku: { contains: search, mode: "insensitive" } },
+        { variants: { some: { sku: { contains: search, mode: "insensitive" } } } },
       ]
     }
 
@@ -38,8 +42,11 @@ export async function GET(req: NextRequest) {
               platformProductId: true,
               status: true,
               lastSyncedAt: true,
+              syncErrors: true,
             },
           },
+          variants: { orderBy: { position: "asc" } },
+          listingOverrides: true,
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -48,8 +55,15 @@ export async function GET(req: NextRequest) {
       prisma.product.count({ where }),
     ])
 
+    const rules = await prisma.pricingRule.findMany({
+      where: { userId: user.id },
+    })
+
     return NextResponse.json({
-      products,
+      products: products.map((product) => ({
+        ...product,
+        listingDivergence: getListingDivergence(product, rules),
+      })),
       pagination: {
         page,
         limit,
@@ -73,29 +87,50 @@ export async function POST(req: NextRequest) {
 
     const validatedData = productSchema.parse(body)
 
-    // Check if SKU already exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { sku: validatedData.sku },
-    })
+    const ledger = new InventoryLedger(user.id)
+    const variantService = new ProductVariantService(user.id)
 
-    if (existingProduct) {
+    // SKUs are unique per seller, across products and their variants
+    if (await ledger.resolveSku(validatedData.sku)) {
       return NextResponse.json(
         { error: "Product with this SKU already exists" },
         { status: 400 }
       )
     }
 
+    const { quantity, variants, ...productData } = validatedData
+    if (variants?.length) {
+      await variantService.checkVariants(productData.options, variants, [], [validatedData.sku])
+    }
+
     const product = await prisma.product.create({
       data: {
-        ...validatedData,
+        ...productData,
         userId: user.id,
       },
     })
 
-    return NextResponse.json({ product }, { status: 201 })
+    // Opening stock is booked through the inventory ledger so it is logged. A product
+    // with variants holds the sum of theirs.
+    if (variants?.length) {
+      const created = await variantService.create(product.id, variants)
+      const total = created.reduce((sum, variant) => sum + variant.quantity, 0)
+
+      return NextResponse.json({ product: { ...product, quantity: total, variants: created } }, { status: 201 })
+    }
+
+    if (quantity > 0) {
+      await ledger.restock(product.id, quantity, { reason: "Initial stock" })
+    }
+
+    return NextResponse.json({ product: { ...product, quantity } }, { status: 201 })
   } catch (error) {
     console.error("Create product error:", error)
 
+    if (error instanceof ProductVariantError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     if (error instanceof Error && error.name === "ZodError") {
       return NextResponse.json(
         { error: "Validation error", details: error },
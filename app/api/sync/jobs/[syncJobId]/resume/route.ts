@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import {
+  CatalogImportJobData,
+  InventorySyncJobData,
+  OrderSyncJobData,
+  queueCatalogImport,
+  queueInventorySync,
+  queueOrderSync,
+} from "@/lib/queue/jobs"
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { syncJobId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const syncJob = await prisma.syncJob.findFirst({
+      where: {
+        id: params.syncJobId,
+        userId: user.id,
+      },
+    })
+
+    if (!syncJob) {
+      return NextResponse.json(
+        { error: "Sync job not found" },
+        { status: 404 }
+      )
+    }
+
+    if (syncJob.status !== "failed") {
+      return NextResponse.json(
+        { error: "Only failed sync jobs can be resumed" },
+        { status: 409 }
+      )
+    }
+
+    // Only imports page through platforms and keep a checkpoint
+    const jobParams = syncJob.params as Prisma.JsonObject | null
+    const resumable =
+      jobParams &&
+      (syncJob.type === "ORDER_SYNC" ||
+        syncJob.type === "CATALOG_IMPORT" ||
+        (syncJob.type === "INVENTORY_SYNC" && jobParams.action === "import"))
+
+    if (!resumable) {
+      return NextResponse.json(
+        { error: "This sync job cannot be resumed" },
+        { status: 400 }
+      )
+    }
+
+    await prisma.syncJob.update({
+      where: { id: syncJob.id },
+      data: { status: "pending" },
+    })
+
+    // The stored params are the job input without its user and sync job, see beginSyncJob
+    const data = { ...jobParams, userId: user.id, syncJobId: syncJob.id }
+
+    if (syncJob.type === "ORDER_SYNC") {
+      await queueOrderSync(data as OrderSyncJobData)
+    } else if (syncJob.type === "CATALOG_IMPORT") {
+      await queueCatalogImport(data as CatalogImportJobData)
+    } else {
+      await queueInventorySync(data as InventorySyncJobData)
+    }
+
+    return NextResponse.json({ queued: true })
+  } catch (error) {
+    console.error("Resume sync job error:", error)
+    return NextResponse.json(
+      { error: "Failed to resume sync job" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { queueWebhookProcessing } from "@/lib/queue/jobs"
+
+const STUCK_PENDING_MS = 15 * 60 * 1000
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { webhookId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: params.webhookId,
+        userId: user.id,
+      },
+    })
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: "Webhook event not found" },
+        { status: 404 }
+      )
+    }
+
+    // Events left pending that long never made it onto the queue. The status is checked and
+    // reset in one update, so concurrent replays queue the event once.
+    const { count } = await prisma.webhook.updateMany({
+      where: {
+        id: webhook.id,
+        OR: [
+          { status: { notIn: ["pending", "processing"] } },
+          { status: "pending", queuedAt: { lt: new Date(Date.now() - STUCK_PENDING_MS) } },
+        ],
+      },
+      data: {
+        status: "pending",
+        queuedAt: new Date(),
+        error: null,
+        processedAt: null,
+      },
+    })
+
+    if (!count) {
+      return NextResponse.json(
+        { error: "Webhook event is already being processed" },
+        { status: 409 }
+      )
+    }
+
+    await queueWebhookProcessing({
+      webhookId: webhook.id,
+      platform: webhook.platform,
+      event: webhook.event,
+      payload: webhook.payload,
+      userId: user.id,
+    })
+
+    return NextResponse.json({ queued: true })
+  } catch (error) {
+    console.error("Replay webhook error:", error)
+    return NextResponse.json(
+      { error: "Failed to replay webhook event" },
+      { status: 500 }
+    )
+  }
+}
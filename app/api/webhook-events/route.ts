@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const searchParams = req.nextUrl.searchParams
+
+    const page = parseInt(searchParams.get("page") || "1")
+    const limit = parseInt(searchParams.get("limit") || "20")
+    const platform = searchParams.get("platform")
+    const status = searchParams.get("status")
+
+    const skip = (page - 1) * limit
+
+    const where: any = { userId: user.id }
+
+    if (platform) {
+      where.platform = platform
+    }
+
+    if (status) {
+      where.status = status
+    }
+
+    const [webhooks, total] = await Promise.all([
+      prisma.webhook.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.webhook.count({ where }),
+    ])
+
+    return NextResponse.json({
+      webhooks,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get webhook events error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch webhook events" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const searchParams = req.nextUrl.searchParams
+
+    const page = parseInt(searchParams.get("page") || "1")
+    const limit = parseInt(searchParams.get("limit") || "20")
+    const status = searchParams.get("status")
+
+    const skip = (page - 1) * limit
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.subscriptionId,
+        userId: user.id,
+      },
+    })
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: "Webhook subscription not found" },
+        { status: 404 }
+      )
+    }
+
+    const where: any = { subscriptionId: subscription.id }
+
+    if (status) {
+      where.status = status
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ])
+
+    return NextResponse.json({
+      deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error("Get webhook deliveries error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch webhook deliveries" },
+      { status: 500 }
+    )
+  }
+}
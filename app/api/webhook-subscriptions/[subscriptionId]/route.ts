@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { webhookSubscriptionUpdateSchema } from "@/lib/validations/webhook"
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = webhookSubscriptionUpdateSchema.parse(body)
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.subscriptionId,
+        userId: user.id,
+      },
+    })
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: "Webhook subscription not found" },
+        { status: 404 }
+      )
+    }
+
+    const updated = await prisma.webhookSubscription.update({
+      where: { id: subscription.id },
+      data: validatedData,
+      select: {
+        id: true,
+        url: true,
+        events: true,
+        description: true,
+        active: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    })
+
+    return NextResponse.json({ subscription: updated })
+  } catch (error) {
+    console.error("Update webhook subscription error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update webhook subscription" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const user = await requireAuth()
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.subscriptionId,
+        userId: user.id,
+      },
+    })
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: "Webhook subscription not found" },
+        { status: 404 }
+      )
+    }
+
+    await prisma.webhookSubscription.delete({
+      where: { id: subscription.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Delete webhook subscription error:", error)
+    return NextResponse.json(
+      { error: "Failed to delete webhook subscription" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireAuth } from "@/lib/auth/session"
+import { prisma } from "@/lib/db/client"
+import { encrypt, generateToken } from "@/lib/utils/encryption"
+import { webhookSubscriptionSchema } from "@/lib/validations/webhook"
+
+// Never return the encrypted signing secret
+const subscriptionSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { userId: user.id },
+      select: subscriptionSelect,
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ subscriptions })
+  } catch (error) {
+    console.error("Get webhook subscriptions error:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch webhook subscriptions" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = await req.json()
+
+    const validatedData = webhookSubscriptionSchema.parse(body)
+    const secret = generateToken(32)
+
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        ...validatedData,
+        userId: user.id,
+        secret: encrypt(secret),
+      },
+      select: subscriptionSelect,
+    })
+
+    // The secret is only shown once, receivers use it to verify X-Webhook-Signature
+    return NextResponse.json({ subscription, secret }, { status: 201 })
+  } catch (error) {
+    console.error("Create webhook subscription error:", error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create webhook subscription" },
+      { status: 500 }
+    )
+  }
+}
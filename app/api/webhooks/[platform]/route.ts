@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import crypto from "crypto"
-import { Platform } from "@prisma/client"
+import { Platform, Prisma } from "@prisma/client"
 import { queueWebhookProcessing } from "@/lib/queue/jobs"
+import { getWebhookEventId, resolveWebhookUser } from "@/lib/integrations/webhook-routing"
 import { prisma } from "@/lib/db/client"
 
 // Webhook verification functions
@@ -115,28 +116,16 @@ export async function POST(
       )
     }
 
-    // Extract event type and determine userId
+    // Extract event type
     let event = "unknown"
-    let userId = ""
 
     switch (platform) {
       case Platform.SHOPIFY:
         event = req.headers.get("X-Shopify-Topic") || "unknown"
-        const shop = req.headers.get("X-Shopify-Shop-Domain")
-        if (shop) {
-          const connection = await prisma.platformConnection.findFirst({
-            where: {
-              platform: Platform.SHOPIFY,
-              metadata: { path: ["shop"], equals: shop },
-            },
-          })
-          userId = connection?.userId || ""
-        }
         break
 
       case Platform.EBAY:
         event = payload.metadata?.topic || "unknown"
-        // Extract userId from notification payload
         break
 
       case Platform.AMAZON:
@@ -148,7 +137,8 @@ export async function POST(
         break
 
       case Platform.WOOCOMMERCE:
-        event = req.headers.get("X-WC-Webhook-Event") || "unknown"
+        // The topic header carries resource and action, e.g. order.updated
+        event = req.headers.get("X-WC-Webhook-Topic") || "unknown"
         break
 
       case Platform.GOOGLE_SHOPPING:
@@ -156,14 +146,67 @@ export async function POST(
         break
     }
 
-    // Queue webhook for processing
-    if (userId) {
+    const userId = await resolveWebhookUser(
+      platform,
+      req.headers,
+      payload,
+      req.nextUrl.searchParams.get("token")
+    )
+
+    const eventId = getWebhookEventId(platform, req.headers, payload, body)
+
+    // Platforms redeliver events they consider unacknowledged, only the first delivery is processed
+    const existing = await prisma.webhook.findUnique({
+      where: { platform_eventId: { platform, eventId } },
+    })
+
+    if (existing) {
+      return NextResponse.json({ success: true, duplicate: true })
+    }
+
+    let webhook
+    try {
+      webhook = await prisma.webhook.create({
+        data: {
+          userId,
+          platform,
+          eventId,
+          event,
+          payload,
+          // Unroutable deliveries are kept so missing connection identifiers can be diagnosed
+          status: userId ? "pending" : "unmatched",
+        },
+      })
+    } catch (error) {
+      // A concurrent delivery of the same event got stored first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return NextResponse.json({ success: true, duplicate: true })
+      }
+      throw error
+    }
+
+    if (!userId) {
+      console.warn(`No connection found for ${platform} webhook ${event}`)
+      return NextResponse.json({ success: true })
+    }
+
+    // Queue webhook for processing. Without a job the stored event would be acked as a
+    // duplicate on redelivery, so it is dropped and the platform asked to deliver it again.
+    try {
       await queueWebhookProcessing({
+        webhookId: webhook.id,
         platform,
         event,
         payload,
         userId,
       })
+    } catch (error) {
+      console.error(`Failed to queue ${platform} webhook ${event}:`, error)
+      await prisma.webhook.delete({ where: { id: webhook.id } })
+      return NextResponse.json(
+        { error: "Failed to queue webhook" },
+        { status: 503 }
+      )
     }
 
     // Return 200 to acknowledge receipt
@@ -2,6 +2,7 @@ import { BaseAIAgent } from "../base-agent"
 import { AgentDecision } from "@/types/ai-agent"
 import { prisma } from "@/lib/db/client"
 import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
+import { getChannelQuantities } from "@/lib/inventory/allocation"
 
 /**
  * David - Inventory Manager AI
@@ -184,24 +185,24 @@ export class DavidInventoryManager extends BaseAIAgent {
       let adjusted = 0
 
       for (const product of products) {
-        // Calculate total listed quantity across platforms
-        const totalListed = product.platformListings.reduce(
-          (sum, listing) => sum + (listing.quantity || 0),
-          0
+        const allocation = await getChannelQuantities(
+          product,
+          product.platformListings.map((listing) => listing.platform)
         )
 
-        // If total listed exceeds actual inventory, adjust listings
-        if (totalListed > product.quantity) {
-          const adjustedQuantity = Math.floor(product.quantity / product.platformListings.length)
+        // Pull back any listing showing more than its channel is allocated
+        const overallocated = product.platformListings.filter(
+          (listing) => listing.quantity > (allocation[listing.platform] ?? 0)
+        )
 
-          // Update each platform listing
-          for (const listing of product.platformListings) {
-            await prisma.platformListing.update({
-              where: { id: listing.id },
-              data: { quantity: adjustedQuantity },
-            })
-          }
+        for (const listing of overallocated) {
+          await prisma.platformListing.update({
+            where: { id: listing.id },
+            data: { quantity: allocation[listing.platform] ?? 0 },
+          })
+        }
 
+        if (overallocated.length) {
           adjusted++
         }
       }
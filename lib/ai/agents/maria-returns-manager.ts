@@ -1,6 +1,12 @@
+import { InventoryChange } from "@prisma/client"
 import { BaseAIAgent } from "../base-agent"
 import { AgentDecision } from "@/types/ai-agent"
 import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { reconcileOrderStock } from "@/lib/inventory/order-stock"
+import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
+import { OrderLifecycle } from "@/lib/orders/lifecycle"
+import { ORDER_ACTOR_TYPE, ORDER_STATUS } from "@/types/order"
 
 /**
  * Maria - Returns Manager AI
@@ -201,11 +207,12 @@ export class MariaReturnsManager extends BaseAIAgent {
       let processed = 0
 
       for (const order of ordersNeedingRefund) {
-        // Mark as refunded
-        await prisma.order.update({
-          where: { id: order.id },
-          data: { status: "REFUNDED" },
-        })
+        await new OrderLifecycle(this.userId).transition(
+          order.id,
+          ORDER_STATUS.REFUNDED,
+          { type: ORDER_ACTOR_TYPE.AGENT, id: this.role },
+          { reason: "Refund for cancelled order" }
+        )
 
         // Create notification
         await prisma.notification.create({
@@ -345,32 +352,44 @@ export class MariaReturnsManager extends BaseAIAgent {
 
       let itemsRestocked = 0
 
+      const ledger = new InventoryLedger(this.userId)
+
       for (const order of recentReturns) {
-        for (const item of order.items) {
-          const product = await prisma.product.findUnique({
-            where: { sku: item.sku },
-          })
-
-          if (product) {
-            const oldQuantity = product.quantity
-            const newQuantity = oldQuantity + item.quantity
-
-            // Restock the product
-            await prisma.product.update({
-              where: { sku: item.sku },
-              data: { quantity: newQuantity },
-            })
+        // Usually a no-op, imports and order updates already gave the stock back
+        const changed = await reconcileOrderStock(this.userId, order.id)
+        if (changed.length) {
+          await new InventorySyncEngine(this.userId).pushStockChanges(changed)
+          itemsRestocked += changed.length
+        }
+
+        // Lines saved before stock was tracked per line
+        for (const item of order.items.filter((item) => item.stockDeducted === null)) {
+          const target = await ledger.resolveSku(item.sku)
 
-            // Log the inventory change
-            await prisma.inventoryLog.create({
-              data: {
-                productId: product.id,
-                oldQuantity,
-                newQuantity,
-                changeReason: `Returned from order ${order.platformOrderId}`,
+          if (target?.tracked) {
+            const { productId } = target
+
+            // Refunded orders stay in the lookback window for several runs
+            const alreadyReturned = await prisma.inventoryLog.findFirst({
+              where: {
+                productId,
+                orderId: order.id,
+                changeType: InventoryChange.RETURN,
               },
             })
 
+            if (alreadyReturned) {
+              continue
+            }
+
+            await ledger.recordReturn(productId, item.quantity, {
+              variantId: target.variantId || undefined,
+              orderId: order.id,
+              platform: order.platform,
+              locationId: order.fulfillmentLocationId || undefined,
+              reason: `Returned from order ${order.platformOrderId}`,
+            })
+
             itemsRestocked++
           }
         }
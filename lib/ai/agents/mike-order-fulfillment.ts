@@ -1,6 +1,11 @@
 import { BaseAIAgent } from "../base-agent"
 import { AgentDecision } from "@/types/ai-agent"
 import { prisma } from "@/lib/db/client"
+import { OrderLifecycle } from "@/lib/orders/lifecycle"
+import { FulfillmentSyncEngine } from "@/lib/sync/fulfillment-sync"
+import { ShipmentDetailsError, ShippingLabelService } from "@/lib/shipping/labels"
+import { ShipmentTracker } from "@/lib/tracking/tracker"
+import { ORDER_ACTOR_TYPE, ORDER_STATUS } from "@/types/order"
 
 /**
  * Mike - Order Fulfillment AI
@@ -28,9 +33,12 @@ export class MikeOrderFulfillment extends BaseAIAgent {
       // Task 3: Handle delayed shipments
       await this.handleDelayedShipments()
 
-      // Task 4: Optimize shipping routes
+      // Task 4: Pick the cheapest carrier for orders awaiting labels
       await this.optimizeShipping()
 
+      // Task 5: Resubmit shipments marketplaces could not take
+      await this.retryFailedFulfillments()
+
       this.setStatus("idle")
     } catch (error) {
       console.error("Mike execution error:", error)
@@ -113,22 +121,18 @@ export class MikeOrderFulfillment extends BaseAIAgent {
       let processed = 0
 
       for (const order of orders) {
-        // Check inventory availability
-        const hasInventory = await this.checkInventoryAvailability(order)
-
-        if (hasInventory) {
-          // Update order status
-          await prisma.order.update({
-            where: { id: order.id },
-            data: {
-              status: "PROCESSING",
-              trackingNumber: this.generateTrackingNumber(),
-              carrier: this.selectCarrier(order),
-            },
-          })
-
-          // Reserve inventory
-          await this.reserveInventory(order)
+        // Stock was taken when the order was imported, items without a product or sold
+        // beyond what was on hand hold it back
+        const unlinked = order.items.filter((item) => !item.productId).length
+        const short = order.items.filter((item) => item.stockShort > 0).length
+
+        if (!unlinked && !short) {
+          await new OrderLifecycle(this.userId).transition(
+            order.id,
+            ORDER_STATUS.PROCESSING,
+            { type: ORDER_ACTOR_TYPE.AGENT, id: this.role },
+            { reason: "Every item is in stock" }
+          )
 
           processed++
         } else {
@@ -138,7 +142,9 @@ export class MikeOrderFulfillment extends BaseAIAgent {
               userId: this.userId,
               type: "OUT_OF_STOCK",
               title: `Order ${order.platformOrderId} - Inventory Issue`,
-              message: `Cannot fulfill order due to insufficient inventory`,
+              message: unlinked
+                ? `Cannot fulfill order, some items are not linked to a product`
+                : `Cannot fulfill order, ${short} item(s) sold more units than were in stock`,
               priority: "high",
               metadata: { orderId: order.id },
             },
@@ -158,47 +164,19 @@ export class MikeOrderFulfillment extends BaseAIAgent {
   private async updateShippingStatus(): Promise<void> {
     const action = await this.logAction(
       "update_shipping_status",
-      "Updating shipping status for orders"
+      "Updating shipping status from carrier tracking"
     )
 
     try {
-      const orders = await prisma.order.findMany({
-        where: {
-          userId: this.userId,
-          status: "PROCESSING",
-        },
-      })
-
-      let updated = 0
-
-      for (const order of orders) {
-        // In a real implementation, this would query shipping carrier APIs
-        // For now, simulate status updates based on order age
-        const daysSinceOrder = (Date.now() - new Date(order.orderDate).getTime()) / (1000 * 60 * 60 * 24)
-
-        if (daysSinceOrder > 2 && daysSinceOrder < 7) {
-          await prisma.order.update({
-            where: { id: order.id },
-            data: {
-              status: "SHIPPED",
-              shippedAt: new Date(),
-            },
-          })
-          updated++
-        } else if (daysSinceOrder >= 7) {
-          await prisma.order.update({
-            where: { id: order.id },
-            data: {
-              status: "DELIVERED",
-            },
-          })
-          updated++
-        }
-      }
+      // Orders ship when the carrier picks them up and are delivered when it says so
+      const summary = await new ShipmentTracker(this.userId).pollShipments()
 
       await this.completeAction(action.id, {
-        ordersUpdated: updated,
-        totalOrders: orders.length,
+        shipmentsTracked: summary.polled,
+        ordersShipped: summary.shipped,
+        ordersDelivered: summary.delivered,
+        delayedShipments: summary.delayed,
+        trackingFailures: summary.failed,
       })
     } catch (error) {
       await this.failAction(action.id, error instanceof Error ? error.message : "Unknown error")
@@ -257,122 +235,79 @@ export class MikeOrderFulfillment extends BaseAIAgent {
     }
   }
 
+  // Recommend the cheapest carrier for orders still waiting for a label, no postage is bought
   private async optimizeShipping(): Promise<void> {
     const action = await this.logAction(
       "optimize_shipping",
-      "Optimizing shipping routes and carriers"
+      "Shopping carrier rates for orders awaiting labels"
     )
 
     try {
       const orders = await prisma.order.findMany({
         where: {
           userId: this.userId,
-          status: "PENDING",
+          status: "PROCESSING",
+          trackingNumber: null,
+          carrier: null,
         },
+        orderBy: { orderDate: "asc" },
+        take: 20,
       })
 
-      // Group orders by destination region
-      const ordersByRegion = this.groupOrdersByRegion(orders)
-
+      const labels = new ShippingLabelService(this.userId)
       let optimized = 0
+      let skipped = 0
+
+      for (const order of orders) {
+        try {
+          const { rates } = await labels.quoteRates(order.id)
+
+          if (!rates.length) {
+            skipped++
+            continue
+          }
 
-      for (const [region, regionOrders] of Object.entries(ordersByRegion)) {
-        // Select optimal carrier for region
-        const optimalCarrier = this.selectOptimalCarrierForRegion(region)
+          const cheapest = [...rates].sort((a, b) => a.amount - b.amount)[0]
 
-        for (const order of regionOrders) {
           await prisma.order.update({
             where: { id: order.id },
-            data: { carrier: optimalCarrier },
+            data: { carrier: cheapest.carrier },
           })
           optimized++
+        } catch (error) {
+          // Products without weights or an incomplete address, the user has to fill them in
+          if (!(error instanceof ShipmentDetailsError)) throw error
+          skipped++
         }
       }
 
       await this.completeAction(action.id, {
         ordersOptimized: optimized,
-        regionsProcessed: Object.keys(ordersByRegion).length,
+        ordersSkipped: skipped,
       })
     } catch (error) {
       await this.failAction(action.id, error instanceof Error ? error.message : "Unknown error")
     }
   }
 
-  // Helper methods
-  private async checkInventoryAvailability(order: any): Promise<boolean> {
-    for (const item of order.items) {
-      const product = await prisma.product.findUnique({
-        where: { sku: item.sku },
-      })
+  private async retryFailedFulfillments(): Promise<void> {
+    const action = await this.logAction(
+      "retry_failed_fulfillments",
+      "Resubmitting failed marketplace fulfillments"
+    )
 
-      if (!product || product.quantity < item.quantity) {
-        return false
-      }
-    }
-    return true
-  }
+    try {
+      const submitted = await new FulfillmentSyncEngine(this.userId).retryFailedFulfillments()
 
-  private async reserveInventory(order: any): Promise<void> {
-    for (const item of order.items) {
-      const product = await prisma.product.findUnique({
-        where: { sku: item.sku },
+      await this.completeAction(action.id, {
+        fulfillmentsSubmitted: submitted,
       })
-
-      if (product) {
-        await prisma.product.update({
-          where: { sku: item.sku },
-          data: {
-            quantity: Math.max(0, product.quantity - item.quantity),
-          },
-        })
-
-        // Log inventory change
-        await prisma.inventoryLog.create({
-          data: {
-            productId: product.id,
-            oldQuantity: product.quantity,
-            newQuantity: Math.max(0, product.quantity - item.quantity),
-            changeReason: `Reserved for order ${order.platformOrderId}`,
-          },
-        })
-      }
-    }
-  }
-
-  private generateTrackingNumber(): string {
-    return `TRK${Date.now()}${Math.floor(Math.random() * 1000)}`
-  }
-
-  private selectCarrier(order: any): string {
-    const carriers = ["USPS", "FedEx", "UPS", "DHL"]
-
-    // Simple logic: use USPS for domestic, FedEx for international
-    const isInternational = order.shippingAddress?.country !== "US"
-
-    return isInternational ? "FedEx" : "USPS"
-  }
-
-  private groupOrdersByRegion(orders: any[]): Record<string, any[]> {
-    const regions: Record<string, any[]> = {
-      domestic: [],
-      international: [],
-    }
-
-    for (const order of orders) {
-      if (order.shippingAddress?.country === "US") {
-        regions.domestic.push(order)
-      } else {
-        regions.international.push(order)
-      }
+    } catch (error) {
+      await this.failAction(action.id, error instanceof Error ? error.message : "Unknown error")
     }
-
-    return regions
-  }
-
-  private selectOptimalCarrierForRegion(region: string): string {
-    return region === "domestic" ? "USPS" : "FedEx"
   }
 
+  // Helper methods
   private generateDelayMessage(order: any): string {
     return `Dear ${order.customerName},
 
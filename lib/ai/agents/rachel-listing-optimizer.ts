@@ -1,6 +1,8 @@
 import { BaseAIAgent } from "../base-agent"
 import { AgentDecision } from "@/types/ai-agent"
 import { prisma } from "@/lib/db/client"
+import { buildListingProduct } from "@/lib/products/listings"
+import { checkListingAttributes } from "@/lib/taxonomy/attributes"
 
 /**
  * Rachel - Listing Optimizer AI
@@ -237,9 +239,15 @@ export class RachelListingOptimizer extends BaseAIAgent {
           userId: this.userId,
           status: "ACTIVE",
         },
+        include: {
+          platformListings: { select: { platform: true } },
+          variants: true,
+        },
       })
 
       let updated = 0
+      // Item specifics cannot be guessed, report what each listing's marketplace category still needs
+      const missingAttributes = []
 
       for (const product of products) {
         const updates: any = {}
@@ -261,11 +269,28 @@ export class RachelListingOptimizer extends BaseAIAgent {
           })
           updated++
         }
+
+        for (const { platform } of product.platformListings) {
+          const listing = await buildListingProduct({ ...product, ...updates }, platform)
+          const check = checkListingAttributes(listing, platform)
+
+          if (check.missingRequired.length || check.missingRecommended.length) {
+            missingAttributes.push({
+              productId: product.id,
+              sku: product.sku,
+              platform,
+              category: check.platformCategory?.name,
+              required: check.missingRequired,
+              recommended: check.missingRecommended,
+            })
+          }
+        }
       }
 
       await this.completeAction(action.id, {
         productsUpdated: updated,
         totalProducts: products.length,
+        missingAttributes,
       })
     } catch (error) {
       await this.failAction(action.id, error instanceof Error ? error.message : "Unknown error")
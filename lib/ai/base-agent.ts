@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/db/client"
+import { publishEvent } from "@/lib/events/outbound"
 import { AgentRole, AgentStatus, AgentAction, AgentDecision, AgentMetrics } from "@/types/ai-agent"
 
 export abstract class BaseAIAgent {
@@ -79,7 +80,7 @@ export abstract class BaseAIAgent {
     actionId: string,
     result: any
   ): Promise<void> {
-    await prisma.agentAction.update({
+    const action = await prisma.agentAction.update({
       where: { id: actionId },
       data: {
         status: "completed",
@@ -87,6 +88,14 @@ export abstract class BaseAIAgent {
         completedAt: new Date(),
       },
     })
+
+    await publishEvent(this.userId, "agent.action.completed", {
+      actionId,
+      agentRole: this.role,
+      actionType: action.actionType,
+      description: action.description,
+      result,
+    })
   }
 
   /**
@@ -0,0 +1,120 @@
+import { prisma } from "@/lib/db/client"
+import { decrypt, generateToken, signPayload } from "@/lib/utils/encryption"
+import { assertPublicHost } from "@/lib/utils/network"
+import { queueOutboundWebhook } from "@/lib/queue/outbound-webhooks"
+import { OutboundEvent, OutboundEventPayload } from "@/types/events"
+
+const DELIVERY_TIMEOUT_MS = 10000
+
+/**
+ * Fan an internal event out to every active endpoint subscribed to it.
+ * Failures are logged rather than thrown so they never break the operation that raised the event.
+ */
+export async function publishEvent(
+  userId: string,
+  event: OutboundEvent,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: {
+        userId,
+        active: true,
+        events: { has: event },
+      },
+    })
+
+    if (!subscriptions.length) {
+      return
+    }
+
+    const payload: OutboundEventPayload = {
+      id: generateToken(12),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    }
+
+    for (const subscription of subscriptions) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: subscription.id,
+          event,
+          payload,
+        },
+      })
+
+      await queueOutboundWebhook({ deliveryId: delivery.id })
+    }
+  } catch (error) {
+    console.error(`Failed to publish ${event} event:`, error)
+  }
+}
+
+/**
+ * POST a stored delivery to its endpoint with an HMAC-SHA256 signature of the body.
+ * Throws on a non-2xx response so the queue retries with backoff. Redirects count as failures.
+ */
+export async function deliverWebhook(deliveryId: string): Promise<void> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  })
+
+  // Endpoints removed or paused since the event was published are skipped
+  if (!delivery || !delivery.subscription.active) {
+    return
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const signature = signPayload(body, decrypt(delivery.subscription.secret))
+
+  let responseStatus: number | null = null
+
+  try {
+    // Checked on every attempt, the endpoint's name can point somewhere else since it was added
+    await assertPublicHost(delivery.subscription.url)
+
+    const response = await fetch(delivery.subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": `sha256=${signature}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+
+    responseStatus = response.status
+
+    if (!response.ok) {
+      throw new Error(`Endpoint responded with ${response.status}`)
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "delivered",
+        attempts: { increment: 1 },
+        responseStatus,
+        error: null,
+        deliveredAt: new Date(),
+      },
+    })
+  } catch (error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "failed",
+        attempts: { increment: 1 },
+        responseStatus,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    })
+
+    throw error
+  }
+}
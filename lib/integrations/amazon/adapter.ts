@@ -0,0 +1,215 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { knownCarrier } from "@/lib/integrations/order-mapping"
+import { getOptionValues } from "@/lib/integrations/variants"
+import { AmazonApiClient } from "./client"
+import { mapAmazonOrder } from "./order-mapper"
+
+const AMAZON_CARRIER_CODES = {
+  USPS: "USPS",
+  UPS: "UPS",
+  FEDEX: "FedEx",
+  DHL: "DHL",
+}
+
+export class AmazonAdapter implements PlatformAdapter {
+  readonly platform = Platform.AMAZON
+  private client: AmazonApiClient
+
+  constructor(client: AmazonApiClient) {
+    this.client = client
+  }
+
+  inventoryPages(cursor?: string): AsyncIterable<PlatformPage<PlatformInventoryLevel>> {
+    return mapPages(this.client.productPages(cursor), (item: any) => ({
+      sku: item.sku,
+      quantity: item.quantity || 0,
+    }))
+  }
+
+  // Catalog items describe the product, prices and stock are on the seller's offers
+  productPages(cursor?: string): AsyncIterable<PlatformPage<PlatformProduct>> {
+    return mapPages(this.client.productPages(cursor), (item: any) => {
+      const identifiers = (item.identifiers || []).flatMap((entry: any) => entry.identifiers || [])
+      const barcode = identifiers.find((id: any) => ["EAN", "UPC", "GTIN", "ISBN"].includes(id.identifierType))
+
+      return {
+        platformProductId: item.sku || item.asin,
+        sku: item.sku || undefined,
+        gtin: barcode?.identifier,
+        title: item.summaries?.[0]?.itemName || item.asin,
+        images: (item.images?.[0]?.images || []).map((image: any) => image.link),
+        platformUrl: item.asin ? `https://www.amazon.com/dp/${item.asin}` : undefined,
+        status: "active",
+      }
+    })
+  }
+
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    await this.client.updateInventory(sku, quantity)
+  }
+
+  async *orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncGenerator<PlatformPage<PlatformOrder>> {
+    const pages = this.client.orderPages(
+      {
+        createdAfter: options.startDate?.toISOString(),
+        createdBefore: options.endDate?.toISOString(),
+        updatedAfter: options.updatedSince?.toISOString(),
+      },
+      cursor
+    )
+
+    // Order searches leave out line items, they are fetched per order
+    for await (const page of pages) {
+      const orders: PlatformOrder[] = []
+      for (const order of page.items) {
+        orders.push(mapAmazonOrder(order, await this.client.getOrderItems(order.AmazonOrderId)))
+      }
+
+      yield { ...page, items: orders }
+    }
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    const hasVariants = product.variants.length > 0
+
+    // Simplified Amazon listing, a product with variants becomes the parent ASIN of one child per variant
+    const productType = product.platformCategoryId || "PRODUCT"
+    const amazonProduct = {
+      sku: product.sku,
+      productType,
+      attributes: {
+        item_name: [{ value: product.title }],
+        bullet_point: product.description ? [{ value: product.description }] : [],
+        main_product_image_locator: product.images[0] ? [{ value: product.images[0] }] : [],
+        ...Object.fromEntries(
+          Object.entries(product.itemSpecifics).map(([name, value]) => [name.toLowerCase(), [{ value }]])
+        ),
+        ...(hasVariants
+          ? {
+              parentage_level: [{ value: "parent" }],
+              variation_theme: [{ name: product.options.map((name) => name.toUpperCase()).join("/") }],
+            }
+          : {}),
+      },
+    }
+
+    if (existingListing) {
+      await this.client.updateProduct(product.sku, amazonProduct)
+    } else {
+      await this.client.createProduct(amazonProduct)
+    }
+
+    if (!hasVariants) {
+      return { platformProductId: product.sku }
+    }
+
+    const listedVariantIds = (existingListing?.variantIds as Record<string, string> | null) || {}
+    for (const variant of product.variants) {
+      const values = getOptionValues(product, variant)
+      const image = variant.images[0] || product.images[0]
+      const child = {
+        sku: variant.sku,
+        productType,
+        attributes: {
+          item_name: [{ value: `${product.title} - ${variant.title}` }],
+          main_product_image_locator: image ? [{ value: image }] : [],
+          parentage_level: [{ value: "child" }],
+          child_parent_sku_relationship: [{ child_relationship_type: "variation", parent_sku: product.sku }],
+          ...Object.fromEntries(product.options.map((name, index) => [name.toLowerCase(), [{ value: values[index] }]])),
+        },
+      }
+
+      if (listedVariantIds[variant.id]) {
+        await this.client.updateProduct(variant.sku, child)
+      } else {
+        await this.client.createProduct(child)
+      }
+    }
+
+    return {
+      platformProductId: product.sku,
+      variantIds: Object.fromEntries(product.variants.map((variant) => [variant.id, variant.sku])),
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getMarketplaceParticipations()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const data = await this.client.getOrder(platformOrderId)
+    if (!data.payload) return null
+
+    return mapAmazonOrder(data.payload, await this.client.getOrderItems(platformOrderId))
+  }
+
+  // Each confirmation is one package, Amazon sends nothing back but a 204
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const carrier = knownCarrier(fulfillment.carrier)
+
+    await this.client.confirmShipment(platformOrderId, {
+      packageReferenceId: fulfillment.sequence.toString(),
+      carrierCode: carrier ? AMAZON_CARRIER_CODES[carrier] : "Other",
+      ...(carrier ? {} : { carrierName: fulfillment.carrier }),
+      trackingNumber: fulfillment.trackingNumber,
+      shipDate: fulfillment.shippedAt.toISOString(),
+      orderItems: fulfillment.lines.map((line) => ({
+        orderItemId: line.platformItemId,
+        quantity: line.quantity,
+      })),
+    })
+
+    return { platformFulfillmentId: fulfillment.sequence.toString() }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    // Notifications delivered through SNS arrive wrapped in an envelope
+    const notification = typeof payload.Message === "string" ? JSON.parse(payload.Message) : payload
+    const body = notification.Payload || {}
+
+    switch (notification.NotificationType || event) {
+      case "ORDER_CHANGE": {
+        const orderId = body.OrderChangeNotification?.AmazonOrderId
+        return orderId ? [{ kind: "order", platformOrderId: orderId }] : []
+      }
+
+      case "FBA_INVENTORY_AVAILABILITY_CHANGES": {
+        const fulfillable = (body.FulfillmentInventoryByMarketplace || []).reduce(
+          (sum: number, entry: any) => sum + (entry.FulfillmentInventory?.Fulfillable || 0),
+          0
+        )
+        return body.SKU
+          ? [{ kind: "inventory", sku: body.SKU, quantity: fulfillable, platformLocationId: "AFN" }]
+          : []
+      }
+
+      case "LISTINGS_ITEM_STATUS_CHANGE":
+        return body.Sku
+          ? [
+              {
+                kind: "listing",
+                platformProductId: body.Sku,
+                status: (body.Status || []).includes("BUYABLE") ? "active" : "inactive",
+              },
+            ]
+          : []
+
+      default:
+        return []
+    }
+  }
+}
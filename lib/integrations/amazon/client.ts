@@ -1,17 +1,60 @@
-import { PlatformApiClient } from "@/types/platforms"
 import crypto from "crypto"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TokenBucket, TransportRequestOptions } from "@/lib/integrations/transport"
+import { ValidationRejectedError } from "@/lib/integrations/errors"
+
+// Published SP-API usage plans per operation. Responses carry the plan actually
+// applied to the seller in x-amzn-RateLimit-Limit, which replaces these defaults.
+const OPERATION_LIMITS = {
+  searchCatalogItems: { ratePerSecond: 2, burst: 2 },
+  getOrders: { ratePerSecond: 0.0167, burst: 20 },
+  getOrder: { ratePerSecond: 0.5, burst: 30 },
+  getOrderItems: { ratePerSecond: 0.5, burst: 30 },
+  confirmShipment: { ratePerSecond: 2, burst: 10 },
+  putListingsItem: { ratePerSecond: 5, burst: 10 },
+  patchListingsItem: { ratePerSecond: 5, burst: 10 },
+  updateInventory: { ratePerSecond: 2, burst: 2 },
+  getMarketplaceParticipations: { ratePerSecond: 0.016, burst: 15 },
+}
+
+type AmazonOperation = keyof typeof OPERATION_LIMITS
+
+interface AmazonOrderFilters {
+  createdAfter?: string
+  createdBefore?: string
+  updatedAfter?: string
+}
+
+function readRateLimit(response: Response, bucket: TokenBucket) {
+  const rate = parseFloat(response.headers.get("x-amzn-ratelimit-limit") || "")
 
-export class AmazonApiClient implements PlatformApiClient {
+  if (!isNaN(rate)) {
+    bucket.setRate(rate)
+  }
+}
+
+export class AmazonApiClient {
   private accessToken: string
   private refreshToken: string
   private region: string
   private marketplaceId: string
+  private transport: PlatformTransport
 
-  constructor(accessToken: string, refreshToken: string, region: string = "us-east-1") {
+  constructor(accessToken: string, refreshToken: string, region: string = "us-east-1", connectionId?: string) {
     this.accessToken = accessToken
     this.refreshToken = refreshToken
     this.region = region
     this.marketplaceId = this.getMarketplaceId(region)
+    this.transport = new PlatformTransport({
+      platform: Platform.AMAZON,
+      label: "Amazon SP-API",
+      connectionId,
+      rateLimit: { ratePerSecond: 1, burst: 5 },
+      operationLimits: OPERATION_LIMITS,
+      readQuotaHeaders: readRateLimit,
+    })
   }
 
   private getMarketplaceId(region: string): string {
@@ -32,10 +75,10 @@ export class AmazonApiClient implements PlatformApiClient {
     return endpoints[this.region] || endpoints["us-east-1"]
   }
 
-  private async request(path: string, options: RequestInit = {}) {
+  private async send(path: string, options: TransportRequestOptions & { operation: AmazonOperation }) {
     const url = `${this.getEndpoint()}${path}`
 
-    const response = await fetch(url, {
+    return await this.transport.request(url, {
       ...options,
       headers: {
         "x-amz-access-token": this.accessToken,
@@ -43,45 +86,68 @@ export class AmazonApiClient implements PlatformApiClient {
         ...options.headers,
       },
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Amazon SP-API error: ${response.status} - ${error}`)
-    }
-
+  private async request(path: string, options: TransportRequestOptions & { operation: AmazonOperation }) {
+    const response = await this.send(path, options)
     return response.json()
   }
 
-  async fetchProducts(options?: { limit?: number; nextToken?: string }) {
+  // Cursors are NextTokens
+  async fetchProducts(nextToken?: string): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
       MarketplaceIds: this.marketplaceId,
     })
 
-    if (options?.nextToken) {
-      params.append("NextToken", options.nextToken)
+    if (nextToken) {
+      params.append("pageToken", nextToken)
     }
 
-    const data = await this.request(`/catalog/2022-04-01/items?${params}`)
-    return data.items || []
+    const data = await this.request(`/catalog/2022-04-01/items?${params}`, { operation: "searchCatalogItems" })
+    return { items: data.items || [], nextCursor: data.pagination?.nextToken }
   }
 
-  async fetchOrders(options?: { createdAfter?: string; nextToken?: string }) {
+  productPages(nextToken?: string) {
+    return paginate((next) => this.fetchProducts(next), nextToken)
+  }
+
+  async fetchOrders(options: AmazonOrderFilters = {}, nextToken?: string): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
       MarketplaceIds: this.marketplaceId,
-      CreatedAfter: options?.createdAfter || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
     })
 
-    if (options?.nextToken) {
-      params.append("NextToken", options.nextToken)
+    // LastUpdatedAfter cannot be combined with the creation date filters
+    if (options.updatedAfter) {
+      params.append("LastUpdatedAfter", options.updatedAfter)
+    } else {
+      params.append(
+        "CreatedAfter",
+        options.createdAfter || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+      )
+      if (options.createdBefore) {
+        params.append("CreatedBefore", options.createdBefore)
+      }
     }
 
-    const data = await this.request(`/orders/v0/orders?${params}`)
-    return data.Orders || []
+    if (nextToken) {
+      params.append("NextToken", nextToken)
+    }
+
+    // The Orders API wraps its results in a payload envelope
+    const data = await this.request(`/orders/v0/orders?${params}`, { operation: "getOrders" })
+    const result = data.payload || data
+    return { items: result.Orders || [], nextCursor: result.NextToken }
+  }
+
+  orderPages(options: AmazonOrderFilters = {}, nextToken?: string) {
+    return paginate((next) => this.fetchOrders(options, next), nextToken)
   }
 
   async updateInventory(sku: string, quantity: number) {
     await this.request(`/fba/inventory/v1/items/inventory`, {
       method: "POST",
+      operation: "updateInventory",
+      idempotent: true,
       body: JSON.stringify({
         sellerSku: sku,
         quantity,
@@ -90,20 +156,80 @@ export class AmazonApiClient implements PlatformApiClient {
   }
 
   async createProduct(product: any) {
-    return await this.request("/listings/2021-08-01/items", {
+    const data = await this.request("/listings/2021-08-01/items", {
       method: "POST",
+      operation: "putListingsItem",
       body: JSON.stringify(product),
     })
+    return this.checkListingSubmission(data)
   }
 
   async updateProduct(sku: string, updates: any) {
-    return await this.request(`/listings/2021-08-01/items/${sku}`, {
+    const data = await this.request(`/listings/2021-08-01/items/${sku}`, {
       method: "PATCH",
+      operation: "patchListingsItem",
       body: JSON.stringify(updates),
     })
+    return this.checkListingSubmission(data)
+  }
+
+  // The Listings API accepts invalid submissions with a 200 and lists the problems as issues
+  private checkListingSubmission(data: any) {
+    if (data.status !== "INVALID") {
+      return data
+    }
+
+    const issues = (data.issues || []).filter((issue: any) => issue.severity === "ERROR")
+
+    throw new ValidationRejectedError(
+      Platform.AMAZON,
+      `Amazon rejected the listing: ${issues.map((issue: any) => issue.message).join("; ") || "invalid submission"}`,
+      issues.map((issue: any) => ({
+        field: issue.attributeNames?.[0],
+        message: issue.message,
+        code: issue.code,
+      })),
+      null
+    )
   }
 
   async getOrder(orderId: string) {
-    return await this.request(`/orders/v0/orders/${orderId}`)
+    return await this.request(`/orders/v0/orders/${orderId}`, { operation: "getOrder" })
+  }
+
+  async fetchOrderItems(orderId: string, nextToken?: string): Promise<PlatformPage<any>> {
+    const params = nextToken ? `?${new URLSearchParams({ NextToken: nextToken })}` : ""
+    const data = await this.request(`/orders/v0/orders/${orderId}/orderItems${params}`, {
+      operation: "getOrderItems",
+    })
+    const result = data.payload || data
+    return { items: result.OrderItems || [], nextCursor: result.NextToken }
+  }
+
+  async getOrderItems(orderId: string) {
+    const items: any[] = []
+    for await (const page of paginate((next) => this.fetchOrderItems(orderId, next))) {
+      items.push(...page.items)
+    }
+    return items
+  }
+
+  // Answers with 204 No Content on success
+  async confirmShipment(orderId: string, packageDetail: any) {
+    await this.send(`/orders/v0/orders/${orderId}/shipmentConfirmation`, {
+      method: "POST",
+      operation: "confirmShipment",
+      body: JSON.stringify({
+        marketplaceId: this.marketplaceId,
+        packageDetail,
+      }),
+    })
+  }
+
+  async getMarketplaceParticipations() {
+    const data = await this.request("/sellers/v1/marketplaceParticipations", {
+      operation: "getMarketplaceParticipations",
+    })
+    return data.payload || []
   }
 }
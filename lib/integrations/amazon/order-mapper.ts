@@ -0,0 +1,83 @@
+import { FulfillmentStatus, OrderStatus, PaymentStatus, PlatformOrder, PlatformOrderItem } from "@/types/order"
+import { compactAddress, parseAmount, sumItems } from "@/lib/integrations/order-mapping"
+
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  Pending: "PENDING",
+  PendingAvailability: "PENDING",
+  Unshipped: "PROCESSING",
+  PartiallyShipped: "PROCESSING",
+  Shipped: "SHIPPED",
+  InvoiceUnconfirmed: "SHIPPED",
+  Canceled: "CANCELLED",
+  Unfulfillable: "CANCELLED",
+}
+
+const FULFILLMENT_STATUSES: Record<string, FulfillmentStatus> = {
+  PartiallyShipped: "PARTIALLY_FULFILLED",
+  Shipped: "FULFILLED",
+  InvoiceUnconfirmed: "FULFILLED",
+}
+
+function paymentStatus(status: string): PaymentStatus {
+  if (status === "Pending" || status === "PendingAvailability") return "PENDING"
+  if (status === "Canceled") return "VOIDED"
+  return "PAID"
+}
+
+// Sum one money field across order items
+function sumMoney(items: any[], ...fields: string[]): number | undefined {
+  const amounts = items.flatMap((item) => fields.map((field) => parseAmount(item[field]?.Amount)))
+  return amounts.some((amount) => amount !== undefined)
+    ? amounts.reduce<number>((sum, amount) => sum + (amount || 0), 0)
+    : undefined
+}
+
+/**
+ * Map an Orders API order and its order items, which Amazon returns from a separate call
+ */
+export function mapAmazonOrder(order: any, orderItems: any[]): PlatformOrder {
+  const items: PlatformOrderItem[] = orderItems
+    .filter((item) => item.QuantityOrdered > 0)
+    .map((item) => {
+      // ItemPrice covers the whole quantity
+      const linePrice = parseAmount(item.ItemPrice?.Amount) || 0
+      return {
+        sku: item.SellerSKU || item.ASIN,
+        title: item.Title || item.SellerSKU || item.ASIN,
+        quantity: item.QuantityOrdered,
+        price: linePrice / item.QuantityOrdered,
+        total: Math.max(0, linePrice - (parseAmount(item.PromotionDiscount?.Amount) || 0)),
+        platformItemId: item.OrderItemId,
+      }
+    })
+
+  const shipping = sumMoney(orderItems, "ShippingPrice")
+  const shippingDiscount = sumMoney(orderItems, "ShippingDiscount") || 0
+
+  return {
+    platformOrderId: order.AmazonOrderId,
+    status: ORDER_STATUSES[order.OrderStatus] || "PENDING",
+    paymentStatus: paymentStatus(order.OrderStatus),
+    fulfillmentStatus: FULFILLMENT_STATUSES[order.OrderStatus] || "UNFULFILLED",
+    customerName: order.BuyerInfo?.BuyerName || order.ShippingAddress?.Name || "Unknown",
+    customerEmail: order.BuyerInfo?.BuyerEmail || undefined,
+    shippingAddress: compactAddress({
+      name: order.ShippingAddress?.Name,
+      addressLine1: order.ShippingAddress?.AddressLine1,
+      addressLine2: order.ShippingAddress?.AddressLine2,
+      city: order.ShippingAddress?.City,
+      state: order.ShippingAddress?.StateOrRegion,
+      postalCode: order.ShippingAddress?.PostalCode,
+      country: order.ShippingAddress?.CountryCode,
+      phone: order.ShippingAddress?.Phone,
+    }),
+    subtotal: sumMoney(orderItems, "ItemPrice"),
+    tax: sumMoney(orderItems, "ItemTax", "ShippingTax"),
+    shipping: shipping === undefined ? undefined : Math.max(0, shipping - shippingDiscount),
+    // Pending orders have no total yet
+    total: parseAmount(order.OrderTotal?.Amount) ?? sumItems(items),
+    currency: order.OrderTotal?.CurrencyCode || orderItems[0]?.ItemPrice?.CurrencyCode || "USD",
+    orderDate: new Date(order.PurchaseDate),
+    items,
+  }
+}
@@ -1,7 +1,12 @@
-import { Platform, ConnectionStatus } from "@prisma/client"
+import { Platform, ConnectionStatus, PlatformConnection, Prisma } from "@prisma/client"
 import { prisma } from "@/lib/db/client"
-import { encrypt, decrypt } from "@/lib/utils/encryption"
-import { OAuthTokens } from "@/types/platforms"
+import { encrypt, decrypt, generateToken } from "@/lib/utils/encryption"
+import { OAuthTokens, PLATFORM_CONFIGS } from "@/types/platforms"
+import { needsTokenRefresh, refreshPlatformTokens, isGrantRevoked } from "@/lib/integrations/token-manager"
+import { getMerchantId } from "@/lib/integrations/google/oauth"
+
+// Refreshes in progress per connection, so callers in this process share one platform call
+const refreshesInFlight = new Map<string, Promise<PlatformConnection>>()
 
 export async function storePlatformConnection(
   userId: string,
@@ -12,6 +17,22 @@ export async function storePlatformConnection(
   const encryptedAccessToken = encrypt(tokens.accessToken)
   const encryptedRefreshToken = tokens.refreshToken ? encrypt(tokens.refreshToken) : null
 
+  const existing = await prisma.platformConnection.findUnique({
+    where: {
+      userId_platform: {
+        userId,
+        platform,
+      },
+    },
+  })
+
+  // Keep the webhook token across reconnects so registered webhook URLs stay valid
+  const existingMetadata = (existing?.metadata as Record<string, any>) || {}
+  const connectionMetadata = {
+    ...metadata,
+    webhookToken: existingMetadata.webhookToken || generateToken(),
+  }
+
   return await prisma.platformConnection.upsert({
     where: {
       userId_platform: {
@@ -25,7 +46,7 @@ export async function storePlatformConnection(
       expiresAt: tokens.expiresAt,
       scope: tokens.scope,
       status: ConnectionStatus.ACTIVE,
-      metadata,
+      metadata: connectionMetadata,
       updatedAt: new Date(),
     },
     create: {
@@ -36,7 +57,7 @@ export async function storePlatformConnection(
       expiresAt: tokens.expiresAt,
       scope: tokens.scope,
       status: ConnectionStatus.ACTIVE,
-      metadata,
+      metadata: connectionMetadata,
     },
   })
 }
@@ -55,11 +76,126 @@ export async function getPlatformConnection(userId: string, platform: Platform)
     return null
   }
 
-  return {
+  const decrypted = {
     ...connection,
     accessToken: decrypt(connection.accessToken),
     refreshToken: connection.refreshToken ? decrypt(connection.refreshToken) : null,
   }
+
+  if (needsTokenRefresh(platform, connection.expiresAt)) {
+    let refresh = refreshesInFlight.get(connection.id)
+
+    if (!refresh) {
+      refresh = refreshConnection(decrypted).finally(() => refreshesInFlight.delete(connection.id))
+      refreshesInFlight.set(connection.id, refresh)
+    }
+
+    return await refresh
+  }
+
+  return decrypted
+}
+
+// Another process may have refreshed the connection first and rotated the refresh token we sent
+async function findRefreshedElsewhere(connection: PlatformConnection): Promise<PlatformConnection | null> {
+  const stored = await prisma.platformConnection.findUnique({ where: { id: connection.id } })
+
+  if (!stored?.refreshToken || needsTokenRefresh(stored.platform, stored.expiresAt)) {
+    return null
+  }
+
+  const refreshToken = decrypt(stored.refreshToken)
+  if (refreshToken === connection.refreshToken) {
+    return null
+  }
+
+  return {
+    ...stored,
+    accessToken: decrypt(stored.accessToken),
+    refreshToken,
+  }
+}
+
+// Connections made before webhooks were routed by account may lack the identifier. Look it up
+// where the platform can tell us, prisma/upgrades/webhook-routing.sql fills in the rest.
+async function lookUpMissingRoutingMetadata(
+  connection: PlatformConnection,
+  accessToken: string
+): Promise<Record<string, string>> {
+  const metadata = (connection.metadata as Record<string, any> | null) || {}
+
+  if (connection.platform === Platform.GOOGLE_SHOPPING && !metadata.merchantId) {
+    try {
+      const merchantId = await getMerchantId(accessToken)
+      return merchantId ? { merchantId: merchantId.toString() } : {}
+    } catch (error) {
+      console.error("Failed to fetch Google merchant account:", error)
+    }
+  }
+
+  return {}
+}
+
+/**
+ * Refresh an expiring access token and persist the new tokens.
+ * A rejected grant is checked against the stored tokens first, in case another process won the refresh.
+ * On failure the connection is flagged and the user notified, then the error is rethrown.
+ */
+async function refreshConnection(connection: PlatformConnection): Promise<PlatformConnection> {
+  const { userId, platform } = connection
+
+  try {
+    const tokens = await refreshPlatformTokens(platform, connection.refreshToken)
+    const missing = await lookUpMissingRoutingMetadata(connection, tokens.accessToken)
+    const metadata = Object.keys(missing).length
+      ? { ...(connection.metadata as Prisma.JsonObject | null), ...missing }
+      : undefined
+
+    await prisma.platformConnection.update({
+      where: { id: connection.id },
+      data: {
+        accessToken: encrypt(tokens.accessToken),
+        refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : null,
+        expiresAt: tokens.expiresAt,
+        status: ConnectionStatus.ACTIVE,
+        metadata,
+        updatedAt: new Date(),
+      },
+    })
+
+    return {
+      ...connection,
+      metadata: metadata ?? connection.metadata,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken || null,
+      expiresAt: tokens.expiresAt || null,
+      status: ConnectionStatus.ACTIVE,
+    }
+  } catch (error) {
+    if (isGrantRevoked(error)) {
+      const refreshed = await findRefreshedElsewhere(connection)
+      if (refreshed) {
+        return refreshed
+      }
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error"
+    const status = isGrantRevoked(error) ? ConnectionStatus.EXPIRED : ConnectionStatus.ERROR
+
+    await updateConnectionStatus(userId, platform, status, message)
+
+    if (connection.status === ConnectionStatus.ACTIVE) {
+      await notifyConnectionProblem(
+        userId,
+        platform,
+        status === ConnectionStatus.EXPIRED
+          ? "Authorization has expired. Reconnect the platform to resume syncing."
+          : `Could not refresh the access token: ${message}`
+      )
+    }
+
+    throw new Error(`${platform} token refresh failed: ${message}`)
+  }
 }
 
 export async function getAllPlatformConnections(userId: string) {
@@ -97,6 +233,21 @@ export async function updateConnectionStatus(
   status: ConnectionStatus,
   error?: string
 ) {
+  const connection = await prisma.platformConnection.findUnique({
+    where: {
+      userId_platform: {
+        userId,
+        platform,
+      },
+    },
+  })
+
+  // Merge so that platform data such as the shop domain survives an error
+  const metadata = {
+    ...((connection?.metadata as Record<string, any>) || {}),
+    lastError: error || null,
+  }
+
   return await prisma.platformConnection.update({
     where: {
       userId_platform: {
@@ -106,8 +257,77 @@ export async function updateConnectionStatus(
     },
     data: {
       status,
-      metadata: error ? { lastError: error } : undefined,
+      metadata,
       updatedAt: new Date(),
     },
   })
 }
+
+export async function recordHealthCheck(
+  userId: string,
+  platform: Platform,
+  healthy: boolean,
+  error?: string,
+  // The platform rejected the credentials, only reconnecting will fix it
+  authExpired: boolean = false
+) {
+  const connection = await prisma.platformConnection.findUnique({
+    where: {
+      userId_platform: {
+        userId,
+        platform,
+      },
+    },
+  })
+
+  if (!connection) {
+    return null
+  }
+
+  const status = healthy
+    ? ConnectionStatus.ACTIVE
+    : authExpired
+    ? ConnectionStatus.EXPIRED
+    : ConnectionStatus.ERROR
+
+  if (!healthy && connection.status === ConnectionStatus.ACTIVE) {
+    await notifyConnectionProblem(
+      userId,
+      platform,
+      authExpired
+        ? "Authorization has expired. Reconnect the platform to resume syncing."
+        : `Health check failed: ${error}`
+    )
+  }
+
+  return await prisma.platformConnection.update({
+    where: { id: connection.id },
+    data: {
+      status,
+      metadata: {
+        ...((connection.metadata as Record<string, any>) || {}),
+        lastError: error || null,
+        lastHealthCheck: {
+          checkedAt: new Date().toISOString(),
+          healthy,
+        },
+      },
+      updatedAt: new Date(),
+    },
+  })
+}
+
+async function notifyConnectionProblem(userId: string, platform: Platform, message: string) {
+  const displayName = PLATFORM_CONFIGS[platform].displayName || platform
+
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: "SYSTEM_ALERT",
+      title: `${displayName} connection needs attention`,
+      message,
+      priority: "HIGH",
+      metadata: { platform },
+    },
+  })
+}
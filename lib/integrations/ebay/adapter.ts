@@ -0,0 +1,191 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { knownCarrier } from "@/lib/integrations/order-mapping"
+import { getOptionValues } from "@/lib/integrations/variants"
+import { EbayApiClient } from "./client"
+import { mapEbayOrder } from "./order-mapper"
+
+export class EbayAdapter implements PlatformAdapter {
+  readonly platform = Platform.EBAY
+  private client: EbayApiClient
+
+  constructor(client: EbayApiClient) {
+    this.client = client
+  }
+
+  inventoryPages(cursor?: string): AsyncIterable<PlatformPage<PlatformInventoryLevel>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      sku: p.sku,
+      quantity: p.availability?.shipToLocationAvailability?.quantity || 0,
+    }))
+  }
+
+  // Inventory items are keyed by SKU and carry no price, that lives on their offers
+  productPages(cursor?: string): AsyncIterable<PlatformPage<PlatformProduct>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      platformProductId: p.sku,
+      sku: p.sku,
+      gtin: p.product?.upc?.[0] || p.product?.ean?.[0] || p.product?.isbn?.[0],
+      title: p.product?.title || p.sku,
+      description: p.product?.description,
+      quantity: p.availability?.shipToLocationAvailability?.quantity,
+      images: p.product?.imageUrls || [],
+      status: "active",
+    }))
+  }
+
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    await this.client.updateInventory(sku, quantity)
+  }
+
+  orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncIterable<PlatformPage<PlatformOrder>> {
+    return mapPages(
+      this.client.orderPages(
+        {
+          createdAfter: options.startDate?.toISOString(),
+          createdBefore: options.endDate?.toISOString(),
+          updatedAfter: options.updatedSince?.toISOString(),
+        },
+        cursor
+      ),
+      mapEbayOrder
+    )
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    if (product.variants.length) {
+      return await this.upsertItemGroup(product)
+    }
+
+    const ebayProduct = {
+      sku: product.sku,
+      product: {
+        title: product.title,
+        description: product.description,
+        imageUrls: product.images,
+        aspects: this.getAspects(product),
+      },
+      condition: "NEW",
+      availability: {
+        shipToLocationAvailability: {
+          quantity: product.quantity,
+        },
+      },
+    }
+
+    if (existingListing) {
+      await this.client.updateProduct(product.sku, ebayProduct)
+    } else {
+      await this.client.createProduct(ebayProduct)
+    }
+
+    return { platformProductId: product.sku }
+  }
+
+  // Item specifics from the listing's override, eBay takes a list of values per aspect
+  private getAspects(product: ListingProduct): Record<string, string[]> {
+    return {
+      Brand: ["Generic"],
+      ...Object.fromEntries(Object.entries(product.itemSpecifics).map(([name, value]) => [name, [value]])),
+    }
+  }
+
+  // Each variant is its own inventory item, with its option values as aspects, grouped
+  // under the product's SKU. PUT creates or replaces, so new and listed products are the same.
+  private async upsertItemGroup(product: ListingProduct): Promise<PlatformListingIds> {
+    const optionValues = product.variants.map((variant) => getOptionValues(product, variant))
+
+    for (const [position, variant] of Array.from(product.variants.entries())) {
+      const values = optionValues[position]
+
+      await this.client.updateProduct(variant.sku, {
+        product: {
+          title: product.title,
+          description: product.description,
+          imageUrls: variant.images.length ? variant.images : product.images,
+          aspects: {
+            ...this.getAspects(product),
+            ...Object.fromEntries(product.options.map((name, index) => [name, [values[index]]])),
+          },
+          ...(variant.barcode ? { upc: [variant.barcode] } : {}),
+        },
+        condition: "NEW",
+        availability: {
+          shipToLocationAvailability: {
+            quantity: variant.quantity,
+          },
+        },
+      })
+    }
+
+    await this.client.upsertInventoryItemGroup(product.sku, {
+      title: product.title,
+      description: product.description,
+      imageUrls: product.images,
+      variantSKUs: product.variants.map((variant) => variant.sku),
+      variesBy: {
+        aspectsImageVariesBy: [],
+        specifications: product.options.map((name, index) => ({
+          name,
+          values: Array.from(new Set(optionValues.map((values) => values[index]))),
+        })),
+      },
+    })
+
+    return {
+      platformProductId: product.sku,
+      variantIds: Object.fromEntries(product.variants.map((variant) => [variant.id, variant.sku])),
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getUserProfile()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const order = await this.client.getOrder(platformOrderId)
+    return order ? mapEbayOrder(order) : null
+  }
+
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const fulfillmentId = await this.client.createShippingFulfillment(platformOrderId, {
+      lineItems: fulfillment.lines.map((line) => ({
+        lineItemId: line.platformItemId,
+        quantity: line.quantity,
+      })),
+      shippedDate: fulfillment.shippedAt.toISOString(),
+      shippingCarrierCode: knownCarrier(fulfillment.carrier) || fulfillment.carrier,
+      trackingNumber: fulfillment.trackingNumber,
+    })
+
+    return { platformFulfillmentId: fulfillmentId }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    // Notification API wraps the event data in notification.data
+    const data = payload.notification?.data || {}
+
+    if (data.orderId) {
+      return [{ kind: "order", platformOrderId: data.orderId }]
+    }
+
+    if (data.sku && typeof data.availableQuantity === "number") {
+      return [{ kind: "inventory", sku: data.sku, quantity: data.availableQuantity }]
+    }
+
+    return []
+  }
+}
@@ -1,18 +1,46 @@
-import { PlatformApiClient } from "@/types/platforms"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { nextOffset, paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TransportRequestOptions } from "@/lib/integrations/transport"
 
-export class EbayApiClient implements PlatformApiClient {
+const PAGE_SIZE = 100
+
+const RATE_LIMIT = { ratePerSecond: 5, burst: 10 }
+
+// eBay limits calls per API per day rather than per second
+const DAILY_LIMITS = {
+  inventory: 2000000,
+  fulfillment: 100000,
+  identity: 5000,
+}
+
+interface EbayOrderFilters {
+  createdAfter?: string
+  createdBefore?: string
+  updatedAfter?: string
+}
+
+export class EbayApiClient {
   private accessToken: string
   private baseUrl: string
+  private transport: PlatformTransport
 
-  constructor(accessToken: string, sandbox: boolean = false) {
+  constructor(accessToken: string, sandbox: boolean = false, connectionId?: string) {
     this.accessToken = accessToken
     this.baseUrl = sandbox
       ? "https://api.sandbox.ebay.com"
       : "https://api.ebay.com"
+    this.transport = new PlatformTransport({
+      platform: Platform.EBAY,
+      label: "eBay API",
+      connectionId,
+      rateLimit: RATE_LIMIT,
+      dailyLimits: DAILY_LIMITS,
+    })
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+  private async send(endpoint: string, options: TransportRequestOptions & { operation: keyof typeof DAILY_LIMITS }) {
+    return await this.transport.request(`${this.baseUrl}${endpoint}`, {
       ...options,
       headers: {
         Authorization: `Bearer ${this.accessToken}`,
@@ -20,38 +48,63 @@ export class EbayApiClient implements PlatformApiClient {
         ...options.headers,
       },
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`eBay API error: ${response.status} - ${error}`)
-    }
-
+  private async request(endpoint: string, options: TransportRequestOptions & { operation: keyof typeof DAILY_LIMITS }) {
+    const response = await this.send(endpoint, options)
     return response.json()
   }
 
-  async fetchProducts(options?: { limit?: number; offset?: number }) {
+  // Cursors are offsets
+  async fetchProducts(cursor?: string): Promise<PlatformPage<any>> {
+    const offset = parseInt(cursor || "0")
     const params = new URLSearchParams({
-      limit: (options?.limit || 100).toString(),
-      offset: (options?.offset || 0).toString(),
+      limit: PAGE_SIZE.toString(),
+      offset: offset.toString(),
     })
 
-    const data = await this.request(`/sell/inventory/v1/inventory_item?${params}`)
-    return data.inventoryItems || []
+    const data = await this.request(`/sell/inventory/v1/inventory_item?${params}`, { operation: "inventory" })
+    return {
+      items: data.inventoryItems || [],
+      nextCursor: nextOffset(offset, PAGE_SIZE, data.total),
+      total: data.total,
+    }
   }
 
-  async fetchOrders(options?: { limit?: number; offset?: number }) {
+  productPages(cursor?: string) {
+    return paginate((next) => this.fetchProducts(next), cursor)
+  }
+
+  async fetchOrders(options: EbayOrderFilters = {}, cursor?: string): Promise<PlatformPage<any>> {
+    const offset = parseInt(cursor || "0")
     const params = new URLSearchParams({
-      limit: (options?.limit || 100).toString(),
-      offset: (options?.offset || 0).toString(),
+      limit: PAGE_SIZE.toString(),
+      offset: offset.toString(),
     })
 
-    const data = await this.request(`/sell/fulfillment/v1/order?${params}`)
-    return data.orders || []
+    // eBay applies only one date filter, the creation range wins when both are sent
+    if (options.updatedAfter) {
+      params.append("filter", `lastmodifieddate:[${options.updatedAfter}..]`)
+    } else if (options.createdAfter || options.createdBefore) {
+      params.append("filter", `creationdate:[${options.createdAfter || ""}..${options.createdBefore || ""}]`)
+    }
+
+    const data = await this.request(`/sell/fulfillment/v1/order?${params}`, { operation: "fulfillment" })
+    return {
+      items: data.orders || [],
+      nextCursor: nextOffset(offset, PAGE_SIZE, data.total),
+      total: data.total,
+    }
+  }
+
+  orderPages(options: EbayOrderFilters = {}, cursor?: string) {
+    return paginate((next) => this.fetchOrders(options, next), cursor)
   }
 
   async updateInventory(sku: string, quantity: number) {
     await this.request(`/sell/inventory/v1/inventory_item/${sku}`, {
       method: "PUT",
+      operation: "inventory",
       body: JSON.stringify({
         availability: {
           shipToLocationAvailability: {
@@ -65,6 +118,7 @@ export class EbayApiClient implements PlatformApiClient {
   async createProduct(product: any) {
     return await this.request("/sell/inventory/v1/inventory_item", {
       method: "POST",
+      operation: "inventory",
       body: JSON.stringify(product),
     })
   }
@@ -72,19 +126,40 @@ export class EbayApiClient implements PlatformApiClient {
   async updateProduct(sku: string, updates: any) {
     return await this.request(`/sell/inventory/v1/inventory_item/${sku}`, {
       method: "PUT",
+      operation: "inventory",
       body: JSON.stringify(updates),
     })
   }
 
+  // Groups the inventory items of a product's variants into one multi-variation listing
+  async upsertInventoryItemGroup(groupKey: string, group: any) {
+    return await this.request(`/sell/inventory/v1/inventory_item_group/${groupKey}`, {
+      method: "PUT",
+      operation: "inventory",
+      body: JSON.stringify(group),
+    })
+  }
+
   async getInventoryItem(sku: string) {
-    return await this.request(`/sell/inventory/v1/inventory_item/${sku}`)
+    return await this.request(`/sell/inventory/v1/inventory_item/${sku}`, { operation: "inventory" })
   }
 
   async getOrder(orderId: string) {
-    return await this.request(`/sell/fulfillment/v1/order/${orderId}`)
+    return await this.request(`/sell/fulfillment/v1/order/${orderId}`, { operation: "fulfillment" })
+  }
+
+  // The new fulfillment's ID only comes back in the Location header
+  async createShippingFulfillment(orderId: string, fulfillment: any): Promise<string | undefined> {
+    const response = await this.send(`/sell/fulfillment/v1/order/${orderId}/shipping_fulfillment`, {
+      method: "POST",
+      operation: "fulfillment",
+      body: JSON.stringify(fulfillment),
+    })
+
+    return response.headers.get("location")?.split("/").pop()
   }
 
   async getUserProfile() {
-    return await this.request("/commerce/identity/v1/user")
+    return await this.request("/commerce/identity/v1/user", { operation: "identity" })
   }
 }
@@ -0,0 +1,76 @@
+import { FulfillmentStatus, OrderStatus, PaymentStatus, PlatformOrder } from "@/types/order"
+import { compactAddress, parseAmount, sumItems } from "@/lib/integrations/order-mapping"
+
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  NOT_STARTED: "PENDING",
+  IN_PROGRESS: "PROCESSING",
+  FULFILLED: "SHIPPED",
+}
+
+const FULFILLMENT_STATUSES: Record<string, FulfillmentStatus> = {
+  NOT_STARTED: "UNFULFILLED",
+  IN_PROGRESS: "PARTIALLY_FULFILLED",
+  FULFILLED: "FULFILLED",
+}
+
+const PAYMENT_STATUSES: Record<string, PaymentStatus> = {
+  PENDING: "PENDING",
+  PAID: "PAID",
+  FAILED: "FAILED",
+  PARTIALLY_REFUNDED: "PARTIALLY_REFUNDED",
+  FULLY_REFUNDED: "REFUNDED",
+}
+
+function orderStatus(order: any): OrderStatus {
+  if (order.cancelStatus?.cancelState === "CANCELED") return "CANCELLED"
+  if (order.orderPaymentStatus === "FULLY_REFUNDED") return "REFUNDED"
+  return ORDER_STATUSES[order.orderFulfillmentStatus] || "PENDING"
+}
+
+/**
+ * Map a Fulfillment API order
+ */
+export function mapEbayOrder(order: any): PlatformOrder {
+  const shipTo = order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo
+  const pricing = order.pricingSummary || {}
+
+  const items = (order.lineItems || []).map((item: any) => {
+    // lineItemCost covers the whole quantity
+    const lineCost = parseAmount(item.lineItemCost?.value) || 0
+    return {
+      sku: item.sku || item.legacyItemId,
+      title: item.title || item.sku || item.legacyItemId,
+      quantity: item.quantity,
+      price: lineCost / item.quantity,
+      total: lineCost,
+      platformItemId: item.lineItemId,
+    }
+  })
+
+  return {
+    platformOrderId: order.orderId,
+    platformOrderNumber: order.salesRecordReference,
+    status: orderStatus(order),
+    paymentStatus: PAYMENT_STATUSES[order.orderPaymentStatus],
+    fulfillmentStatus: FULFILLMENT_STATUSES[order.orderFulfillmentStatus] || "UNFULFILLED",
+    customerName: order.buyer?.fullName || shipTo?.fullName || order.buyer?.username || "Unknown",
+    customerEmail: order.buyer?.email || shipTo?.email || undefined,
+    shippingAddress: compactAddress({
+      name: shipTo?.fullName,
+      addressLine1: shipTo?.contactAddress?.addressLine1,
+      addressLine2: shipTo?.contactAddress?.addressLine2,
+      city: shipTo?.contactAddress?.city,
+      state: shipTo?.contactAddress?.stateOrProvince,
+      postalCode: shipTo?.contactAddress?.postalCode,
+      country: shipTo?.contactAddress?.countryCode,
+      phone: shipTo?.primaryPhone?.phoneNumber,
+    }),
+    subtotal: parseAmount(pricing.priceSubtotal?.value),
+    tax: parseAmount(pricing.tax?.value),
+    shipping: parseAmount(pricing.deliveryCost?.value),
+    total: parseAmount(pricing.total?.value) ?? sumItems(items),
+    currency: pricing.total?.currency || "USD",
+    orderDate: new Date(order.creationDate),
+    items,
+  }
+}
@@ -0,0 +1,206 @@
+import { Platform } from "@prisma/client"
+import { PlatformErrorCode, PlatformErrorDetails, PlatformFieldError } from "@/types/platforms"
+
+/**
+ * Base class for failures reported by a platform API. The subclass tells callers
+ * whether the user has to reconnect, fix data, or wait for a retry.
+ */
+export class PlatformApiError extends Error {
+  readonly code: PlatformErrorCode
+  readonly platform: Platform
+  readonly status: number | null
+
+  constructor(code: PlatformErrorCode, platform: Platform, message: string, status: number | null = null) {
+    super(message)
+    this.name = "PlatformApiError"
+    this.code = code
+    this.platform = platform
+    this.status = status
+  }
+
+  toDetails(): PlatformErrorDetails {
+    return {
+      code: this.code,
+      platform: this.platform,
+      message: this.message,
+      status: this.status,
+      occurredAt: new Date().toISOString(),
+    }
+  }
+}
+
+export class AuthExpiredError extends PlatformApiError {
+  constructor(platform: Platform, message: string, status: number | null = 401) {
+    super("AUTH_EXPIRED", platform, message, status)
+    this.name = "AuthExpiredError"
+  }
+}
+
+export class PlatformNotConnectedError extends PlatformApiError {
+  constructor(platform: Platform) {
+    super("NOT_CONNECTED", platform, "Platform not connected")
+    this.name = "PlatformNotConnectedError"
+  }
+}
+
+export class RateLimitedError extends PlatformApiError {
+  readonly retryAfter: Date | null
+
+  constructor(platform: Platform, message: string, retryAfter: Date | null = null, status: number | null = 429) {
+    super("RATE_LIMITED", platform, message, status)
+    this.name = "RateLimitedError"
+    this.retryAfter = retryAfter
+  }
+
+  toDetails(): PlatformErrorDetails {
+    return {
+      ...super.toDetails(),
+      ...(this.retryAfter ? { retryAfter: this.retryAfter.toISOString() } : {}),
+    }
+  }
+}
+
+export class ValidationRejectedError extends PlatformApiError {
+  readonly fields: PlatformFieldError[]
+
+  constructor(platform: Platform, message: string, fields: PlatformFieldError[] = [], status: number | null = 400) {
+    super("VALIDATION", platform, message, status)
+    this.name = "ValidationRejectedError"
+    this.fields = fields
+  }
+
+  toDetails(): PlatformErrorDetails {
+    return { ...super.toDetails(), fields: this.fields }
+  }
+}
+
+export class NotFoundError extends PlatformApiError {
+  constructor(platform: Platform, message: string, status: number | null = 404) {
+    super("NOT_FOUND", platform, message, status)
+    this.name = "NotFoundError"
+  }
+}
+
+export class TransientError extends PlatformApiError {
+  constructor(platform: Platform, message: string, status: number | null = null) {
+    super("TRANSIENT", platform, message, status)
+    this.name = "TransientError"
+  }
+}
+
+export class CircuitOpenError extends TransientError {
+  readonly retryAt: Date
+
+  constructor(platform: Platform, label: string, retryAt: Date) {
+    super(platform, `${label} is unavailable after repeated failures, retrying after ${retryAt.toISOString()}`)
+    this.name = "CircuitOpenError"
+    this.retryAt = retryAt
+  }
+}
+
+export class DailyLimitError extends RateLimitedError {
+  constructor(platform: Platform, label: string, operation: string, limit: number) {
+    const tomorrow = new Date()
+    tomorrow.setUTCHours(24, 0, 0, 0)
+
+    super(platform, `${label} daily limit of ${limit} calls reached for ${operation}`, tomorrow, null)
+    this.name = "DailyLimitError"
+  }
+}
+
+// Field level messages from the error bodies the supported platforms return
+function parseFieldErrors(body: any): PlatformFieldError[] {
+  if (!body || typeof body !== "object") return []
+
+  // Shopify: { errors: { title: ["can't be blank"] } }
+  if (body.errors && typeof body.errors === "object" && !Array.isArray(body.errors)) {
+    return Object.entries(body.errors).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((message) => ({ field, message: String(message) }))
+    )
+  }
+
+  // eBay, Amazon: { errors: [{ message, parameters | details }] }
+  if (Array.isArray(body.errors)) {
+    return body.errors.map((error: any) => ({
+      field: error.parameters?.[0]?.value || error.location || undefined,
+      message: error.longMessage || error.message || String(error),
+      code: error.errorId?.toString() || error.code || error.reason,
+    }))
+  }
+
+  // Google: { error: { errors: [{ reason, message, location }] } }
+  if (Array.isArray(body.error?.errors)) {
+    return parseFieldErrors(body.error)
+  }
+
+  // WooCommerce: { code, message, data: { params: { regular_price: "..." } } }
+  if (body.data?.params && typeof body.data.params === "object") {
+    return Object.entries(body.data.params).map(([field, message]) => ({
+      field,
+      message: String(message),
+      code: body.code,
+    }))
+  }
+
+  return []
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the typed error for a failed platform response
+ */
+export function createResponseError(
+  platform: Platform,
+  label: string,
+  status: number,
+  body: string,
+  retryAfter: Date | null = null
+): PlatformApiError {
+  const message = `${label} error: ${status} - ${body}`
+
+  if (status === 401 || status === 403) {
+    return new AuthExpiredError(platform, message, status)
+  }
+
+  if (status === 404) {
+    return new NotFoundError(platform, message, status)
+  }
+
+  if (status === 429) {
+    return new RateLimitedError(platform, message, retryAfter, status)
+  }
+
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationRejectedError(platform, message, parseFieldErrors(parseJson(body)), status)
+  }
+
+  if (status >= 500) {
+    return new TransientError(platform, message, status)
+  }
+
+  return new PlatformApiError("UNKNOWN", platform, message, status)
+}
+
+/**
+ * Structured form of any error raised while talking to a platform
+ */
+export function toPlatformErrorDetails(error: unknown, platform: Platform): PlatformErrorDetails {
+  if (error instanceof PlatformApiError) {
+    return error.toDetails()
+  }
+
+  return {
+    code: "UNKNOWN",
+    platform,
+    message: error instanceof Error ? error.message : "Unknown error",
+    status: null,
+    occurredAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,225 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  ProductWithVariants,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { knownCarrier } from "@/lib/integrations/order-mapping"
+import { NotFoundError } from "@/lib/integrations/errors"
+import { getOptionValues, variantIdsBySku } from "@/lib/integrations/variants"
+import { EtsyApiClient } from "./client"
+import { mapEtsyOrder } from "./order-mapper"
+
+// Etsy's property IDs for seller-named variations
+const ETSY_CUSTOM_PROPERTY_IDS = [513, 514]
+
+// Listings carry the SKUs of their offerings, the first is the listing's own
+function listingSku(listing: any): string | undefined {
+  return listing.skus?.[0] || undefined
+}
+
+export class EtsyAdapter implements PlatformAdapter {
+  readonly platform = Platform.ETSY
+  private client: EtsyApiClient
+  private shopId: string | null
+
+  // The shop chosen at connect time, sellers with several shops sync that one
+  constructor(client: EtsyApiClient, shopId?: string) {
+    this.client = client
+    this.shopId = shopId || null
+  }
+
+  async *inventoryPages(cursor?: string): AsyncGenerator<PlatformPage<PlatformInventoryLevel>> {
+    const shopId = await this.getShopId()
+
+    yield* mapPages(this.client.productPages(shopId, cursor), (p: any) => ({
+      sku: listingSku(p) || p.listing_id.toString(),
+      quantity: p.quantity || 0,
+    }))
+  }
+
+  async *productPages(cursor?: string): AsyncGenerator<PlatformPage<PlatformProduct>> {
+    const shopId = await this.getShopId()
+
+    // Prices come as an amount in the currency's smallest unit over a divisor
+    yield* mapPages(this.client.productPages(shopId, cursor), (p: any) => ({
+      platformProductId: p.listing_id.toString(),
+      sku: listingSku(p),
+      title: p.title,
+      description: p.description || undefined,
+      price: p.price ? p.price.amount / p.price.divisor : undefined,
+      quantity: p.quantity,
+      images: (p.images || []).map((image: any) => image.url_fullxfull),
+      platformUrl: p.url,
+      status: p.state,
+    }))
+  }
+
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    // Etsy requires listing_id, not SKU
+    // This is simplified - in production, you'd need to map SKU to listing_id
+    await this.client.updateInventory(sku, quantity)
+  }
+
+  async *orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncGenerator<PlatformPage<PlatformOrder>> {
+    const shopId = await this.getShopId()
+
+    yield* mapPages(
+      this.client.orderPages(
+        shopId,
+        { createdAfter: options.startDate, createdBefore: options.endDate, updatedAfter: options.updatedSince },
+        cursor
+      ),
+      mapEtsyOrder
+    )
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    const etsyProduct = {
+      title: product.title,
+      description: product.description || product.title,
+      price: product.price,
+      quantity: product.quantity,
+      who_made: "i_did",
+      when_made: "made_to_order",
+      taxonomy_id: Number(product.platformCategoryId) || 1, // Default category when not mapped
+    }
+
+    let listingId = existingListing?.platformProductId
+    if (listingId) {
+      await this.client.updateProduct(listingId, etsyProduct)
+    } else {
+      const shopId = await this.getShopId()
+      const created = await this.client.createProduct(shopId, etsyProduct)
+      listingId = created.listing_id.toString() as string
+    }
+
+    if (!product.variants.length) {
+      return { platformProductId: listingId }
+    }
+
+    return { platformProductId: listingId, variantIds: await this.updateVariations(listingId, product) }
+  }
+
+  // Variations live in the listing's inventory, one Etsy product per variant. Etsy takes
+  // two variation properties, set through its custom property IDs.
+  private async updateVariations(listingId: string, product: ProductWithVariants): Promise<Record<string, string>> {
+    const options = product.options.slice(0, ETSY_CUSTOM_PROPERTY_IDS.length)
+
+    const inventory = await this.client.updateListingInventory(listingId, {
+      products: product.variants.map((variant) => {
+        const values = getOptionValues(product, variant)
+
+        return {
+          sku: variant.sku,
+          property_values: options.map((name, index) => ({
+            property_id: ETSY_CUSTOM_PROPERTY_IDS[index],
+            property_name: name,
+            values: [values[index]],
+          })),
+          offerings: [
+            {
+              price: Number(variant.price),
+              quantity: variant.quantity,
+              is_enabled: true,
+            },
+          ],
+        }
+      }),
+      price_on_property: ETSY_CUSTOM_PROPERTY_IDS.slice(0, options.length),
+      quantity_on_property: ETSY_CUSTOM_PROPERTY_IDS.slice(0, options.length),
+      sku_on_property: ETSY_CUSTOM_PROPERTY_IDS.slice(0, options.length),
+    })
+
+    const bySku = variantIdsBySku(product)
+    const variantIds: Record<string, string> = {}
+    for (const etsyProduct of inventory.products || []) {
+      const variantId = bySku.get(etsyProduct.sku)
+      if (variantId) {
+        variantIds[variantId] = etsyProduct.product_id.toString()
+      }
+    }
+
+    return variantIds
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getUserShops()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const shopId = await this.getShopId()
+    const receipt = await this.client.getReceipt(shopId, platformOrderId)
+    return receipt ? mapEtsyOrder(receipt) : null
+  }
+
+  // Etsy tracks shipments per receipt rather than per transaction, the first one marks it shipped
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const shopId = await this.getShopId()
+    const carrier = knownCarrier(fulfillment.carrier)
+
+    const receipt = await this.client.createReceiptShipment(shopId, platformOrderId, {
+      tracking_code: fulfillment.trackingNumber,
+      carrier_name: carrier ? carrier.toLowerCase() : fulfillment.carrier,
+      send_bcc: true,
+    })
+
+    const shipment = receipt.shipments?.[receipt.shipments.length - 1]
+    return {
+      platformFulfillmentId: shipment?.receipt_shipping_id?.toString(),
+      response: shipment,
+    }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    // Etsy only sends the resource URL, the receipt or listing is fetched separately
+    const resourceUrl: string = payload.resource_url || ""
+
+    if (event.startsWith("order.")) {
+      const receiptId = resourceUrl.match(/\/receipts\/(\d+)/)?.[1]
+      return receiptId ? [{ kind: "order", platformOrderId: receiptId }] : []
+    }
+
+    if (event.startsWith("listing.")) {
+      const listingId = resourceUrl.match(/\/listings\/(\d+)/)?.[1]
+      if (!listingId) return []
+
+      const listing = await this.client.getListing(listingId)
+      return [
+        {
+          kind: "listing",
+          platformProductId: listingId,
+          price: listing.price ? listing.price.amount / listing.price.divisor : undefined,
+          quantity: listing.quantity,
+          status: listing.state === "active" ? "active" : "inactive",
+        },
+      ]
+    }
+
+    return []
+  }
+
+  // Etsy scopes every listing and receipt call to a shop. Connections made before the shop
+  // was stored use the seller's first one.
+  private async getShopId(): Promise<string> {
+    if (!this.shopId) {
+      const shops = await this.client.getUserShops()
+      if (!shops.length) {
+        throw new NotFoundError(this.platform, "No Etsy shops found", null)
+      }
+      this.shopId = shops[0].shop_id.toString()
+    }
+
+    return this.shopId!
+  }
+}
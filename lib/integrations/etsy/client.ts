@@ -1,15 +1,42 @@
-import { PlatformApiClient } from "@/types/platforms"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { nextOffset, paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TransportRequestOptions } from "@/lib/integrations/transport"
 
-export class EtsyApiClient implements PlatformApiClient {
+const PAGE_SIZE = 100
+
+// Open API v3 allows 10 requests per second and 10,000 per day
+const RATE_LIMIT = { ratePerSecond: 10, burst: 10 }
+const DAILY_LIMITS = { default: 10000 }
+
+interface EtsyOrderFilters {
+  createdAfter?: Date
+  createdBefore?: Date
+  updatedAfter?: Date
+}
+
+function toEpochSeconds(date: Date): string {
+  return Math.floor(date.getTime() / 1000).toString()
+}
+
+export class EtsyApiClient {
   private accessToken: string
   private baseUrl: string = "https://openapi.etsy.com/v3"
+  private transport: PlatformTransport
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, connectionId?: string) {
     this.accessToken = accessToken
+    this.transport = new PlatformTransport({
+      platform: Platform.ETSY,
+      label: "Etsy API",
+      connectionId,
+      rateLimit: RATE_LIMIT,
+      dailyLimits: DAILY_LIMITS,
+    })
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+  private async request(endpoint: string, options: TransportRequestOptions = {}) {
+    const response = await this.transport.request(`${this.baseUrl}${endpoint}`, {
       ...options,
       headers: {
         "x-api-key": process.env.ETSY_CLIENT_ID!,
@@ -19,11 +46,6 @@ export class EtsyApiClient implements PlatformApiClient {
       },
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Etsy API error: ${response.status} - ${error}`)
-    }
-
     return response.json()
   }
 
@@ -32,24 +54,59 @@ export class EtsyApiClient implements PlatformApiClient {
     return data.results || []
   }
 
-  async fetchProducts(shopId: string, options?: { limit?: number; offset?: number }) {
+  // Cursors are offsets
+  async fetchProducts(shopId: string, cursor?: string): Promise<PlatformPage<any>> {
+    const offset = parseInt(cursor || "0")
     const params = new URLSearchParams({
-      limit: (options?.limit || 100).toString(),
-      offset: (options?.offset || 0).toString(),
+      limit: PAGE_SIZE.toString(),
+      offset: offset.toString(),
     })
 
     const data = await this.request(`/application/shops/${shopId}/listings/active?${params}`)
-    return data.results || []
+    return {
+      items: data.results || [],
+      nextCursor: nextOffset(offset, PAGE_SIZE, data.count),
+      total: data.count,
+    }
+  }
+
+  productPages(shopId: string, cursor?: string) {
+    return paginate((next) => this.fetchProducts(shopId, next), cursor)
   }
 
-  async fetchOrders(shopId: string, options?: { limit?: number; offset?: number }) {
+  async fetchOrders(
+    shopId: string,
+    options: EtsyOrderFilters = {},
+    cursor?: string
+  ): Promise<PlatformPage<any>> {
+    const offset = parseInt(cursor || "0")
     const params = new URLSearchParams({
-      limit: (options?.limit || 100).toString(),
-      offset: (options?.offset || 0).toString(),
+      limit: PAGE_SIZE.toString(),
+      offset: offset.toString(),
     })
 
+    if (options.createdAfter) {
+      params.append("min_created", toEpochSeconds(options.createdAfter))
+    }
+
+    if (options.createdBefore) {
+      params.append("max_created", toEpochSeconds(options.createdBefore))
+    }
+
+    if (options.updatedAfter) {
+      params.append("min_last_modified", toEpochSeconds(options.updatedAfter))
+    }
+
     const data = await this.request(`/application/shops/${shopId}/receipts?${params}`)
-    return data.results || []
+    return {
+      items: data.results || [],
+      nextCursor: nextOffset(offset, PAGE_SIZE, data.count),
+      total: data.count,
+    }
+  }
+
+  orderPages(shopId: string, options: EtsyOrderFilters = {}, cursor?: string) {
+    return paginate((next) => this.fetchOrders(shopId, options, next), cursor)
   }
 
   async updateInventory(listingId: string, quantity: number) {
@@ -74,6 +131,14 @@ export class EtsyApiClient implements PlatformApiClient {
     })
   }
 
+  // Replaces every product (variation) of the listing, returns the saved inventory
+  async updateListingInventory(listingId: string, inventory: any) {
+    return await this.request(`/application/listings/${listingId}/inventory`, {
+      method: "PUT",
+      body: JSON.stringify(inventory),
+    })
+  }
+
   async createProduct(shopId: string, product: any) {
     return await this.request(`/application/shops/${shopId}/listings`, {
       method: "POST",
@@ -95,4 +160,12 @@ export class EtsyApiClient implements PlatformApiClient {
   async getReceipt(shopId: string, receiptId: string) {
     return await this.request(`/application/shops/${shopId}/receipts/${receiptId}`)
   }
+
+  // Returns the receipt with the new shipment appended to its shipments
+  async createReceiptShipment(shopId: string, receiptId: string, shipment: any) {
+    return await this.request(`/application/shops/${shopId}/receipts/${receiptId}/tracking`, {
+      method: "POST",
+      body: JSON.stringify(shipment),
+    })
+  }
 }
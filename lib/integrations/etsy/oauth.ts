@@ -65,6 +65,7 @@ export async function exchangeCodeForToken(
 
 export async function refreshAccessToken(refreshToken: string): Promise<{
   accessToken: string
+  refreshToken?: string
   expiresIn: number
 }> {
   const response = await fetch(etsyConfig.tokenUrl!, {
@@ -86,8 +87,10 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
 
   const data = await response.json()
 
+  // Etsy rotates refresh tokens on every refresh
   return {
     accessToken: data.access_token,
+    refreshToken: data.refresh_token,
     expiresIn: data.expires_in,
   }
 }
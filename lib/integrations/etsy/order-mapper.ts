@@ -0,0 +1,81 @@
+import { OrderStatus, PaymentStatus, PlatformOrder } from "@/types/order"
+import { compactAddress } from "@/lib/integrations/order-mapping"
+
+// Etsy money is an integer amount with a divisor, e.g. { amount: 1999, divisor: 100 }
+function toAmount(money: any): number | undefined {
+  if (!money || money.amount === undefined) return undefined
+  return money.amount / (money.divisor || 100)
+}
+
+function orderStatus(receipt: any): OrderStatus {
+  switch (receipt.status?.toLowerCase()) {
+    case "canceled":
+      return "CANCELLED"
+    case "fully refunded":
+      return "REFUNDED"
+    case "completed":
+      return "SHIPPED"
+  }
+
+  if (receipt.is_shipped) return "SHIPPED"
+  if (receipt.is_paid || receipt.status?.toLowerCase() === "paid") return "PROCESSING"
+  return "PENDING"
+}
+
+function paymentStatus(receipt: any): PaymentStatus {
+  switch (receipt.status?.toLowerCase()) {
+    case "fully refunded":
+      return "REFUNDED"
+    case "partially refunded":
+      return "PARTIALLY_REFUNDED"
+    case "canceled":
+      return "VOIDED"
+  }
+
+  return receipt.is_paid ? "PAID" : "PENDING"
+}
+
+/**
+ * Map a shop receipt with its transactions
+ */
+export function mapEtsyOrder(receipt: any): PlatformOrder {
+  const salesTax = toAmount(receipt.total_tax_cost)
+  const vat = toAmount(receipt.total_vat_cost)
+  const tax = salesTax === undefined && vat === undefined ? undefined : (salesTax || 0) + (vat || 0)
+
+  return {
+    platformOrderId: receipt.receipt_id.toString(),
+    status: orderStatus(receipt),
+    paymentStatus: paymentStatus(receipt),
+    fulfillmentStatus: receipt.is_shipped ? "FULFILLED" : "UNFULFILLED",
+    customerName: receipt.name || "Unknown",
+    customerEmail: receipt.buyer_email || undefined,
+    shippingAddress: compactAddress({
+      name: receipt.name,
+      addressLine1: receipt.first_line,
+      addressLine2: receipt.second_line,
+      city: receipt.city,
+      state: receipt.state,
+      postalCode: receipt.zip,
+      country: receipt.country_iso,
+    }),
+    subtotal: toAmount(receipt.subtotal),
+    tax,
+    shipping: toAmount(receipt.total_shipping_cost),
+    total: toAmount(receipt.grandtotal) || 0,
+    currency: receipt.grandtotal?.currency_code || "USD",
+    orderDate: new Date(receipt.create_timestamp * 1000),
+    items: (receipt.transactions || []).map((txn: any) => {
+      const price = toAmount(txn.price) || 0
+      return {
+        sku: txn.sku || txn.product_data?.sku || txn.listing_id.toString(),
+        title: txn.title || txn.listing_id.toString(),
+        quantity: txn.quantity,
+        price,
+        total: price * txn.quantity,
+        platformItemId: txn.transaction_id.toString(),
+        platformProductId: txn.listing_id?.toString(),
+      }
+    }),
+  }
+}
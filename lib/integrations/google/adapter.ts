@@ -0,0 +1,151 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { knownCarrier } from "@/lib/integrations/order-mapping"
+import { GoogleShoppingApiClient } from "./client"
+import { mapGoogleOrder } from "./order-mapper"
+
+// The Content API filters orders by when they were placed, not when they changed. Incremental
+// syncs read back orders placed this long before the checkpoint to pick up their cancellations
+// and shipments. Orders placed earlier than that and changed since are missed.
+const REOPEN_WINDOW_DAYS = 30
+
+function reopenWindowStart(updatedSince: Date): Date {
+  return new Date(updatedSince.getTime() - REOPEN_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+}
+
+export class GoogleShoppingAdapter implements PlatformAdapter {
+  readonly platform = Platform.GOOGLE_SHOPPING
+  private client: GoogleShoppingApiClient
+
+  constructor(client: GoogleShoppingApiClient) {
+    this.client = client
+  }
+
+  inventoryPages(cursor?: string): AsyncIterable<PlatformPage<PlatformInventoryLevel>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      sku: p.offerId,
+      quantity: p.availability === "in stock" ? 999 : 0, // Google doesn't provide exact quantities
+    }))
+  }
+
+  // Offer IDs are the SKUs, Google only knows whether an offer is in stock
+  productPages(cursor?: string): AsyncIterable<PlatformPage<PlatformProduct>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      platformProductId: p.offerId,
+      sku: p.offerId,
+      gtin: p.gtin || undefined,
+      title: p.title,
+      description: p.description || undefined,
+      price: p.price?.value ? parseFloat(p.price.value) : undefined,
+      images: [p.imageLink, ...(p.additionalImageLinks || [])].filter(Boolean),
+      platformUrl: p.link,
+      status: p.availability,
+    }))
+  }
+
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    await this.client.updateInventory(sku, quantity)
+  }
+
+  orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncIterable<PlatformPage<PlatformOrder>> {
+    return mapPages(
+      this.client.orderPages(
+        {
+          placedAfter: (options.updatedSince ? reopenWindowStart(options.updatedSince) : options.startDate)?.toISOString(),
+          placedBefore: options.endDate?.toISOString(),
+        },
+        cursor
+      ),
+      mapGoogleOrder
+    )
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    const googleProduct = {
+      offerId: product.sku,
+      title: product.title,
+      description: product.description,
+      link: `https://example.com/products/${product.sku}`,
+      imageLink: product.images[0],
+      contentLanguage: "en",
+      targetCountry: "US",
+      channel: "online",
+      availability: product.quantity > 0 ? "in stock" : "out of stock",
+      condition: "new",
+      price: {
+        value: (product.compareAtPrice ?? product.price).toString(),
+        currency: "USD",
+      },
+      ...(product.compareAtPrice ? { salePrice: { value: product.price.toString(), currency: "USD" } } : {}),
+      ...(product.category ? { productTypes: [product.category] } : {}),
+      ...(product.platformCategoryId ? { googleProductCategory: product.platformCategoryId } : {}),
+      customAttributes: Object.entries(product.itemSpecifics).map(([name, value]) => ({ name, value })),
+      brand: "My Brand",
+    }
+
+    if (existingListing) {
+      await this.client.updateProduct(product.sku, googleProduct)
+    } else {
+      await this.client.createProduct(googleProduct)
+    }
+
+    return { platformProductId: product.sku }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getMerchantInfo()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const order = await this.client.getOrder(platformOrderId)
+    return order ? mapGoogleOrder(order) : null
+  }
+
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const carrier = knownCarrier(fulfillment.carrier)
+
+    const response = await this.client.shipLineItems(platformOrderId, {
+      operationId: fulfillment.reference,
+      lineItems: fulfillment.lines.map((line) => ({
+        lineItemId: line.platformItemId,
+        quantity: line.quantity,
+      })),
+      shipmentInfos: [
+        {
+          shipmentId: fulfillment.reference,
+          carrier: carrier ? carrier.toLowerCase() : fulfillment.carrier,
+          trackingId: fulfillment.trackingNumber,
+        },
+      ],
+    })
+
+    // "duplicate" means an earlier attempt with this operation ID already went through
+    return { platformFulfillmentId: fulfillment.reference, response }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    // Pub/Sub push messages carry the notification as base64 JSON
+    const data = payload.message?.data
+      ? JSON.parse(Buffer.from(payload.message.data, "base64").toString("utf8"))
+      : payload
+
+    if (data.resourceType === "order" && data.resourceId) {
+      return [{ kind: "order", platformOrderId: data.resourceId }]
+    }
+
+    return []
+  }
+}
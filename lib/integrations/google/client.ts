@@ -1,18 +1,38 @@
-import { PlatformApiClient } from "@/types/platforms"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TransportRequestOptions } from "@/lib/integrations/transport"
 
-export class GoogleShoppingApiClient implements PlatformApiClient {
+const PAGE_SIZE = 250
+
+const RATE_LIMIT = { ratePerSecond: 5, burst: 10 }
+
+// The Orders API only filters on placement date, there is no modified date filter
+interface GoogleOrderFilters {
+  placedAfter?: string
+  placedBefore?: string
+}
+
+export class GoogleShoppingApiClient {
   private accessToken: string
   private merchantId: string
+  private transport: PlatformTransport
 
-  constructor(accessToken: string, merchantId: string) {
+  constructor(accessToken: string, merchantId: string, connectionId?: string) {
     this.accessToken = accessToken
     this.merchantId = merchantId
+    this.transport = new PlatformTransport({
+      platform: Platform.GOOGLE_SHOPPING,
+      label: "Google Shopping API",
+      connectionId,
+      rateLimit: RATE_LIMIT,
+    })
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
+  private async request(endpoint: string, options: TransportRequestOptions = {}) {
     const url = `https://shoppingcontent.googleapis.com/content/v2.1/${this.merchantId}${endpoint}`
 
-    const response = await fetch(url, {
+    const response = await this.transport.request(url, {
       ...options,
       headers: {
         Authorization: `Bearer ${this.accessToken}`,
@@ -21,43 +41,56 @@ export class GoogleShoppingApiClient implements PlatformApiClient {
       },
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Google Shopping API error: ${response.status} - ${error}`)
-    }
-
     return response.json()
   }
 
-  async fetchProducts(options?: { maxResults?: number; pageToken?: string }) {
+  // Cursors are page tokens
+  async fetchProducts(pageToken?: string): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
-      maxResults: (options?.maxResults || 250).toString(),
+      maxResults: PAGE_SIZE.toString(),
     })
 
-    if (options?.pageToken) {
-      params.append("pageToken", options.pageToken)
+    if (pageToken) {
+      params.append("pageToken", pageToken)
     }
 
     const data = await this.request(`/products?${params}`)
-    return data.resources || []
+    return { items: data.resources || [], nextCursor: data.nextPageToken }
   }
 
-  async fetchOrders(options?: { maxResults?: number; pageToken?: string }) {
+  productPages(pageToken?: string) {
+    return paginate((next) => this.fetchProducts(next), pageToken)
+  }
+
+  async fetchOrders(options: GoogleOrderFilters = {}, pageToken?: string): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
-      maxResults: (options?.maxResults || 250).toString(),
+      maxResults: PAGE_SIZE.toString(),
     })
 
-    if (options?.pageToken) {
-      params.append("pageToken", options.pageToken)
+    if (options.placedAfter) {
+      params.append("placedDateStart", options.placedAfter)
+    }
+
+    if (options.placedBefore) {
+      params.append("placedDateEnd", options.placedBefore)
+    }
+
+    if (pageToken) {
+      params.append("pageToken", pageToken)
     }
 
     const data = await this.request(`/orders?${params}`)
-    return data.resources || []
+    return { items: data.resources || [], nextCursor: data.nextPageToken }
+  }
+
+  orderPages(options: GoogleOrderFilters = {}, pageToken?: string) {
+    return paginate((next) => this.fetchOrders(options, next), pageToken)
   }
 
   async updateInventory(productId: string, quantity: number) {
     await this.request(`/inventory/${productId}/set`, {
       method: "POST",
+      idempotent: true,
       body: JSON.stringify({
         quantity,
         availability: quantity > 0 ? "in stock" : "out of stock",
@@ -89,6 +122,15 @@ export class GoogleShoppingApiClient implements PlatformApiClient {
     return await this.request(`/orders/${orderId}`)
   }
 
+  // operationId makes repeats of the same request a no-op
+  async shipLineItems(orderId: string, shipment: any) {
+    return await this.request(`/orders/${orderId}/shipLineItems`, {
+      method: "POST",
+      idempotent: true,
+      body: JSON.stringify(shipment),
+    })
+  }
+
   async getMerchantInfo() {
     return await this.request("")
   }
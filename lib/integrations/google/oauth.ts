@@ -79,3 +79,20 @@ export async function refreshAccessToken(refreshToken: string): Promise<{
     expiresIn: data.expires_in,
   }
 }
+
+export async function getMerchantId(accessToken: string): Promise<string | null> {
+  const response = await fetch("https://shoppingcontent.googleapis.com/content/v2.1/accounts/authinfo", {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Google account lookup failed: ${error}`)
+  }
+
+  const data = await response.json()
+
+  return data.accountIdentifiers?.[0]?.merchantId || null
+}
@@ -0,0 +1,84 @@
+import { FulfillmentStatus, OrderAddress, OrderStatus, PaymentStatus, PlatformOrder } from "@/types/order"
+import { compactAddress, parseAmount } from "@/lib/integrations/order-mapping"
+
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  inProgress: "PENDING",
+  pendingShipment: "PENDING",
+  partiallyShipped: "PROCESSING",
+  shipped: "SHIPPED",
+  partiallyDelivered: "SHIPPED",
+  delivered: "DELIVERED",
+  partiallyReturned: "DELIVERED",
+  returned: "REFUNDED",
+  canceled: "CANCELLED",
+}
+
+const FULFILLMENT_STATUSES: Record<string, FulfillmentStatus> = {
+  partiallyShipped: "PARTIALLY_FULFILLED",
+  shipped: "FULFILLED",
+  partiallyDelivered: "FULFILLED",
+  delivered: "FULFILLED",
+  partiallyReturned: "FULFILLED",
+  returned: "FULFILLED",
+}
+
+const PAYMENT_STATUSES: Record<string, PaymentStatus> = {
+  paymentRequested: "PENDING",
+  pendingAuthorization: "PENDING",
+  paymentSecured: "PAID",
+  paymentRejected: "FAILED",
+}
+
+function mapAddress(address: any): OrderAddress {
+  return compactAddress({
+    name: address?.recipientName || address?.fullAddress?.[0],
+    addressLine1: address?.streetAddress?.[0],
+    addressLine2: address?.streetAddress?.[1],
+    city: address?.locality,
+    state: address?.region,
+    postalCode: address?.postalCode,
+    country: address?.country,
+  })
+}
+
+/**
+ * Map a Content API order
+ */
+export function mapGoogleOrder(order: any): PlatformOrder {
+  // netPriceAmount excludes tax and shipping
+  const subtotal = parseAmount(order.netPriceAmount?.value)
+  const tax = parseAmount(order.netTaxAmount?.value)
+  const shipping = parseAmount(order.shippingCost?.value)
+  const shippingTax = parseAmount(order.shippingCostTax?.value)
+
+  return {
+    platformOrderId: order.id,
+    platformOrderNumber: order.merchantOrderId,
+    status: ORDER_STATUSES[order.status] || "PENDING",
+    paymentStatus: order.status === "returned" ? "REFUNDED" : PAYMENT_STATUSES[order.paymentStatus],
+    fulfillmentStatus: FULFILLMENT_STATUSES[order.status] || "UNFULFILLED",
+    customerName: order.customer?.fullName || order.shippingAddress?.recipientName || "Unknown",
+    customerEmail: order.customer?.email || undefined,
+    shippingAddress: mapAddress(order.shippingAddress),
+    billingAddress: order.billingAddress ? mapAddress(order.billingAddress) : undefined,
+    subtotal,
+    tax: tax === undefined && shippingTax === undefined ? undefined : (tax || 0) + (shippingTax || 0),
+    shipping,
+    total: (subtotal || 0) + (tax || 0) + (shipping || 0) + (shippingTax || 0),
+    currency: order.netPriceAmount?.currency || "USD",
+    orderDate: new Date(order.placedDate),
+    items: (order.lineItems || []).map((item: any) => {
+      // price covers the whole quantity
+      const linePrice = parseAmount(item.price?.value) || 0
+      return {
+        sku: item.product?.offerId || item.id,
+        title: item.product?.title || item.product?.offerId || item.id,
+        quantity: item.quantityOrdered,
+        price: linePrice / item.quantityOrdered,
+        total: linePrice,
+        platformItemId: item.id,
+        platformProductId: item.product?.offerId,
+      }
+    }),
+  }
+}
@@ -0,0 +1,73 @@
+import { Platform, ConnectionStatus } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { getPlatformConnection, recordHealthCheck } from "@/lib/integrations/connection-manager"
+import { createPlatformAdapter, isPlatformSupported } from "@/lib/integrations/registry"
+import { AuthExpiredError } from "@/lib/integrations/errors"
+
+export interface ConnectionHealthResult {
+  userId: string
+  platform: Platform
+  healthy: boolean
+  error?: string
+}
+
+/**
+ * Ping a single connection and record the outcome on it.
+ * Loading the connection refreshes expiring tokens as a side effect.
+ */
+export async function checkConnectionHealth(
+  userId: string,
+  platform: Platform
+): Promise<ConnectionHealthResult> {
+  let connection
+  try {
+    connection = await getPlatformConnection(userId, platform)
+  } catch (error) {
+    // Token refresh failed, the connection has already been flagged
+    return {
+      userId,
+      platform,
+      healthy: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+
+  if (!connection) {
+    return { userId, platform, healthy: false, error: "Platform not connected" }
+  }
+
+  try {
+    await createPlatformAdapter(connection).ping()
+    await recordHealthCheck(userId, platform, true)
+
+    return { userId, platform, healthy: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    await recordHealthCheck(userId, platform, false, message, error instanceof AuthExpiredError)
+
+    return { userId, platform, healthy: false, error: message }
+  }
+}
+
+/**
+ * Check every connection that is expected to work.
+ * Expired and disconnected connections need the user to reconnect, so they are skipped.
+ */
+export async function checkAllConnectionsHealth(): Promise<ConnectionHealthResult[]> {
+  const connections = await prisma.platformConnection.findMany({
+    where: {
+      status: { in: [ConnectionStatus.ACTIVE, ConnectionStatus.ERROR] },
+    },
+    select: { userId: true, platform: true },
+  })
+
+  const results: ConnectionHealthResult[] = []
+
+  for (const { userId, platform } of connections) {
+    if (!isPlatformSupported(platform)) continue
+
+    results.push(await checkConnectionHealth(userId, platform))
+  }
+
+  return results
+}
@@ -0,0 +1,131 @@
+import { Platform } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+
+export interface ApiCallRecord {
+  connectionId: string
+  platform: Platform
+  latencyMs: number
+  status: number | null
+  retries: number
+  throttled: boolean
+  failed: boolean
+  circuitOpened: boolean
+  error?: string
+}
+
+export interface ConnectionApiMetrics {
+  calls: number
+  failures: number
+  retries: number
+  throttled: number
+  circuitOpens: number
+  averageLatencyMs: number
+  lastStatus: number | null
+  lastError: string | null
+}
+
+function startOfHour(date: Date): Date {
+  const hour = new Date(date)
+  hour.setUTCMinutes(0, 0, 0)
+  return hour
+}
+
+/**
+ * Add a call to its connection's hourly bucket. Never throws or blocks the call it measures.
+ */
+export function recordApiCall(call: ApiCallRecord): void {
+  const hour = startOfHour(new Date())
+  const counters = {
+    calls: 1,
+    failures: call.failed ? 1 : 0,
+    retries: call.retries,
+    throttled: call.throttled ? 1 : 0,
+    circuitOpens: call.circuitOpened ? 1 : 0,
+    totalLatencyMs: Math.round(call.latencyMs),
+  }
+
+  prisma.platformApiMetric
+    .upsert({
+      where: { connectionId_hour: { connectionId: call.connectionId, hour } },
+      create: {
+        connectionId: call.connectionId,
+        platform: call.platform,
+        hour,
+        ...counters,
+        lastStatus: call.status,
+        lastError: call.error,
+      },
+      update: {
+        calls: { increment: counters.calls },
+        failures: { increment: counters.failures },
+        retries: { increment: counters.retries },
+        throttled: { increment: counters.throttled },
+        circuitOpens: { increment: counters.circuitOpens },
+        totalLatencyMs: { increment: counters.totalLatencyMs },
+        lastStatus: call.status,
+        ...(call.error ? { lastError: call.error } : {}),
+      },
+    })
+    .catch((error) => console.error("Failed to record API call metrics:", error))
+}
+
+/**
+ * Totals per connection since a point in time
+ */
+export async function getConnectionApiMetrics(
+  connectionIds: string[],
+  since: Date
+): Promise<Record<string, ConnectionApiMetrics>> {
+  const buckets = await prisma.platformApiMetric.findMany({
+    where: {
+      connectionId: { in: connectionIds },
+      hour: { gte: startOfHour(since) },
+    },
+    orderBy: { hour: "asc" },
+  })
+
+  const metrics: Record<string, ConnectionApiMetrics> = {}
+  const latency: Record<string, number> = {}
+
+  for (const bucket of buckets) {
+    const totals = metrics[bucket.connectionId] || {
+      calls: 0,
+      failures: 0,
+      retries: 0,
+      throttled: 0,
+      circuitOpens: 0,
+      averageLatencyMs: 0,
+      lastStatus: null,
+      lastError: null,
+    }
+
+    totals.calls += bucket.calls
+    totals.failures += bucket.failures
+    totals.retries += bucket.retries
+    totals.throttled += bucket.throttled
+    totals.circuitOpens += bucket.circuitOpens
+    // Buckets are in time order, so the latest one wins
+    totals.lastStatus = bucket.lastStatus
+    totals.lastError = bucket.lastError || totals.lastError
+
+    latency[bucket.connectionId] = (latency[bucket.connectionId] || 0) + bucket.totalLatencyMs
+    metrics[bucket.connectionId] = totals
+  }
+
+  for (const [connectionId, totals] of Object.entries(metrics)) {
+    totals.averageLatencyMs = totals.calls ? Math.round(latency[connectionId] / totals.calls) : 0
+  }
+
+  return metrics
+}
+
+/**
+ * Remove buckets older than the cutoff
+ */
+export async function pruneApiMetrics(before: Date): Promise<number> {
+  const result = await prisma.platformApiMetric.deleteMany({
+    where: { hour: { lt: before } },
+  })
+
+  return result.count
+}
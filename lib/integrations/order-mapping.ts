@@ -0,0 +1,41 @@
+import { OrderAddress, PlatformOrderItem } from "@/types/order"
+
+/**
+ * Parse a money amount, undefined when the platform did not send one
+ */
+export function parseAmount(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined
+
+  const amount = typeof value === "number" ? value : parseFloat(value)
+  return isNaN(amount) ? undefined : amount
+}
+
+/**
+ * Drop empty address fields, platforms send blanks for parts they withhold
+ */
+export function compactAddress(address: OrderAddress): OrderAddress {
+  return Object.fromEntries(
+    Object.entries(address)
+      .map(([field, value]) => [field, typeof value === "string" ? value.trim() : value])
+      .filter(([, value]) => value)
+  )
+}
+
+export function sumItems(items: PlatformOrderItem[]): number {
+  return items.reduce((sum, item) => sum + (item.total ?? item.price * item.quantity), 0)
+}
+
+export type CarrierCode = "USPS" | "UPS" | "FEDEX" | "DHL"
+
+/**
+ * Recognize a major carrier in a free-form carrier name, each platform spells them its own way
+ */
+export function knownCarrier(carrier: string): CarrierCode | null {
+  const name = carrier.toUpperCase().replace(/[^A-Z]/g, "")
+
+  if (name.startsWith("USPS") || name.includes("POSTALSERVICE")) return "USPS"
+  if (name.startsWith("UPS")) return "UPS"
+  if (name.startsWith("FEDEX") || name.includes("FEDERALEXPRESS")) return "FEDEX"
+  if (name.startsWith("DHL")) return "DHL"
+  return null
+}
@@ -0,0 +1,43 @@
+import { PlatformPage } from "@/types/platforms"
+
+/**
+ * Walk a paginated endpoint from a cursor until the platform reports no next page
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor?: string) => Promise<PlatformPage<T>>,
+  cursor?: string
+): AsyncGenerator<PlatformPage<T>> {
+  let current = cursor
+
+  while (true) {
+    const page = await fetchPage(current)
+    yield { ...page, cursor: current }
+
+    // A cursor that does not move would request the same page forever
+    if (!page.nextCursor || page.nextCursor === current) {
+      return
+    }
+
+    current = page.nextCursor
+  }
+}
+
+/**
+ * Transform the items of each page, keeping its cursors so checkpoints stay valid
+ */
+export async function* mapPages<T, U>(
+  pages: AsyncIterable<PlatformPage<T>>,
+  map: (item: T) => U
+): AsyncGenerator<PlatformPage<U>> {
+  for await (const page of pages) {
+    yield { ...page, items: page.items.map(map) }
+  }
+}
+
+/**
+ * Offset cursors for APIs that report a total count
+ */
+export function nextOffset(offset: number, pageSize: number, total: number | undefined): string | undefined {
+  const next = offset + pageSize
+  return total !== undefined && next < total ? next.toString() : undefined
+}
@@ -0,0 +1,102 @@
+import { Platform, PlatformConnection } from "@prisma/client"
+import { PlatformAdapter } from "@/types/platforms"
+import { getPlatformConnection } from "@/lib/integrations/connection-manager"
+import { EbayApiClient } from "@/lib/integrations/ebay/client"
+import { EbayAdapter } from "@/lib/integrations/ebay/adapter"
+import { AmazonApiClient } from "@/lib/integrations/amazon/client"
+import { AmazonAdapter } from "@/lib/integrations/amazon/adapter"
+import { EtsyApiClient } from "@/lib/integrations/etsy/client"
+import { EtsyAdapter } from "@/lib/integrations/etsy/adapter"
+import { ShopifyApiClient } from "@/lib/integrations/shopify/client"
+import { ShopifyAdapter } from "@/lib/integrations/shopify/adapter"
+import { WooCommerceApiClient } from "@/lib/integrations/woocommerce/client"
+import { WooCommerceAdapter } from "@/lib/integrations/woocommerce/adapter"
+import { GoogleShoppingApiClient } from "@/lib/integrations/google/client"
+import { GoogleShoppingAdapter } from "@/lib/integrations/google/adapter"
+
+// Builds an adapter from a connection with decrypted tokens
+type PlatformAdapterFactory = (connection: PlatformConnection) => PlatformAdapter
+
+function getMetadata(connection: PlatformConnection): Record<string, any> {
+  return (connection.metadata as Record<string, any>) || {}
+}
+
+const ADAPTER_FACTORIES: Partial<Record<Platform, PlatformAdapterFactory>> = {
+  [Platform.EBAY]: (connection) =>
+    new EbayAdapter(
+      new EbayApiClient(connection.accessToken, process.env.EBAY_ENVIRONMENT === "sandbox", connection.id)
+    ),
+
+  [Platform.AMAZON]: (connection) =>
+    new AmazonAdapter(
+      new AmazonApiClient(connection.accessToken, connection.refreshToken!, undefined, connection.id)
+    ),
+
+  [Platform.ETSY]: (connection) =>
+    new EtsyAdapter(
+      new EtsyApiClient(connection.accessToken, connection.id),
+      getMetadata(connection).shopId?.toString()
+    ),
+
+  [Platform.SHOPIFY]: (connection) => {
+    const metadata = getMetadata(connection)
+    return new ShopifyAdapter(
+      new ShopifyApiClient(connection.accessToken, metadata.shop || metadata.domain, connection.id)
+    )
+  },
+
+  // Consumer key and secret are stored as the access and refresh tokens
+  [Platform.WOOCOMMERCE]: (connection) =>
+    new WooCommerceAdapter(
+      new WooCommerceApiClient(
+        connection.accessToken,
+        connection.refreshToken!,
+        getMetadata(connection).storeUrl,
+        connection.id
+      )
+    ),
+
+  [Platform.GOOGLE_SHOPPING]: (connection) =>
+    new GoogleShoppingAdapter(
+      new GoogleShoppingApiClient(
+        connection.accessToken,
+        getMetadata(connection).merchantId,
+        connection.id
+      )
+    ),
+}
+
+export function isPlatformSupported(platform: Platform): boolean {
+  return platform in ADAPTER_FACTORIES
+}
+
+export function getSupportedPlatforms(): Platform[] {
+  return Object.keys(ADAPTER_FACTORIES) as Platform[]
+}
+
+export function createPlatformAdapter(connection: PlatformConnection): PlatformAdapter {
+  const factory = ADAPTER_FACTORIES[connection.platform]
+
+  if (!factory) {
+    throw new Error(`Platform ${connection.platform} not supported`)
+  }
+
+  return factory(connection)
+}
+
+/**
+ * Resolve the adapter for a user's platform connection.
+ * Returns null when the platform is not connected.
+ */
+export async function getPlatformAdapter(
+  userId: string,
+  platform: Platform
+): Promise<PlatformAdapter | null> {
+  const connection = await getPlatformConnection(userId, platform)
+
+  if (!connection) {
+    return null
+  }
+
+  return createPlatformAdapter(connection)
+}
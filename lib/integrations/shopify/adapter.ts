@@ -0,0 +1,278 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { getOptionValues, variantIdsBySku } from "@/lib/integrations/variants"
+import { NotFoundError, ValidationRejectedError } from "@/lib/integrations/errors"
+import { ShopifyApiClient } from "./client"
+import { mapShopifyOrder } from "./order-mapper"
+
+const SHOPIFY_INVENTORY_BATCH_SIZE = 50
+
+export class ShopifyAdapter implements PlatformAdapter {
+  readonly platform = Platform.SHOPIFY
+  private client: ShopifyApiClient
+
+  constructor(client: ShopifyApiClient) {
+    this.client = client
+  }
+
+  async *inventoryPages(cursor?: string): AsyncGenerator<PlatformPage<PlatformInventoryLevel>> {
+    for await (const page of this.client.productPages(cursor)) {
+      const skuByItemId = new Map<string, string>()
+      for (const product of page.items) {
+        for (const variant of product.variants || []) {
+          if (variant.sku) {
+            skuByItemId.set(variant.inventory_item_id.toString(), variant.sku)
+          }
+        }
+      }
+
+      // Report stock per location, the inventory levels endpoint takes at most 50 items per call
+      const itemIds = Array.from(skuByItemId.keys())
+      const inventory: PlatformInventoryLevel[] = []
+      for (let i = 0; i < itemIds.length; i += SHOPIFY_INVENTORY_BATCH_SIZE) {
+        const levels = await this.client.getInventoryLevels(itemIds.slice(i, i + SHOPIFY_INVENTORY_BATCH_SIZE))
+
+        for (const level of levels) {
+          inventory.push({
+            sku: skuByItemId.get(level.inventory_item_id.toString())!,
+            quantity: level.available || 0,
+            platformLocationId: level.location_id.toString(),
+          })
+        }
+      }
+
+      yield { ...page, items: inventory }
+    }
+  }
+
+  // Each variant comes through as its own product, sharing the Shopify product ID
+  async *productPages(cursor?: string): AsyncGenerator<PlatformPage<PlatformProduct>> {
+    for await (const page of this.client.productPages(cursor)) {
+      const items = page.items.flatMap((product: any) => {
+        const variants: any[] = product.variants || []
+
+        return variants.map((variant) => ({
+          platformProductId: product.id.toString(),
+          sku: variant.sku || undefined,
+          gtin: variant.barcode || undefined,
+          title: variants.length > 1 ? `${product.title} - ${variant.title}` : product.title,
+          description: product.body_html || undefined,
+          price: parseFloat(variant.price),
+          quantity: variant.inventory_quantity ?? undefined,
+          images: (product.images || []).map((image: any) => image.src),
+          status: product.status,
+        }))
+      })
+
+      yield { ...page, items }
+    }
+  }
+
+  async updateInventory(sku: string, quantity: number, platformLocationId?: string): Promise<void> {
+    // Shopify sets stock per inventory item and location, not per SKU
+    const variant = await this.client.findVariantBySku(sku)
+
+    if (!variant) {
+      throw new NotFoundError(this.platform, `No Shopify variant found for SKU ${sku}`, null)
+    }
+
+    const locationId = platformLocationId || (await this.getPrimaryLocationId())
+
+    await this.client.updateInventory(variant.inventoryItemId, quantity, locationId)
+  }
+
+  orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncIterable<PlatformPage<PlatformOrder>> {
+    return mapPages(
+      this.client.orderPages(
+        {
+          createdAtMin: options.startDate?.toISOString(),
+          createdAtMax: options.endDate?.toISOString(),
+          updatedAtMin: options.updatedSince?.toISOString(),
+        },
+        cursor
+      ),
+      mapShopifyOrder
+    )
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    const listedVariantIds = (existingListing?.variantIds as Record<string, string> | null) || {}
+
+    // Shopify takes at most three options, each variant sets option1 to option3
+    const variants = product.variants.length
+      ? product.variants.map((variant) => ({
+          ...(listedVariantIds[variant.id] ? { id: Number(listedVariantIds[variant.id]) } : {}),
+          ...Object.fromEntries(getOptionValues(product, variant).map((value, index) => [`option${index + 1}`, value])),
+          sku: variant.sku,
+          price: variant.price.toString(),
+          barcode: variant.barcode,
+          inventory_quantity: variant.quantity,
+        }))
+      : [
+          {
+            sku: product.sku,
+            price: product.price.toString(),
+            compare_at_price: product.compareAtPrice?.toString() ?? null,
+            inventory_quantity: product.quantity,
+          },
+        ]
+
+    const shopifyProduct = {
+      title: product.title,
+      body_html: product.description,
+      vendor: "My Store",
+      product_type: product.category,
+      tags: product.tags.join(","),
+      ...(product.variants.length ? { options: product.options.map((name) => ({ name })) } : {}),
+      variants,
+      images: product.images.map((url: string) => ({ src: url })),
+    }
+
+    const saved = existingListing
+      ? await this.client.updateProduct(existingListing.platformProductId, shopifyProduct)
+      : await this.client.createProduct(shopifyProduct)
+
+    if (!product.variants.length) {
+      return { platformProductId: saved.id.toString() }
+    }
+
+    const bySku = variantIdsBySku(product)
+    const variantIds: Record<string, string> = {}
+    for (const variant of saved.variants || []) {
+      const variantId = bySku.get(variant.sku)
+      if (variantId) {
+        variantIds[variantId] = variant.id.toString()
+      }
+    }
+
+    return { platformProductId: saved.id.toString(), variantIds }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getShop()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const order = await this.client.getOrder(platformOrderId)
+    return order ? mapShopifyOrder(order) : null
+  }
+
+  // Shipments are made against fulfillment orders, which hold what is left to ship per location
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const fulfillmentOrders = await this.client.getFulfillmentOrders(platformOrderId)
+    const remaining = new Map(fulfillment.lines.map((line) => [line.platformItemId, line.quantity]))
+    const lineItemsByFulfillmentOrder: any[] = []
+
+    for (const fulfillmentOrder of fulfillmentOrders) {
+      if (!["open", "in_progress"].includes(fulfillmentOrder.status)) continue
+
+      const lineItems: Array<{ id: number; quantity: number }> = []
+      for (const item of fulfillmentOrder.line_items || []) {
+        const lineItemId = item.line_item_id.toString()
+        const quantity = Math.min(remaining.get(lineItemId) || 0, item.fulfillable_quantity)
+
+        if (quantity > 0) {
+          lineItems.push({ id: item.id, quantity })
+          remaining.set(lineItemId, remaining.get(lineItemId)! - quantity)
+        }
+      }
+
+      if (lineItems.length) {
+        lineItemsByFulfillmentOrder.push({
+          fulfillment_order_id: fulfillmentOrder.id,
+          fulfillment_order_line_items: lineItems,
+        })
+      }
+    }
+
+    if (!lineItemsByFulfillmentOrder.length) {
+      throw new ValidationRejectedError(
+        this.platform,
+        `Shopify order ${platformOrderId} has nothing left to fulfill for these items`,
+        [],
+        null
+      )
+    }
+
+    const created = await this.client.createFulfillment({
+      line_items_by_fulfillment_order: lineItemsByFulfillmentOrder,
+      tracking_info: {
+        number: fulfillment.trackingNumber,
+        company: fulfillment.carrier,
+        ...(fulfillment.trackingUrl ? { url: fulfillment.trackingUrl } : {}),
+      },
+      notify_customer: true,
+    })
+
+    return { platformFulfillmentId: created.id.toString(), response: created }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    switch (event) {
+      case "orders/create":
+      case "orders/updated":
+      case "orders/paid":
+      case "orders/cancelled":
+      case "orders/fulfilled":
+        // Order topics deliver the full order resource
+        return [{ kind: "order", platformOrderId: payload.id.toString(), order: mapShopifyOrder(payload) }]
+
+      case "products/create":
+      case "products/update":
+        return [
+          {
+            kind: "listing",
+            platformProductId: payload.id.toString(),
+            price: parseFloat(payload.variants?.[0]?.price || "0"),
+            quantity: (payload.variants || []).reduce(
+              (sum: number, variant: any) => sum + (variant.inventory_quantity || 0),
+              0
+            ),
+            status: payload.status === "active" ? "active" : "inactive",
+          },
+        ]
+
+      case "products/delete":
+        return [{ kind: "listing", platformProductId: payload.id.toString(), status: "deleted" }]
+
+      case "inventory_levels/update": {
+        // Inventory levels only reference the inventory item, resolve its SKU first
+        const item = await this.client.getInventoryItem(payload.inventory_item_id.toString())
+        if (!item?.sku) return []
+        return [
+          {
+            kind: "inventory",
+            sku: item.sku,
+            quantity: payload.available ?? 0,
+            platformLocationId: payload.location_id?.toString(),
+          },
+        ]
+      }
+
+      default:
+        return []
+    }
+  }
+
+  private async getPrimaryLocationId(): Promise<string> {
+    const locations = await this.client.getLocations()
+    if (!locations.length) {
+      throw new NotFoundError(this.platform, "No Shopify locations found", null)
+    }
+
+    return locations[0].id.toString()
+  }
+}
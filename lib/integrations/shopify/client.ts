@@ -1,19 +1,52 @@
-import { PlatformApiClient } from "@/types/platforms"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TokenBucket, TransportRequestOptions } from "@/lib/integrations/transport"
+import { RateLimitedError, ValidationRejectedError } from "@/lib/integrations/errors"
 
-export class ShopifyApiClient implements PlatformApiClient {
+const PAGE_SIZE = 250
+
+// REST Admin API leaky bucket: 40 calls, leaking 2 per second
+const RATE_LIMIT = { ratePerSecond: 2, burst: 40 }
+
+// X-Shopify-Shop-Api-Call-Limit reports the bucket as "used/size"
+function readCallLimit(response: Response, bucket: TokenBucket) {
+  const [used, size] = (response.headers.get("x-shopify-shop-api-call-limit") || "").split("/").map(Number)
+
+  if (size) {
+    bucket.sync(size - used, size)
+  }
+}
+
+interface ShopifyOrderFilters {
+  status?: string
+  createdAtMin?: string
+  createdAtMax?: string
+  updatedAtMin?: string
+}
+
+export class ShopifyApiClient {
   private accessToken: string
   private shop: string
   private apiVersion: string = "2024-01"
+  private transport: PlatformTransport
 
-  constructor(accessToken: string, shop: string) {
+  constructor(accessToken: string, shop: string, connectionId?: string) {
     this.accessToken = accessToken
     this.shop = shop
+    this.transport = new PlatformTransport({
+      platform: Platform.SHOPIFY,
+      label: "Shopify API",
+      connectionId,
+      rateLimit: RATE_LIMIT,
+      readQuotaHeaders: readCallLimit,
+    })
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
+  private async send(endpoint: string, options: TransportRequestOptions = {}) {
     const url = `https://${this.shop}/admin/api/${this.apiVersion}${endpoint}`
 
-    const response = await fetch(url, {
+    return await this.transport.request(url, {
       ...options,
       headers: {
         "X-Shopify-Access-Token": this.accessToken,
@@ -21,45 +54,80 @@ export class ShopifyApiClient implements PlatformApiClient {
         ...options.headers,
       },
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Shopify API error: ${response.status} - ${error}`)
-    }
-
+  private async request(endpoint: string, options: TransportRequestOptions = {}) {
+    const response = await this.send(endpoint, options)
     return response.json()
   }
 
-  async fetchProducts(options?: { limit?: number; sinceId?: string }) {
+  // List endpoints return the next page's page_info in the Link header
+  private async requestPage(endpoint: string) {
+    const response = await this.send(endpoint)
+    const next = (response.headers.get("link") || "")
+      .split(",")
+      .find((link) => link.includes('rel="next"'))
+
+    return {
+      data: await response.json(),
+      nextPageInfo: next?.match(/[?&]page_info=([^&>]+)/)?.[1],
+    }
+  }
+
+  // Cursors are page_info values. Shopify rejects filters alongside page_info,
+  // so they are only sent with the first page
+  async fetchProducts(pageInfo?: string): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
-      limit: (options?.limit || 250).toString(),
+      limit: PAGE_SIZE.toString(),
     })
 
-    if (options?.sinceId) {
-      params.append("since_id", options.sinceId)
+    if (pageInfo) {
+      params.append("page_info", pageInfo)
     }
 
-    const data = await this.request(`/products.json?${params}`)
-    return data.products || []
+    const { data, nextPageInfo } = await this.requestPage(`/products.json?${params}`)
+    return { items: data.products || [], nextCursor: nextPageInfo }
+  }
+
+  productPages(pageInfo?: string) {
+    return paginate((next) => this.fetchProducts(next), pageInfo)
   }
 
-  async fetchOrders(options?: { limit?: number; sinceId?: string; status?: string }) {
+  async fetchOrders(
+    options: ShopifyOrderFilters = {},
+    pageInfo?: string
+  ): Promise<PlatformPage<any>> {
     const params = new URLSearchParams({
-      limit: (options?.limit || 250).toString(),
-      status: options?.status || "any",
+      limit: PAGE_SIZE.toString(),
     })
 
-    if (options?.sinceId) {
-      params.append("since_id", options.sinceId)
+    if (pageInfo) {
+      params.append("page_info", pageInfo)
+    } else {
+      params.append("status", options.status || "any")
+      if (options.createdAtMin) {
+        params.append("created_at_min", options.createdAtMin)
+      }
+      if (options.createdAtMax) {
+        params.append("created_at_max", options.createdAtMax)
+      }
+      if (options.updatedAtMin) {
+        params.append("updated_at_min", options.updatedAtMin)
+      }
     }
 
-    const data = await this.request(`/orders.json?${params}`)
-    return data.orders || []
+    const { data, nextPageInfo } = await this.requestPage(`/orders.json?${params}`)
+    return { items: data.orders || [], nextCursor: nextPageInfo }
+  }
+
+  orderPages(options: ShopifyOrderFilters = {}, pageInfo?: string) {
+    return paginate((next) => this.fetchOrders(options, next), pageInfo)
   }
 
   async updateInventory(inventoryItemId: string, quantity: number, locationId: string) {
     await this.request("/inventory_levels/set.json", {
       method: "POST",
+      idempotent: true,
       body: JSON.stringify({
         location_id: locationId,
         inventory_item_id: inventoryItemId,
@@ -94,6 +162,62 @@ export class ShopifyApiClient implements PlatformApiClient {
     return data.order
   }
 
+  async getFulfillmentOrders(orderId: string) {
+    const data = await this.request(`/orders/${orderId}/fulfillment_orders.json`)
+    return data.fulfillment_orders || []
+  }
+
+  async createFulfillment(fulfillment: any) {
+    const data = await this.request("/fulfillments.json", {
+      method: "POST",
+      body: JSON.stringify({ fulfillment }),
+    })
+    return data.fulfillment
+  }
+
+  // GraphQL reports errors in the body of a 200 response
+  private async graphql(query: string, variables: Record<string, unknown>) {
+    const result = await this.request("/graphql.json", {
+      method: "POST",
+      idempotent: true,
+      body: JSON.stringify({ query, variables }),
+    })
+
+    if (result.errors?.length) {
+      const message = result.errors.map((error: any) => error.message).join("; ")
+
+      if (result.errors.some((error: any) => error.extensions?.code === "THROTTLED")) {
+        throw new RateLimitedError(Platform.SHOPIFY, `Shopify API throttled: ${message}`, null, 200)
+      }
+      throw new ValidationRejectedError(Platform.SHOPIFY, `Shopify API rejected the query: ${message}`, [], 200)
+    }
+
+    return result.data
+  }
+
+  // Search matches SKUs loosely, only an exact match is returned
+  async findVariantBySku(sku: string): Promise<{ id: string; inventoryItemId: string } | null> {
+    const data = await this.graphql(
+      `query ($query: String!) {
+        productVariants(first: 10, query: $query) {
+          edges { node { legacyResourceId sku inventoryItem { legacyResourceId } } }
+        }
+      }`,
+      { query: `sku:${JSON.stringify(sku)}` }
+    )
+
+    const variant = data.productVariants.edges
+      .map((edge: any) => edge.node)
+      .find((node: any) => node.sku === sku)
+
+    return variant ? { id: variant.legacyResourceId, inventoryItemId: variant.inventoryItem.legacyResourceId } : null
+  }
+
+  async getInventoryItem(inventoryItemId: string) {
+    const data = await this.request(`/inventory_items/${inventoryItemId}.json`)
+    return data.inventory_item
+  }
+
   async getShop() {
     const data = await this.request("/shop.json")
     return data.shop
@@ -0,0 +1,78 @@
+import { FulfillmentStatus, OrderAddress, OrderStatus, PaymentStatus, PlatformOrder } from "@/types/order"
+import { compactAddress, parseAmount } from "@/lib/integrations/order-mapping"
+
+const FULFILLMENT_STATUSES: Record<string, FulfillmentStatus> = {
+  partial: "PARTIALLY_FULFILLED",
+  fulfilled: "FULFILLED",
+}
+
+const PAYMENT_STATUSES: Record<string, PaymentStatus> = {
+  pending: "PENDING",
+  partially_paid: "PENDING",
+  authorized: "AUTHORIZED",
+  paid: "PAID",
+  partially_refunded: "PARTIALLY_REFUNDED",
+  refunded: "REFUNDED",
+  voided: "VOIDED",
+  expired: "FAILED",
+}
+
+function orderStatus(order: any): OrderStatus {
+  if (order.cancelled_at) return "CANCELLED"
+  if (order.financial_status === "refunded") return "REFUNDED"
+  if (order.fulfillment_status === "fulfilled") return "SHIPPED"
+  if (order.fulfillment_status === "partial") return "PROCESSING"
+  return "PENDING"
+}
+
+function mapAddress(address: any): OrderAddress {
+  return compactAddress({
+    name: address?.name,
+    addressLine1: address?.address1,
+    addressLine2: address?.address2,
+    city: address?.city,
+    state: address?.province,
+    postalCode: address?.zip,
+    country: address?.country_code,
+    phone: address?.phone,
+  })
+}
+
+/**
+ * Map an Admin REST API order
+ */
+export function mapShopifyOrder(order: any): PlatformOrder {
+  const customerName = order.customer
+    ? `${order.customer.first_name || ""} ${order.customer.last_name || ""}`.trim()
+    : ""
+
+  return {
+    platformOrderId: order.id.toString(),
+    platformOrderNumber: order.name,
+    status: orderStatus(order),
+    paymentStatus: PAYMENT_STATUSES[order.financial_status],
+    fulfillmentStatus: FULFILLMENT_STATUSES[order.fulfillment_status] || "UNFULFILLED",
+    customerName: customerName || order.billing_address?.name || order.shipping_address?.name || "Unknown",
+    customerEmail: order.email || undefined,
+    shippingAddress: mapAddress(order.shipping_address),
+    billingAddress: order.billing_address ? mapAddress(order.billing_address) : undefined,
+    subtotal: parseAmount(order.subtotal_price),
+    tax: parseAmount(order.total_tax),
+    shipping: parseAmount(order.total_shipping_price_set?.shop_money?.amount),
+    total: parseAmount(order.total_price) || 0,
+    currency: order.currency || "USD",
+    orderDate: new Date(order.created_at),
+    items: (order.line_items || []).map((item: any) => {
+      const price = parseAmount(item.price) || 0
+      return {
+        sku: item.sku || item.id.toString(),
+        title: item.title || item.name,
+        quantity: item.quantity,
+        price,
+        total: Math.max(0, price * item.quantity - (parseAmount(item.total_discount) || 0)),
+        platformItemId: item.id.toString(),
+        platformProductId: item.product_id?.toString(),
+      }
+    }),
+  }
+}
@@ -0,0 +1,67 @@
+import { Platform } from "@prisma/client"
+import { OAuthTokens } from "@/types/platforms"
+import { refreshAccessToken as refreshEbayToken } from "@/lib/integrations/ebay/oauth"
+import { refreshAccessToken as refreshAmazonToken } from "@/lib/integrations/amazon/oauth"
+import { refreshAccessToken as refreshEtsyToken } from "@/lib/integrations/etsy/oauth"
+import { refreshAccessToken as refreshGoogleToken } from "@/lib/integrations/google/oauth"
+
+// Refresh tokens this long before they expire so a sync never starts with a dying token
+const REFRESH_WINDOW_MS = 5 * 60 * 1000
+
+type TokenRefresher = (refreshToken: string) => Promise<{
+  accessToken: string
+  refreshToken?: string
+  expiresIn: number
+}>
+
+// Shopify offline tokens and WooCommerce API keys never expire, so they have no refresher
+const TOKEN_REFRESHERS: Partial<Record<Platform, TokenRefresher>> = {
+  [Platform.EBAY]: refreshEbayToken,
+  [Platform.AMAZON]: refreshAmazonToken,
+  [Platform.ETSY]: refreshEtsyToken,
+  [Platform.GOOGLE_SHOPPING]: refreshGoogleToken,
+}
+
+export function needsTokenRefresh(platform: Platform, expiresAt: Date | null): boolean {
+  if (!expiresAt || !(platform in TOKEN_REFRESHERS)) {
+    return false
+  }
+
+  return expiresAt.getTime() - Date.now() <= REFRESH_WINDOW_MS
+}
+
+/**
+ * Exchange a refresh token for a new access token.
+ * Keeps the old refresh token unless the platform rotated it.
+ */
+export async function refreshPlatformTokens(
+  platform: Platform,
+  refreshToken: string | null
+): Promise<OAuthTokens> {
+  const refresher = TOKEN_REFRESHERS[platform]
+
+  if (!refresher) {
+    throw new Error(`Token refresh not supported for ${platform}`)
+  }
+
+  if (!refreshToken) {
+    throw new Error(`No refresh token stored for ${platform}`)
+  }
+
+  const refreshed = await refresher(refreshToken)
+
+  return {
+    accessToken: refreshed.accessToken,
+    refreshToken: refreshed.refreshToken || refreshToken,
+    expiresAt: new Date(Date.now() + refreshed.expiresIn * 1000),
+  }
+}
+
+/**
+ * Whether a refresh failure means the user has to reconnect (revoked or
+ * expired grant) rather than a temporary outage on the platform side.
+ */
+export function isGrantRevoked(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return /invalid_grant|invalid_token|No refresh token/i.test(message)
+}
@@ -0,0 +1,378 @@
+import { Platform } from "@prisma/client"
+import { recordApiCall } from "./metrics"
+import { assertPublicHost } from "@/lib/utils/network"
+import { CircuitOpenError, DailyLimitError, TransientError, createResponseError } from "./errors"
+
+export interface RateLimit {
+  ratePerSecond: number
+  burst: number
+}
+
+export interface TransportConfig {
+  platform: Platform
+  // Used in error messages, e.g. "Shopify API"
+  label: string
+  // Rate limits, circuits and metrics are kept per connection. Clients built before a
+  // connection exists (OAuth callbacks) share one per platform and record no metrics.
+  connectionId?: string
+  rateLimit: RateLimit
+  // Platforms that publish a rate for every operation, e.g. Amazon SP-API
+  operationLimits?: Record<string, RateLimit>
+  // Calls allowed per operation per UTC day, e.g. eBay's daily API call limits
+  dailyLimits?: Record<string, number>
+  // Bring the limiter in line with quota headers the platform returns
+  readQuotaHeaders?: (response: Response, bucket: TokenBucket) => void
+  // Hosts the user entered, e.g. self-hosted stores. They are checked to resolve to public
+  // addresses before every call and their redirects are not followed.
+  userSuppliedHost?: boolean
+}
+
+export interface TransportRequestOptions extends RequestInit {
+  // Key for operation rate limits and daily limits
+  operation?: string
+  // POSTs are only retried after a 429 unless they are safe to repeat
+  idempotent?: boolean
+}
+
+const MAX_RETRIES = 4
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 30000
+// Longer waits are left to the job queue's own retry rather than holding a worker
+const MAX_RETRY_AFTER_MS = 60000
+
+// A hung platform fails the call instead of holding its rate limit bucket and circuit trial
+const REQUEST_TIMEOUT_MS = 30000
+
+const FAILURE_THRESHOLD = 5
+const CIRCUIT_OPEN_MS = 60000
+
+// Statuses of a platform that is down, only these and network errors count towards opening the circuit
+const OUTAGE_STATUSES = [500, 502, 503, 504]
+const RETRYABLE_STATUSES = [429, ...OUTAGE_STATUSES]
+
+/**
+ * Token bucket for one connection and operation. The balance may go negative,
+ * which queues callers behind each other.
+ */
+export class TokenBucket {
+  private tokens: number
+  private capacity: number
+  private ratePerSecond: number
+  private updatedAt = Date.now()
+  private pausedUntil = 0
+
+  constructor(limit: RateLimit) {
+    this.capacity = limit.burst
+    this.tokens = limit.burst
+    this.ratePerSecond = limit.ratePerSecond
+  }
+
+  /**
+   * Take a token and return how long to wait before using it
+   */
+  reserve(): number {
+    this.refill()
+    this.tokens -= 1
+
+    const deficit = this.tokens < 0 ? (-this.tokens / this.ratePerSecond) * 1000 : 0
+    return Math.max(deficit, this.pausedUntil - Date.now(), 0)
+  }
+
+  // Adopt the remaining allowance the platform reports
+  sync(remaining: number, capacity: number = this.capacity) {
+    this.refill()
+    this.capacity = capacity
+    this.tokens = Math.min(this.tokens, remaining)
+  }
+
+  setRate(ratePerSecond: number) {
+    if (ratePerSecond > 0) {
+      this.refill()
+      this.ratePerSecond = ratePerSecond
+    }
+  }
+
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  private refill() {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond)
+    this.updatedAt = now
+  }
+}
+
+interface CircuitState {
+  failures: number
+  openedAt: number | null
+  trialInFlight: boolean
+}
+
+export type CircuitStatus = "closed" | "open" | "half-open"
+
+// Shared by every client in this process
+const buckets = new Map<string, TokenBucket>()
+const circuits = new Map<string, CircuitState>()
+const dailyCalls = new Map<string, { day: string; count: number }>()
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+export function getCircuitStatus(connectionId: string): CircuitStatus {
+  const circuit = circuits.get(connectionId)
+
+  if (!circuit?.openedAt) return "closed"
+  return Date.now() - circuit.openedAt < CIRCUIT_OPEN_MS ? "open" : "half-open"
+}
+
+/**
+ * HTTP layer shared by the platform clients: waits for rate limit tokens, retries 429s and
+ * server errors with jittered backoff, stops calling a failing connection for a while,
+ * and records call metrics.
+ */
+export class PlatformTransport {
+  private config: TransportConfig
+  private key: string
+
+  constructor(config: TransportConfig) {
+    this.config = config
+    this.key = config.connectionId || config.platform
+  }
+
+  async request(url: string, options: TransportRequestOptions = {}): Promise<Response> {
+    const { operation = "default", idempotent, ...init } = options
+    const method = (init.method || "GET").toUpperCase()
+    const canRepeat = idempotent ?? method !== "POST"
+
+    const trial = this.enterCircuit()
+
+    try {
+      this.countDailyCall(operation)
+      return await this.send(url, init, operation, canRepeat)
+    } finally {
+      // Calls that end without an outcome for the circuit, e.g. unreadable responses, give the trial back
+      if (trial) {
+        this.releaseTrial()
+      }
+    }
+  }
+
+  private async send(url: string, init: RequestInit, operation: string, canRepeat: boolean): Promise<Response> {
+    const bucket = this.getBucket(operation)
+    const startedAt = Date.now()
+    let retries = 0
+    let throttled = false
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = bucket.reserve()
+      if (wait > 0) {
+        throttled = true
+        await sleep(wait)
+      }
+
+      let response: Response | null = null
+      let networkError: unknown = null
+
+      // Resolved again each time, a name can point somewhere else since the last call
+      if (this.config.userSuppliedHost) {
+        await assertPublicHost(url)
+      }
+
+      try {
+        response = await fetch(url, {
+          ...init,
+          redirect: this.config.userSuppliedHost ? "manual" : init.redirect,
+          signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        })
+      } catch (error) {
+        networkError = error
+      }
+
+      if (response) {
+        this.config.readQuotaHeaders?.(response, bucket)
+      }
+
+      if (response?.ok) {
+        this.closeCircuit()
+        this.record({ startedAt, status: response.status, retries, throttled, failed: false })
+        return response
+      }
+
+      const status = response?.status ?? null
+      // A 429 means the call was not processed, so it is always safe to send again
+      const retryable = status === 429 || (canRepeat && (status === null || RETRYABLE_STATUSES.includes(status)))
+
+      if (retryable && attempt < MAX_RETRIES) {
+        const delay = this.getRetryDelay(response, attempt)
+
+        if (delay !== null) {
+          if (status === 429) {
+            bucket.pause(delay)
+          }
+          await response?.body?.cancel().catch(() => undefined)
+          retries++
+          await sleep(delay)
+          continue
+        }
+      }
+
+      const error = response
+        ? createResponseError(
+            this.config.platform,
+            this.config.label,
+            response.status,
+            await response.text(),
+            this.getRetryAfter(response)
+          )
+        : new TransientError(
+            this.config.platform,
+            `${this.config.label} request failed: ${networkError instanceof Error ? networkError.message : "network error"}`
+          )
+
+      // Client errors mean the platform is up, only outages count towards opening the circuit.
+      // Throttling leaves the circuit alone, later calls wait out the platform's Retry-After.
+      let circuitOpened = false
+      if (status === 429) {
+        const retryAfter = parseRetryAfter(response!.headers.get("retry-after"))
+        if (retryAfter !== null) {
+          bucket.pause(retryAfter)
+        }
+      } else if (status === null || OUTAGE_STATUSES.includes(status)) {
+        circuitOpened = this.recordFailure()
+      } else {
+        this.closeCircuit()
+      }
+
+      this.record({ startedAt, status, retries, throttled, failed: true, circuitOpened, error: error.message })
+      throw error
+    }
+  }
+
+  private getBucket(operation: string): TokenBucket {
+    const bucketKey = `${this.key}:${operation}`
+    let bucket = buckets.get(bucketKey)
+
+    if (!bucket) {
+      bucket = new TokenBucket(this.config.operationLimits?.[operation] || this.config.rateLimit)
+      buckets.set(bucketKey, bucket)
+    }
+
+    return bucket
+  }
+
+  // Full jitter exponential backoff, never shorter than the platform's Retry-After
+  private getRetryDelay(response: Response | null, attempt: number): number | null {
+    const retryAfter = parseRetryAfter(response?.headers.get("retry-after") ?? null)
+
+    if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+      return null
+    }
+
+    const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+    return Math.max(backoff, retryAfter ?? 0)
+  }
+
+  private getRetryAfter(response: Response): Date | null {
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"))
+    return retryAfter === null ? null : new Date(Date.now() + retryAfter)
+  }
+
+  private countDailyCall(operation: string) {
+    const limit = this.config.dailyLimits?.[operation]
+    if (!limit) return
+
+    const day = new Date().toISOString().slice(0, 10)
+    const counterKey = `${this.key}:${operation}`
+    const counter = dailyCalls.get(counterKey)
+
+    if (!counter || counter.day !== day) {
+      dailyCalls.set(counterKey, { day, count: 1 })
+      return
+    }
+
+    if (counter.count >= limit) {
+      throw new DailyLimitError(this.config.platform, this.config.label, operation, limit)
+    }
+
+    counter.count++
+  }
+
+  // Open circuits reject calls until the cool-down passes, then let one trial call through.
+  // Returns true for the trial call.
+  private enterCircuit(): boolean {
+    const circuit = circuits.get(this.key)
+    if (!circuit?.openedAt) return false
+
+    const retryAt = circuit.openedAt + CIRCUIT_OPEN_MS
+    if (Date.now() < retryAt || circuit.trialInFlight) {
+      throw new CircuitOpenError(this.config.platform, this.config.label, new Date(retryAt))
+    }
+
+    circuit.trialInFlight = true
+    return true
+  }
+
+  private releaseTrial() {
+    const circuit = circuits.get(this.key)
+    if (circuit) {
+      circuit.trialInFlight = false
+    }
+  }
+
+  private closeCircuit() {
+    circuits.delete(this.key)
+  }
+
+  // Returns true when this failure opened the circuit
+  private recordFailure(): boolean {
+    const circuit = circuits.get(this.key) || { failures: 0, openedAt: null, trialInFlight: false }
+    const halfOpen = circuit.trialInFlight
+
+    circuit.failures++
+    circuit.trialInFlight = false
+    circuits.set(this.key, circuit)
+
+    if (halfOpen || (!circuit.openedAt && circuit.failures >= FAILURE_THRESHOLD)) {
+      circuit.openedAt = Date.now()
+      return true
+    }
+
+    return false
+  }
+
+  private record(call: {
+    startedAt: number
+    status: number | null
+    retries: number
+    throttled: boolean
+    failed: boolean
+    circuitOpened?: boolean
+    error?: string
+  }) {
+    if (!this.config.connectionId) return
+
+    recordApiCall({
+      connectionId: this.config.connectionId,
+      platform: this.config.platform,
+      latencyMs: Date.now() - call.startedAt,
+      status: call.status,
+      retries: call.retries,
+      throttled: call.throttled,
+      failed: call.failed,
+      circuitOpened: call.circuitOpened || false,
+      error: call.error,
+    })
+  }
+}
@@ -0,0 +1,19 @@
+import { ProductVariant } from "@prisma/client"
+import { ProductWithVariants } from "@/types/platforms"
+
+export type VariantOptions = Record<string, string>
+
+/**
+ * A variant's value for each of the product's options, in the product's option order
+ */
+export function getOptionValues(product: ProductWithVariants, variant: ProductVariant): string[] {
+  const options = (variant.options as VariantOptions) || {}
+  return product.options.map((name) => options[name] ?? "")
+}
+
+/**
+ * Our variant ID for each SKU, to map the variants a platform returns back to ours
+ */
+export function variantIdsBySku(product: ProductWithVariants): Map<string, string> {
+  return new Map(product.variants.map((variant) => [variant.sku, variant.id]))
+}
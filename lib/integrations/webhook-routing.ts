@@ -0,0 +1,136 @@
+import { ConnectionStatus, Platform } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { hashToken } from "@/lib/utils/encryption"
+
+// Where a platform's webhook names the account it belongs to, and the
+// connection metadata key the same value is stored under at connect time
+interface TenantIdentifier {
+  metadataKey: string
+  extract: (headers: Headers, payload: any) => string | null | undefined
+}
+
+function parseAmazonNotification(payload: any): any {
+  // SNS deliveries wrap the notification in an envelope
+  if (typeof payload.Message !== "string") return payload
+  try {
+    return JSON.parse(payload.Message)
+  } catch {
+    return {}
+  }
+}
+
+function parseGoogleMessage(payload: any): any {
+  if (!payload.message?.data) return {}
+  try {
+    return JSON.parse(Buffer.from(payload.message.data, "base64").toString("utf8"))
+  } catch {
+    return {}
+  }
+}
+
+const TENANT_IDENTIFIERS: Partial<Record<Platform, TenantIdentifier>> = {
+  [Platform.SHOPIFY]: {
+    metadataKey: "shop",
+    extract: (headers) => headers.get("X-Shopify-Shop-Domain"),
+  },
+
+  [Platform.WOOCOMMERCE]: {
+    metadataKey: "storeUrl",
+    extract: (headers) => headers.get("X-WC-Webhook-Source")?.replace(/\/$/, ""),
+  },
+
+  [Platform.EBAY]: {
+    metadataKey: "username",
+    extract: (_headers, payload) => payload.notification?.data?.username,
+  },
+
+  [Platform.AMAZON]: {
+    metadataKey: "sellerId",
+    extract: (_headers, payload) => {
+      const body = parseAmazonNotification(payload).Payload || {}
+      return body.OrderChangeNotification?.SellerId || body.SellerId
+    },
+  },
+
+  [Platform.ETSY]: {
+    metadataKey: "shopId",
+    extract: (_headers, payload) =>
+      payload.shop_id?.toString() || payload.resource_url?.match(/\/shops\/(\d+)/)?.[1],
+  },
+
+  [Platform.GOOGLE_SHOPPING]: {
+    metadataKey: "merchantId",
+    extract: (_headers, payload) =>
+      payload.message?.attributes?.merchantId || parseGoogleMessage(payload).merchantId?.toString(),
+  },
+}
+
+// Where each platform puts the ID of a delivery, which stays the same when it is redelivered
+const EVENT_ID_EXTRACTORS: Partial<Record<Platform, (headers: Headers, payload: any) => string | null | undefined>> = {
+  [Platform.SHOPIFY]: (headers) => headers.get("X-Shopify-Webhook-Id"),
+  [Platform.WOOCOMMERCE]: (headers) => headers.get("X-WC-Webhook-Delivery-ID"),
+  [Platform.EBAY]: (_headers, payload) => payload.notification?.notificationId,
+  [Platform.AMAZON]: (_headers, payload) =>
+    parseAmazonNotification(payload).NotificationMetadata?.NotificationId || payload.MessageId,
+  [Platform.ETSY]: (headers) => headers.get("webhook-id"),
+  [Platform.GOOGLE_SHOPPING]: (_headers, payload) => payload.message?.messageId,
+}
+
+async function findConnectionUser(platform: Platform, metadataKey: string, value: string) {
+  const connection = await prisma.platformConnection.findFirst({
+    where: {
+      platform,
+      status: { not: ConnectionStatus.DISCONNECTED },
+      metadata: { path: [metadataKey], equals: value },
+    },
+  })
+
+  return connection?.userId || null
+}
+
+/**
+ * Resolve which user a webhook delivery belongs to.
+ * A per-connection token in the webhook URL wins, otherwise the platform's own account identifier is used.
+ */
+export async function resolveWebhookUser(
+  platform: Platform,
+  headers: Headers,
+  payload: any,
+  token?: string | null
+): Promise<string | null> {
+  if (token) {
+    return await findConnectionUser(platform, "webhookToken", token)
+  }
+
+  const identifier = TENANT_IDENTIFIERS[platform]
+  if (!identifier || !payload || typeof payload !== "object") {
+    return null
+  }
+
+  const value = identifier.extract(headers, payload)
+  if (!value) {
+    return null
+  }
+
+  return await findConnectionUser(platform, identifier.metadataKey, value)
+}
+
+export function getWebhookUrl(baseUrl: string, platform: Platform, token: string): string {
+  return `${baseUrl}/api/webhooks/${platform.toLowerCase()}?token=${token}`
+}
+
+/**
+ * Identify a webhook delivery so redelivered events are only processed once.
+ * Falls back to a hash of the raw body when the platform sends no delivery ID.
+ */
+export function getWebhookEventId(
+  platform: Platform,
+  headers: Headers,
+  payload: any,
+  body: string
+): string {
+  const extract = EVENT_ID_EXTRACTORS[platform]
+  const eventId = extract && payload && typeof payload === "object" ? extract(headers, payload) : null
+
+  return eventId ? eventId.toString() : hashToken(body)
+}
@@ -0,0 +1,150 @@
+import { Platform, PlatformListing } from "@prisma/client"
+import {
+  PlatformAdapter,
+  ListingProduct,
+  PlatformInventoryLevel,
+  PlatformListingIds,
+  PlatformPage,
+  PlatformProduct,
+  WebhookChange,
+} from "@/types/platforms"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
+import { mapPages } from "@/lib/integrations/pagination"
+import { WooCommerceApiClient } from "./client"
+import { mapWooCommerceOrder } from "./order-mapper"
+
+export class WooCommerceAdapter implements PlatformAdapter {
+  readonly platform = Platform.WOOCOMMERCE
+  private client: WooCommerceApiClient
+
+  constructor(client: WooCommerceApiClient) {
+    this.client = client
+  }
+
+  inventoryPages(cursor?: string): AsyncIterable<PlatformPage<PlatformInventoryLevel>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      sku: p.sku,
+      quantity: p.stock_quantity || 0,
+    }))
+  }
+
+  productPages(cursor?: string): AsyncIterable<PlatformPage<PlatformProduct>> {
+    return mapPages(this.client.productPages(cursor), (p: any) => ({
+      platformProductId: p.id.toString(),
+      sku: p.sku || undefined,
+      gtin: p.global_unique_id || undefined,
+      title: p.name,
+      description: p.description || undefined,
+      price: p.price ? parseFloat(p.price) : undefined,
+      quantity: p.manage_stock ? p.stock_quantity : undefined,
+      images: (p.images || []).map((image: any) => image.src),
+      platformUrl: p.permalink,
+      status: p.status,
+    }))
+  }
+
+  async updateInventory(sku: string, quantity: number): Promise<void> {
+    await this.client.updateInventory(sku, quantity)
+  }
+
+  orderPages(options: OrderImportOptions = {}, cursor?: string): AsyncIterable<PlatformPage<PlatformOrder>> {
+    return mapPages(
+      this.client.orderPages(
+        {
+          after: options.startDate?.toISOString(),
+          before: options.endDate?.toISOString(),
+          modifiedAfter: options.updatedSince?.toISOString(),
+        },
+        cursor
+      ),
+      mapWooCommerceOrder
+    )
+  }
+
+  async upsertProduct(product: ListingProduct, existingListing?: PlatformListing): Promise<PlatformListingIds> {
+    const wooProduct = {
+      name: product.title,
+      type: "simple",
+      // Woo shows the regular price struck through next to a sale price
+      regular_price: (product.compareAtPrice ?? product.price).toString(),
+      sale_price: product.compareAtPrice ? product.price.toString() : "",
+      description: product.description,
+      short_description: product.description?.substring(0, 100),
+      sku: product.sku,
+      stock_quantity: product.quantity,
+      manage_stock: true,
+      images: product.images.map((url: string) => ({ src: url })),
+      categories: product.category ? [{ name: product.category }] : [],
+      tags: product.tags.map((tag: string) => ({ name: tag })),
+    }
+
+    if (existingListing) {
+      const updated = await this.client.updateProduct(existingListing.platformProductId, wooProduct)
+      return { platformProductId: updated.id.toString() }
+    }
+
+    const created = await this.client.createProduct(wooProduct)
+    return { platformProductId: created.id.toString() }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.getSystemStatus()
+  }
+
+  async fetchOrder(platformOrderId: string): Promise<PlatformOrder | null> {
+    const order = await this.client.getOrder(platformOrderId)
+    return order ? mapWooCommerceOrder(order) : null
+  }
+
+  // WooCommerce core has no shipment tracking, the customer gets the tracking in an order note
+  async createFulfillment(
+    platformOrderId: string,
+    fulfillment: PlatformFulfillment
+  ): Promise<FulfillmentAcknowledgement> {
+    const items = fulfillment.lines.map((line) => `${line.quantity} x ${line.sku}`).join(", ")
+    const link = fulfillment.trackingUrl ? ` (${fulfillment.trackingUrl})` : ""
+
+    const note = await this.client.createOrderNote(
+      platformOrderId,
+      `Shipped ${items} with ${fulfillment.carrier}, tracking number ${fulfillment.trackingNumber}${link}`,
+      true
+    )
+
+    if (fulfillment.completesOrder) {
+      await this.client.updateOrderStatus(platformOrderId, "completed")
+    }
+
+    return { platformFulfillmentId: note.id?.toString(), response: note }
+  }
+
+  async parseWebhook(event: string, payload: any): Promise<WebhookChange[]> {
+    switch (event) {
+      case "order.created":
+      case "order.updated":
+        return [{ kind: "order", platformOrderId: payload.id.toString(), order: mapWooCommerceOrder(payload) }]
+
+      case "product.created":
+      case "product.updated": {
+        const changes: WebhookChange[] = [
+          {
+            kind: "listing",
+            platformProductId: payload.id.toString(),
+            price: parseFloat(payload.price || "0"),
+            quantity: payload.stock_quantity ?? undefined,
+            status: payload.status === "publish" ? "active" : "inactive",
+          },
+        ]
+        if (payload.sku && payload.manage_stock && typeof payload.stock_quantity === "number") {
+          changes.push({ kind: "inventory", sku: payload.sku, quantity: payload.stock_quantity })
+        }
+        return changes
+      }
+
+      case "product.deleted":
+        return [{ kind: "listing", platformProductId: payload.id.toString(), status: "deleted" }]
+
+      default:
+        return []
+    }
+  }
+}
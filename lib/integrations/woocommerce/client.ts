@@ -1,20 +1,43 @@
-import { PlatformApiClient } from "@/types/platforms"
+import { Platform } from "@prisma/client"
+import { PlatformPage } from "@/types/platforms"
+import { paginate } from "@/lib/integrations/pagination"
+import { PlatformTransport, TransportRequestOptions } from "@/lib/integrations/transport"
 
-export class WooCommerceApiClient implements PlatformApiClient {
+const PAGE_SIZE = 100
+
+// Stores are self-hosted with no published quota, keep the load on them modest
+const RATE_LIMIT = { ratePerSecond: 5, burst: 10 }
+
+interface WooCommerceOrderFilters {
+  status?: string
+  after?: string
+  before?: string
+  modifiedAfter?: string
+}
+
+export class WooCommerceApiClient {
   private consumerKey: string
   private consumerSecret: string
   private storeUrl: string
+  private transport: PlatformTransport
 
-  constructor(consumerKey: string, consumerSecret: string, storeUrl: string) {
+  constructor(consumerKey: string, consumerSecret: string, storeUrl: string, connectionId?: string) {
     this.consumerKey = consumerKey
     this.consumerSecret = consumerSecret
     this.storeUrl = storeUrl.replace(/\/$/, "") // Remove trailing slash
+    this.transport = new PlatformTransport({
+      platform: Platform.WOOCOMMERCE,
+      label: "WooCommerce API",
+      connectionId,
+      rateLimit: RATE_LIMIT,
+      userSuppliedHost: true,
+    })
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
+  private async send(endpoint: string, options: TransportRequestOptions = {}) {
     const auth = Buffer.from(`${this.consumerKey}:${this.consumerSecret}`).toString("base64")
 
-    const response = await fetch(`${this.storeUrl}/wp-json/wc/v3${endpoint}`, {
+    return await this.transport.request(`${this.storeUrl}/wp-json/wc/v3${endpoint}`, {
       ...options,
       headers: {
         Authorization: `Basic ${auth}`,
@@ -22,35 +45,68 @@ export class WooCommerceApiClient implements PlatformApiClient {
         ...options.headers,
       },
     })
+  }
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`WooCommerce API error: ${response.status} - ${error}`)
-    }
-
+  private async request(endpoint: string, options: TransportRequestOptions = {}) {
+    const response = await this.send(endpoint, options)
     return response.json()
   }
 
-  async fetchProducts(options?: { per_page?: number; page?: number }) {
+  // Cursors are page numbers, the total page count comes back in X-WP-TotalPages
+  private async requestPage(endpoint: string, page: number): Promise<PlatformPage<any>> {
+    const response = await this.send(endpoint)
+    const totalPages = parseInt(response.headers.get("x-wp-totalpages") || "1")
+    const total = parseInt(response.headers.get("x-wp-total") || "")
+
+    return {
+      items: await response.json(),
+      nextCursor: page < totalPages ? (page + 1).toString() : undefined,
+      total: isNaN(total) ? undefined : total,
+    }
+  }
+
+  async fetchProducts(cursor?: string): Promise<PlatformPage<any>> {
+    const page = parseInt(cursor || "1")
     const params = new URLSearchParams({
-      per_page: (options?.per_page || 100).toString(),
-      page: (options?.page || 1).toString(),
+      per_page: PAGE_SIZE.toString(),
+      page: page.toString(),
     })
 
-    return await this.request(`/products?${params}`)
+    return await this.requestPage(`/products?${params}`, page)
+  }
+
+  productPages(cursor?: string) {
+    return paginate((next) => this.fetchProducts(next), cursor)
   }
 
-  async fetchOrders(options?: { per_page?: number; page?: number; status?: string }) {
+  async fetchOrders(options: WooCommerceOrderFilters = {}, cursor?: string): Promise<PlatformPage<any>> {
+    const page = parseInt(cursor || "1")
     const params = new URLSearchParams({
-      per_page: (options?.per_page || 100).toString(),
-      page: (options?.page || 1).toString(),
+      per_page: PAGE_SIZE.toString(),
+      page: page.toString(),
     })
 
-    if (options?.status) {
+    if (options.status) {
       params.append("status", options.status)
     }
 
-    return await this.request(`/orders?${params}`)
+    if (options.after) {
+      params.append("after", options.after)
+    }
+
+    if (options.before) {
+      params.append("before", options.before)
+    }
+
+    if (options.modifiedAfter) {
+      params.append("modified_after", options.modifiedAfter)
+    }
+
+    return await this.requestPage(`/orders?${params}`, page)
+  }
+
+  orderPages(options: WooCommerceOrderFilters = {}, cursor?: string) {
+    return paginate((next) => this.fetchOrders(options, next), cursor)
   }
 
   async updateInventory(productId: string, quantity: number) {
@@ -92,6 +148,13 @@ export class WooCommerceApiClient implements PlatformApiClient {
     })
   }
 
+  async createOrderNote(orderId: string, note: string, customerNote: boolean = false) {
+    return await this.request(`/orders/${orderId}/notes`, {
+      method: "POST",
+      body: JSON.stringify({ note, customer_note: customerNote }),
+    })
+  }
+
   async getSystemStatus() {
     return await this.request("/system_status")
   }
@@ -0,0 +1,32 @@
+import { WooCommerceApiClient } from "./client"
+
+/**
+ * WooCommerce uses REST API keys generated in the store admin instead of OAuth.
+ * Verify them against the store before saving the connection.
+ */
+export async function verifyCredentials(
+  storeUrl: string,
+  consumerKey: string,
+  consumerSecret: string
+): Promise<{
+  storeUrl: string
+  siteUrl?: string
+  wcVersion?: string
+}> {
+  const client = new WooCommerceApiClient(consumerKey, consumerSecret, storeUrl)
+
+  let status
+  try {
+    status = await client.getSystemStatus()
+  } catch (error) {
+    throw new Error(
+      `WooCommerce credential check failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    )
+  }
+
+  return {
+    storeUrl: storeUrl.replace(/\/$/, ""),
+    siteUrl: status.environment?.site_url,
+    wcVersion: status.environment?.version,
+  }
+}
@@ -0,0 +1,78 @@
+import { OrderAddress, OrderStatus, PaymentStatus, PlatformOrder } from "@/types/order"
+import { compactAddress, parseAmount } from "@/lib/integrations/order-mapping"
+
+const ORDER_STATUSES: Record<string, OrderStatus> = {
+  pending: "PENDING",
+  "checkout-draft": "PENDING",
+  processing: "PROCESSING",
+  "on-hold": "PENDING",
+  completed: "DELIVERED",
+  cancelled: "CANCELLED",
+  refunded: "REFUNDED",
+  failed: "CANCELLED",
+}
+
+function paymentStatus(order: any): PaymentStatus {
+  switch (order.status) {
+    case "refunded":
+      return "REFUNDED"
+    case "failed":
+      return "FAILED"
+    case "cancelled":
+      return "VOIDED"
+  }
+
+  if (order.refunds?.length) return "PARTIALLY_REFUNDED"
+  return order.date_paid ? "PAID" : "PENDING"
+}
+
+function mapAddress(address: any, phone?: string): OrderAddress {
+  return compactAddress({
+    name: `${address?.first_name || ""} ${address?.last_name || ""}`,
+    addressLine1: address?.address_1,
+    addressLine2: address?.address_2,
+    city: address?.city,
+    state: address?.state,
+    postalCode: address?.postcode,
+    country: address?.country,
+    phone: address?.phone || phone,
+  })
+}
+
+/**
+ * Map a REST API v3 order
+ */
+export function mapWooCommerceOrder(order: any): PlatformOrder {
+  const items = (order.line_items || []).map((item: any) => ({
+    sku: item.sku || item.product_id.toString(),
+    title: item.name,
+    quantity: item.quantity,
+    price: parseAmount(item.price) || 0,
+    total: parseAmount(item.total),
+    platformItemId: item.id.toString(),
+    platformProductId: item.product_id?.toString(),
+  }))
+
+  return {
+    platformOrderId: order.id.toString(),
+    platformOrderNumber: order.number,
+    status: ORDER_STATUSES[order.status] || "PENDING",
+    paymentStatus: paymentStatus(order),
+    fulfillmentStatus: order.status === "completed" ? "FULFILLED" : "UNFULFILLED",
+    customerName: `${order.billing?.first_name || ""} ${order.billing?.last_name || ""}`.trim() || "Unknown",
+    customerEmail: order.billing?.email || undefined,
+    shippingAddress: mapAddress(order.shipping, order.billing?.phone),
+    billingAddress: order.billing ? mapAddress(order.billing) : undefined,
+    // Line subtotals are before coupon discounts
+    subtotal: (order.line_items || []).reduce(
+      (sum: number, item: any) => sum + (parseAmount(item.subtotal) || 0),
+      0
+    ),
+    tax: parseAmount(order.total_tax),
+    shipping: parseAmount(order.shipping_total),
+    total: parseAmount(order.total) || 0,
+    currency: order.currency || "USD",
+    orderDate: new Date(order.date_created),
+    items,
+  }
+}
@@ -0,0 +1,141 @@
+import { AllocationPolicy, AllocationStrategy, Platform, Product } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+
+export interface ChannelAllocationRule {
+  percentage?: number
+  priority?: number
+  cap?: number
+  buffer?: number
+}
+
+export type ChannelAllocation = Partial<Record<Platform, number>>
+
+// Used when the user has not configured any policy: every channel sees all available stock
+const DEFAULT_POLICY = {
+  strategy: AllocationStrategy.POOLED,
+  buffer: 0,
+  channelRules: null,
+}
+
+type PolicySettings = Pick<AllocationPolicy, "strategy" | "buffer" | "channelRules">
+
+function getChannelRules(policy: PolicySettings): Partial<Record<Platform, ChannelAllocationRule>> {
+  return (policy.channelRules as Partial<Record<Platform, ChannelAllocationRule>>) || {}
+}
+
+/**
+ * Find the policy for a product: its own, then its category's, then the user's default
+ */
+export async function resolveAllocationPolicy(
+  product: Pick<Product, "id" | "userId" | "category">
+): Promise<PolicySettings> {
+  const policies = await prisma.allocationPolicy.findMany({
+    where: {
+      userId: product.userId,
+      OR: [
+        { productId: product.id },
+        ...(product.category ? [{ productId: null, category: product.category }] : []),
+        { productId: null, category: null },
+      ],
+    },
+  })
+
+  return (
+    policies.find((p) => p.productId === product.id) ||
+    policies.find((p) => p.productId === null && p.category !== null) ||
+    policies.find((p) => p.productId === null && p.category === null) ||
+    DEFAULT_POLICY
+  )
+}
+
+/**
+ * Split available stock across channels according to a policy.
+ * Channel buffers and caps are applied after the strategy.
+ */
+export function allocateStock(
+  available: number,
+  platforms: Platform[],
+  policy: PolicySettings
+): ChannelAllocation {
+  const rules = getChannelRules(policy)
+  const pool = Math.max(0, available - policy.buffer)
+  const allocation: ChannelAllocation = {}
+
+  if (!platforms.length) {
+    return allocation
+  }
+
+  switch (policy.strategy) {
+    case AllocationStrategy.POOLED:
+      for (const platform of platforms) {
+        allocation[platform] = pool
+      }
+      break
+
+    case AllocationStrategy.PERCENTAGE: {
+      // Channels without a percentage share equally when none are configured
+      const weights = platforms.map((platform) => rules[platform]?.percentage ?? 0)
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+      const shares = platforms.map((_, i) =>
+        totalWeight > 0 ? (pool * weights[i]) / totalWeight : pool / platforms.length
+      )
+
+      // Largest remainder: units lost to rounding go to the channels closest to the next unit
+      const floors = shares.map(Math.floor)
+      let leftover = pool - floors.reduce((sum, n) => sum + n, 0)
+      const byRemainder = shares
+        .map((share, i) => ({ i, remainder: share - floors[i] }))
+        .sort((a, b) => b.remainder - a.remainder)
+
+      for (const { i } of byRemainder) {
+        if (leftover <= 0) break
+        if (totalWeight > 0 && weights[i] === 0) continue
+        floors[i]++
+        leftover--
+      }
+
+      platforms.forEach((platform, i) => {
+        allocation[platform] = floors[i]
+      })
+      break
+    }
+
+    case AllocationStrategy.PRIORITY: {
+      const ordered = [...platforms].sort(
+        (a, b) => (rules[a]?.priority ?? Number.MAX_SAFE_INTEGER) - (rules[b]?.priority ?? Number.MAX_SAFE_INTEGER)
+      )
+
+      let remaining = pool
+      for (const platform of ordered) {
+        const share = Math.min(remaining, rules[platform]?.cap ?? remaining)
+        allocation[platform] = share
+        remaining -= share
+      }
+      break
+    }
+  }
+
+  for (const platform of platforms) {
+    const rule = rules[platform] || {}
+    let quantity = Math.max(0, (allocation[platform] || 0) - (rule.buffer || 0))
+    if (rule.cap !== undefined) {
+      quantity = Math.min(quantity, rule.cap)
+    }
+    allocation[platform] = quantity
+  }
+
+  return allocation
+}
+
+/**
+ * Quantities to publish on each channel for a product, based on its available stock
+ */
+export async function getChannelQuantities(
+  product: Pick<Product, "id" | "userId" | "category" | "quantity" | "reservedQuantity">,
+  platforms: Platform[]
+): Promise<ChannelAllocation> {
+  const policy = await resolveAllocationPolicy(product)
+  const available = Math.max(0, product.quantity - product.reservedQuantity)
+
+  return allocateStock(available, platforms, policy)
+}
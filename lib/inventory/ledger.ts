@@ -0,0 +1,583 @@
+import { AgentRole, InventoryChange, Platform, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { publishEvent } from "@/lib/events/outbound"
+
+// Used until the user sets lowStockThreshold in the inventory manager's settings
+const DEFAULT_LOW_STOCK_THRESHOLD = 10
+
+export interface LedgerEntryOptions {
+  reason?: string
+  platform?: Platform
+  orderId?: string
+  // Defaults to the user's default location when they have any
+  locationId?: string
+  // Required for products with variants by the single product changes, lines carry their own
+  variantId?: string
+}
+
+export interface StockLine {
+  productId: string
+  variantId?: string | null
+  quantity: number
+}
+
+// What a SKU is: a product, or one variant of it
+export interface SkuTarget {
+  productId: string
+  variantId: string | null
+  // False for the SKU of a product with variants, whose stock is kept on the variants
+  tracked: boolean
+}
+
+// A sold line and the units it took from on hand, fewer than sold when stock ran out
+export interface SoldLine extends StockLine {
+  taken: number
+}
+
+export interface StockLevel {
+  productId: string
+  quantity: number
+  reserved: number
+  available: number
+}
+
+export interface LocationStockLevel extends StockLevel {
+  locationId: string
+}
+
+export class InsufficientStockError extends Error {
+  constructor(productId: string, available: number, requested: number) {
+    super(`Insufficient stock for product ${productId}: ${available} available, ${requested} requested`)
+    this.name = "InsufficientStockError"
+  }
+}
+
+interface LockedProduct {
+  id: string
+  userId: string
+  quantity: number
+  reservedQuantity: number
+}
+
+interface LockedVariant {
+  id: string
+  quantity: number
+  reservedQuantity: number
+}
+
+// The stock a change applies to: a location's level, or the product itself without locations
+interface StockRow {
+  productId: string
+  quantity: number
+  reservedQuantity: number
+}
+
+// New on-hand and reserved quantities for a locked stock row
+type StockComputation = (stock: StockRow, quantity: number) => {
+  quantity: number
+  reserved: number
+}
+
+interface AppliedChange {
+  line: StockLine
+  level: StockLevel
+  quantityChange: number
+}
+
+function toStockLevel(productId: string, quantity: number, reserved: number): StockLevel {
+  return {
+    productId,
+    quantity,
+    reserved,
+    available: Math.max(0, quantity - reserved),
+  }
+}
+
+/**
+ * The only writer of Product.quantity, Product.reservedQuantity, InventoryLevel and InventoryLog.
+ * Every change locks the product rows and logs the entry in a single transaction.
+ * Location changes also move the product totals, which stay the sum of its levels.
+ * A ledger given a transaction makes its changes in it, so they commit with the caller's writes.
+ * Changes that take a product down to the low stock threshold publish inventory.low_stock.
+ * Ledgers given a transaction hold those events back until publishDeferredEvents is called,
+ * which the caller does once its transaction has committed.
+ */
+export class InventoryLedger {
+  private userId: string
+  private tx?: Prisma.TransactionClient
+  private deferred: AppliedChange[] = []
+
+  constructor(userId: string, tx?: Prisma.TransactionClient) {
+    this.userId = userId
+    this.tx = tx
+  }
+
+  /**
+   * Resolve a SKU to one of the user's products or product variants
+   */
+  async resolveSku(sku: string): Promise<SkuTarget | null> {
+    const variant = await prisma.productVariant.findUnique({
+      where: { userId_sku: { userId: this.userId, sku } },
+      select: { id: true, productId: true },
+    })
+
+    if (variant) {
+      return { productId: variant.productId, variantId: variant.id, tracked: true }
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { userId_sku: { userId: this.userId, sku } },
+      select: { id: true, _count: { select: { variants: true } } },
+    })
+
+    return product ? { productId: product.id, variantId: null, tracked: !product._count.variants } : null
+  }
+
+  /**
+   * Stock of a product, or of one of its variants
+   */
+  async getStockLevel(productId: string, variantId?: string | null): Promise<StockLevel> {
+    if (variantId) {
+      const variant = await prisma.productVariant.findFirst({
+        where: { id: variantId, productId, userId: this.userId },
+      })
+
+      if (!variant) {
+        throw new Error("Variant not found")
+      }
+
+      return toStockLevel(productId, variant.quantity, variant.reservedQuantity)
+    }
+
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId: this.userId },
+    })
+
+    if (!product) {
+      throw new Error("Product not found")
+    }
+
+    return toStockLevel(product.id, product.quantity, product.reservedQuantity)
+  }
+
+  async getLocationLevels(productId: string): Promise<LocationStockLevel[]> {
+    const levels = await prisma.inventoryLevel.findMany({
+      where: { productId, product: { userId: this.userId } },
+    })
+
+    return levels.map((level) => ({
+      ...toStockLevel(level.productId, level.quantity, level.reservedQuantity),
+      locationId: level.locationId,
+    }))
+  }
+
+  /**
+   * Add received stock to on hand
+   */
+  async restock(productId: string, quantity: number, options: LedgerEntryOptions = {}): Promise<StockLevel> {
+    const [{ level }] = await this.applyChanges(
+      InventoryChange.RESTOCK,
+      [{ productId, variantId: options.variantId, quantity }],
+      options,
+      (stock, qty) => ({ quantity: stock.quantity + qty, reserved: stock.reservedQuantity })
+    )
+    return level
+  }
+
+  /**
+   * Put returned units back on hand
+   */
+  async recordReturn(productId: string, quantity: number, options: LedgerEntryOptions = {}): Promise<StockLevel> {
+    const [{ level }] = await this.applyChanges(
+      InventoryChange.RETURN,
+      [{ productId, variantId: options.variantId, quantity }],
+      options,
+      (stock, qty) => ({ quantity: stock.quantity + qty, reserved: stock.reservedQuantity })
+    )
+    return level
+  }
+
+  /**
+   * Set on hand to a counted or platform-reported quantity
+   */
+  async setQuantity(
+    productId: string,
+    quantity: number,
+    type: typeof InventoryChange.ADJUSTMENT | typeof InventoryChange.SYNC,
+    options: LedgerEntryOptions = {}
+  ): Promise<StockLevel> {
+    const [{ level }] = await this.applyChanges(
+      type,
+      [{ productId, variantId: options.variantId, quantity }],
+      options,
+      (stock, qty) => ({ quantity: Math.max(0, qty), reserved: stock.reservedQuantity })
+    )
+    return level
+  }
+
+  /**
+   * Move on hand by a platform-reported difference, for channels shown less than on hand
+   */
+  async adjustQuantity(
+    productId: string,
+    change: number,
+    type: typeof InventoryChange.ADJUSTMENT | typeof InventoryChange.SYNC,
+    options: LedgerEntryOptions = {}
+  ): Promise<StockLevel> {
+    const [{ level }] = await this.applyChanges(
+      type,
+      [{ productId, variantId: options.variantId, quantity: change }],
+      options,
+      (stock, qty) => ({ quantity: Math.max(0, stock.quantity + qty), reserved: stock.reservedQuantity })
+    )
+    return level
+  }
+
+  /**
+   * Remove sold units from on hand. On hand never goes below 0, each line reports
+   * the units it actually took.
+   */
+  async commitSale(lines: StockLine[], options: LedgerEntryOptions = {}): Promise<SoldLine[]> {
+    const changes = await this.applyChanges(InventoryChange.SALE, lines, options, (stock, qty) => ({
+      quantity: Math.max(0, stock.quantity - qty),
+      reserved: stock.reservedQuantity,
+    }))
+    return changes.map(({ line, quantityChange }) => ({ ...line, taken: -quantityChange }))
+  }
+
+  /**
+   * Move available stock between two locations. On hand totals are unchanged,
+   * each side is logged as a TRANSFER entry for its location.
+   */
+  async transfer(
+    productId: string,
+    fromLocationId: string,
+    toLocationId: string,
+    quantity: number,
+    options: Omit<LedgerEntryOptions, "locationId"> = {}
+  ): Promise<LocationStockLevel[]> {
+    if (fromLocationId === toLocationId) {
+      throw new Error("Cannot transfer stock to the same location")
+    }
+
+    return await this.transaction(async (tx) => {
+      const product = await this.lockProduct(tx, productId)
+      await this.requireLocation(tx, fromLocationId)
+      await this.requireLocation(tx, toLocationId)
+
+      const source = await this.getLevelRow(tx, product.id, fromLocationId)
+      const destination = await this.getLevelRow(tx, product.id, toLocationId)
+
+      const available = source.quantity - source.reservedQuantity
+      if (available < quantity) {
+        throw new InsufficientStockError(product.id, Math.max(0, available), quantity)
+      }
+
+      const results: LocationStockLevel[] = []
+
+      for (const [level, change] of [
+        [source, -quantity],
+        [destination, quantity],
+      ] as const) {
+        const newQuantity = level.quantity + change
+
+        await tx.inventoryLevel.update({
+          where: { id: level.id },
+          data: { quantity: newQuantity },
+        })
+
+        await tx.inventoryLog.create({
+          data: {
+            productId: product.id,
+            changeType: InventoryChange.TRANSFER,
+            oldQuantity: level.quantity,
+            newQuantity,
+            changeReason: options.reason,
+            platform: options.platform,
+            orderId: options.orderId,
+            locationId: level.locationId,
+            userId: this.userId,
+          },
+        })
+
+        results.push({
+          ...toStockLevel(product.id, newQuantity, level.reservedQuantity),
+          locationId: level.locationId,
+        })
+      }
+
+      return results
+    })
+  }
+
+  /**
+   * Give products that have no levels yet a level at the location holding their current totals.
+   * Used when the user adds their first location, so existing stock is not lost from the sums.
+   * Each product is moved in its own transaction, so large catalogs do not hold one open.
+   */
+  async assignUnlocatedStock(locationId: string): Promise<number> {
+    await this.requireLocation(this.tx || prisma, locationId)
+
+    const products = await prisma.product.findMany({
+      where: { userId: this.userId, inventoryLevels: { none: {} } },
+      select: { id: true },
+    })
+
+    let assigned = 0
+    for (const { id } of products) {
+      const created = await this.transaction(async (tx) => {
+        const product = await this.lockProduct(tx, id)
+
+        // A ledger change may have created a level since the products were listed
+        const existing = await tx.inventoryLevel.count({ where: { productId: id } })
+        if (existing) return false
+
+        await tx.inventoryLevel.create({
+          data: {
+            productId: id,
+            locationId,
+            quantity: product.quantity,
+            reservedQuantity: product.reservedQuantity,
+          },
+        })
+        return true
+      })
+
+      if (created) assigned++
+    }
+
+    return assigned
+  }
+
+  /**
+   * Publish the events of changes made in the caller's transaction, after it has committed
+   */
+  async publishDeferredEvents(): Promise<void> {
+    const changes = this.deferred
+    this.deferred = []
+    await this.publishLowStock(changes)
+  }
+
+  private async applyChanges(
+    type: InventoryChange,
+    lines: StockLine[],
+    options: LedgerEntryOptions,
+    compute: StockComputation
+  ): Promise<AppliedChange[]> {
+    // Lock rows in a stable order so concurrent multi-line changes cannot deadlock
+    const sorted = [...lines].sort(
+      (a, b) => a.productId.localeCompare(b.productId) || (a.variantId || "").localeCompare(b.variantId || "")
+    )
+
+    const applied = await this.transaction(async (tx) => {
+      const locationId = await this.resolveLocationId(tx, options.locationId)
+      const changes: AppliedChange[] = []
+
+      for (const line of sorted) {
+        const product = await this.lockProduct(tx, line.productId)
+        const variant = await this.lockVariant(tx, product.id, line.variantId)
+        const level = locationId ? await this.getLevelRow(tx, product.id, locationId) : null
+
+        // Levels are per product, a variant's change moves its product's level by the same amount
+        const current: StockRow = variant
+          ? { ...variant, productId: product.id }
+          : level || { ...product, productId: product.id }
+        const next = compute(current, line.quantity)
+
+        const quantityChange = next.quantity - current.quantity
+        const reservedChange = next.reserved - current.reservedQuantity
+
+        if (!quantityChange && !reservedChange) {
+          changes.push({
+            line,
+            level: toStockLevel(product.id, product.quantity, product.reservedQuantity),
+            quantityChange,
+          })
+          continue
+        }
+
+        if (variant) {
+          await tx.productVariant.update({
+            where: { id: variant.id },
+            data: {
+              quantity: next.quantity,
+              reservedQuantity: next.reserved,
+            },
+          })
+        }
+
+        if (level) {
+          await tx.inventoryLevel.update({
+            where: { id: level.id },
+            data: {
+              quantity: Math.max(0, level.quantity + quantityChange),
+              reservedQuantity: Math.max(0, level.reservedQuantity + reservedChange),
+            },
+          })
+        }
+
+        const totalQuantity = product.quantity + quantityChange
+        const totalReserved = product.reservedQuantity + reservedChange
+
+        await tx.product.update({
+          where: { id: product.id },
+          data: {
+            quantity: totalQuantity,
+            reservedQuantity: totalReserved,
+          },
+        })
+
+        await tx.inventoryLog.create({
+          data: {
+            productId: product.id,
+            changeType: type,
+            oldQuantity: current.quantity,
+            newQuantity: next.quantity,
+            reservedChange,
+            changeReason: options.reason,
+            platform: options.platform,
+            orderId: options.orderId,
+            locationId,
+            variantId: variant?.id,
+            userId: this.userId,
+          },
+        })
+
+        changes.push({
+          line,
+          level: toStockLevel(product.id, totalQuantity, totalReserved),
+          quantityChange,
+        })
+      }
+
+      return changes
+    })
+
+    if (this.tx) {
+      this.deferred.push(...applied)
+    } else {
+      await this.publishLowStock(applied)
+    }
+
+    return applied
+  }
+
+  // Only the change that takes a product to the threshold publishes, not every change below it
+  private async publishLowStock(changes: AppliedChange[]): Promise<void> {
+    if (!changes.some(({ quantityChange }) => quantityChange < 0)) return
+
+    const config = await prisma.agentConfig.findUnique({
+      where: { userId_agentRole: { userId: this.userId, agentRole: AgentRole.INVENTORY_MANAGER } },
+      select: { settings: true },
+    })
+    const threshold =
+      (config?.settings as { lowStockThreshold?: number } | null)?.lowStockThreshold || DEFAULT_LOW_STOCK_THRESHOLD
+
+    const crossed = new Map<string, number>()
+    for (const { level, quantityChange } of changes) {
+      if (level.quantity <= threshold && level.quantity - quantityChange > threshold) {
+        crossed.set(level.productId, level.quantity)
+      }
+    }
+    if (!crossed.size) return
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: Array.from(crossed.keys()) }, status: "ACTIVE" },
+      select: { id: true, sku: true, title: true },
+    })
+
+    for (const product of products) {
+      await publishEvent(this.userId, "inventory.low_stock", {
+        productId: product.id,
+        sku: product.sku,
+        title: product.title,
+        quantity: crossed.get(product.id),
+        threshold,
+      })
+    }
+  }
+
+  private async transaction<T>(run: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    return this.tx ? await run(this.tx) : await prisma.$transaction(run)
+  }
+
+  // Changes without a location go to the default one, or to the product itself when the user has none
+  private async resolveLocationId(tx: Prisma.TransactionClient, locationId?: string): Promise<string | null> {
+    if (locationId) {
+      await this.requireLocation(tx, locationId)
+      return locationId
+    }
+
+    const fallback = await tx.location.findFirst({
+      where: { userId: this.userId },
+      orderBy: [{ isDefault: "desc" }, { priority: "asc" }],
+      select: { id: true },
+    })
+
+    return fallback?.id || null
+  }
+
+  private async requireLocation(tx: Prisma.TransactionClient, locationId: string): Promise<void> {
+    const location = await tx.location.findFirst({
+      where: { id: locationId, userId: this.userId },
+      select: { id: true },
+    })
+
+    if (!location) {
+      throw new Error("Location not found")
+    }
+  }
+
+  // The product row is already locked, which serializes writers of its levels
+  private async getLevelRow(tx: Prisma.TransactionClient, productId: string, locationId: string) {
+    return await tx.inventoryLevel.upsert({
+      where: { productId_locationId: { productId, locationId } },
+      create: { productId, locationId },
+      update: {},
+    })
+  }
+
+  // Changes to products with variants must name the variant, so the totals stay their sums
+  private async lockVariant(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    variantId?: string | null
+  ): Promise<LockedVariant | null> {
+    if (!variantId) {
+      const variants = await tx.productVariant.count({ where: { productId } })
+      if (variants) {
+        throw new Error("Stock of a product with variants is changed per variant")
+      }
+      return null
+    }
+
+    const rows = await tx.$queryRaw<LockedVariant[]>`
+      SELECT id, quantity, "reservedQuantity"
+      FROM "ProductVariant"
+      WHERE id = ${variantId} AND "productId" = ${productId}
+      FOR UPDATE
+    `
+
+    if (!rows[0]) {
+      throw new Error("Variant not found")
+    }
+
+    return rows[0]
+  }
+
+  private async lockProduct(tx: Prisma.TransactionClient, productId: string): Promise<LockedProduct> {
+    const rows = await tx.$queryRaw<LockedProduct[]>`
+      SELECT id, "userId", quantity, "reservedQuantity"
+      FROM "Product"
+      WHERE id = ${productId}
+      FOR UPDATE
+    `
+
+    const product = rows[0]
+    if (!product || product.userId !== this.userId) {
+      throw new Error("Product not found")
+    }
+
+    return product
+  }
+}
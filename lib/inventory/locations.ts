@@ -0,0 +1,30 @@
+import { prisma } from "@/lib/db/client"
+import { LocationPlatformMappingInput } from "@/lib/validations/inventory"
+
+/**
+ * Find a mapping already used by another of the user's locations. A platform location
+ * can only feed one of ours, otherwise imported stock would be counted twice.
+ */
+export async function findMappingConflict(
+  userId: string,
+  mappings: LocationPlatformMappingInput[],
+  excludeLocationId?: string
+) {
+  if (!mappings.length) {
+    return null
+  }
+
+  return await prisma.locationPlatformMapping.findFirst({
+    where: {
+      location: {
+        userId,
+        ...(excludeLocationId ? { id: { not: excludeLocationId } } : {}),
+      },
+      OR: mappings.map((mapping) => ({
+        platform: mapping.platform,
+        platformLocationId: mapping.platformLocationId,
+      })),
+    },
+    include: { location: { select: { name: true } } },
+  })
+}
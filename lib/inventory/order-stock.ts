@@ -0,0 +1,187 @@
+import { OrderItem } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { lockOrder } from "@/lib/orders/locks"
+import { InventoryLedger, StockLine } from "./ledger"
+import { chooseFulfillmentLocation } from "./routing"
+
+// Orders in these statuses no longer hold any stock
+const RELEASED_STATUSES = ["CANCELLED", "REFUNDED"]
+// Room for the ledger changes of an order with many lines
+const RECONCILE_TIMEOUT_MS = 30_000
+
+export type RemovedOrderLine = Pick<OrderItem, "productId" | "variantId" | "stockDeducted">
+
+export function holdsStock(status: string): boolean {
+  return !RELEASED_STATUSES.includes(status)
+}
+
+// Units per product or variant, for lines that share one
+function mergeLines(lines: StockLine[]): StockLine[] {
+  const merged = new Map<string, StockLine>()
+  for (const line of lines) {
+    const key = `${line.productId}:${line.variantId || ""}`
+    const existing = merged.get(key)
+    merged.set(key, { ...line, quantity: (existing?.quantity || 0) + line.quantity })
+  }
+  return Array.from(merged.values())
+}
+
+/**
+ * Bring the stock an order has taken in line with its items and status. Each line keeps
+ * the units it has taken, so calling this again only moves the difference: new or larger
+ * lines are logged as SALE entries, smaller or removed lines and cancelled or refunded
+ * orders as RETURN entries. Lines without a product or with untracked stock are skipped.
+ * Units sold beyond on hand are kept as short on the line, never taken and never returned.
+ * The order row is locked while its lines and the ledger change together, so concurrent
+ * imports of the same order move the stock once. Returns the products whose stock changed.
+ */
+export async function reconcileOrderStock(
+  userId: string,
+  orderId: string,
+  removedLines: RemovedOrderLine[] = []
+): Promise<string[]> {
+  const result = await prisma.$transaction(
+    async (tx) => {
+      await lockOrder(tx, userId, orderId)
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { items: true },
+      })
+
+      const active = holdsStock(order.status)
+      const sales: Array<{ item: OrderItem; quantity: number }> = []
+      const returns: StockLine[] = []
+      const settled = new Map<string, Pick<OrderItem, "stockDeducted" | "stockShort">>()
+
+      for (const item of order.items) {
+        if (!item.productId || item.stockDeducted === null) continue
+
+        const target = active ? item.quantity : 0
+        const change = target - item.stockDeducted - item.stockShort
+
+        if (change > 0) {
+          sales.push({ item, quantity: change })
+        } else if (change < 0) {
+          // Units that were never in stock go first, only the rest comes back on hand
+          const fromShort = Math.min(item.stockShort, -change)
+          const returned = -change - fromShort
+
+          if (returned > 0) {
+            returns.push({ productId: item.productId, variantId: item.variantId, quantity: returned })
+          }
+          settled.set(item.id, {
+            stockDeducted: item.stockDeducted - returned,
+            stockShort: item.stockShort - fromShort,
+          })
+        }
+      }
+
+      for (const line of removedLines) {
+        if (line.productId && line.stockDeducted) {
+          returns.push({ productId: line.productId, variantId: line.variantId, quantity: line.stockDeducted })
+        }
+      }
+
+      if (!sales.length && !returns.length) {
+        return { order, changed: [], short: [], ledger: null }
+      }
+
+      const saleLines = mergeLines(
+        sales.map(({ item, quantity }) => ({ productId: item.productId!, variantId: item.variantId, quantity }))
+      )
+      const ledger = new InventoryLedger(userId, tx)
+      let locationId = order.fulfillmentLocationId
+
+      // The first sale decides where the order ships from, returns go back to the same place
+      if (saleLines.length && !locationId) {
+        locationId = await chooseFulfillmentLocation(userId, order, saleLines)
+
+        if (locationId) {
+          await tx.order.update({
+            where: { id: order.id },
+            data: { fulfillmentLocationId: locationId },
+          })
+        }
+      }
+
+      const entry = {
+        orderId: order.id,
+        platform: order.platform,
+        locationId: locationId || undefined,
+      }
+
+      const sold = saleLines.length
+        ? await ledger.commitSale(saleLines, {
+            ...entry,
+            reason: `Sold in order ${order.platformOrderId}`,
+          })
+        : []
+
+      // Lines sharing a product or variant take what the merged line took in order
+      for (const { item, quantity } of sales) {
+        const line = sold.find((l) => l.productId === item.productId && (l.variantId || null) === item.variantId)!
+        const taken = Math.min(quantity, line.taken)
+        line.taken -= taken
+
+        settled.set(item.id, {
+          stockDeducted: item.stockDeducted! + taken,
+          stockShort: item.stockShort + quantity - taken,
+        })
+      }
+
+      for (const line of mergeLines(returns)) {
+        await ledger.recordReturn(line.productId, line.quantity, {
+          ...entry,
+          variantId: line.variantId || undefined,
+          reason: `Returned from order ${order.platformOrderId}`,
+        })
+      }
+
+      for (const [itemId, data] of Array.from(settled)) {
+        await tx.orderItem.update({
+          where: { id: itemId },
+          data,
+        })
+      }
+
+      const short = sales
+        .filter(({ item }) => settled.get(item.id)!.stockShort > item.stockShort)
+        .map(({ item }) => item.productId!)
+
+      return {
+        order,
+        changed: Array.from(new Set([...saleLines, ...returns].map((line) => line.productId))),
+        short: Array.from(new Set(short)),
+        ledger,
+      }
+    },
+    { timeout: RECONCILE_TIMEOUT_MS }
+  )
+
+  await result.ledger?.publishDeferredEvents()
+
+  if (result.short.length) {
+    await notifyOversold(userId, result.order, result.short)
+  }
+
+  return result.changed
+}
+
+// A platform can sell units we no longer have, the sale still stands but someone has to act on it
+async function notifyOversold(
+  userId: string,
+  order: { id: string; platformOrderId: string },
+  productIds: string[]
+): Promise<void> {
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: "OUT_OF_STOCK",
+      title: `Order ${order.platformOrderId} - Inventory Issue`,
+      message: `Order sold more units than are in stock for ${productIds.length} product(s)`,
+      priority: "HIGH",
+      metadata: { orderId: order.id, productIds },
+    },
+  })
+}
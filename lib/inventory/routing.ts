@@ -0,0 +1,67 @@
+import { LocationType, Platform, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { StockLine } from "./ledger"
+
+export interface RoutableOrder {
+  platform: Platform
+  shippingAddress: any
+}
+
+/**
+ * Pick the location that should fulfill an order. Only locations holding every line are
+ * considered, so orders are never split. Returns null when the user has no locations or
+ * none can fulfill the whole order.
+ *
+ * Preference: a fulfillment service mapped to the order's platform (e.g. FBA for Amazon
+ * orders), then a location in the destination country, then location priority.
+ */
+export async function chooseFulfillmentLocation(
+  userId: string,
+  order: RoutableOrder,
+  lines: StockLine[]
+): Promise<string | null> {
+  const locations = await prisma.location.findMany({
+    where: { userId, active: true },
+    include: {
+      platformMappings: true,
+      inventoryLevels: {
+        where: { productId: { in: lines.map((line) => line.productId) } },
+      },
+    },
+    orderBy: [{ priority: "asc" }, { isDefault: "desc" }],
+  })
+
+  const destination = order.shippingAddress?.country
+
+  // Levels are kept per product, so variants of one product draw on the same level
+  const units = new Map<string, number>()
+  for (const line of lines) {
+    units.set(line.productId, (units.get(line.productId) || 0) + line.quantity)
+  }
+
+  const candidates = locations
+    .filter((location) => {
+      const servesPlatform = location.platformMappings.some((m) => m.platform === order.platform)
+
+      // Marketplace fulfillment only ships that marketplace's orders
+      if (location.type === LocationType.FULFILLMENT_SERVICE && !servesPlatform) {
+        return false
+      }
+
+      return Array.from(units).every(([productId, quantity]) => {
+        const level = location.inventoryLevels.find((l) => l.productId === productId)
+        return level !== undefined && level.quantity - level.reservedQuantity >= quantity
+      })
+    })
+    .map((location) => ({
+      id: location.id,
+      score:
+        (location.type === LocationType.FULFILLMENT_SERVICE ? 2 : 0) +
+        (destination && (location.address as Prisma.JsonObject | null)?.country === destination ? 1 : 0),
+    }))
+
+  // Stable sort keeps priority order between locations with the same score
+  candidates.sort((a, b) => b.score - a.score)
+
+  return candidates[0]?.id || null
+}
@@ -0,0 +1,177 @@
+import { Order, OrderEvent, Platform, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { holdsStock, reconcileOrderStock } from "@/lib/inventory/order-stock"
+import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
+import { ORDER_ACTOR_TYPE, ORDER_TRANSITIONS, OrderActor, OrderStatus } from "@/types/order"
+
+export class InvalidTransitionError extends Error {
+  readonly from: string
+  readonly to: string
+
+  constructor(from: string, to: string, message: string = `Cannot move an order from ${from} to ${to}`) {
+    super(message)
+    this.name = "InvalidTransitionError"
+    this.from = from
+    this.to = to
+  }
+}
+
+export interface TransitionOptions {
+  reason?: string
+  metadata?: Record<string, unknown>
+  // Other fields of the order, written with the status so neither is saved without the other
+  changes?: Prisma.OrderUpdateManyMutationInput
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return ORDER_TRANSITIONS[from as OrderStatus]?.includes(to as OrderStatus) ?? false
+}
+
+// Whether an order can get from one status to the other in any number of steps
+export function isLaterStatus(from: string, to: string): boolean {
+  const seen = new Set<string>([from])
+  const queue = [from]
+
+  while (queue.length) {
+    for (const next of ORDER_TRANSITIONS[queue.shift() as OrderStatus] || []) {
+      if (next === to) return true
+      if (!seen.has(next)) {
+        seen.add(next)
+        queue.push(next)
+      }
+    }
+  }
+
+  return false
+}
+
+/**
+ * First history entry, for orders created with nested writes
+ */
+export function createdEvent(status: string, actor: OrderActor, reason?: string) {
+  return {
+    toStatus: status,
+    actorType: actor.type,
+    actorId: actor.id,
+    reason,
+  }
+}
+
+export class OrderLifecycle {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Move an order to another status and record who did it and why. Throws
+   * InvalidTransitionError for moves ORDER_TRANSITIONS does not allow, moving to the
+   * current status only writes the changes. Cancelling or refunding gives the order's
+   * stock back and pushes it to the channels.
+   */
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {}
+  ): Promise<Order> {
+    const order = await this.getOrder(orderId)
+
+    if (order.status === to) {
+      return options.changes
+        ? await prisma.order.update({ where: { id: order.id }, data: options.changes })
+        : order
+    }
+
+    if (!canTransition(order.status, to)) {
+      throw new InvalidTransitionError(order.status, to)
+    }
+
+    return await this.apply(order, to, actor, options)
+  }
+
+  /**
+   * Follow a status the marketplace reports. Marketplaces skip steps, e.g. an order first
+   * seen when it is already delivered, so any later status is taken. Earlier statuses are
+   * ignored, they come from a marketplace that has not caught up with a local change.
+   * Returns whether the order's status changed.
+   */
+  async applyPlatformStatus(orderId: string, status: OrderStatus, platform: Platform): Promise<boolean> {
+    const order = await this.getOrder(orderId)
+
+    if (order.status === status || !isLaterStatus(order.status, status)) {
+      return false
+    }
+
+    await this.apply(order, status, { type: ORDER_ACTOR_TYPE.PLATFORM, id: platform }, {
+      reason: `Updated on ${platform}`,
+    })
+
+    return true
+  }
+
+  /**
+   * Status changes of an order, oldest first
+   */
+  async getHistory(orderId: string): Promise<OrderEvent[]> {
+    const order = await this.getOrder(orderId)
+
+    return prisma.orderEvent.findMany({
+      where: { orderId: order.id },
+      orderBy: { createdAt: "asc" },
+    })
+  }
+
+  private async getOrder(orderId: string): Promise<Order> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId: this.userId },
+    })
+
+    if (!order) {
+      throw new Error("Order not found")
+    }
+
+    return order
+  }
+
+  private async apply(order: Order, to: OrderStatus, actor: OrderActor, options: TransitionOptions): Promise<Order> {
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only from the status the move was checked against
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, status: order.status },
+        data: { ...options.changes, status: to },
+      })
+
+      if (!count) {
+        throw new InvalidTransitionError(order.status, to, "The order's status changed while it was being updated")
+      }
+
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: to,
+          actorType: actor.type,
+          actorId: actor.id,
+          reason: options.reason,
+          metadata: options.metadata as Prisma.InputJsonObject | undefined,
+        },
+      })
+
+      return await tx.order.findUniqueOrThrow({ where: { id: order.id } })
+    })
+
+    if (holdsStock(order.status) !== holdsStock(to)) {
+      const changed = await reconcileOrderStock(this.userId, order.id)
+
+      if (changed.length) {
+        // The marketplace that reported the change already knows
+        const source = actor.type === ORDER_ACTOR_TYPE.PLATFORM ? (actor.id as Platform) : undefined
+        await new InventorySyncEngine(this.userId).pushStockChanges(changed, source)
+      }
+    }
+
+    return updated
+  }
+}
@@ -0,0 +1,17 @@
+import { Prisma } from "@prisma/client"
+
+/**
+ * Lock one of the user's orders for the rest of the transaction, so changes that read
+ * its lines and then write against them run one at a time
+ */
+export async function lockOrder(tx: Prisma.TransactionClient, userId: string, orderId: string): Promise<void> {
+  const rows = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM "Order"
+    WHERE id = ${orderId} AND "userId" = ${userId}
+    FOR UPDATE
+  `
+
+  if (!rows[0]) {
+    throw new Error("Order not found")
+  }
+}
@@ -0,0 +1,137 @@
+import { ListingOverride, Platform, PlatformListing, PricingRule, Prisma, Product } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { ListingProduct, ProductWithVariants } from "@/types/platforms"
+
+// Fields a channel's listing can change from its product
+export const LISTING_FIELDS = [
+  "title",
+  "description",
+  "price",
+  "compareAtPrice",
+  "category",
+  "itemSpecifics",
+  "images",
+] as const
+
+export type ListingField = (typeof LISTING_FIELDS)[number]
+
+export interface ListingDivergence {
+  platform: Platform
+  listed: boolean
+  fields: ListingField[]
+}
+
+type PriceSettings = Pick<PricingRule, "markupPercent" | "markupAmount">
+
+/**
+ * A channel's price for a base price, rounded to the cent
+ */
+export function applyPricingRule(base: number, rule?: PriceSettings | null): number {
+  if (!rule) {
+    return base
+  }
+
+  const price = base * (1 + Number(rule.markupPercent) / 100) + Number(rule.markupAmount)
+  return Math.max(0, Math.round(price * 100) / 100)
+}
+
+/**
+ * The channel's rule for the product's category, then its rule for all products
+ */
+export function findPricingRule(
+  rules: PricingRule[],
+  platform: Platform,
+  category: string | null
+): PricingRule | undefined {
+  return (
+    rules.find((rule) => rule.platform === platform && category !== null && rule.category === category) ||
+    rules.find((rule) => rule.platform === platform && rule.category === null)
+  )
+}
+
+function isOverridden(override: ListingOverride, field: ListingField): boolean {
+  switch (field) {
+    case "images":
+      return override.images.length > 0
+    default:
+      return override[field] !== null
+  }
+}
+
+/**
+ * Where each channel's listing differs from the product, through its override or a pricing
+ * rule. Covers channels the product is listed on and those with an override waiting for the
+ * first sync.
+ */
+export function getListingDivergence(
+  product: Pick<Product, "price" | "category"> & {
+    platformListings: Pick<PlatformListing, "platform">[]
+    listingOverrides: ListingOverride[]
+  },
+  rules: PricingRule[]
+): ListingDivergence[] {
+  const listed = new Set(product.platformListings.map((listing) => listing.platform))
+  const platforms = Array.from(
+    new Set([...Array.from(listed), ...product.listingOverrides.map((override) => override.platform)])
+  )
+
+  return platforms.map((platform) => {
+    const override = product.listingOverrides.find((o) => o.platform === platform)
+    const fields = override ? LISTING_FIELDS.filter((field) => isOverridden(override, field)) : []
+
+    const rule = findPricingRule(rules, platform, product.category)
+    const base = Number(product.price)
+    if (!fields.includes("price") && applyPricingRule(base, rule) !== base) {
+      fields.push("price")
+    }
+
+    return { platform, listed: listed.has(platform), fields }
+  })
+}
+
+/**
+ * The product as it is listed on a channel: the override's fields where set, prices through
+ * the channel's pricing rule otherwise. An override price is the price of a product without
+ * variants, variants get their own prices through the rule. The listing's category is
+ * placed in the marketplace's tree through the user's category mappings.
+ */
+export async function buildListingProduct(
+  product: ProductWithVariants,
+  platform: Platform
+): Promise<ListingProduct> {
+  const [override, rules] = await Promise.all([
+    prisma.listingOverride.findUnique({
+      where: { productId_platform: { productId: product.id, platform } },
+    }),
+    prisma.pricingRule.findMany({
+      where: { userId: product.userId, platform },
+    }),
+  ])
+
+  const rule = findPricingRule(rules, platform, product.category)
+  const category = override?.category ?? product.category
+  const mapping = category
+    ? await prisma.categoryMapping.findUnique({
+        where: { userId_category_platform: { userId: product.userId, category, platform } },
+      })
+    : null
+
+  const channelPrice = (base: Prisma.Decimal) => new Prisma.Decimal(applyPricingRule(Number(base), rule))
+
+  return {
+    ...product,
+    title: override?.title ?? product.title,
+    description: override?.description ?? product.description,
+    price: override?.price ?? channelPrice(product.price),
+    compareAtPrice:
+      override?.compareAtPrice ?? (product.compareAtPrice ? channelPrice(product.compareAtPrice) : null),
+    category,
+    images: override?.images.length ? override.images : product.images,
+    variants: product.variants.map((variant) => ({ ...variant, price: channelPrice(variant.price) })),
+    itemSpecifics: {
+      ...((product.attributes as Record<string, string> | null) || {}),
+      ...((override?.itemSpecifics as Record<string, string> | null) || {}),
+    },
+    platformCategoryId: mapping?.platformCategoryId ?? null,
+  }
+}
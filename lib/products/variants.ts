@@ -0,0 +1,212 @@
+import { InventoryChange, Product, ProductVariant } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { ProductVariantInput, ProductVariantUpdateInput } from "@/lib/validations/product"
+
+type VariantOptions = Record<string, string>
+
+// A variant that does not fit its product's options, or a SKU the seller already uses
+export class ProductVariantError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProductVariantError"
+  }
+}
+
+/**
+ * Variants of a product, each with its own SKU, price and stock. The product's
+ * stock is the sum of its variants', kept that way by the inventory ledger.
+ */
+export class ProductVariantService {
+  private userId: string
+  private ledger: InventoryLedger
+
+  constructor(userId: string) {
+    this.userId = userId
+    this.ledger = new InventoryLedger(userId)
+  }
+
+  async list(productId: string): Promise<ProductVariant[]> {
+    const product = await this.getProduct(productId)
+
+    return prisma.productVariant.findMany({
+      where: { productId: product.id },
+      orderBy: { position: "asc" },
+    })
+  }
+
+  /**
+   * Throws ProductVariantError unless the variants can be added to a product with these
+   * options: each has a value for every option, no two are the same combination and
+   * no SKU is taken, counting the other SKUs given
+   */
+  async checkVariants(
+    optionNames: string[],
+    inputs: Array<Pick<ProductVariantInput, "sku" | "options">>,
+    existing: ProductVariant[] = [],
+    otherSkus: string[] = []
+  ): Promise<void> {
+    if (!optionNames.length) {
+      throw new ProductVariantError("Add options such as Size or Color before adding variants")
+    }
+
+    const combinations = new Set(existing.map((variant) => combinationOf(optionNames, variant.options as VariantOptions)))
+    for (const input of inputs) {
+      checkOptionValues(optionNames, input.options)
+
+      const combination = combinationOf(optionNames, input.options)
+      if (combinations.has(combination)) {
+        throw new ProductVariantError(`There is already a ${combination} variant`)
+      }
+      combinations.add(combination)
+    }
+
+    await this.checkSkus([...otherSkus, ...inputs.map((input) => input.sku)])
+  }
+
+  /**
+   * Add variants to a product, their opening stock is booked through the ledger.
+   * Stock a product holds before its first variant would belong to none of them,
+   * so it has to be counted out first.
+   */
+  async create(productId: string, inputs: ProductVariantInput[]): Promise<ProductVariant[]> {
+    const product = await this.getProduct(productId)
+    const existing = await prisma.productVariant.findMany({ where: { productId: product.id } })
+
+    if (!existing.length && product.quantity > 0) {
+      throw new ProductVariantError("Set the product's stock to 0 before adding variants, stock is kept per variant")
+    }
+
+    await this.checkVariants(product.options, inputs, existing)
+
+    const created: ProductVariant[] = []
+    for (const [index, input] of Array.from(inputs.entries())) {
+      const { quantity, ...variantData } = input
+      const variant = await prisma.productVariant.create({
+        data: {
+          ...variantData,
+          title: input.title || combinationOf(product.options, input.options),
+          userId: this.userId,
+          productId: product.id,
+          position: existing.length + index,
+        },
+      })
+
+      if (quantity > 0) {
+        await this.ledger.restock(product.id, quantity, { variantId: variant.id, reason: "Initial stock" })
+      }
+
+      created.push({ ...variant, quantity })
+    }
+
+    return created
+  }
+
+  async update(productId: string, variantId: string, input: ProductVariantUpdateInput): Promise<ProductVariant> {
+    const product = await this.getProduct(productId)
+    const variants = await prisma.productVariant.findMany({ where: { productId: product.id } })
+    const variant = variants.find((v) => v.id === variantId)
+
+    if (!variant) {
+      throw new Error("Variant not found")
+    }
+
+    if (input.options) {
+      checkOptionValues(product.options, input.options)
+
+      const combination = combinationOf(product.options, input.options)
+      const taken = variants.some(
+        (v) => v.id !== variant.id && combinationOf(product.options, v.options as VariantOptions) === combination
+      )
+      if (taken) {
+        throw new ProductVariantError(`There is already a ${combination} variant`)
+      }
+    }
+
+    if (input.sku && input.sku !== variant.sku) {
+      await this.checkSkus([input.sku])
+    }
+
+    // Stock changes go through the inventory ledger so they are logged
+    const { quantity, ...variantData } = input
+    if (quantity !== undefined) {
+      await this.ledger.setQuantity(product.id, quantity, InventoryChange.ADJUSTMENT, {
+        variantId: variant.id,
+        reason: "Manual update",
+      })
+    }
+
+    return prisma.productVariant.update({
+      where: { id: variant.id },
+      data: variantData,
+    })
+  }
+
+  /**
+   * Remove a variant after counting its stock out, so the product's total drops with it
+   */
+  async remove(productId: string, variantId: string): Promise<void> {
+    const product = await this.getProduct(productId)
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId: product.id },
+    })
+
+    if (!variant) {
+      throw new Error("Variant not found")
+    }
+
+    if (variant.reservedQuantity > 0) {
+      throw new ProductVariantError("The variant has stock reserved for orders")
+    }
+
+    if (variant.quantity > 0) {
+      await this.ledger.setQuantity(product.id, 0, InventoryChange.ADJUSTMENT, {
+        variantId: variant.id,
+        reason: `Variant ${variant.sku} removed`,
+      })
+    }
+
+    await prisma.productVariant.delete({ where: { id: variant.id } })
+  }
+
+  private async getProduct(productId: string): Promise<Product> {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId: this.userId },
+    })
+
+    if (!product) {
+      throw new Error("Product not found")
+    }
+
+    return product
+  }
+
+  // SKUs are unique per seller across products and variants, see InventoryLedger.resolveSku
+  private async checkSkus(skus: string[]): Promise<void> {
+    const seen = new Set<string>()
+
+    for (const sku of skus) {
+      if (seen.has(sku) || (await this.ledger.resolveSku(sku))) {
+        throw new ProductVariantError(`SKU ${sku} is already in use`)
+      }
+      seen.add(sku)
+    }
+  }
+}
+
+function checkOptionValues(optionNames: string[], values: VariantOptions): void {
+  const missing = optionNames.filter((name) => !values[name])
+  if (missing.length) {
+    throw new ProductVariantError(`Missing a value for ${missing.join(", ")}`)
+  }
+
+  const unknown = Object.keys(values).filter((name) => !optionNames.includes(name))
+  if (unknown.length) {
+    throw new ProductVariantError(`${unknown.join(", ")} is not an option of this product`)
+  }
+}
+
+// "M / Blue", in the product's option order
+function combinationOf(optionNames: string[], values: VariantOptions): string {
+  return optionNames.map((name) => values[name]).join(" / ")
+}
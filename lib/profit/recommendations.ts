@@ -83,7 +83,7 @@ export class RecommendationEngine {
       if (sortedRelated.length === 0) continue
 
       const product = await prisma.product.findUnique({
-        where: { sku },
+        where: { userId_sku: { userId: this.userId, sku } },
       })
 
       if (!product) continue
@@ -91,7 +91,7 @@ export class RecommendationEngine {
       const recommendedProducts = []
       for (const [relatedSku, frequency] of sortedRelated) {
         const relatedProduct = await prisma.product.findUnique({
-          where: { sku: relatedSku },
+          where: { userId_sku: { userId: this.userId, sku: relatedSku } },
         })
 
         if (relatedProduct) {
@@ -120,8 +120,8 @@ export class RecommendationEngine {
    * Generate upsell recommendations (higher-priced alternatives)
    */
   async generateUpsellRecommendations(productId: string): Promise<any[]> {
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId: this.userId },
     })
 
     if (!product) return []
@@ -164,8 +164,8 @@ export class RecommendationEngine {
     for (const crossSell of crossSells) {
       if (crossSell.recommendedProducts.length < 2) continue
 
-      const mainProduct = await prisma.product.findUnique({
-        where: { id: crossSell.productId },
+      const mainProduct = await prisma.product.findFirst({
+        where: { id: crossSell.productId, userId: this.userId },
       })
 
       if (!mainProduct) continue
@@ -183,8 +183,8 @@ export class RecommendationEngine {
       let totalPrice = Number(mainProduct.price)
 
       for (const rec of crossSell.recommendedProducts.slice(0, 2)) {
-        const product = await prisma.product.findUnique({
-          where: { id: rec.productId },
+        const product = await prisma.product.findFirst({
+          where: { id: rec.productId, userId: this.userId },
         })
 
         if (product) {
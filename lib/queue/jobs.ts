@@ -1,9 +1,16 @@
 import Queue from "bull"
-import { Platform } from "@prisma/client"
+import { Platform, Prisma } from "@prisma/client"
 import { ProductSyncEngine } from "@/lib/sync/product-sync"
 import { OrderSyncEngine } from "@/lib/sync/order-sync"
 import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
+import { WebhookSyncEngine } from "@/lib/sync/webhook-sync"
+import { CatalogImportEngine } from "@/lib/sync/catalog-import"
+import { PageCursors, SyncCheckpoint } from "@/lib/sync/checkpoint"
+import { publishEvent, deliverWebhook } from "@/lib/events/outbound"
+import { OutboundWebhookJobData, outboundWebhookQueue } from "./outbound-webhooks"
 import { prisma } from "@/lib/db/client"
+import { PlatformApiError } from "@/lib/integrations/errors"
+import { PlatformErrorDetails } from "@/types/platforms"
 
 // Initialize job queues
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379"
@@ -44,6 +51,18 @@ export const inventorySyncQueue = new Queue("inventory-sync", REDIS_URL, {
   },
 })
 
+export const catalogImportQueue = new Queue("catalog-import", REDIS_URL, {
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 2000,
+    },
+    removeOnComplete: 100,
+    removeOnFail: 50,
+  },
+})
+
 export const webhookQueue = new Queue("webhook-processing", REDIS_URL, {
   defaultJobOptions: {
     attempts: 5,
@@ -66,8 +85,13 @@ export interface ProductSyncJobData {
 export interface OrderSyncJobData {
   userId: string
   platforms: Platform[]
+  // Incremental syncs pull changes since each connection's cursor, backfills import
+  // every order created in the date range (all history without one)
+  mode: "incremental" | "backfill"
   startDate?: Date
   endDate?: Date
+  // Set when resuming, and after the first attempt so retries continue from its checkpoint
+  syncJobId?: string
 }
 
 export interface InventorySyncJobData {
@@ -75,15 +99,104 @@ export interface InventorySyncJobData {
   action: "import" | "export"
   platforms: Platform[]
   productId?: string
+  syncJobId?: string
+}
+
+export interface CatalogImportJobData {
+  userId: string
+  importId: string
+  platform: Platform
+  syncJobId?: string
 }
 
 export interface WebhookJobData {
+  webhookId: string
   platform: Platform
   event: string
   payload: any
   userId: string
 }
 
+// Let subscribed endpoints know about platforms that failed to sync
+async function publishSyncFailures(
+  userId: string,
+  type: string,
+  results: Array<{ platform: Platform; success: boolean; error?: PlatformErrorDetails }>
+) {
+  const failures = results.filter((r) => !r.success)
+
+  if (failures.length) {
+    await publishEvent(userId, "sync.failed", {
+      type,
+      failures: failures.map((f) => ({ platform: f.platform, error: f.error })),
+    })
+  }
+}
+
+// Create the SyncJob on the first attempt and reuse it on retries and resumes, so its
+// checkpoint carries over. The job input is kept on it for resuming later.
+async function beginSyncJob(
+  job: Queue.Job<OrderSyncJobData | InventorySyncJobData | CatalogImportJobData>,
+  type: string
+) {
+  const { userId, syncJobId, ...params } = job.data
+
+  if (syncJobId) {
+    const existing = await prisma.syncJob.findUnique({ where: { id: syncJobId } })
+
+    if (existing) {
+      return await prisma.syncJob.update({
+        where: { id: existing.id },
+        data: {
+          status: "running",
+          error: null,
+          errorDetails: Prisma.DbNull,
+          completedAt: null,
+        },
+      })
+    }
+  }
+
+  const syncJob = await prisma.syncJob.create({
+    data: {
+      userId,
+      type,
+      platform: "platform" in params ? params.platform : params.platforms[0], // Primary platform
+      status: "running",
+      params: params as Prisma.InputJsonObject,
+    },
+  })
+
+  await job.update({ ...job.data, syncJobId: syncJob.id })
+
+  return syncJob
+}
+
+async function finishSyncJob(
+  syncJobId: string,
+  results: Array<{ platform: Platform; success: boolean; error?: PlatformErrorDetails }>
+) {
+  await prisma.syncJob.update({
+    where: { id: syncJobId },
+    data: {
+      status: results.every((r) => r.success) ? "completed" : "failed",
+      details: results,
+      completedAt: new Date(),
+    },
+  })
+}
+
+async function failSyncJob(syncJobId: string, error: unknown) {
+  await prisma.syncJob.update({
+    where: { id: syncJobId },
+    data: {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      errorDetails: error instanceof PlatformApiError ? error.toDetails() : Prisma.DbNull,
+    },
+  })
+}
+
 // Job processors
 productSyncQueue.process(async (job) => {
   const { userId, productId, platforms } = job.data as ProductSyncJobData
@@ -104,27 +217,47 @@ productSyncQueue.process(async (job) => {
     },
   })
 
+  await publishSyncFailures(userId, "PRODUCT_SYNC", results)
+
   return results
 })
 
 orderSyncQueue.process(async (job) => {
-  const { userId, platforms, startDate, endDate } = job.data as OrderSyncJobData
+  const { userId, platforms, mode, startDate, endDate } = job.data as OrderSyncJobData
 
-  console.log(`Processing order sync job for user ${userId}`)
+  console.log(`Processing order ${mode} job for user ${userId}`)
+
+  const syncJob = await beginSyncJob(job, "ORDER_SYNC")
+  const checkpoint = new SyncCheckpoint(
+    syncJob.id,
+    (syncJob.checkpoint as PageCursors) || {},
+    syncJob.startedAt
+  )
 
   const syncEngine = new OrderSyncEngine(userId)
-  const results = await syncEngine.importOrders(platforms, { startDate, endDate })
+  let results
+
+  try {
+    // Job data goes through JSON, so dates arrive as strings
+    results = mode === "backfill"
+      ? await syncEngine.importOrders(
+          platforms,
+          {
+            startDate: startDate ? new Date(startDate) : undefined,
+            endDate: endDate ? new Date(endDate) : undefined,
+          },
+          checkpoint
+        )
+      : await syncEngine.syncOrderChanges(platforms, checkpoint)
+  } catch (error) {
+    await failSyncJob(syncJob.id, error)
+    throw error
+  }
 
   // Update sync job status
-  await prisma.syncJob.create({
-    data: {
-      userId,
-      type: "ORDER_SYNC",
-      platform: platforms[0],
-      status: results.every((r) => r.success) ? "completed" : "failed",
-      details: results,
-    },
-  })
+  await finishSyncJob(syncJob.id, results)
+
+  await publishSyncFailures(userId, "ORDER_SYNC", results)
 
   return results
 })
@@ -134,85 +267,99 @@ inventorySyncQueue.process(async (job) => {
 
   console.log(`Processing inventory ${action} job for user ${userId}`)
 
+  if (action === "export" && !productId) {
+    throw new Error("Product ID required for inventory export")
+  }
+
+  const syncJob = await beginSyncJob(job, "INVENTORY_SYNC")
+  const checkpoint = new SyncCheckpoint(syncJob.id, (syncJob.checkpoint as PageCursors) || {})
+
   const syncEngine = new InventorySyncEngine(userId)
   let results
 
-  if (action === "import") {
-    results = await syncEngine.importInventory(platforms)
-  } else if (productId) {
-    results = await syncEngine.syncInventoryToPlatforms(productId, platforms)
-  } else {
-    throw new Error("Product ID required for inventory export")
+  try {
+    results = action === "import"
+      ? await syncEngine.importInventory(platforms, checkpoint)
+      : await syncEngine.syncInventoryToPlatforms(productId!, platforms)
+  } catch (error) {
+    await failSyncJob(syncJob.id, error)
+    throw error
   }
 
   // Update sync job status
-  await prisma.syncJob.create({
-    data: {
-      userId,
-      type: "INVENTORY_SYNC",
-      platform: platforms[0],
-      status: results.every((r: any) => r.success) ? "completed" : "failed",
-      details: results,
-    },
-  })
+  await finishSyncJob(syncJob.id, results)
+
+  await publishSyncFailures(userId, "INVENTORY_SYNC", results)
 
   return results
 })
 
+catalogImportQueue.process(async (job) => {
+  const { userId, importId, platform } = job.data as CatalogImportJobData
+
+  console.log(`Processing catalog import ${importId} for user ${userId}`)
+
+  const syncJob = await beginSyncJob(job, "CATALOG_IMPORT")
+  const checkpoint = new SyncCheckpoint(syncJob.id, (syncJob.checkpoint as PageCursors) || {})
+
+  let fetched
+  try {
+    fetched = await new CatalogImportEngine(userId).fetchListings(importId, checkpoint)
+  } catch (error) {
+    await failSyncJob(syncJob.id, error)
+    throw error
+  }
+
+  await finishSyncJob(syncJob.id, [{ platform, success: true }])
+
+  return { importId, fetched }
+})
+
 webhookQueue.process(async (job) => {
-  const { platform, event, payload, userId } = job.data as WebhookJobData
+  const { webhookId, platform, event, payload, userId } = job.data as WebhookJobData
 
   console.log(`Processing webhook: ${platform} - ${event}`)
 
-  // Store webhook event
-  await prisma.webhook.create({
+  // The webhook route stores the event before queueing it
+  await prisma.webhook.update({
+    where: { id: webhookId },
     data: {
-      userId,
-      platform,
-      event,
-      payload,
       status: "processing",
+      error: null,
     },
   })
 
-  // Process webhook based on event type
-  switch (event) {
-    case "order.created":
-    case "order.updated":
-      // Import the specific order
-      const orderSyncEngine = new OrderSyncEngine(userId)
-      // Process order webhook payload
-      break
-
-    case "inventory.updated":
-      // Sync inventory for specific product
-      const inventorySyncEngine = new InventorySyncEngine(userId)
-      // Process inventory webhook payload
-      break
-
-    case "product.updated":
-      // Sync product details
-      const productSyncEngine = new ProductSyncEngine(userId)
-      // Process product webhook payload
-      break
-
-    default:
-      console.log(`Unknown webhook event: ${event}`)
+  try {
+    const syncEngine = new WebhookSyncEngine(userId)
+    const result = await syncEngine.processEvent(platform, event, payload)
+
+    // Topics the adapter does not handle are kept for reference but not treated as failures
+    await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        status: result.changes > 0 ? "processed" : "ignored",
+        processedAt: new Date(),
+      },
+    })
+
+    return result
+  } catch (error) {
+    await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    })
+
+    throw error
   }
+})
 
-  // Update webhook status
-  await prisma.webhook.updateMany({
-    where: {
-      userId,
-      platform,
-      event,
-      payload,
-    },
-    data: {
-      status: "processed",
-      processedAt: new Date(),
-    },
-  })
+outboundWebhookQueue.process(async (job) => {
+  const { deliveryId } = job.data as OutboundWebhookJobData
+
+  await deliverWebhook(deliveryId)
 
   return { success: true }
 })
@@ -242,6 +389,14 @@ inventorySyncQueue.on("failed", (job, err) => {
   console.error(`Inventory sync job ${job.id} failed:`, err)
 })
 
+catalogImportQueue.on("completed", (job, result) => {
+  console.log(`Catalog import job ${job.id} completed:`, result)
+})
+
+catalogImportQueue.on("failed", (job, err) => {
+  console.error(`Catalog import job ${job.id} failed:`, err)
+})
+
 webhookQueue.on("completed", (job, result) => {
   console.log(`Webhook job ${job.id} completed:`, result)
 })
@@ -250,6 +405,10 @@ webhookQueue.on("failed", (job, err) => {
   console.error(`Webhook job ${job.id} failed:`, err)
 })
 
+outboundWebhookQueue.on("failed", (job, err) => {
+  console.error(`Outbound webhook job ${job.id} failed:`, err)
+})
+
 // Helper functions to add jobs
 export async function queueProductSync(data: ProductSyncJobData) {
   return productSyncQueue.add(data, {
@@ -269,6 +428,12 @@ export async function queueInventorySync(data: InventorySyncJobData) {
   })
 }
 
+export async function queueCatalogImport(data: CatalogImportJobData) {
+  return catalogImportQueue.add(data, {
+    priority: 2, // Medium priority
+  })
+}
+
 export async function queueWebhookProcessing(data: WebhookJobData) {
   return webhookQueue.add(data, {
     priority: 1, // High priority - real-time
@@ -0,0 +1,25 @@
+import Queue from "bull"
+
+// Kept apart from jobs.ts so publishing an event does not load the sync processors
+const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379"
+
+// Endpoints can be down for a while, so retries back off from 30 seconds up to 8 minutes
+export const outboundWebhookQueue = new Queue("outbound-webhooks", REDIS_URL, {
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: {
+      type: "exponential",
+      delay: 30000,
+    },
+    removeOnComplete: 200,
+    removeOnFail: 100,
+  },
+})
+
+export interface OutboundWebhookJobData {
+  deliveryId: string
+}
+
+export async function queueOutboundWebhook(data: OutboundWebhookJobData) {
+  return outboundWebhookQueue.add(data)
+}
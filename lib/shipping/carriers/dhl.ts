@@ -0,0 +1,186 @@
+import { fetchCarrierJson } from "@/lib/tracking/carrier-client"
+import { PurchasedLabel, ShipmentAddress, ShipmentRequest, ShippingCarrierAdapter, ShippingRate } from "@/types/shipping"
+
+// MyDHL API, for DHL Express accounts. Tracking uses the separate unified API key.
+const BASE_URL = "https://express.api.dhl.com/mydhlapi"
+
+// 6x4 thermal label
+const LABEL_TEMPLATE = "ECOM26_84_001"
+
+// Dates with their offset spelled out, e.g. 2024-03-24T13:00:00GMT+00:00
+function plannedShippingDate(): string {
+  return `${new Date().toISOString().slice(0, 19)}GMT+00:00`
+}
+
+// Prices come in several currencies, the billing currency is the one charged
+function billedPrice(prices: any[] = []): { price: number; priceCurrency: string } | undefined {
+  return prices.find((p) => p.currencyType === "BILLC") || prices[0]
+}
+
+function toDhlAddress(address: ShipmentAddress) {
+  return {
+    postalCode: address.postalCode,
+    cityName: address.city,
+    countryCode: address.country,
+    provinceCode: address.state,
+    addressLine1: address.addressLine1,
+    addressLine2: address.addressLine2,
+  }
+}
+
+function toDhlParty(address: ShipmentAddress) {
+  return {
+    postalAddress: toDhlAddress(address),
+    contactInformation: {
+      fullName: address.name || address.company,
+      companyName: address.company || address.name,
+      phone: address.phone,
+      email: address.email,
+    },
+  }
+}
+
+export class DhlShippingCarrier implements ShippingCarrierAdapter {
+  readonly carrier = "DHL"
+
+  isConfigured(): boolean {
+    return Boolean(
+      process.env.DHL_EXPRESS_USERNAME && process.env.DHL_EXPRESS_PASSWORD && process.env.DHL_EXPRESS_ACCOUNT_NUMBER
+    )
+  }
+
+  async getRates(shipment: ShipmentRequest): Promise<ShippingRate[]> {
+    const data = await this.request("/rates", {
+      customerDetails: {
+        shipperDetails: toDhlAddress(shipment.from),
+        receiverDetails: toDhlAddress(shipment.to),
+      },
+      accounts: this.accounts(),
+      plannedShippingDateAndTime: plannedShippingDate(),
+      unitOfMeasurement: "imperial",
+      isCustomsDeclarable: this.isCustomsDeclarable(shipment),
+      packages: [this.packageDetails(shipment)],
+    })
+
+    return (data.products || []).flatMap((product: any) => {
+      const price = billedPrice(product.totalPrice)
+      if (!price) return []
+
+      return [
+        {
+          carrier: this.carrier,
+          service: product.productCode,
+          serviceName: `DHL ${product.productName}`,
+          amount: price.price,
+          currency: price.priceCurrency,
+          estimatedDays: product.deliveryCapabilities?.totalTransitDays
+            ? parseInt(product.deliveryCapabilities.totalTransitDays)
+            : undefined,
+        },
+      ]
+    })
+  }
+
+  async purchaseLabel(shipment: ShipmentRequest, service: string): Promise<PurchasedLabel> {
+    const declarable = this.isCustomsDeclarable(shipment)
+    const declaredValue = shipment.contents.reduce((sum, content) => sum + content.value * content.quantity, 0)
+
+    const data = await this.request("/shipments", {
+      plannedShippingDateAndTime: plannedShippingDate(),
+      pickup: { isRequested: false },
+      productCode: service,
+      accounts: this.accounts(),
+      outputImageProperties: {
+        encodingFormat: "pdf",
+        imageOptions: [{ typeCode: "label", templateName: LABEL_TEMPLATE }],
+      },
+      customerReferences: [{ value: shipment.reference, typeCode: "CU" }],
+      customerDetails: {
+        shipperDetails: toDhlParty(shipment.from),
+        receiverDetails: toDhlParty(shipment.to),
+      },
+      content: {
+        packages: [this.packageDetails(shipment)],
+        isCustomsDeclarable: declarable,
+        declaredValue,
+        declaredValueCurrency: shipment.currency,
+        description: shipment.contents.map((content) => content.description).join(", ").slice(0, 70),
+        incoterm: "DAP",
+        unitOfMeasurement: "imperial",
+        ...(declarable ? { exportDeclaration: this.exportDeclaration(shipment) } : {}),
+      },
+    })
+
+    const label = (data.documents || []).find((document: any) => document.typeCode === "label")
+    const price = billedPrice(data.shipmentCharges)
+
+    return {
+      trackingNumber: data.shipmentTrackingNumber,
+      labelPdf: Buffer.from(label.content, "base64"),
+      amount: price?.price ?? 0,
+      currency: price?.priceCurrency || shipment.currency,
+      carrierShipmentId: data.dispatchConfirmationNumber,
+    }
+  }
+
+  private async request(path: string, body: unknown): Promise<any> {
+    const auth = Buffer.from(
+      `${process.env.DHL_EXPRESS_USERNAME}:${process.env.DHL_EXPRESS_PASSWORD}`
+    ).toString("base64")
+
+    return fetchCarrierJson(this.carrier, `${BASE_URL}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  private accounts() {
+    return [{ typeCode: "shipper", number: process.env.DHL_EXPRESS_ACCOUNT_NUMBER }]
+  }
+
+  // Goods crossing a border need a declaration, documents and domestic parcels do not
+  private isCustomsDeclarable(shipment: ShipmentRequest): boolean {
+    return shipment.from.country !== shipment.to.country
+  }
+
+  private packageDetails(shipment: ShipmentRequest) {
+    const { parcel } = shipment
+
+    return {
+      weight: Math.max(0.1, Math.round((parcel.weight / 16) * 100) / 100),
+      dimensions: {
+        length: Math.ceil(parcel.length),
+        width: Math.ceil(parcel.width),
+        height: Math.ceil(parcel.height),
+      },
+    }
+  }
+
+  private exportDeclaration(shipment: ShipmentRequest) {
+    const units = shipment.contents.reduce((sum, content) => sum + content.quantity, 0)
+    const pounds = shipment.parcel.weight / 16
+
+    return {
+      lineItems: shipment.contents.map((content, index) => {
+        const weight = Math.max(0.01, Math.round(pounds * (content.quantity / units) * 100) / 100)
+
+        return {
+          number: index + 1,
+          description: content.description.slice(0, 70),
+          price: content.value,
+          quantity: { value: content.quantity, unitOfMeasurement: "PCS" },
+          weight: { netValue: weight, grossValue: weight },
+          manufacturerCountry: shipment.from.country,
+        }
+      }),
+      invoice: {
+        number: shipment.reference,
+        date: new Date().toISOString().slice(0, 10),
+      },
+    }
+  }
+}
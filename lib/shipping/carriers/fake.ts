@@ -0,0 +1,68 @@
+import { PurchasedLabel, ShipmentRequest, ShippingCarrierAdapter, ShippingRate } from "@/types/shipping"
+import { renderTextLabel } from "../pdf"
+
+// Flat price plus a price per started pound
+const SERVICES = [
+  { service: "GROUND", serviceName: "Fake Ground", base: 5, perPound: 0.5, estimatedDays: 5 },
+  { service: "EXPRESS", serviceName: "Fake Express", base: 15, perPound: 1.25, estimatedDays: 2 },
+]
+
+/**
+ * Local carrier for development and tests, no API is called and no postage is paid.
+ * Labels get TRK<timestamp> tracking numbers, which the fake tracking carrier moves
+ * from label created to delivered over a few days.
+ */
+export class FakeShippingCarrier implements ShippingCarrierAdapter {
+  readonly carrier = "FAKE"
+
+  // Only outside production, so real orders are never sent out with a fake label
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== "production"
+  }
+
+  async getRates(shipment: ShipmentRequest): Promise<ShippingRate[]> {
+    const pounds = Math.max(1, Math.ceil(shipment.parcel.weight / 16))
+
+    return SERVICES.map((service) => ({
+      carrier: this.carrier,
+      service: service.service,
+      serviceName: service.serviceName,
+      amount: Math.round((service.base + service.perPound * pounds) * 100) / 100,
+      currency: "USD",
+      estimatedDays: service.estimatedDays,
+    }))
+  }
+
+  async purchaseLabel(shipment: ShipmentRequest, service: string): Promise<PurchasedLabel> {
+    const rate = (await this.getRates(shipment)).find((r) => r.service === service)
+
+    if (!rate) {
+      throw new Error(`Unknown FAKE service ${service}`)
+    }
+
+    const trackingNumber = `TRK${Date.now()}`
+    const to = shipment.to
+
+    const labelPdf = await renderTextLabel([
+      "TEST LABEL - NOT FOR SHIPPING",
+      "",
+      rate.serviceName,
+      `Tracking: ${trackingNumber}`,
+      `Ref: ${shipment.reference}`,
+      "",
+      "SHIP TO:",
+      to.name || "",
+      to.addressLine1 || "",
+      to.addressLine2 || "",
+      [to.city, to.state, to.postalCode].filter(Boolean).join(" "),
+      to.country || "",
+    ])
+
+    return {
+      trackingNumber,
+      labelPdf,
+      amount: rate.amount,
+      currency: rate.currency,
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { fetchCarrierJson } from "@/lib/tracking/carrier-client"
+import { getFedexToken } from "@/lib/tracking/carriers/fedex"
+import { PurchasedLabel, ShipmentAddress, ShipmentRequest, ShippingCarrierAdapter, ShippingRate } from "@/types/shipping"
+
+const BASE_URL = "https://apis.fedex.com"
+
+// Transit times come spelled out
+const TRANSIT_DAYS: Record<string, number> = {
+  ONE_DAY: 1,
+  TWO_DAYS: 2,
+  THREE_DAYS: 3,
+  FOUR_DAYS: 4,
+  FIVE_DAYS: 5,
+  SIX_DAYS: 6,
+  SEVEN_DAYS: 7,
+  EIGHT_DAYS: 8,
+  NINE_DAYS: 9,
+  TEN_DAYS: 10,
+}
+
+function toFedexAddress(address: ShipmentAddress) {
+  return {
+    streetLines: [address.addressLine1, address.addressLine2].filter(Boolean),
+    city: address.city,
+    stateOrProvinceCode: address.state,
+    postalCode: address.postalCode,
+    countryCode: address.country,
+  }
+}
+
+function toFedexParty(address: ShipmentAddress) {
+  return {
+    contact: {
+      personName: address.name,
+      companyName: address.company,
+      phoneNumber: address.phone,
+      emailAddress: address.email,
+    },
+    address: toFedexAddress(address),
+  }
+}
+
+export class FedexShippingCarrier implements ShippingCarrierAdapter {
+  readonly carrier = "FEDEX"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.FEDEX_CLIENT_ID && process.env.FEDEX_CLIENT_SECRET && process.env.FEDEX_ACCOUNT_NUMBER)
+  }
+
+  async getRates(shipment: ShipmentRequest): Promise<ShippingRate[]> {
+    const data = await this.request("/rate/v1/rates/quotes", {
+      accountNumber: { value: process.env.FEDEX_ACCOUNT_NUMBER },
+      rateRequestControlParameters: { returnTransitTimes: true },
+      requestedShipment: {
+        shipper: { address: toFedexAddress(shipment.from) },
+        recipient: { address: toFedexAddress(shipment.to) },
+        pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+        rateRequestType: ["ACCOUNT", "LIST"],
+        requestedPackageLineItems: [this.packageLineItem(shipment)],
+        ...this.customs(shipment),
+      },
+    })
+
+    return (data.output?.rateReplyDetails || []).map((reply: any) => {
+      // Account rates when the account has them, list rates otherwise
+      const details =
+        reply.ratedShipmentDetails.find((d: any) => d.rateType === "ACCOUNT") || reply.ratedShipmentDetails[0]
+      const transitTime = reply.commit?.transitDays?.minimumTransitTime || reply.operationalDetail?.transitTime
+
+      return {
+        carrier: this.carrier,
+        service: reply.serviceType,
+        serviceName: reply.serviceName || reply.serviceType,
+        amount: details.totalNetCharge,
+        currency: details.currency,
+        estimatedDays: TRANSIT_DAYS[transitTime],
+      }
+    })
+  }
+
+  async purchaseLabel(shipment: ShipmentRequest, service: string): Promise<PurchasedLabel> {
+    const data = await this.request("/ship/v1/shipments", {
+      labelResponseOptions: "LABEL",
+      accountNumber: { value: process.env.FEDEX_ACCOUNT_NUMBER },
+      requestedShipment: {
+        shipper: toFedexParty(shipment.from),
+        recipients: [toFedexParty(shipment.to)],
+        shipDatestamp: new Date().toISOString().slice(0, 10),
+        serviceType: service,
+        packagingType: "YOUR_PACKAGING",
+        pickupType: "DROPOFF_AT_FEDEX_LOCATION",
+        shippingChargesPayment: { paymentType: "SENDER" },
+        labelSpecification: { imageType: "PDF", labelStockType: "PAPER_4X6" },
+        requestedPackageLineItems: [
+          {
+            ...this.packageLineItem(shipment),
+            customerReferences: [{ customerReferenceType: "CUSTOMER_REFERENCE", value: shipment.reference }],
+          },
+        ],
+        ...this.customs(shipment),
+      },
+    })
+
+    const result = data.output.transactionShipments[0]
+    const piece = result.pieceResponses[0]
+    const rating = result.completedShipmentDetail?.shipmentRating?.shipmentRateDetails?.[0]
+
+    return {
+      trackingNumber: piece.trackingNumber || result.masterTrackingNumber,
+      labelPdf: Buffer.from(piece.packageDocuments[0].encodedLabel, "base64"),
+      amount: rating?.totalNetCharge ?? piece.netChargeAmount ?? 0,
+      currency: rating?.currency || shipment.currency,
+      carrierShipmentId: result.masterTrackingNumber,
+    }
+  }
+
+  private async request(path: string, body: unknown): Promise<any> {
+    const token = await getFedexToken()
+
+    return fetchCarrierJson(this.carrier, `${BASE_URL}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  private packageLineItem(shipment: ShipmentRequest) {
+    const { parcel } = shipment
+
+    return {
+      weight: { units: "LB", value: Math.max(0.1, Math.round((parcel.weight / 16) * 10) / 10) },
+      dimensions: {
+        length: Math.ceil(parcel.length),
+        width: Math.ceil(parcel.width),
+        height: Math.ceil(parcel.height),
+        units: "IN",
+      },
+    }
+  }
+
+  // Shipments leaving the country declare what is in them, duties are billed to the recipient
+  private customs(shipment: ShipmentRequest) {
+    if (shipment.from.country === shipment.to.country) {
+      return {}
+    }
+
+    const units = shipment.contents.reduce((sum, content) => sum + content.quantity, 0)
+
+    return {
+      customsClearanceDetail: {
+        dutiesPayment: { paymentType: "RECIPIENT" },
+        commodities: shipment.contents.map((content) => ({
+          description: content.description.slice(0, 450),
+          quantity: content.quantity,
+          quantityUnits: "PCS",
+          weight: { units: "LB", value: Math.max(0.1, (shipment.parcel.weight / 16) * (content.quantity / units)) },
+          customsValue: { amount: content.value * content.quantity, currency: shipment.currency },
+          unitPrice: { amount: content.value, currency: shipment.currency },
+        })),
+      },
+    }
+  }
+}
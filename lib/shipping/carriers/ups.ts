@@ -0,0 +1,171 @@
+import crypto from "crypto"
+import { fetchCarrierJson } from "@/lib/tracking/carrier-client"
+import { getUpsToken } from "@/lib/tracking/carriers/ups"
+import { PurchasedLabel, ShipmentAddress, ShipmentRequest, ShippingCarrierAdapter, ShippingRate } from "@/types/shipping"
+import { labelImageToPdf } from "../pdf"
+
+const BASE_URL = "https://onlinetools.ups.com"
+const API_VERSION = "v2403"
+
+const SERVICE_NAMES: Record<string, string> = {
+  "01": "UPS Next Day Air",
+  "02": "UPS 2nd Day Air",
+  "03": "UPS Ground",
+  "07": "UPS Worldwide Express",
+  "08": "UPS Worldwide Expedited",
+  "11": "UPS Standard",
+  "12": "UPS 3 Day Select",
+  "13": "UPS Next Day Air Saver",
+  "14": "UPS Next Day Air Early",
+  "54": "UPS Worldwide Express Plus",
+  "59": "UPS 2nd Day Air A.M.",
+  "65": "UPS Worldwide Saver",
+}
+
+// Single results come as an object, several as an array
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function toUpsAddress(address: ShipmentAddress) {
+  return {
+    AddressLine: [address.addressLine1, address.addressLine2].filter(Boolean),
+    City: address.city,
+    StateProvinceCode: address.state,
+    PostalCode: address.postalCode,
+    CountryCode: address.country,
+  }
+}
+
+function toUpsParty(address: ShipmentAddress) {
+  return {
+    Name: (address.company || address.name || "").slice(0, 35),
+    AttentionName: (address.name || address.company || "").slice(0, 35),
+    Phone: address.phone ? { Number: address.phone } : undefined,
+    Address: toUpsAddress(address),
+  }
+}
+
+export class UpsShippingCarrier implements ShippingCarrierAdapter {
+  readonly carrier = "UPS"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.UPS_CLIENT_ID && process.env.UPS_CLIENT_SECRET && process.env.UPS_ACCOUNT_NUMBER)
+  }
+
+  async getRates(shipment: ShipmentRequest): Promise<ShippingRate[]> {
+    const data = await this.request(`/api/rating/${API_VERSION}/Shop`, {
+      RateRequest: {
+        Request: { RequestOption: "Shop" },
+        Shipment: {
+          ...this.shipmentParties(shipment),
+          PaymentDetails: this.payment(),
+          ShipmentRatingOptions: { NegotiatedRatesIndicator: "Y" },
+          Package: [this.packageDetails(shipment, "PackagingType")],
+        },
+      },
+    })
+
+    return asArray(data.RateResponse?.RatedShipment).map((rated: any) => {
+      // Account rates when the account has them, published rates otherwise
+      const charges = rated.NegotiatedRateCharges?.TotalCharge || rated.TotalCharges
+      const days = rated.GuaranteedDelivery?.BusinessDaysInTransit
+
+      return {
+        carrier: this.carrier,
+        service: rated.Service.Code,
+        serviceName: SERVICE_NAMES[rated.Service.Code] || `UPS service ${rated.Service.Code}`,
+        amount: parseFloat(charges.MonetaryValue),
+        currency: charges.CurrencyCode,
+        estimatedDays: days ? parseInt(days) : undefined,
+      }
+    })
+  }
+
+  async purchaseLabel(shipment: ShipmentRequest, service: string): Promise<PurchasedLabel> {
+    const data = await this.request(`/api/shipments/${API_VERSION}/ship`, {
+      ShipmentRequest: {
+        Request: { RequestOption: "nonvalidate" },
+        Shipment: {
+          Description: shipment.contents.map((content) => content.description).join(", ").slice(0, 50),
+          ...this.shipmentParties(shipment),
+          PaymentInformation: this.payment(),
+          Service: { Code: service },
+          ShipmentRatingOptions: { NegotiatedRatesIndicator: "Y" },
+          Package: [
+            {
+              ...this.packageDetails(shipment, "Packaging"),
+              ReferenceNumber: [{ Value: shipment.reference.slice(0, 35) }],
+            },
+          ],
+        },
+        LabelSpecification: {
+          LabelImageFormat: { Code: "PNG" },
+          LabelStockSize: { Height: "6", Width: "4" },
+        },
+      },
+    })
+
+    const results = data.ShipmentResponse.ShipmentResults
+    const pkg = asArray<any>(results.PackageResults)[0]
+    const charges = results.NegotiatedRateCharges?.TotalCharge || results.ShipmentCharges.TotalCharges
+
+    return {
+      trackingNumber: pkg.TrackingNumber,
+      labelPdf: await labelImageToPdf(Buffer.from(pkg.ShippingLabel.GraphicImage, "base64")),
+      amount: parseFloat(charges.MonetaryValue),
+      currency: charges.CurrencyCode,
+      carrierShipmentId: results.ShipmentIdentificationNumber,
+    }
+  }
+
+  private async request(path: string, body: unknown): Promise<any> {
+    const token = await getUpsToken()
+
+    return fetchCarrierJson(this.carrier, `${BASE_URL}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        transId: crypto.randomUUID(),
+        transactionSrc: "ecommerce-manager",
+      },
+      body: JSON.stringify(body),
+    })
+  }
+
+  private shipmentParties(shipment: ShipmentRequest) {
+    return {
+      Shipper: { ...toUpsParty(shipment.from), ShipperNumber: process.env.UPS_ACCOUNT_NUMBER },
+      ShipFrom: toUpsParty(shipment.from),
+      ShipTo: toUpsParty(shipment.to),
+    }
+  }
+
+  private payment() {
+    return {
+      ShipmentCharge: [{ Type: "01", BillShipper: { AccountNumber: process.env.UPS_ACCOUNT_NUMBER } }],
+    }
+  }
+
+  // The packaging field is PackagingType when rating and Packaging when shipping
+  private packageDetails(shipment: ShipmentRequest, packagingField: "PackagingType" | "Packaging") {
+    const { parcel } = shipment
+
+    return {
+      // Customer supplied package
+      [packagingField]: { Code: "02" },
+      Dimensions: {
+        UnitOfMeasurement: { Code: "IN" },
+        Length: parcel.length.toFixed(1),
+        Width: parcel.width.toFixed(1),
+        Height: parcel.height.toFixed(1),
+      },
+      PackageWeight: {
+        UnitOfMeasurement: { Code: "LBS" },
+        Weight: (parcel.weight / 16).toFixed(1),
+      },
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { fetchCarrierJson, getCarrierToken } from "@/lib/tracking/carrier-client"
+import { getUspsToken } from "@/lib/tracking/carriers/usps"
+import { PurchasedLabel, ShipmentAddress, ShipmentRequest, ShippingCarrierAdapter, ShippingRate } from "@/types/shipping"
+
+const BASE_URL = "https://apis.usps.com"
+
+const MAIL_CLASSES: Record<string, { name: string; estimatedDays: number }> = {
+  USPS_GROUND_ADVANTAGE: { name: "USPS Ground Advantage", estimatedDays: 5 },
+  PRIORITY_MAIL: { name: "Priority Mail", estimatedDays: 3 },
+  PRIORITY_MAIL_EXPRESS: { name: "Priority Mail Express", estimatedDays: 2 },
+}
+
+// Payment authorizations are good for 8 hours
+const PAYMENT_AUTHORIZATION_SECONDS = 8 * 60 * 60
+
+function toUspsAddress(address: ShipmentAddress) {
+  const name = (address.name || "").trim()
+  const split = name.lastIndexOf(" ")
+  const [zip, plus4] = (address.postalCode || "").split("-")
+
+  return {
+    firstName: split > 0 ? name.slice(0, split) : name,
+    lastName: split > 0 ? name.slice(split + 1) : undefined,
+    firm: address.company,
+    streetAddress: address.addressLine1,
+    secondaryAddress: address.addressLine2,
+    city: address.city,
+    state: address.state,
+    ZIPCode: zip,
+    ZIPPlus4: plus4,
+    phone: address.phone,
+    email: address.email,
+  }
+}
+
+/**
+ * USPS Domestic Prices and Labels. International mail needs a separate label API and
+ * customs forms, so only US to US shipments are rated.
+ */
+export class UspsShippingCarrier implements ShippingCarrierAdapter {
+  readonly carrier = "USPS"
+
+  isConfigured(): boolean {
+    return Boolean(
+      process.env.USPS_CLIENT_ID &&
+        process.env.USPS_CLIENT_SECRET &&
+        process.env.USPS_CRID &&
+        process.env.USPS_MID &&
+        process.env.USPS_EPS_ACCOUNT
+    )
+  }
+
+  async getRates(shipment: ShipmentRequest): Promise<ShippingRate[]> {
+    if (shipment.from.country !== "US" || shipment.to.country !== "US") {
+      return []
+    }
+
+    const token = await getUspsToken()
+    const data = await fetchCarrierJson(this.carrier, `${BASE_URL}/prices/v3/base-rates-list/search`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        originZIPCode: shipment.from.postalCode?.slice(0, 5),
+        destinationZIPCode: shipment.to.postalCode?.slice(0, 5),
+        ...this.dimensions(shipment),
+        mailClasses: Object.keys(MAIL_CLASSES),
+        priceType: "COMMERCIAL",
+        mailingDate: new Date().toISOString().slice(0, 10),
+        accountType: "EPS",
+        accountNumber: process.env.USPS_EPS_ACCOUNT,
+      }),
+    })
+
+    // One option per mail class and rate indicator, single piece parcels are what we buy
+    return (data.rateOptions || []).flatMap((option: any) => {
+      const rate = (option.rates || []).find((r: any) => r.rateIndicator === "SP") || option.rates?.[0]
+      const mailClass = MAIL_CLASSES[rate?.mailClass]
+      if (!rate || !mailClass) return []
+
+      return [
+        {
+          carrier: this.carrier,
+          service: rate.mailClass,
+          serviceName: mailClass.name,
+          amount: option.totalBasePrice ?? rate.price,
+          currency: "USD",
+          estimatedDays: mailClass.estimatedDays,
+        },
+      ]
+    })
+  }
+
+  async purchaseLabel(shipment: ShipmentRequest, service: string): Promise<PurchasedLabel> {
+    const token = await getUspsToken()
+    const paymentToken = await this.getPaymentAuthorization(token)
+
+    const data = await fetchCarrierJson(this.carrier, `${BASE_URL}/labels/v3/label`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "X-Payment-Authorization-Token": paymentToken,
+        "Content-Type": "application/json",
+        // Metadata and label in one JSON body rather than multipart
+        Accept: "application/vnd.usps.labels+json",
+      },
+      body: JSON.stringify({
+        imageInfo: { imageType: "PDF", labelType: "4X6LABEL" },
+        toAddress: toUspsAddress(shipment.to),
+        fromAddress: toUspsAddress(shipment.from),
+        packageDescription: {
+          mailClass: service,
+          rateIndicator: "SP",
+          processingCategory: "MACHINABLE",
+          destinationEntryFacilityType: "NONE",
+          mailingDate: new Date().toISOString().slice(0, 10),
+          weightUOM: "lb",
+          dimensionsUOM: "in",
+          ...this.dimensions(shipment),
+          customerReference: [{ referenceNumber: shipment.reference, printReferenceNumber: true }],
+        },
+      }),
+    })
+
+    return {
+      trackingNumber: data.labelMetadata.trackingNumber,
+      labelPdf: Buffer.from(data.labelImage, "base64"),
+      amount: data.labelMetadata.postage,
+      currency: "USD",
+      carrierShipmentId: data.labelMetadata.labelBrokerID,
+    }
+  }
+
+  // Labels are paid from the EPS account, which a separate token authorizes
+  private getPaymentAuthorization(token: string): Promise<string> {
+    const account = {
+      CRID: process.env.USPS_CRID,
+      MID: process.env.USPS_MID,
+      manifestMID: process.env.USPS_MANIFEST_MID || process.env.USPS_MID,
+    }
+
+    return getCarrierToken("USPS_PAYMENT", async () => {
+      const data = await fetchCarrierJson(this.carrier, `${BASE_URL}/payments/v3/payment-authorization`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          roles: [
+            { roleName: "PAYER", ...account, accountType: "EPS", accountNumber: process.env.USPS_EPS_ACCOUNT },
+            { roleName: "LABEL_OWNER", ...account },
+          ],
+        }),
+      })
+
+      return { access_token: data.paymentAuthorizationToken, expires_in: PAYMENT_AUTHORIZATION_SECONDS }
+    })
+  }
+
+  private dimensions(shipment: ShipmentRequest) {
+    const { parcel } = shipment
+
+    return {
+      weight: Math.max(0.1, Math.round((parcel.weight / 16) * 100) / 100),
+      length: parcel.length,
+      width: parcel.width,
+      height: parcel.height,
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { LocationType, Order, OrderItem, Prisma, Product } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { LabelPrintInput, LabelPurchaseInput } from "@/lib/validations/shipping"
+import { OrderLifecycle } from "@/lib/orders/lifecycle"
+import { lockOrder } from "@/lib/orders/locks"
+import { ORDER_ACTOR_TYPE, ORDER_STATUS, OrderAddress } from "@/types/order"
+import { Parcel, ShipmentAddress, ShipmentRequest, ShippingRate } from "@/types/shipping"
+import { mergeLabelPdfs } from "./pdf"
+import { getShippingCarrier, getShippingCarriers } from "./registry"
+
+// Labels are only bought for orders still waiting to go out
+const SHIPPABLE_STATUSES: string[] = [ORDER_STATUS.PENDING, ORDER_STATUS.PROCESSING]
+// The order stays locked while the carrier sells the label
+const PURCHASE_TIMEOUT_MS = 60_000
+
+// Everything but the PDF, for listing labels
+export const labelSummarySelect = {
+  id: true,
+  orderId: true,
+  carrier: true,
+  service: true,
+  serviceName: true,
+  trackingNumber: true,
+  cost: true,
+  currency: true,
+  parcel: true,
+  carrierShipmentId: true,
+  printedAt: true,
+  createdAt: true,
+} satisfies Prisma.ShippingLabelSelect
+
+export type LabelSummary = Prisma.ShippingLabelGetPayload<{ select: typeof labelSummarySelect }>
+
+// The order or the user's setup lacks something a carrier needs, e.g. product weights
+export class ShipmentDetailsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ShipmentDetailsError"
+  }
+}
+
+// The order has a label already and the purchase did not ask to replace it
+export class LabelExistsError extends Error {
+  constructor(trackingNumber: string) {
+    super(`This order already has label ${trackingNumber}, buy again with replace to get another one`)
+    this.name = "LabelExistsError"
+  }
+}
+
+export interface RateQuote {
+  // Cheapest first
+  rates: ShippingRate[]
+  // Carriers that could not quote, the others still do
+  errors: Array<{ carrier: string; message: string }>
+}
+
+type OrderForShipping = Order & { items: Array<OrderItem & { product: Product | null }> }
+
+export class ShippingLabelService {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Quote every configured carrier for the order. Without a parcel, one box is worked
+   * out from the weights and dimensions of the order's products.
+   */
+  async quoteRates(orderId: string, parcel?: Parcel): Promise<RateQuote> {
+    const shipment = await this.buildShipment(await this.getOrder(orderId), parcel)
+    const carriers = getShippingCarriers()
+
+    if (!carriers.length) {
+      throw new ShipmentDetailsError("No shipping carriers are set up")
+    }
+
+    const results = await Promise.allSettled(carriers.map((carrier) => carrier.getRates(shipment)))
+    const quote: RateQuote = { rates: [], errors: [] }
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        quote.rates.push(...result.value)
+      } else {
+        quote.errors.push({
+          carrier: carriers[index].carrier,
+          message: result.reason instanceof Error ? result.reason.message : "Rate request failed",
+        })
+      }
+    })
+
+    quote.rates.sort((a, b) => a.amount - b.amount)
+
+    return quote
+  }
+
+  /**
+   * Buy a label and put its tracking number on the order. The carrier's first scan
+   * of the parcel then records the shipment, see ShipmentTracker. The order is locked
+   * while the label is bought, and orders with a label get another one only with replace,
+   * so repeated requests do not pay for a second label.
+   */
+  async purchaseLabel(orderId: string, input: LabelPurchaseInput): Promise<LabelSummary> {
+    const order = await this.getOrder(orderId)
+
+    const adapter = getShippingCarrier(input.carrier)
+    if (!adapter) {
+      throw new ShipmentDetailsError(`${input.carrier} is not set up for labels`)
+    }
+
+    const shipment = await this.buildShipment(order, input.parcel)
+
+    const { label, purchased } = await prisma.$transaction(
+      async (tx) => {
+        await lockOrder(tx, this.userId, order.id)
+
+        const current = await tx.order.findUniqueOrThrow({
+          where: { id: order.id },
+          select: { status: true },
+        })
+
+        if (!SHIPPABLE_STATUSES.includes(current.status)) {
+          throw new ShipmentDetailsError(`Cannot buy a label for a ${current.status.toLowerCase()} order`)
+        }
+
+        const existing = await tx.shippingLabel.findFirst({
+          where: { orderId: order.id },
+          orderBy: { createdAt: "desc" },
+          select: { trackingNumber: true },
+        })
+
+        if (existing && !input.replace) {
+          throw new LabelExistsError(existing.trackingNumber)
+        }
+
+        const purchased = await adapter.purchaseLabel(shipment, input.service)
+
+        const label = await tx.shippingLabel.create({
+          data: {
+            orderId: order.id,
+            carrier: adapter.carrier,
+            service: input.service,
+            serviceName: input.serviceName || input.service,
+            trackingNumber: purchased.trackingNumber,
+            cost: purchased.amount,
+            currency: purchased.currency,
+            parcel: shipment.parcel,
+            labelPdf: purchased.labelPdf,
+            carrierShipmentId: purchased.carrierShipmentId,
+          },
+          select: labelSummarySelect,
+        })
+
+        await tx.order.update({
+          where: { id: order.id },
+          data: {
+            trackingNumber: purchased.trackingNumber,
+            carrier: adapter.carrier,
+            trackingUrl: null,
+            trackingPolledAt: null,
+          },
+        })
+
+        return { label, purchased }
+      },
+      { timeout: PURCHASE_TIMEOUT_MS }
+    )
+
+    await new OrderLifecycle(this.userId).transition(
+      order.id,
+      ORDER_STATUS.PROCESSING,
+      { type: ORDER_ACTOR_TYPE.USER, id: this.userId },
+      { reason: `Bought ${adapter.carrier} label ${purchased.trackingNumber}` }
+    )
+
+    return label
+  }
+
+  /**
+   * One PDF with the labels of the given orders, in that order, for printing in one go.
+   * Labels printed before are left out unless reprinting.
+   */
+  async printLabels(input: LabelPrintInput): Promise<{ pdf: Buffer; labelIds: string[] }> {
+    const labels = await prisma.shippingLabel.findMany({
+      where: {
+        orderId: { in: input.orderIds },
+        order: { userId: this.userId },
+        ...(input.reprint ? {} : { printedAt: null }),
+      },
+      orderBy: { createdAt: "asc" },
+    })
+
+    if (!labels.length) {
+      throw new ShipmentDetailsError("None of these orders have labels to print")
+    }
+
+    const position = new Map(input.orderIds.map((id, index) => [id, index]))
+    const sorted = [...labels].sort((a, b) => position.get(a.orderId)! - position.get(b.orderId)!)
+
+    const pdf = await mergeLabelPdfs(sorted.map((label) => Buffer.from(label.labelPdf)))
+    const labelIds = sorted.map((label) => label.id)
+
+    await prisma.shippingLabel.updateMany({
+      where: { id: { in: labelIds } },
+      data: { printedAt: new Date() },
+    })
+
+    return { pdf, labelIds }
+  }
+
+  private async getOrder(orderId: string): Promise<OrderForShipping> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId: this.userId },
+      include: { items: { include: { product: true } } },
+    })
+
+    if (!order) {
+      throw new Error("Order not found")
+    }
+
+    return order
+  }
+
+  private async buildShipment(order: OrderForShipping, parcel?: Parcel): Promise<ShipmentRequest> {
+    const to = order.shippingAddress as OrderAddress
+    if (!to?.addressLine1 || !to.city || !to.postalCode || !to.country) {
+      throw new ShipmentDetailsError("The order's shipping address is incomplete")
+    }
+
+    return {
+      from: await this.getShipFrom(order),
+      to: { ...to, name: to.name || order.customerName, email: order.customerEmail || undefined },
+      parcel: parcel || this.getParcel(order.items),
+      contents: order.items.map((item) => ({
+        description: item.title,
+        sku: item.sku,
+        quantity: item.quantity,
+        value: Number(item.price),
+      })),
+      currency: order.currency,
+      reference: order.platformOrderNumber || order.platformOrderId,
+    }
+  }
+
+  // Items are packed in one box: the longest and widest item set its footprint and items stack up
+  private getParcel(items: OrderForShipping["items"]): Parcel {
+    const missing = items
+      .filter((item) => !item.product?.weight || !item.product.length || !item.product.width || !item.product.height)
+      .map((item) => item.sku)
+
+    if (missing.length) {
+      throw new ShipmentDetailsError(
+        `Enter a weight and dimensions for ${missing.join(", ")} or give the parcel size`
+      )
+    }
+
+    return items.reduce<Parcel>(
+      (parcel, item) => {
+        const product = item.product!
+
+        return {
+          weight: parcel.weight + Number(product.weight) * item.quantity,
+          length: Math.max(parcel.length, Number(product.length)),
+          width: Math.max(parcel.width, Number(product.width)),
+          height: parcel.height + Number(product.height) * item.quantity,
+        }
+      },
+      { weight: 0, length: 0, width: 0, height: 0 }
+    )
+  }
+
+  // The location the order's stock was taken from, or the user's preferred location with an address
+  private async getShipFrom(order: Order): Promise<ShipmentAddress> {
+    const [user, locations] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: this.userId } }),
+      prisma.location.findMany({
+        where: {
+          userId: this.userId,
+          active: true,
+          type: { not: LocationType.FULFILLMENT_SERVICE },
+          address: { not: Prisma.DbNull },
+        },
+        orderBy: [{ isDefault: "desc" }, { priority: "asc" }],
+      }),
+    ])
+
+    const location = locations.find((l) => l.id === order.fulfillmentLocationId) || locations[0]
+    if (!location) {
+      throw new ShipmentDetailsError("Add an address to one of your locations to ship from")
+    }
+
+    return {
+      ...(location.address as OrderAddress),
+      name: user.name || location.name,
+      company: location.name,
+      email: user.email,
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { PDFDocument, StandardFonts, degrees } from "pdf-lib"
+
+// A 4x6 inch label in PDF points
+const LABEL_WIDTH = 288
+const LABEL_HEIGHT = 432
+
+/**
+ * Wrap a label image in a 4x6 PDF page, for carriers that only return images.
+ * Landscape images are turned to fit the page.
+ */
+export async function labelImageToPdf(png: Buffer): Promise<Buffer> {
+  const doc = await PDFDocument.create()
+  const image = await doc.embedPng(png)
+  const page = doc.addPage([LABEL_WIDTH, LABEL_HEIGHT])
+
+  if (image.width > image.height) {
+    // Rotated about its bottom left corner, so it starts at the page's bottom right
+    page.drawImage(image, {
+      x: LABEL_WIDTH,
+      y: 0,
+      width: LABEL_HEIGHT,
+      height: LABEL_WIDTH,
+      rotate: degrees(90),
+    })
+  } else {
+    page.drawImage(image, { x: 0, y: 0, width: LABEL_WIDTH, height: LABEL_HEIGHT })
+  }
+
+  return Buffer.from(await doc.save())
+}
+
+/**
+ * Plain text 4x6 label, used by the fake carrier
+ */
+export async function renderTextLabel(lines: string[]): Promise<Buffer> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const page = doc.addPage([LABEL_WIDTH, LABEL_HEIGHT])
+
+  lines.forEach((line, index) => {
+    page.drawText(line, { x: 18, y: LABEL_HEIGHT - 30 - index * 16, size: 10, font })
+  })
+
+  return Buffer.from(await doc.save())
+}
+
+/**
+ * Put several label PDFs into one, in the order given, so they print in one go
+ */
+export async function mergeLabelPdfs(labels: Buffer[]): Promise<Buffer> {
+  const merged = await PDFDocument.create()
+
+  for (const label of labels) {
+    const source = await PDFDocument.load(label)
+    const pages = await merged.copyPages(source, source.getPageIndices())
+    pages.forEach((page) => merged.addPage(page))
+  }
+
+  return Buffer.from(await merged.save())
+}
@@ -0,0 +1,25 @@
+import { ShippingCarrierAdapter } from "@/types/shipping"
+import { DhlShippingCarrier } from "./carriers/dhl"
+import { FakeShippingCarrier } from "./carriers/fake"
+import { FedexShippingCarrier } from "./carriers/fedex"
+import { UpsShippingCarrier } from "./carriers/ups"
+import { UspsShippingCarrier } from "./carriers/usps"
+
+const carriers: ShippingCarrierAdapter[] = [
+  new UspsShippingCarrier(),
+  new UpsShippingCarrier(),
+  new FedexShippingCarrier(),
+  new DhlShippingCarrier(),
+  new FakeShippingCarrier(),
+]
+
+/**
+ * Carriers with credentials and a shipper account set, the ones rates are quoted from
+ */
+export function getShippingCarriers(): ShippingCarrierAdapter[] {
+  return carriers.filter((carrier) => carrier.isConfigured())
+}
+
+export function getShippingCarrier(carrier: string): ShippingCarrierAdapter | null {
+  return getShippingCarriers().find((adapter) => adapter.carrier === carrier.toUpperCase()) || null
+}
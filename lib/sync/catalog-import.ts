@@ -0,0 +1,562 @@
+import {
+  CatalogImport,
+  CatalogImportAction,
+  CatalogImportItem,
+  CatalogImportStatus,
+  CatalogMatchType,
+  InventoryChange,
+  Platform,
+  Prisma,
+} from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { getPlatformAdapter } from "@/lib/integrations/registry"
+import { PlatformNotConnectedError } from "@/lib/integrations/errors"
+import { InventoryLedger } from "@/lib/inventory/ledger"
+import { CatalogItemUpdateInput } from "@/lib/validations/catalog-import"
+import { PlatformProduct } from "@/types/platforms"
+import { SyncCheckpoint } from "./checkpoint"
+
+// Titles at least this similar are proposed as the same product
+const TITLE_MATCH_THRESHOLD = 0.8
+
+// Fields a listing and the product it is linked to can disagree on
+export const CATALOG_CONFLICT_FIELDS = ["title", "price", "quantity"] as const
+
+export type CatalogConflictField = (typeof CATALOG_CONFLICT_FIELDS)[number]
+export type CatalogResolution = "LOCAL" | "PLATFORM"
+
+export interface CatalogConflict {
+  field: CatalogConflictField
+  local: string | number
+  platform: string | number
+  // LOCAL unless changed during review
+  resolution: CatalogResolution
+}
+
+const matchedProductSelect = {
+  id: true,
+  sku: true,
+  title: true,
+  price: true,
+  quantity: true,
+} satisfies Prisma.ProductSelect
+
+export type CatalogReviewItem = CatalogImportItem & {
+  product: Prisma.ProductGetPayload<{ select: typeof matchedProductSelect }> | null
+  conflicts: CatalogConflict[]
+}
+
+export interface CatalogCommitResult {
+  linked: number
+  created: number
+  skipped: number
+  failed: number
+}
+
+// The import is not in a state that allows the change, e.g. editing one already committed
+export class CatalogImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CatalogImportError"
+  }
+}
+
+interface CatalogMatch {
+  matchType: CatalogMatchType
+  matchScore?: number
+  productId?: string
+}
+
+type MatchCandidate = { id: string; sku: string; gtin: string | null; title: string }
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()
+}
+
+// UPC-A is EAN-13 with a leading zero, so leading zeros are ignored
+function normalizeGtin(gtin: string): string {
+  return gtin.replace(/\D/g, "").replace(/^0+/, "")
+}
+
+function characterPairs(text: string): Map<string, number> {
+  const pairs = new Map<string, number>()
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2)
+    pairs.set(pair, (pairs.get(pair) || 0) + 1)
+  }
+  return pairs
+}
+
+// Dice coefficient of the titles' character pairs: 1 when equal, 0 when nothing is shared
+export function titleSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const pairsA = characterPairs(a)
+  const pairsB = characterPairs(b)
+
+  let shared = 0
+  for (const [pair, count] of Array.from(pairsA)) {
+    shared += Math.min(count, pairsB.get(pair) || 0)
+  }
+
+  return (2 * shared) / (a.length - 1 + b.length - 1)
+}
+
+// Finds the local product a listing most likely is: by SKU, an existing link to the listing,
+// barcode, then the most similar title
+export class CatalogMatcher {
+  private bySku: Map<string, string>
+  private byGtin: Map<string, string>
+  private byListing: Map<string, string>
+  private titles: Array<{ id: string; title: string }>
+
+  constructor(products: MatchCandidate[], listings: Array<{ productId: string; platformProductId: string }>) {
+    this.bySku = new Map(products.map((product) => [product.sku, product.id]))
+    this.byGtin = new Map(
+      products.flatMap((product) => (product.gtin ? [[normalizeGtin(product.gtin), product.id] as const] : []))
+    )
+    this.byListing = new Map(listings.map((listing) => [listing.platformProductId, listing.productId]))
+    this.titles = products.map((product) => ({ id: product.id, title: normalizeTitle(product.title) }))
+  }
+
+  match(item: PlatformProduct): CatalogMatch {
+    const bySku = item.sku ? this.bySku.get(item.sku.trim()) : undefined
+    if (bySku) return { matchType: CatalogMatchType.SKU, productId: bySku }
+
+    const byListing = this.byListing.get(item.platformProductId)
+    if (byListing) return { matchType: CatalogMatchType.LISTING, productId: byListing }
+
+    const byGtin = item.gtin ? this.byGtin.get(normalizeGtin(item.gtin)) : undefined
+    if (byGtin) return { matchType: CatalogMatchType.GTIN, productId: byGtin }
+
+    const title = normalizeTitle(item.title)
+    let best: CatalogMatch = { matchType: CatalogMatchType.NONE }
+    for (const candidate of this.titles) {
+      const score = titleSimilarity(title, candidate.title)
+      if (score >= TITLE_MATCH_THRESHOLD && score > (best.matchScore || 0)) {
+        best = { matchType: CatalogMatchType.TITLE, matchScore: score, productId: candidate.id }
+      }
+    }
+
+    return best
+  }
+}
+
+/**
+ * Pulls a marketplace catalog into a CatalogImport, matches each listing to a local product
+ * and, once reviewed, links the matches and creates products for the rest
+ */
+export class CatalogImportEngine {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Start an import of a connected platform's catalog. The listings are fetched by a
+   * queued job, see fetchListings.
+   */
+  async createImport(platform: Platform): Promise<CatalogImport> {
+    if (!(await getPlatformAdapter(this.userId, platform))) {
+      throw new PlatformNotConnectedError(platform)
+    }
+
+    return prisma.catalogImport.create({
+      data: { userId: this.userId, platform },
+    })
+  }
+
+  /**
+   * Fetch and match every listing, resuming from the checkpoint. Returns the number of
+   * listings fetched in this run. The import is ready for review once it completes.
+   */
+  async fetchListings(importId: string, checkpoint: SyncCheckpoint = new SyncCheckpoint()): Promise<number> {
+    const catalogImport = await this.getCatalogImport(importId)
+    const { platform } = catalogImport
+
+    await prisma.catalogImport.update({
+      where: { id: catalogImport.id },
+      data: { status: CatalogImportStatus.FETCHING, syncJobId: checkpoint.syncJobId },
+    })
+
+    try {
+      const adapter = await getPlatformAdapter(this.userId, platform)
+      if (!adapter) {
+        throw new PlatformNotConnectedError(platform)
+      }
+
+      const matcher = await this.buildMatcher(platform)
+      let fetched = 0
+
+      if (!checkpoint.isComplete(platform)) {
+        for await (const page of adapter.productPages(checkpoint.cursorFor(platform))) {
+          const items = page.items.map((item) => {
+            const match = matcher.match(item)
+
+            return {
+              importId: catalogImport.id,
+              platformProductId: item.platformProductId,
+              sku: item.sku,
+              gtin: item.gtin,
+              title: item.title,
+              description: item.description,
+              price: item.price,
+              quantity: item.quantity,
+              images: item.images,
+              platformUrl: item.platformUrl,
+              listingStatus: item.status,
+              matchType: match.matchType,
+              matchScore: match.matchScore,
+              productId: match.productId,
+              action: match.productId ? CatalogImportAction.LINK : CatalogImportAction.CREATE,
+            }
+          })
+
+          // A retried page replaces what an interrupted attempt saved of it
+          await prisma.$transaction([
+            prisma.catalogImportItem.deleteMany({
+              where: {
+                importId: catalogImport.id,
+                platformProductId: { in: items.map((item) => item.platformProductId) },
+              },
+            }),
+            prisma.catalogImportItem.createMany({ data: items }),
+          ])
+
+          fetched += items.length
+          await checkpoint.advance(platform, page.nextCursor, page.items.length, page.total)
+        }
+      }
+
+      await prisma.catalogImport.update({
+        where: { id: catalogImport.id },
+        data: { status: CatalogImportStatus.REVIEW },
+      })
+
+      return fetched
+    } catch (error) {
+      await prisma.catalogImport.update({
+        where: { id: catalogImport.id },
+        data: { status: CatalogImportStatus.FAILED },
+      })
+
+      throw error
+    }
+  }
+
+  /**
+   * The import's listings with their matched products and the fields that differ
+   */
+  async getReview(importId: string): Promise<{ catalogImport: CatalogImport; items: CatalogReviewItem[] }> {
+    const catalogImport = await this.getCatalogImport(importId)
+
+    const items = await prisma.catalogImportItem.findMany({
+      where: { importId: catalogImport.id },
+      include: { product: { select: matchedProductSelect } },
+      orderBy: [{ matchType: "asc" }, { title: "asc" }],
+    })
+
+    return {
+      catalogImport,
+      items: items.map((item) => ({ ...item, conflicts: this.findConflicts(item) })),
+    }
+  }
+
+  /**
+   * Change what happens to a listing on commit: link it to another product, create a
+   * product for it or leave it out, and which side wins for fields that differ
+   */
+  async updateItem(importId: string, itemId: string, input: CatalogItemUpdateInput): Promise<CatalogReviewItem> {
+    const catalogImport = await this.getCatalogImport(importId)
+    this.assertReviewable(catalogImport)
+
+    const item = await prisma.catalogImportItem.findFirst({
+      where: { id: itemId, importId: catalogImport.id },
+    })
+
+    if (!item) {
+      throw new Error("Catalog import item not found")
+    }
+
+    if (item.importedAt) {
+      throw new CatalogImportError("This listing has already been imported")
+    }
+
+    if (input.productId) {
+      const product = await prisma.product.findFirst({
+        where: { id: input.productId, userId: this.userId },
+        select: { id: true },
+      })
+
+      if (!product) {
+        throw new CatalogImportError("Product not found")
+      }
+    }
+
+    const productId = input.productId ?? item.productId
+    const action = input.action ?? (input.productId ? CatalogImportAction.LINK : item.action)
+
+    if (action === CatalogImportAction.LINK && !productId) {
+      throw new CatalogImportError("Choose a product to link this listing to")
+    }
+
+    const updated = await prisma.catalogImportItem.update({
+      where: { id: item.id },
+      data: {
+        action,
+        productId,
+        resolutions: input.resolutions
+          ? { ...((item.resolutions as Record<string, string>) || {}), ...input.resolutions }
+          : undefined,
+        error: null,
+      },
+      include: { product: { select: matchedProductSelect } },
+    })
+
+    return { ...updated, conflicts: this.findConflicts(updated) }
+  }
+
+  /**
+   * Write the reviewed import: link matched listings, create products for the others.
+   * Listings that fail keep their error and the import stays in review, so they can be
+   * fixed and the import committed again. Each listing is claimed and written in one
+   * transaction, so it is imported once even when commits overlap, or not at all.
+   */
+  async commit(importId: string): Promise<CatalogCommitResult> {
+    const catalogImport = await this.getCatalogImport(importId)
+    this.assertReviewable(catalogImport)
+
+    const items = await prisma.catalogImportItem.findMany({
+      where: { importId: catalogImport.id, importedAt: null },
+      orderBy: { createdAt: "asc" },
+    })
+
+    const result: CatalogCommitResult = { linked: 0, created: 0, skipped: 0, failed: 0 }
+
+    for (const item of items) {
+      if (item.action === CatalogImportAction.SKIP) {
+        result.skipped++
+        continue
+      }
+
+      try {
+        const ledger = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.catalogImportItem.updateMany({
+            where: { id: item.id, importedAt: null },
+            data: { importedAt: new Date(), error: null },
+          })
+
+          // Another commit imported it first
+          if (!claimed.count) {
+            return null
+          }
+
+          const ledger = new InventoryLedger(this.userId, tx)
+          if (item.action === CatalogImportAction.LINK) {
+            await this.linkListing(tx, ledger, catalogImport.platform, item)
+          } else {
+            await this.createProduct(tx, ledger, catalogImport.platform, item)
+          }
+          return ledger
+        })
+
+        await ledger?.publishDeferredEvents()
+
+        if (!ledger) {
+          result.skipped++
+        } else if (item.action === CatalogImportAction.LINK) {
+          result.linked++
+        } else {
+          result.created++
+        }
+      } catch (error) {
+        result.failed++
+        await prisma.catalogImportItem.update({
+          where: { id: item.id },
+          data: { error: error instanceof Error ? error.message : "Import failed" },
+        })
+      }
+    }
+
+    if (!result.failed) {
+      await prisma.catalogImport.update({
+        where: { id: catalogImport.id },
+        data: { status: CatalogImportStatus.COMMITTED, committedAt: new Date() },
+      })
+    }
+
+    return result
+  }
+
+  private async getCatalogImport(importId: string): Promise<CatalogImport> {
+    const catalogImport = await prisma.catalogImport.findFirst({
+      where: { id: importId, userId: this.userId },
+    })
+
+    if (!catalogImport) {
+      throw new Error("Catalog import not found")
+    }
+
+    return catalogImport
+  }
+
+  private assertReviewable(catalogImport: CatalogImport) {
+    if (catalogImport.status !== CatalogImportStatus.REVIEW) {
+      throw new CatalogImportError(
+        `The import is ${catalogImport.status.toLowerCase()}, only imports in review can be changed`
+      )
+    }
+  }
+
+  private async buildMatcher(platform: Platform): Promise<CatalogMatcher> {
+    const [products, listings] = await Promise.all([
+      prisma.product.findMany({
+        where: { userId: this.userId },
+        select: { id: true, sku: true, gtin: true, title: true },
+      }),
+      prisma.platformListing.findMany({
+        where: { platform, product: { userId: this.userId } },
+        select: { productId: true, platformProductId: true },
+      }),
+    ])
+
+    return new CatalogMatcher(products, listings)
+  }
+
+  private findConflicts(item: CatalogImportItem & { product: CatalogReviewItem["product"] }): CatalogConflict[] {
+    if (item.action !== CatalogImportAction.LINK || !item.product) {
+      return []
+    }
+
+    const resolutions = (item.resolutions as Partial<Record<CatalogConflictField, CatalogResolution>>) || {}
+    const platformValues: Record<CatalogConflictField, string | number | null> = {
+      title: item.title,
+      price: item.price === null ? null : Number(item.price),
+      quantity: item.quantity,
+    }
+    const localValues: Record<CatalogConflictField, string | number> = {
+      title: item.product.title,
+      price: Number(item.product.price),
+      quantity: item.product.quantity,
+    }
+
+    return CATALOG_CONFLICT_FIELDS.flatMap((field) => {
+      const platform = platformValues[field]
+
+      // Platforms that do not report a field have nothing to disagree on
+      if (platform === null || platform === localValues[field]) {
+        return []
+      }
+
+      return [{ field, local: localValues[field], platform, resolution: resolutions[field] || "LOCAL" }]
+    })
+  }
+
+  private async linkListing(
+    tx: Prisma.TransactionClient,
+    ledger: InventoryLedger,
+    platform: Platform,
+    item: CatalogImportItem
+  ) {
+    const product = item.productId
+      ? await tx.product.findFirst({
+          where: { id: item.productId, userId: this.userId },
+          include: { platformListings: { where: { platform } } },
+        })
+      : null
+
+    if (!product) {
+      throw new Error("The matched product no longer exists, choose another one")
+    }
+
+    // A product has one listing per platform
+    const existing = product.platformListings[0]
+    if (existing && existing.platformProductId !== item.platformProductId) {
+      throw new Error(`${product.sku} is already linked to another ${platform} listing`)
+    }
+
+    const resolutions = (item.resolutions as Partial<Record<CatalogConflictField, CatalogResolution>>) || {}
+    const takePlatform = (field: CatalogConflictField) => resolutions[field] === "PLATFORM"
+
+    const updates: Prisma.ProductUpdateInput = {}
+    if (takePlatform("title")) updates.title = item.title
+    if (takePlatform("price") && item.price !== null) updates.price = item.price
+
+    if (Object.keys(updates).length) {
+      await tx.product.update({ where: { id: product.id }, data: updates })
+    }
+
+    if (takePlatform("quantity") && item.quantity !== null) {
+      await ledger.setQuantity(product.id, item.quantity, InventoryChange.SYNC, {
+        platform,
+        reason: `Imported from ${platform}`,
+      })
+    }
+
+    const listing = {
+      platformProductId: item.platformProductId,
+      platformUrl: item.platformUrl,
+      price: item.price ?? product.price,
+      quantity: item.quantity ?? product.quantity,
+      status: item.listingStatus,
+      lastSyncedAt: new Date(),
+    }
+
+    await tx.platformListing.upsert({
+      where: { productId_platform: { productId: product.id, platform } },
+      create: { productId: product.id, platform, ...listing },
+      update: listing,
+    })
+  }
+
+  // Listings without a price (eBay inventory items, Amazon catalog items) become drafts to price
+  private async createProduct(
+    tx: Prisma.TransactionClient,
+    ledger: InventoryLedger,
+    platform: Platform,
+    item: CatalogImportItem
+  ) {
+    const sku = item.sku || `${platform}-${item.platformProductId}`
+
+    if (await ledger.resolveSku(sku)) {
+      throw new Error(`A product with SKU ${sku} already exists, link the listing to it instead`)
+    }
+
+    const product = await tx.product.create({
+      data: {
+        userId: this.userId,
+        sku,
+        gtin: item.gtin,
+        title: item.title,
+        description: item.description,
+        price: item.price ?? 0,
+        images: item.images,
+        status: item.price === null ? "DRAFT" : "ACTIVE",
+        platformListings: {
+          create: {
+            platform,
+            platformProductId: item.platformProductId,
+            platformUrl: item.platformUrl,
+            price: item.price ?? 0,
+            quantity: item.quantity ?? 0,
+            status: item.listingStatus,
+          },
+        },
+      },
+    })
+
+    await tx.catalogImportItem.update({
+      where: { id: item.id },
+      data: { productId: product.id },
+    })
+
+    if (item.quantity) {
+      await ledger.restock(product.id, item.quantity, {
+        platform,
+        reason: `Imported from ${platform}`,
+      })
+    }
+  }
+}
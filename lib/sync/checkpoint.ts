@@ -0,0 +1,65 @@
+import { Platform } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+
+// Cursor of the next page to fetch per platform, null once the platform has been read to the end
+export type PageCursors = Partial<Record<Platform, string | null>>
+
+/**
+ * Tracks how far an import has paged through each platform. When tied to a SyncJob,
+ * every page is saved as it completes so a retried or resumed job continues from there.
+ */
+export class SyncCheckpoint {
+  readonly syncJobId: string | null
+  // When the run first started, kept across retries and resumes
+  readonly startedAt: Date
+  private cursors: PageCursors
+
+  constructor(syncJobId: string | null = null, cursors: PageCursors = {}, startedAt: Date = new Date()) {
+    this.syncJobId = syncJobId
+    this.cursors = { ...cursors }
+    this.startedAt = startedAt
+  }
+
+  isComplete(platform: Platform): boolean {
+    return this.cursors[platform] === null
+  }
+
+  cursorFor(platform: Platform): string | undefined {
+    return this.cursors[platform] ?? undefined
+  }
+
+  /**
+   * Record a processed page. Without a next cursor the platform is finished.
+   * The platform's item count, when known, is added to the job total on its first page.
+   */
+  async advance(
+    platform: Platform,
+    nextCursor: string | undefined,
+    processed: number,
+    total?: number
+  ): Promise<void> {
+    const firstPage = this.cursors[platform] === undefined
+    this.cursors[platform] = nextCursor ?? null
+
+    if (!this.syncJobId) return
+
+    // Incrementing a null total would leave it null
+    let jobTotal: number | undefined
+    if (firstPage && total !== undefined) {
+      const syncJob = await prisma.syncJob.findUnique({
+        where: { id: this.syncJobId },
+        select: { total: true },
+      })
+      jobTotal = (syncJob?.total || 0) + total
+    }
+
+    await prisma.syncJob.update({
+      where: { id: this.syncJobId },
+      data: {
+        checkpoint: this.cursors,
+        progress: { increment: processed },
+        total: jobTotal,
+      },
+    })
+  }
+}
@@ -2,6 +2,9 @@ import cron from "node-cron"
 import { Platform } from "@prisma/client"
 import { prisma } from "@/lib/db/client"
 import { queueProductSync, queueOrderSync, queueInventorySync } from "@/lib/queue/jobs"
+import { checkAllConnectionsHealth } from "@/lib/integrations/health-check"
+import { pruneApiMetrics } from "@/lib/integrations/metrics"
+import { ShipmentTracker } from "@/lib/tracking/tracker"
 
 export class SyncCoordinator {
   private static instance: SyncCoordinator
@@ -40,6 +43,18 @@ export class SyncCoordinator {
       await this.syncAllUsersProducts()
     })
 
+    // Check platform connection health every 6 hours
+    const healthCheckJob = cron.schedule("30 */6 * * *", async () => {
+      console.log("Running platform connection health check...")
+      await this.checkConnectionHealth()
+    })
+
+    // Poll carriers for shipment tracking every hour
+    const trackingJob = cron.schedule("45 * * * *", async () => {
+      console.log("Running shipment tracking poll...")
+      await this.pollAllUsersShipments()
+    })
+
     // Cleanup old sync jobs daily at 2 AM
     const cleanupJob = cron.schedule("0 2 * * *", async () => {
       console.log("Running cleanup of old sync jobs...")
@@ -49,6 +64,8 @@ export class SyncCoordinator {
     this.scheduledJobs.set("orders", orderSyncJob)
     this.scheduledJobs.set("inventory", inventorySyncJob)
     this.scheduledJobs.set("products", productSyncJob)
+    this.scheduledJobs.set("health", healthCheckJob)
+    this.scheduledJobs.set("tracking", trackingJob)
     this.scheduledJobs.set("cleanup", cleanupJob)
 
     console.log("Sync coordinator initialized with scheduled jobs")
@@ -73,7 +90,7 @@ export class SyncCoordinator {
         await queueOrderSync({
           userId: user.id,
           platforms,
-          startDate: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
+          mode: "incremental",
         })
       }
 
@@ -152,6 +169,45 @@ export class SyncCoordinator {
     }
   }
 
+  /**
+   * Ping every active connection and flag the ones that fail
+   */
+  private async checkConnectionHealth() {
+    try {
+      const results = await checkAllConnectionsHealth()
+      const unhealthy = results.filter((r) => !r.healthy).length
+
+      console.log(`Checked ${results.length} connections, ${unhealthy} unhealthy`)
+    } catch (error) {
+      console.error("Error checking connection health:", error)
+    }
+  }
+
+  /**
+   * Update shipment tracking for users with orders on their way
+   */
+  private async pollAllUsersShipments() {
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          orders: { some: { status: { in: ["PROCESSING", "SHIPPED"] } } },
+        },
+        select: { id: true },
+      })
+
+      for (const user of users) {
+        try {
+          const summary = await new ShipmentTracker(user.id).pollShipments()
+          console.log(`Tracked ${summary.polled} shipments for user ${user.id}, ${summary.delivered} delivered`)
+        } catch (error) {
+          console.error(`Error tracking shipments for user ${user.id}:`, error)
+        }
+      }
+    } catch (error) {
+      console.error("Error polling shipments:", error)
+    }
+  }
+
   /**
    * Cleanup sync jobs older than 30 days
    */
@@ -168,6 +224,9 @@ export class SyncCoordinator {
       })
 
       console.log(`Deleted ${result.count} old sync jobs`)
+
+      const pruned = await pruneApiMetrics(thirtyDaysAgo)
+      console.log(`Deleted ${pruned} old API metric buckets`)
     } catch (error) {
       console.error("Error cleaning up sync jobs:", error)
     }
@@ -192,7 +251,7 @@ export class SyncCoordinator {
         await queueOrderSync({
           userId,
           platforms,
-          startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
+          mode: "incremental",
         })
         break
 
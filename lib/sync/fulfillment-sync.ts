@@ -0,0 +1,311 @@
+import { Fulfillment, FulfillmentItem, Order, OrderItem, Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { getPlatformAdapter } from "@/lib/integrations/registry"
+import {
+  PlatformNotConnectedError,
+  ValidationRejectedError,
+  toPlatformErrorDetails,
+} from "@/lib/integrations/errors"
+import { InvalidTransitionError, OrderLifecycle, canTransition } from "@/lib/orders/lifecycle"
+import { lockOrder } from "@/lib/orders/locks"
+import { FulfillmentInput } from "@/lib/validations/order"
+import {
+  FULFILLMENT_STATUS,
+  FULFILLMENT_SUBMISSION_STATUS,
+  ORDER_ACTOR_TYPE,
+  ORDER_STATUS,
+  OrderActor,
+} from "@/types/order"
+
+// Transient and rate limited submissions are retried this many times before waiting for the user
+const MAX_AUTOMATIC_ATTEMPTS = 5
+// Claims older than this belong to a submitter that died mid-call and can be taken over
+const SUBMIT_CLAIM_TIMEOUT_MS = 15 * 60 * 1000
+
+export class FulfillmentQuantityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "FulfillmentQuantityError"
+  }
+}
+
+type FulfillmentWithItems = Fulfillment & { items: FulfillmentItem[] }
+
+export class FulfillmentSyncEngine {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Record a shipment for an order and push it to the marketplace the order came from.
+   * Without items, everything not shipped yet goes in. Throws InvalidTransitionError for
+   * orders that can no longer ship, e.g. cancelled ones. The order is locked while the
+   * shipment is checked and recorded, so concurrent shipments cannot cover a line twice.
+   * A rejected submission is kept as FAILED with the platform's error and can be submitted
+   * again. The actor is who shipped the order in its history, the user unless given.
+   */
+  async createFulfillment(
+    orderId: string,
+    input: FulfillmentInput,
+    actor: OrderActor = { type: ORDER_ACTOR_TYPE.USER, id: this.userId }
+  ): Promise<FulfillmentWithItems> {
+    const fulfillment = await prisma.$transaction(async (tx) => {
+      await lockOrder(tx, this.userId, orderId)
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+          items: true,
+          fulfillments: { include: { items: true } },
+        },
+      })
+
+      // Shipped orders can still get the shipments for lines left behind
+      if (order.status !== ORDER_STATUS.SHIPPED && !canTransition(order.status, ORDER_STATUS.SHIPPED)) {
+        throw new InvalidTransitionError(
+          order.status,
+          ORDER_STATUS.SHIPPED,
+          `Cannot ship an order that is ${order.status.toLowerCase()}`
+        )
+      }
+
+      return await this.recordShipment(tx, order, input)
+    })
+
+    await this.updateOrderShipping(orderId, actor)
+
+    return await this.submitFulfillment(fulfillment.id)
+  }
+
+  /**
+   * Send a recorded shipment to the marketplace. The shipment is claimed as SUBMITTING first,
+   * so concurrent callers cannot create it twice on the marketplace. Submitted shipments and
+   * ones another caller is submitting are returned as they are.
+   */
+  async submitFulfillment(fulfillmentId: string): Promise<FulfillmentWithItems> {
+    const fulfillment = await prisma.fulfillment.findFirst({
+      where: { id: fulfillmentId, order: { userId: this.userId } },
+      include: {
+        items: { include: { orderItem: true } },
+        order: {
+          include: {
+            items: true,
+            fulfillments: { include: { items: true }, orderBy: { createdAt: "asc" } },
+          },
+        },
+      },
+    })
+
+    if (!fulfillment) {
+      throw new Error("Fulfillment not found")
+    }
+
+    const { order, items } = fulfillment
+
+    const { count } = await prisma.fulfillment.updateMany({
+      where: {
+        id: fulfillment.id,
+        OR: [
+          { status: { in: [FULFILLMENT_SUBMISSION_STATUS.PENDING, FULFILLMENT_SUBMISSION_STATUS.FAILED] } },
+          {
+            status: FULFILLMENT_SUBMISSION_STATUS.SUBMITTING,
+            updatedAt: { lt: new Date(Date.now() - SUBMIT_CLAIM_TIMEOUT_MS) },
+          },
+        ],
+      },
+      data: { status: FULFILLMENT_SUBMISSION_STATUS.SUBMITTING },
+    })
+
+    if (!count) {
+      return await prisma.fulfillment.findUniqueOrThrow({
+        where: { id: fulfillment.id },
+        include: { items: true },
+      })
+    }
+
+    let data: Prisma.FulfillmentUpdateInput
+
+    try {
+      const adapter = await getPlatformAdapter(this.userId, fulfillment.platform)
+
+      if (!adapter) {
+        throw new PlatformNotConnectedError(fulfillment.platform)
+      }
+
+      // Marketplaces identify lines by their own IDs, which orders entered by hand do not have
+      const missing = items.filter((item) => !item.orderItem.platformItemId)
+      if (missing.length) {
+        throw new ValidationRejectedError(
+          fulfillment.platform,
+          "Some items have no marketplace line item ID",
+          missing.map((item) => ({ field: item.orderItem.sku, message: "Missing marketplace line item ID" })),
+          null
+        )
+      }
+
+      const unshipped = this.getUnshippedQuantities(order.items, order.fulfillments)
+
+      const acknowledgement = await adapter.createFulfillment(order.platformOrderId, {
+        reference: fulfillment.id,
+        sequence: order.fulfillments.findIndex((f) => f.id === fulfillment.id) + 1,
+        trackingNumber: fulfillment.trackingNumber,
+        carrier: fulfillment.carrier,
+        trackingUrl: fulfillment.trackingUrl || undefined,
+        shippedAt: fulfillment.shippedAt,
+        lines: items.map((item) => ({
+          platformItemId: item.orderItem.platformItemId!,
+          sku: item.orderItem.sku,
+          quantity: item.quantity,
+        })),
+        completesOrder: Array.from(unshipped.values()).every((quantity) => quantity === 0),
+      })
+
+      data = {
+        status: FULFILLMENT_SUBMISSION_STATUS.SUBMITTED,
+        platformFulfillmentId: acknowledgement.platformFulfillmentId,
+        acknowledgement: { ...acknowledgement, receivedAt: new Date().toISOString() },
+        errorDetails: Prisma.DbNull,
+        submittedAt: new Date(),
+      }
+    } catch (error) {
+      data = {
+        status: FULFILLMENT_SUBMISSION_STATUS.FAILED,
+        errorDetails: toPlatformErrorDetails(error, fulfillment.platform),
+      }
+    }
+
+    return await prisma.fulfillment.update({
+      where: { id: fulfillment.id },
+      data: { ...data, attempts: { increment: 1 } },
+      include: { items: true },
+    })
+  }
+
+  /**
+   * Submit again the failed shipments the platform is expected to accept later, e.g. after
+   * an outage or rate limit. Returns the number that went through.
+   */
+  async retryFailedFulfillments(): Promise<number> {
+    const failed = await prisma.fulfillment.findMany({
+      where: {
+        status: FULFILLMENT_SUBMISSION_STATUS.FAILED,
+        attempts: { lt: MAX_AUTOMATIC_ATTEMPTS },
+        order: { userId: this.userId },
+        OR: [
+          { errorDetails: { path: ["code"], equals: "TRANSIENT" } },
+          { errorDetails: { path: ["code"], equals: "RATE_LIMITED" } },
+        ],
+      },
+      orderBy: { createdAt: "asc" },
+      take: 50,
+    })
+
+    let submitted = 0
+    for (const fulfillment of failed) {
+      const result = await this.submitFulfillment(fulfillment.id)
+      if (result.status === FULFILLMENT_SUBMISSION_STATUS.SUBMITTED) {
+        submitted++
+      }
+    }
+
+    return submitted
+  }
+
+  // Check the lines against what is left to ship on the locked order and record the shipment
+  private async recordShipment(
+    tx: Prisma.TransactionClient,
+    order: Order & { items: OrderItem[]; fulfillments: FulfillmentWithItems[] },
+    input: FulfillmentInput
+  ): Promise<Fulfillment> {
+    const unshipped = this.getUnshippedQuantities(order.items, order.fulfillments)
+    const lines = input.items || order.items.map((item) => ({ orderItemId: item.id, quantity: unshipped.get(item.id)! }))
+    const shipping = lines.filter((line) => line.quantity > 0)
+
+    if (!shipping.length) {
+      throw new FulfillmentQuantityError("Every item on this order has already shipped")
+    }
+
+    for (const line of shipping) {
+      const remaining = unshipped.get(line.orderItemId)
+
+      if (remaining === undefined) {
+        throw new FulfillmentQuantityError(`Item ${line.orderItemId} is not on this order`)
+      }
+
+      if (line.quantity > remaining) {
+        throw new FulfillmentQuantityError(
+          `Cannot ship ${line.quantity} of item ${line.orderItemId}, only ${remaining} left to ship`
+        )
+      }
+    }
+
+    return await tx.fulfillment.create({
+      data: {
+        orderId: order.id,
+        platform: order.platform,
+        trackingNumber: input.trackingNumber,
+        carrier: input.carrier,
+        trackingUrl: input.trackingUrl,
+        shippedAt: input.shippedAt || new Date(),
+        items: {
+          create: shipping.map((line) => ({ orderItemId: line.orderItemId, quantity: line.quantity })),
+        },
+      },
+    })
+  }
+
+  // Units of each order item not covered by a fulfillment yet
+  private getUnshippedQuantities(
+    items: Array<{ id: string; quantity: number }>,
+    fulfillments: Array<{ items: FulfillmentItem[] }>
+  ): Map<string, number> {
+    const unshipped = new Map(items.map((item) => [item.id, item.quantity]))
+
+    for (const item of fulfillments.flatMap((fulfillment) => fulfillment.items)) {
+      const remaining = unshipped.get(item.orderItemId)
+      if (remaining !== undefined) {
+        unshipped.set(item.orderItemId, Math.max(0, remaining - item.quantity))
+      }
+    }
+
+    return unshipped
+  }
+
+  // The order shows the latest tracking, and ships once every item is covered
+  private async updateOrderShipping(orderId: string, actor: OrderActor): Promise<void> {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        items: true,
+        fulfillments: { include: { items: true }, orderBy: { createdAt: "asc" } },
+      },
+    })
+
+    const latest = order.fulfillments[order.fulfillments.length - 1]
+    if (!latest) return
+
+    const unshipped = this.getUnshippedQuantities(order.items, order.fulfillments)
+    const complete = Array.from(unshipped.values()).every((quantity) => quantity === 0)
+    const awaitingShipment = order.status === ORDER_STATUS.PENDING || order.status === ORDER_STATUS.PROCESSING
+
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        trackingNumber: latest.trackingNumber,
+        carrier: latest.carrier,
+        trackingUrl: latest.trackingUrl,
+        fulfillmentStatus: complete ? FULFILLMENT_STATUS.FULFILLED : FULFILLMENT_STATUS.PARTIALLY_FULFILLED,
+        shippedAt: order.shippedAt || order.fulfillments[0].shippedAt,
+      },
+    })
+
+    if (complete && awaitingShipment) {
+      await new OrderLifecycle(this.userId).transition(order.id, ORDER_STATUS.SHIPPED, actor, {
+        reason: `Shipped with ${latest.carrier} ${latest.trackingNumber}`,
+        metadata: { fulfillmentId: latest.id },
+      })
+    }
+  }
+}
@@ -1,18 +1,17 @@
-import { Platform } from "@prisma/client"
+import { InventoryChange, InventoryLevel, LocationType, Platform, PlatformListing, Product } from "@prisma/client"
 import { prisma } from "@/lib/db/client"
-import { getPlatformConnection } from "@/lib/integrations/connection-manager"
-import { EbayApiClient } from "@/lib/integrations/ebay/client"
-import { AmazonApiClient } from "@/lib/integrations/amazon/client"
-import { EtsyApiClient } from "@/lib/integrations/etsy/client"
-import { ShopifyApiClient } from "@/lib/integrations/shopify/client"
-import { WooCommerceApiClient } from "@/lib/integrations/woocommerce/client"
-import { GoogleShoppingApiClient } from "@/lib/integrations/google/client"
+import { getPlatformAdapter } from "@/lib/integrations/registry"
+import { PlatformNotConnectedError, toPlatformErrorDetails } from "@/lib/integrations/errors"
+import { InventoryLedger, SkuTarget } from "@/lib/inventory/ledger"
+import { ChannelAllocation, getChannelQuantities } from "@/lib/inventory/allocation"
+import { PlatformAdapter, PlatformErrorDetails } from "@/types/platforms"
+import { SyncCheckpoint } from "./checkpoint"
 
 export interface InventorySyncResult {
   platform: Platform
   success: boolean
   updated?: number
-  error?: string
+  error?: PlatformErrorDetails
 }
 
 export interface InventoryUpdateRequest {
@@ -29,20 +28,28 @@ export class InventorySyncEngine {
   }
 
   /**
-   * Sync inventory from platforms to local database
+   * Sync inventory from platforms to local database, resuming each platform from the checkpoint's cursor
    */
-  async importInventory(platforms: Platform[]): Promise<InventorySyncResult[]> {
+  async importInventory(
+    platforms: Platform[],
+    checkpoint: SyncCheckpoint = new SyncCheckpoint()
+  ): Promise<InventorySyncResult[]> {
     const results: InventorySyncResult[] = []
 
     for (const platform of platforms) {
+      if (checkpoint.isComplete(platform)) {
+        results.push({ platform, success: true, updated: 0 })
+        continue
+      }
+
       try {
-        const result = await this.importFromSinglePlatform(platform)
+        const result = await this.importFromSinglePlatform(platform, checkpoint)
         results.push(result)
       } catch (error) {
         results.push({
           platform,
           success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
+          error: toPlatformErrorDetails(error, platform),
         })
       }
     }
@@ -51,31 +58,58 @@ export class InventorySyncEngine {
   }
 
   /**
-   * Sync inventory from local database to platforms
+   * Sync inventory from local database to platforms. Products with variants push each
+   * variant's SKU with its own stock.
    */
-  async syncInventoryToPlat forms(
+  async syncInventoryToPlatforms(
     productId: string,
     platforms: Platform[]
   ): Promise<InventorySyncResult[]> {
-    const product = await prisma.product.findUnique({
-      where: { id: productId },
+    const product = await prisma.product.findFirst({
+      where: { id: productId, userId: this.userId },
+      include: { platformListings: true, variants: { orderBy: { position: "asc" } } },
     })
 
     if (!product) {
       throw new Error("Product not found")
     }
 
+    const stockUnits = product.variants.length
+      ? product.variants.map((variant) => ({
+          sku: variant.sku,
+          stock: { ...product, quantity: variant.quantity, reservedQuantity: variant.reservedQuantity },
+        }))
+      : [{ sku: product.sku, stock: product }]
+
+    const allocations = await Promise.all(
+      stockUnits.map(async (unit) => ({
+        sku: unit.sku,
+        allocation: await this.allocateAcrossChannels(unit.stock, platforms),
+      }))
+    )
     const results: InventorySyncResult[] = []
 
     for (const platform of platforms) {
       try {
-        const result = await this.updatePlatformInventory(platform, product.sku, product.quantity)
-        results.push(result)
+        const adapter = await getPlatformAdapter(this.userId, platform)
+
+        if (!adapter) {
+          results.push({
+            platform,
+            success: false,
+            error: new PlatformNotConnectedError(platform).toDetails(),
+          })
+          continue
+        }
+
+        for (const { sku, allocation } of allocations) {
+          results.push(await this.updatePlatformInventory(adapter, sku, allocation[platform] ?? 0))
+        }
       } catch (error) {
         results.push({
           platform,
           success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
+          error: toPlatformErrorDetails(error, platform),
         })
       }
     }
@@ -83,346 +117,311 @@ export class InventorySyncEngine {
     return results
   }
 
+  /**
+   * Push the current stock of changed products to every platform they are listed on,
+   * except the one the change came from, which already knows about it
+   */
+  async pushStockChanges(productIds: string[], sourcePlatform?: Platform): Promise<InventorySyncResult[]> {
+    const listings = await prisma.platformListing.findMany({
+      where: {
+        productId: { in: productIds },
+        product: { userId: this.userId },
+        ...(sourcePlatform ? { platform: { not: sourcePlatform } } : {}),
+      },
+      select: { productId: true, platform: true },
+    })
+
+    const results: InventorySyncResult[] = []
+
+    for (const productId of productIds) {
+      const platforms = Array.from(
+        new Set(listings.filter((listing) => listing.productId === productId).map((listing) => listing.platform))
+      )
+
+      if (platforms.length) {
+        results.push(...(await this.syncInventoryToPlatforms(productId, platforms)))
+      }
+    }
+
+    return results
+  }
+
   /**
    * Bulk update inventory across all platforms
    */
   async bulkUpdateInventory(updates: InventoryUpdateRequest[]): Promise<InventorySyncResult[]> {
     const allResults: InventorySyncResult[] = []
+    const platforms = Array.from(new Set(updates.flatMap((update) => update.platforms)))
 
+    const allocations = new Map<string, ChannelAllocation>()
     for (const update of updates) {
-      for (const platform of update.platforms) {
-        try {
-          const result = await this.updatePlatformInventory(platform, update.sku, update.quantity)
-          allResults.push(result)
-        } catch (error) {
+      const product = await prisma.product.findUnique({
+        where: { userId_sku: { userId: this.userId, sku: update.sku } },
+        include: { platformListings: true },
+      })
+
+      if (product) {
+        allocations.set(update.sku, await this.allocateAcrossChannels(product, update.platforms))
+      }
+    }
+
+    for (const platform of platforms) {
+      const platformUpdates = updates.filter((update) => update.platforms.includes(platform))
+
+      try {
+        const adapter = await getPlatformAdapter(this.userId, platform)
+
+        if (!adapter) {
           allResults.push({
             platform,
             success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
+            error: new PlatformNotConnectedError(platform).toDetails(),
           })
+          continue
+        }
+
+        for (const update of platformUpdates) {
+          try {
+            const quantity = allocations.get(update.sku)?.[platform] ?? update.quantity
+            const result = await this.updatePlatformInventory(adapter, update.sku, quantity)
+            allResults.push(result)
+          } catch (error) {
+            allResults.push({
+              platform,
+              success: false,
+              error: toPlatformErrorDetails(error, platform),
+            })
+          }
         }
+      } catch (error) {
+        allResults.push({
+          platform,
+          success: false,
+          error: toPlatformErrorDetails(error, platform),
+        })
       }
     }
 
     return allResults
   }
 
-  private async importFromSinglePlatform(platform: Platform): Promise<InventorySyncResult> {
-    const connection = await getPlatformConnection(this.userId, platform)
-
-    if (!connection) {
-      return {
-        platform,
-        success: false,
-        error: "Platform not connected",
-      }
+  /**
+   * Apply a quantity reported by a platform to the local product or variant, returns false for
+   * unknown SKUs, for products with variants, which only take their variants' quantities, and
+   * for reports of the quantity we publish there. Quantities from a mapped platform location
+   * update that location, others the default location.
+   *
+   * Channels are shown their allocation, not on hand, so where we publish the quantity only its
+   * difference from what we publish moves on hand. Otherwise a push and its echo would take the
+   * buffers and reservations off on hand every time. Locations we never push to, such as
+   * fulfillment services, report their own stock and set it.
+   */
+  async applyPlatformQuantity(
+    platform: Platform,
+    sku: string,
+    quantity: number,
+    platformLocationId?: string
+  ): Promise<boolean> {
+    const ledger = new InventoryLedger(this.userId)
+    const target = await ledger.resolveSku(sku)
+
+    if (!target?.tracked) {
+      return false
     }
 
-    let inventoryData: Array<{ sku: string; quantity: number }> = []
-
-    try {
-      switch (platform) {
-        case Platform.EBAY:
-          inventoryData = await this.fetchEbayInventory(connection.accessToken)
-          break
-
-        case Platform.AMAZON:
-          inventoryData = await this.fetchAmazonInventory(
-            connection.accessToken,
-            connection.refreshToken!
-          )
-          break
-
-        case Platform.ETSY:
-          inventoryData = await this.fetchEtsyInventory(connection.accessToken)
-          break
-
-        case Platform.SHOPIFY:
-          const shopDomain = connection.metadata?.shop || connection.metadata?.domain
-          inventoryData = await this.fetchShopifyInventory(connection.accessToken, shopDomain)
-          break
-
-        case Platform.WOOCOMMERCE:
-          inventoryData = await this.fetchWooCommerceInventory(
-            process.env.WOOCOMMERCE_CONSUMER_KEY!,
-            process.env.WOOCOMMERCE_CONSUMER_SECRET!,
-            process.env.WOOCOMMERCE_STORE_URL!
-          )
-          break
-
-        case Platform.GOOGLE_SHOPPING:
-          const merchantId = connection.metadata?.merchantId
-          inventoryData = await this.fetchGoogleInventory(connection.accessToken, merchantId)
-          break
-
-        default:
-          throw new Error(`Platform ${platform} not supported`)
-      }
-
-      // Update local inventory
-      let updatedCount = 0
-      for (const item of inventoryData) {
-        const product = await prisma.product.findUnique({
-          where: { sku: item.sku },
-        })
+    const mappedLocations = await this.getMappedLocations(platform)
+    const locationId = platformLocationId ? mappedLocations.get(platformLocationId) : undefined
 
-        if (product) {
-          await prisma.product.update({
-            where: { sku: item.sku },
-            data: { quantity: item.quantity },
-          })
+    const published = await this.getPublishedQuantities(platform, target)
+    const publishedHere = published.get(locationId ? platformLocationId : undefined)
 
-          // Log inventory change
-          await prisma.inventoryLog.create({
-            data: {
-              productId: product.id,
-              oldQuantity: product.quantity,
-              newQuantity: item.quantity,
-              changeReason: `Synced from ${platform}`,
-            },
-          })
+    if (publishedHere === quantity) {
+      return false
+    }
 
-          updatedCount++
-        }
-      }
+    const options = {
+      platform,
+      locationId,
+      variantId: target.variantId || undefined,
+      reason: `Synced from ${platform}`,
+    }
 
-      return {
-        platform,
-        success: true,
-        updated: updatedCount,
-      }
-    } catch (error) {
-      throw error
+    if (publishedHere === undefined) {
+      await ledger.setQuantity(target.productId, quantity, InventoryChange.SYNC, options)
+    } else {
+      await ledger.adjustQuantity(target.productId, quantity - publishedHere, InventoryChange.SYNC, options)
     }
+
+    return true
   }
 
-  private async updatePlatformInventory(
+  private async importFromSinglePlatform(
     platform: Platform,
-    sku: string,
-    quantity: number
+    checkpoint: SyncCheckpoint
   ): Promise<InventorySyncResult> {
-    const connection = await getPlatformConnection(this.userId, platform)
+    const adapter = await getPlatformAdapter(this.userId, platform)
 
-    if (!connection) {
+    if (!adapter) {
       return {
         platform,
         success: false,
-        error: "Platform not connected",
+        error: new PlatformNotConnectedError(platform).toDetails(),
       }
     }
 
-    try {
-      switch (platform) {
-        case Platform.EBAY:
-          await this.updateEbayInventory(connection.accessToken, sku, quantity)
-          break
-
-        case Platform.AMAZON:
-          await this.updateAmazonInventory(
-            connection.accessToken,
-            connection.refreshToken!,
-            sku,
-            quantity
-          )
-          break
-
-        case Platform.ETSY:
-          await this.updateEtsyInventory(connection.accessToken, sku, quantity)
-          break
-
-        case Platform.SHOPIFY:
-          const shopDomain = connection.metadata?.shop || connection.metadata?.domain
-          await this.updateShopifyInventory(connection.accessToken, shopDomain, sku, quantity)
-          break
-
-        case Platform.WOOCOMMERCE:
-          await this.updateWooCommerceInventory(
-            process.env.WOOCOMMERCE_CONSUMER_KEY!,
-            process.env.WOOCOMMERCE_CONSUMER_SECRET!,
-            process.env.WOOCOMMERCE_STORE_URL!,
-            sku,
-            quantity
-          )
-          break
-
-        case Platform.GOOGLE_SHOPPING:
-          const merchantId = connection.metadata?.merchantId
-          await this.updateGoogleInventory(connection.accessToken, merchantId, sku, quantity)
-          break
-
-        default:
-          throw new Error(`Platform ${platform} not supported`)
+    const mappedLocations = await this.getMappedLocations(platform)
+
+    // Update local inventory a page at a time. Stock at platform locations we have no mapping
+    // for is summed per SKU, otherwise each unmapped location would overwrite the last.
+    // Platforms report all locations of a SKU on the same page.
+    let updatedCount = 0
+    for await (const page of adapter.inventoryPages(checkpoint.cursorFor(platform))) {
+      const unmapped = new Map<string, number>()
+      for (const item of page.items) {
+        if (item.platformLocationId && mappedLocations.has(item.platformLocationId)) {
+          if (await this.applyPlatformQuantity(platform, item.sku, item.quantity, item.platformLocationId)) {
+            updatedCount++
+          }
+        } else {
+          unmapped.set(item.sku, (unmapped.get(item.sku) || 0) + item.quantity)
+        }
       }
 
-      // Update platform listing
-      const product = await prisma.product.findUnique({
-        where: { sku },
-      })
-
-      if (product) {
-        await prisma.platformListing.updateMany({
-          where: {
-            productId: product.id,
-            platform,
-          },
-          data: {
-            quantity,
-            lastSyncedAt: new Date(),
-          },
-        })
+      for (const [sku, quantity] of Array.from(unmapped)) {
+        if (await this.applyPlatformQuantity(platform, sku, quantity)) {
+          updatedCount++
+        }
       }
 
-      return {
-        platform,
-        success: true,
-        updated: 1,
-      }
-    } catch (error) {
-      throw error
+      await checkpoint.advance(platform, page.nextCursor, page.items.length, page.total)
     }
-  }
 
-  // Fetch inventory methods
-  private async fetchEbayInventory(accessToken: string): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new EbayApiClient(accessToken, process.env.EBAY_ENVIRONMENT === "sandbox")
-    const products = await client.fetchProducts({ limit: 100 })
-
-    return products.map((p: any) => ({
-      sku: p.sku,
-      quantity: p.availability?.shipToLocationAvailability?.quantity || 0,
-    }))
+    return {
+      platform,
+      success: true,
+      updated: updatedCount,
+    }
   }
 
-  private async fetchAmazonInventory(
-    accessToken: string,
-    refreshToken: string
-  ): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new AmazonApiClient(accessToken, refreshToken)
-    const inventory = await client.fetchProducts({ limit: 100 })
+  // What a push for the product or variant would send to each of the platform's locations
+  private async getPublishedQuantities(
+    platform: Platform,
+    target: SkuTarget
+  ): Promise<Map<string | undefined, number>> {
+    const product = await prisma.product.findUniqueOrThrow({
+      where: { id: target.productId },
+      include: { platformListings: true, inventoryLevels: true },
+    })
 
-    return inventory.map((item: any) => ({
-      sku: item.sku,
-      quantity: item.quantity || 0,
-    }))
-  }
+    const variant = target.variantId
+      ? await prisma.productVariant.findUniqueOrThrow({ where: { id: target.variantId } })
+      : null
 
-  private async fetchEtsyInventory(accessToken: string): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new EtsyApiClient(accessToken)
-    const shops = await client.getUserShops()
+    const stock = variant
+      ? { ...product, quantity: variant.quantity, reservedQuantity: variant.reservedQuantity }
+      : product
+    const allocation = await this.allocateAcrossChannels(stock, [platform])
 
-    if (!shops.length) {
-      return []
-    }
+    return await this.splitAcrossPlatformLocations(platform, product.inventoryLevels, allocation[platform] ?? 0)
+  }
 
-    const products = await client.fetchProducts({ shopId: shops[0].shop_id, limit: 100 })
+  // Allocate across every channel the product is listed on, not only the ones being pushed,
+  // so percentage and priority policies see the full set of channels
+  private async allocateAcrossChannels(
+    product: Product & { platformListings: PlatformListing[] },
+    platforms: Platform[]
+  ): Promise<ChannelAllocation> {
+    const channels = Array.from(
+      new Set([...product.platformListings.map((listing) => listing.platform), ...platforms])
+    )
 
-    return products.map((p: any) => ({
-      sku: p.sku || p.listing_id.toString(),
-      quantity: p.quantity || 0,
-    }))
+    return await getChannelQuantities(product, channels)
   }
 
-  private async fetchShopifyInventory(
-    accessToken: string,
-    shop: string
-  ): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new ShopifyApiClient(accessToken, shop)
-    const products = await client.fetchProducts({ limit: 100 })
-
-    const inventory: Array<{ sku: string; quantity: number }> = []
-    for (const product of products) {
-      if (product.variants) {
-        for (const variant of product.variants) {
-          inventory.push({
-            sku: variant.sku,
-            quantity: variant.inventory_quantity || 0,
-          })
-        }
-      }
-    }
+  // Our location ID for each platform location the user has mapped
+  private async getMappedLocations(platform: Platform): Promise<Map<string, string>> {
+    const mappings = await prisma.locationPlatformMapping.findMany({
+      where: { platform, location: { userId: this.userId } },
+    })
 
-    return inventory
+    return new Map(mappings.map((mapping) => [mapping.platformLocationId, mapping.locationId]))
   }
 
-  private async fetchWooCommerceInventory(
-    consumerKey: string,
-    consumerSecret: string,
-    storeUrl: string
-  ): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new WooCommerceApiClient(consumerKey, consumerSecret, storeUrl)
-    const products = await client.fetchProducts({ per_page: 100 })
+  // Split a channel quantity over the platform locations mapped to our locations, filling them
+  // in priority order with what each holds. Unmapped platforms get one push to their default location.
+  // Fulfillment services report their own stock and are never pushed to.
+  private async splitAcrossPlatformLocations(
+    platform: Platform,
+    levels: InventoryLevel[],
+    quantity: number
+  ): Promise<Map<string | undefined, number>> {
+    const mappings = await prisma.locationPlatformMapping.findMany({
+      where: {
+        platform,
+        location: {
+          userId: this.userId,
+          active: true,
+          type: { not: LocationType.FULFILLMENT_SERVICE },
+        },
+      },
+      orderBy: { location: { priority: "asc" } },
+    })
 
-    return products.map((p: any) => ({
-      sku: p.sku,
-      quantity: p.stock_quantity || 0,
-    }))
-  }
+    const pushes = new Map<string | undefined, number>()
+    if (!mappings.length) {
+      pushes.set(undefined, quantity)
+      return pushes
+    }
 
-  private async fetchGoogleInventory(
-    accessToken: string,
-    merchantId: string
-  ): Promise<Array<{ sku: string; quantity: number }>> {
-    const client = new GoogleShoppingApiClient(accessToken, merchantId)
-    const products = await client.fetchProducts({ maxResults: 100 })
+    let remaining = quantity
+    for (const mapping of mappings) {
+      const level = levels.find((l) => l.locationId === mapping.locationId)
+      const share = Math.min(remaining, level ? Math.max(0, level.quantity - level.reservedQuantity) : 0)
+      remaining -= share
 
-    return products.map((p: any) => ({
-      sku: p.offerId,
-      quantity: parseInt(p.availability === "in stock" ? "999" : "0"), // Google doesn't provide exact quantities
-    }))
-  }
+      // Several of our locations may map to the same platform location, e.g. Amazon MFN
+      pushes.set(mapping.platformLocationId, (pushes.get(mapping.platformLocationId) || 0) + share)
+    }
 
-  // Update inventory methods
-  private async updateEbayInventory(accessToken: string, sku: string, quantity: number): Promise<void> {
-    const client = new EbayApiClient(accessToken, process.env.EBAY_ENVIRONMENT === "sandbox")
-    await client.updateInventory(sku, quantity)
+    return pushes
   }
 
-  private async updateAmazonInventory(
-    accessToken: string,
-    refreshToken: string,
+  private async updatePlatformInventory(
+    adapter: PlatformAdapter,
     sku: string,
     quantity: number
-  ): Promise<void> {
-    const client = new AmazonApiClient(accessToken, refreshToken)
-    await client.updateInventory(sku, quantity)
-  }
+  ): Promise<InventorySyncResult> {
+    const platform = adapter.platform
 
-  private async updateEtsyInventory(accessToken: string, sku: string, quantity: number): Promise<void> {
-    const client = new EtsyApiClient(accessToken)
-    // Etsy requires listing_id, not SKU
-    // This is simplified - in production, you'd need to map SKU to listing_id
-    await client.updateInventory(sku, quantity)
-  }
+    const target = await new InventoryLedger(this.userId).resolveSku(sku)
+    const levels = target
+      ? await prisma.inventoryLevel.findMany({ where: { productId: target.productId } })
+      : []
 
-  private async updateShopifyInventory(
-    accessToken: string,
-    shop: string,
-    sku: string,
-    quantity: number
-  ): Promise<void> {
-    const client = new ShopifyApiClient(accessToken, shop)
-    await client.updateInventory(sku, quantity)
-  }
+    const pushes = await this.splitAcrossPlatformLocations(platform, levels, quantity)
+    for (const [platformLocationId, locationQuantity] of Array.from(pushes)) {
+      await adapter.updateInventory(sku, locationQuantity, platformLocationId)
+    }
 
-  private async updateWooCommerceInventory(
-    consumerKey: string,
-    consumerSecret: string,
-    storeUrl: string,
-    sku: string,
-    quantity: number
-  ): Promise<void> {
-    const client = new WooCommerceApiClient(consumerKey, consumerSecret, storeUrl)
-    await client.updateInventory(sku, quantity)
-  }
+    // Update platform listing, whose quantity is the product's and not one variant's
+    if (target) {
+      await prisma.platformListing.updateMany({
+        where: {
+          productId: target.productId,
+          platform,
+        },
+        data: {
+          ...(target.variantId ? {} : { quantity }),
+          lastSyncedAt: new Date(),
+        },
+      })
+    }
 
-  private async updateGoogleInventory(
-    accessToken: string,
-    merchantId: string,
-    sku: string,
-    quantity: number
-  ): Promise<void> {
-    const client = new GoogleShoppingApiClient(accessToken, merchantId)
-    await client.updateInventory(sku, quantity)
+    return {
+      platform,
+      success: true,
+      updated: 1,
+    }
   }
 
   /**
@@ -452,7 +451,10 @@ export class InventorySyncEngine {
     })
 
     return products.map((p) => ({
-      ...p,
+      productId: p.id,
+      sku: p.sku,
+      title: p.title,
+      quantity: p.quantity,
       threshold,
     }))
   }
@@ -1,13 +1,27 @@
 import { Platform } from "@prisma/client"
 import { prisma } from "@/lib/db/client"
-import { getPlatformConnection } from "@/lib/integrations/connection-manager"
-import { EbayApiClient } from "@/lib/integrations/ebay/client"
-import { AmazonApiClient } from "@/lib/integrations/amazon/client"
-import { EtsyApiClient } from "@/lib/integrations/etsy/client"
-import { ShopifyApiClient } from "@/lib/integrations/shopify/client"
-import { WooCommerceApiClient } from "@/lib/integrations/woocommerce/client"
-import { GoogleShoppingApiClient } from "@/lib/integrations/google/client"
-import { OrderImportOptions, OrderSyncResult } from "@/types/order"
+import { getPlatformAdapter } from "@/lib/integrations/registry"
+import { PlatformNotConnectedError, toPlatformErrorDetails } from "@/lib/integrations/errors"
+import { publishEvent } from "@/lib/events/outbound"
+import { RemovedOrderLine, holdsStock, reconcileOrderStock } from "@/lib/inventory/order-stock"
+import { SkuTarget } from "@/lib/inventory/ledger"
+import { OrderLifecycle, createdEvent } from "@/lib/orders/lifecycle"
+import { InventorySyncEngine } from "./inventory-sync"
+import { SyncCheckpoint } from "./checkpoint"
+import { importedOrderSchema } from "@/lib/validations/order"
+import { ORDER_ACTOR_TYPE, OrderImportOptions, OrderSyncResult, PlatformOrder } from "@/types/order"
+
+const ORDER_CURSOR = "orders"
+// Changes can take a few minutes to show up in platform order searches
+const CURSOR_OVERLAP_MS = 10 * 60 * 1000
+// How far back the first incremental sync of a connection reaches, older history needs a backfill
+const INITIAL_SYNC_DAYS = 30
+
+export interface SaveOrderOptions {
+  // The sale is already reflected in the stock levels imported from the platform, so
+  // stock is only given back if the order is later cancelled or refunded
+  historical?: boolean
+}
 
 export class OrderSyncEngine {
   private userId: string
@@ -16,21 +30,88 @@ export class OrderSyncEngine {
     this.userId = userId
   }
 
+  /**
+   * Import complete order histories, resuming each platform from the checkpoint's cursor.
+   * Stock is not deducted for these orders, see SaveOrderOptions.historical.
+   */
   async importOrders(
     platforms: Platform[],
-    options: OrderImportOptions = {}
+    options: OrderImportOptions = {},
+    checkpoint: SyncCheckpoint = new SyncCheckpoint()
+  ): Promise<OrderSyncResult[]> {
+    return await this.forEachPlatform(platforms, checkpoint, (platform) =>
+      this.importFromSinglePlatform(platform, options, checkpoint, true)
+    )
+  }
+
+  /**
+   * Import only orders created or changed since each connection's last complete sync,
+   * then move its cursor to the start of this run. A connection's first run only sets
+   * the baseline, stock is deducted for orders that arrive after it. The cursor stays
+   * put while any order fails to save, so the next run fetches it again.
+   */
+  async syncOrderChanges(
+    platforms: Platform[],
+    checkpoint: SyncCheckpoint = new SyncCheckpoint()
+  ): Promise<OrderSyncResult[]> {
+    return await this.forEachPlatform(platforms, checkpoint, async (platform) => {
+      const connection = await prisma.platformConnection.findUnique({
+        where: { userId_platform: { userId: this.userId, platform } },
+        include: { syncCursors: { where: { resource: ORDER_CURSOR } } },
+      })
+
+      if (!connection) {
+        return {
+          platform,
+          success: false,
+          error: new PlatformNotConnectedError(platform).toDetails(),
+        }
+      }
+
+      const syncCursor = connection.syncCursors[0]
+      const options: OrderImportOptions = syncCursor
+        ? { updatedSince: new Date(new Date(syncCursor.cursor).getTime() - CURSOR_OVERLAP_MS) }
+        : { startDate: new Date(checkpoint.startedAt.getTime() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000) }
+
+      const result = await this.importFromSinglePlatform(platform, options, checkpoint, !syncCursor)
+
+      if (result.success && !result.failedCount) {
+        await prisma.syncCursor.upsert({
+          where: { connectionId_resource: { connectionId: connection.id, resource: ORDER_CURSOR } },
+          update: { cursor: checkpoint.startedAt.toISOString() },
+          create: {
+            connectionId: connection.id,
+            resource: ORDER_CURSOR,
+            cursor: checkpoint.startedAt.toISOString(),
+          },
+        })
+      }
+
+      return result
+    })
+  }
+
+  // Platforms finished by an earlier attempt are skipped, a failing platform does not stop the others
+  private async forEachPlatform(
+    platforms: Platform[],
+    checkpoint: SyncCheckpoint,
+    sync: (platform: Platform) => Promise<OrderSyncResult>
   ): Promise<OrderSyncResult[]> {
     const results: OrderSyncResult[] = []
 
     for (const platform of platforms) {
+      if (checkpoint.isComplete(platform)) {
+        results.push({ platform, success: true, orderCount: 0 })
+        continue
+      }
+
       try {
-        const result = await this.importFromSinglePlatform(platform, options)
-        results.push(result)
+        results.push(await sync(platform))
       } catch (error) {
         results.push({
           platform,
           success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
+          error: toPlatformErrorDetails(error, platform),
         })
       }
     }
@@ -40,400 +121,246 @@ export class OrderSyncEngine {
 
   private async importFromSinglePlatform(
     platform: Platform,
-    options: OrderImportOptions
+    options: OrderImportOptions,
+    checkpoint: SyncCheckpoint,
+    historical: boolean
   ): Promise<OrderSyncResult> {
-    const connection = await getPlatformConnection(this.userId, platform)
+    const adapter = await getPlatformAdapter(this.userId, platform)
 
-    if (!connection) {
+    if (!adapter) {
       return {
         platform,
         success: false,
-        error: "Platform not connected",
+        error: new PlatformNotConnectedError(platform).toDetails(),
       }
     }
 
-    let orders: any[] = []
-
-    try {
-      switch (platform) {
-        case Platform.EBAY:
-          orders = await this.fetchEbayOrders(connection.accessToken, options)
-          break
-
-        case Platform.AMAZON:
-          orders = await this.fetchAmazonOrders(
-            connection.accessToken,
-            connection.refreshToken!,
-            options
-          )
-          break
-
-        case Platform.ETSY:
-          orders = await this.fetchEtsyOrders(connection.accessToken, options)
-          break
-
-        case Platform.SHOPIFY:
-          const shopDomain = connection.metadata?.shop || connection.metadata?.domain
-          orders = await this.fetchShopifyOrders(connection.accessToken, shopDomain, options)
-          break
-
-        case Platform.WOOCOMMERCE:
-          orders = await this.fetchWooCommerceOrders(
-            process.env.WOOCOMMERCE_CONSUMER_KEY!,
-            process.env.WOOCOMMERCE_CONSUMER_SECRET!,
-            process.env.WOOCOMMERCE_STORE_URL!,
-            options
-          )
-          break
-
-        case Platform.GOOGLE_SHOPPING:
-          const merchantId = connection.metadata?.merchantId
-          orders = await this.fetchGoogleOrders(connection.accessToken, merchantId, options)
-          break
-
-        default:
-          throw new Error(`Platform ${platform} not supported`)
-      }
-
-      // Save orders to database
-      let importedCount = 0
-      for (const orderData of orders) {
+    // Save orders to database a page at a time
+    let importedCount = 0
+    let failedCount = 0
+    for await (const page of adapter.orderPages(options, checkpoint.cursorFor(platform))) {
+      for (const orderData of page.items) {
         try {
-          await this.saveOrder(platform, orderData)
+          await this.saveOrder(platform, orderData, { historical })
           importedCount++
         } catch (error) {
           console.error(`Failed to save order ${orderData.platformOrderId}:`, error)
+          failedCount++
         }
       }
 
-      return {
-        platform,
-        success: true,
-        orderCount: importedCount,
+      await checkpoint.advance(platform, page.nextCursor, page.items.length, page.total)
+
+      // The limit caps one run, later pages stay in the checkpoint
+      if (options.limit && importedCount >= options.limit) {
+        break
       }
-    } catch (error) {
-      throw error
+    }
+
+    return {
+      platform,
+      success: true,
+      orderCount: importedCount,
+      failedCount,
     }
   }
 
-  private async saveOrder(platform: Platform, orderData: any): Promise<void> {
+  /**
+   * Create or update a single order imported from a platform. Re-imports refresh every
+   * field and bring the line items in line with the platform's. The status only moves
+   * forward, see OrderLifecycle.applyPlatformStatus. Stock taken by the order follows its
+   * lines and status, and changes are pushed to the other platforms.
+   */
+  async saveOrder(platform: Platform, orderData: PlatformOrder, options: SaveOrderOptions = {}): Promise<void> {
+    const data = importedOrderSchema.parse({ ...orderData, platform })
+    const targets = await this.findStockTargets(platform, data.items)
+
+    const fields = {
+      platformOrderNumber: data.platformOrderNumber,
+      paymentStatus: data.paymentStatus,
+      fulfillmentStatus: data.fulfillmentStatus,
+      customerName: data.customerName,
+      customerEmail: data.customerEmail,
+      shippingAddress: data.shippingAddress,
+      billingAddress: data.billingAddress,
+      subtotal: data.subtotal,
+      tax: data.tax,
+      shipping: data.shipping,
+      total: data.total,
+      currency: data.currency,
+      orderDate: data.orderDate,
+    }
+
+    const items = data.items.map((item, index) => ({
+      productId: targets[index]?.productId ?? null,
+      variantId: targets[index]?.variantId ?? null,
+      sku: item.sku,
+      title: item.title,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.total ?? item.price * item.quantity,
+      platformItemId: item.platformItemId,
+    }))
+
+    // Lines sold under the SKU of a product with variants cannot say which variant's stock to take
+    const untracked = (index: number) => targets[index]?.tracked === false
+
     // Check if order already exists
     const existing = await prisma.order.findUnique({
       where: {
         userId_platformOrderId: {
           userId: this.userId,
-          platformOrderId: orderData.platformOrderId,
+          platformOrderId: data.platformOrderId,
         },
       },
+      include: { items: true },
     })
 
     if (existing) {
-      // Update existing order
-      await prisma.order.update({
-        where: { id: existing.id },
-        data: {
-          status: orderData.status,
-          total: orderData.total,
-          shippingAddress: orderData.shippingAddress,
-        },
+      const removed: typeof existing.items = []
+
+      await prisma.$transaction(async (tx) => {
+        await tx.order.update({
+          where: { id: existing.id },
+          data: fields,
+        })
+
+        // Match items on the platform's line ID, falling back to SKU
+        const remaining = [...existing.items]
+        for (const [position, item] of Array.from(items.entries())) {
+          const index = remaining.findIndex((current) =>
+            item.platformItemId ? current.platformItemId === item.platformItemId : current.sku === item.sku
+          )
+
+          if (index === -1) {
+            await tx.orderItem.create({
+              data: { ...item, orderId: existing.id, stockDeducted: untracked(position) ? null : 0 },
+            })
+          } else {
+            await tx.orderItem.update({ where: { id: remaining[index].id }, data: item })
+            remaining.splice(index, 1)
+          }
+        }
+
+        // A concurrent import of the same order may have removed a line first, its stock is given back once
+        for (const item of remaining) {
+          const { count } = await tx.orderItem.deleteMany({ where: { id: item.id } })
+          if (count) {
+            removed.push(item)
+          }
+        }
       })
+
+      await new OrderLifecycle(this.userId).applyPlatformStatus(existing.id, data.status, platform)
+      await this.syncOrderStock(platform, existing.id, removed)
       return
     }
 
+    const alreadyCounted = options.historical && holdsStock(data.status)
+
     // Create new order with items
-    await prisma.order.create({
+    const order = await prisma.order.create({
       data: {
         userId: this.userId,
         platform,
-        platformOrderId: orderData.platformOrderId,
-        status: orderData.status,
-        customerName: orderData.customerName,
-        customerEmail: orderData.customerEmail,
-        shippingAddress: orderData.shippingAddress,
-        total: orderData.total,
-        currency: orderData.currency || "USD",
-        orderDate: orderData.orderDate,
+        platformOrderId: data.platformOrderId,
+        status: data.status,
+        ...fields,
         items: {
-          create: orderData.items.map((item: any) => ({
-            sku: item.sku,
-            title: item.title,
-            quantity: item.quantity,
-            price: item.price,
-            platformItemId: item.platformItemId,
+          create: items.map((item, index) => ({
+            ...item,
+            stockDeducted: untracked(index) ? null : alreadyCounted ? item.quantity : 0,
           })),
         },
+        events: {
+          create: createdEvent(
+            data.status,
+            { type: ORDER_ACTOR_TYPE.PLATFORM, id: platform },
+            options.historical ? `Imported from ${platform} history` : `Imported from ${platform}`
+          ),
+        },
       },
     })
-  }
-
-  private async fetchEbayOrders(
-    accessToken: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new EbayApiClient(accessToken, process.env.EBAY_ENVIRONMENT === "sandbox")
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((order: any) => ({
-      platformOrderId: order.orderId,
-      status: this.normalizeEbayStatus(order.orderFulfillmentStatus),
-      customerName: order.buyer?.fullName || "Unknown",
-      customerEmail: order.buyer?.email,
-      shippingAddress: {
-        name: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.fullName,
-        addressLine1: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.addressLine1,
-        addressLine2: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.addressLine2,
-        city: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.city,
-        state: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.stateOrProvince,
-        postalCode: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.postalCode,
-        country: order.fulfillmentStartInstructions?.[0]?.shippingStep?.shipTo?.contactAddress?.countryCode,
-      },
-      total: parseFloat(order.pricingSummary?.total?.value || "0"),
-      currency: order.pricingSummary?.total?.currency || "USD",
-      orderDate: new Date(order.creationDate),
-      items: order.lineItems?.map((item: any) => ({
-        sku: item.sku,
-        title: item.title,
-        quantity: item.quantity,
-        price: parseFloat(item.lineItemCost?.value || "0"),
-        platformItemId: item.lineItemId,
-      })) || [],
-    }))
-  }
-
-  private async fetchAmazonOrders(
-    accessToken: string,
-    refreshToken: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new AmazonApiClient(accessToken, refreshToken)
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((order: any) => ({
-      platformOrderId: order.AmazonOrderId,
-      status: this.normalizeAmazonStatus(order.OrderStatus),
-      customerName: order.BuyerInfo?.BuyerName || "Unknown",
-      customerEmail: order.BuyerInfo?.BuyerEmail,
-      shippingAddress: {
-        name: order.ShippingAddress?.Name,
-        addressLine1: order.ShippingAddress?.AddressLine1,
-        addressLine2: order.ShippingAddress?.AddressLine2,
-        city: order.ShippingAddress?.City,
-        state: order.ShippingAddress?.StateOrRegion,
-        postalCode: order.ShippingAddress?.PostalCode,
-        country: order.ShippingAddress?.CountryCode,
-      },
-      total: parseFloat(order.OrderTotal?.Amount || "0"),
-      currency: order.OrderTotal?.CurrencyCode || "USD",
-      orderDate: new Date(order.PurchaseDate),
-      items: [], // Amazon requires separate API call for order items
-    }))
-  }
-
-  private async fetchEtsyOrders(
-    accessToken: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new EtsyApiClient(accessToken)
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((receipt: any) => ({
-      platformOrderId: receipt.receipt_id.toString(),
-      status: this.normalizeEtsyStatus(receipt.status),
-      customerName: receipt.name || "Unknown",
-      customerEmail: receipt.buyer_email,
-      shippingAddress: {
-        name: receipt.name,
-        addressLine1: receipt.first_line,
-        addressLine2: receipt.second_line,
-        city: receipt.city,
-        state: receipt.state,
-        postalCode: receipt.zip,
-        country: receipt.country_iso,
-      },
-      total: parseFloat(receipt.grandtotal?.amount || "0") / 100,
-      currency: receipt.grandtotal?.currency_code || "USD",
-      orderDate: new Date(receipt.create_timestamp * 1000),
-      items: receipt.transactions?.map((txn: any) => ({
-        sku: txn.product_data?.sku || txn.listing_id.toString(),
-        title: txn.title,
-        quantity: txn.quantity,
-        price: parseFloat(txn.price?.amount || "0") / 100,
-        platformItemId: txn.transaction_id.toString(),
-      })) || [],
-    }))
-  }
-
-  private async fetchShopifyOrders(
-    accessToken: string,
-    shop: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new ShopifyApiClient(accessToken, shop)
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((order: any) => ({
-      platformOrderId: order.id.toString(),
-      status: this.normalizeShopifyStatus(order.fulfillment_status),
-      customerName: order.customer ? `${order.customer.first_name} ${order.customer.last_name}` : "Unknown",
-      customerEmail: order.email,
-      shippingAddress: {
-        name: order.shipping_address?.name,
-        addressLine1: order.shipping_address?.address1,
-        addressLine2: order.shipping_address?.address2,
-        city: order.shipping_address?.city,
-        state: order.shipping_address?.province,
-        postalCode: order.shipping_address?.zip,
-        country: order.shipping_address?.country_code,
-        phone: order.shipping_address?.phone,
-      },
-      total: parseFloat(order.total_price || "0"),
-      currency: order.currency || "USD",
-      orderDate: new Date(order.created_at),
-      items: order.line_items?.map((item: any) => ({
-        sku: item.sku || item.id.toString(),
-        title: item.title,
-        quantity: item.quantity,
-        price: parseFloat(item.price || "0"),
-        platformItemId: item.id.toString(),
-      })) || [],
-    }))
-  }
 
-  private async fetchWooCommerceOrders(
-    consumerKey: string,
-    consumerSecret: string,
-    storeUrl: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new WooCommerceApiClient(consumerKey, consumerSecret, storeUrl)
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((order: any) => ({
-      platformOrderId: order.id.toString(),
-      status: this.normalizeWooStatus(order.status),
-      customerName: `${order.billing?.first_name || ""} ${order.billing?.last_name || ""}`.trim() || "Unknown",
-      customerEmail: order.billing?.email,
-      shippingAddress: {
-        name: `${order.shipping?.first_name || ""} ${order.shipping?.last_name || ""}`.trim(),
-        addressLine1: order.shipping?.address_1,
-        addressLine2: order.shipping?.address_2,
-        city: order.shipping?.city,
-        state: order.shipping?.state,
-        postalCode: order.shipping?.postcode,
-        country: order.shipping?.country,
-        phone: order.billing?.phone,
-      },
-      total: parseFloat(order.total || "0"),
-      currency: order.currency || "USD",
-      orderDate: new Date(order.date_created),
-      items: order.line_items?.map((item: any) => ({
-        sku: item.sku || item.product_id.toString(),
-        title: item.name,
-        quantity: item.quantity,
-        price: parseFloat(item.price || "0"),
-        platformItemId: item.id.toString(),
-      })) || [],
-    }))
-  }
-
-  private async fetchGoogleOrders(
-    accessToken: string,
-    merchantId: string,
-    options: OrderImportOptions
-  ): Promise<any[]> {
-    const client = new GoogleShoppingApiClient(accessToken, merchantId)
-    const rawOrders = await client.fetchOrders(options)
-
-    return rawOrders.map((order: any) => ({
-      platformOrderId: order.id,
-      status: this.normalizeGoogleStatus(order.status),
-      customerName: order.customer?.fullName || "Unknown",
-      customerEmail: order.customer?.email,
-      shippingAddress: {
-        name: order.shippingAddress?.recipientName,
-        addressLine1: order.shippingAddress?.streetAddress?.[0],
-        addressLine2: order.shippingAddress?.streetAddress?.[1],
-        city: order.shippingAddress?.locality,
-        state: order.shippingAddress?.region,
-        postalCode: order.shippingAddress?.postalCode,
-        country: order.shippingAddress?.country,
-      },
-      total: parseFloat(order.netPriceAmount?.value || "0"),
-      currency: order.netPriceAmount?.currency || "USD",
-      orderDate: new Date(order.placedDate),
-      items: order.lineItems?.map((item: any) => ({
-        sku: item.product?.offerId || item.id,
-        title: item.product?.title,
-        quantity: item.quantityOrdered,
-        price: parseFloat(item.price?.value || "0"),
-        platformItemId: item.id,
-      })) || [],
-    }))
-  }
-
-  // Status normalization methods
-  private normalizeEbayStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      NOT_STARTED: "PENDING",
-      IN_PROGRESS: "PROCESSING",
-      FULFILLED: "SHIPPED",
-    }
-    return statusMap[status] || "PENDING"
-  }
-
-  private normalizeAmazonStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      Pending: "PENDING",
-      Unshipped: "PROCESSING",
-      PartiallyShipped: "PROCESSING",
-      Shipped: "SHIPPED",
-      Canceled: "CANCELLED",
-    }
-    return statusMap[status] || "PENDING"
-  }
-
-  private normalizeEtsyStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      open: "PENDING",
-      paid: "PROCESSING",
-      completed: "SHIPPED",
-      canceled: "CANCELLED",
-    }
-    return statusMap[status] || "PENDING"
+    await this.syncOrderStock(platform, order.id)
+
+    await publishEvent(this.userId, "order.imported", {
+      orderId: order.id,
+      platform,
+      platformOrderId: order.platformOrderId,
+      customerName: order.customerName,
+      total: order.total,
+      currency: order.currency,
+      orderDate: order.orderDate,
+      itemCount: items.length,
+    })
   }
 
-  private normalizeShopifyStatus(status: string | null): string {
-    if (!status) return "PENDING"
-    const statusMap: Record<string, string> = {
-      null: "PENDING",
-      pending: "PENDING",
-      fulfilled: "SHIPPED",
-      partial: "PROCESSING",
-    }
-    return statusMap[status] || "PENDING"
-  }
+  private async syncOrderStock(
+    platform: Platform,
+    orderId: string,
+    removed: RemovedOrderLine[] = []
+  ): Promise<void> {
+    const changed = await reconcileOrderStock(this.userId, orderId, removed)
 
-  private normalizeWooStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      pending: "PENDING",
-      processing: "PROCESSING",
-      "on-hold": "PENDING",
-      completed: "DELIVERED",
-      cancelled: "CANCELLED",
-      refunded: "REFUNDED",
-      failed: "CANCELLED",
+    if (changed.length) {
+      await new InventorySyncEngine(this.userId).pushStockChanges(changed, platform)
     }
-    return statusMap[status] || "PENDING"
   }
 
-  private normalizeGoogleStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      active: "PROCESSING",
-      shipped: "SHIPPED",
-      delivered: "DELIVERED",
-      canceled: "CANCELLED",
-      returned: "REFUNDED",
-    }
-    return statusMap[status] || "PENDING"
+  // Link items to local variants or products by SKU, then by the platform listing they were sold from
+  private async findStockTargets(
+    platform: Platform,
+    items: Array<{ sku: string; platformProductId?: string }>
+  ): Promise<Array<SkuTarget | null>> {
+    const skus = items.map((item) => item.sku)
+    const variantCount = { _count: { select: { variants: true } } } as const
+
+    const [products, variants] = await Promise.all([
+      prisma.product.findMany({
+        where: { userId: this.userId, sku: { in: skus } },
+        select: { id: true, sku: true, ...variantCount },
+      }),
+      prisma.productVariant.findMany({
+        where: { userId: this.userId, sku: { in: skus } },
+        select: { id: true, productId: true, sku: true },
+      }),
+    ])
+
+    const listingIds = items.flatMap((item) => (item.platformProductId ? [item.platformProductId] : []))
+    const listings = listingIds.length
+      ? await prisma.platformListing.findMany({
+          where: {
+            platform,
+            platformProductId: { in: listingIds },
+            product: { userId: this.userId },
+          },
+          select: { productId: true, platformProductId: true, product: { select: variantCount } },
+        })
+      : []
+
+    const bySku = new Map<string, SkuTarget>([
+      ...products.map((product) => [
+        product.sku,
+        { productId: product.id, variantId: null, tracked: !product._count.variants },
+      ] as const),
+      ...variants.map((variant) => [
+        variant.sku,
+        { productId: variant.productId, variantId: variant.id, tracked: true },
+      ] as const),
+    ])
+    const byListing = new Map<string, SkuTarget>(
+      listings.map((listing) => [
+        listing.platformProductId,
+        { productId: listing.productId, variantId: null, tracked: !listing.product._count.variants },
+      ])
+    )
+
+    return items.map(
+      (item) =>
+        bySku.get(item.sku) ??
+        (item.platformProductId ? byListing.get(item.platformProductId) : undefined) ??
+        null
+    )
   }
 }
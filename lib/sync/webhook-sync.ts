@@ -0,0 +1,78 @@
+import { Platform } from "@prisma/client"
+import { getPlatformAdapter } from "@/lib/integrations/registry"
+import { NotFoundError, PlatformNotConnectedError } from "@/lib/integrations/errors"
+import { PlatformAdapter, WebhookChange } from "@/types/platforms"
+import { OrderSyncEngine } from "./order-sync"
+import { InventorySyncEngine } from "./inventory-sync"
+import { ProductSyncEngine } from "./product-sync"
+
+export interface WebhookSyncResult {
+  platform: Platform
+  event: string
+  changes: number
+  applied: number
+}
+
+export class WebhookSyncEngine {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Apply a platform webhook delivery to local orders, stock and listings
+   */
+  async processEvent(platform: Platform, event: string, payload: any): Promise<WebhookSyncResult> {
+    const adapter = await getPlatformAdapter(this.userId, platform)
+
+    if (!adapter) {
+      throw new PlatformNotConnectedError(platform)
+    }
+
+    const changes = await adapter.parseWebhook(event, payload)
+
+    let applied = 0
+    for (const change of changes) {
+      if (await this.applyChange(adapter, change)) {
+        applied++
+      }
+    }
+
+    return {
+      platform,
+      event,
+      changes: changes.length,
+      applied,
+    }
+  }
+
+  private async applyChange(adapter: PlatformAdapter, change: WebhookChange): Promise<boolean> {
+    switch (change.kind) {
+      case "order": {
+        // Fetch the order when the webhook only carried its ID
+        const order = change.order ?? (await adapter.fetchOrder(change.platformOrderId))
+
+        if (!order) {
+          throw new NotFoundError(adapter.platform, `Order ${change.platformOrderId} not found on ${adapter.platform}`, null)
+        }
+
+        await new OrderSyncEngine(this.userId).saveOrder(adapter.platform, order)
+        return true
+      }
+
+      case "inventory":
+        return await new InventorySyncEngine(this.userId).applyPlatformQuantity(
+          adapter.platform,
+          change.sku,
+          change.quantity,
+          change.platformLocationId
+        )
+
+      case "listing": {
+        const updated = await new ProductSyncEngine(this.userId).refreshListing(adapter.platform, change)
+        return updated > 0
+      }
+    }
+  }
+}
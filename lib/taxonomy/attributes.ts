@@ -0,0 +1,70 @@
+import { Platform } from "@prisma/client"
+import { ListingProduct } from "@/types/platforms"
+import { CATEGORY_PLATFORMS, MarketplaceCategory, findMarketplaceCategory } from "./marketplace-categories"
+
+export interface AttributeCheck {
+  platform: Platform
+  // Null when the listing's category is not mapped, or mapped to a category we do not know
+  platformCategory: Pick<MarketplaceCategory, "id" | "name"> | null
+  missingRequired: string[]
+  missingRecommended: string[]
+  // Things to fix that do not stop the sync
+  warnings: string[]
+}
+
+// Marketplaces spell attribute names differently, "Model Number" and model_number are the same one
+export function normalizeAttributeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+/**
+ * Check a listing against the attributes its marketplace category declares. Variant
+ * options count as given, each variant carries its own value.
+ */
+export function checkListingAttributes(listing: ListingProduct, platform: Platform): AttributeCheck {
+  const check: AttributeCheck = {
+    platform,
+    platformCategory: null,
+    missingRequired: [],
+    missingRecommended: [],
+    warnings: [],
+  }
+
+  if (!CATEGORY_PLATFORMS.includes(platform)) {
+    return check
+  }
+
+  if (!listing.platformCategoryId) {
+    check.warnings.push(
+      listing.category
+        ? `${listing.category} is not mapped to a ${platform} category, the listing goes in the default one`
+        : `The product has no category, the listing goes in the default ${platform} category`
+    )
+    return check
+  }
+
+  const category = findMarketplaceCategory(platform, listing.platformCategoryId)
+  if (!category) {
+    return check
+  }
+
+  const given = new Set(
+    [
+      ...Object.entries(listing.itemSpecifics)
+        .filter(([, value]) => value.trim())
+        .map(([name]) => name),
+      ...listing.options,
+    ].map(normalizeAttributeName)
+  )
+  const isMissing = (name: string) => !given.has(normalizeAttributeName(name))
+
+  check.platformCategory = { id: category.id, name: category.name }
+  check.missingRequired = category.required.filter(isMissing)
+  check.missingRecommended = category.recommended.filter(isMissing)
+
+  if (check.missingRecommended.length) {
+    check.warnings.push(`${category.name} listings do better with ${check.missingRecommended.join(", ")}`)
+  }
+
+  return check
+}
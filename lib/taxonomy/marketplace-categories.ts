@@ -0,0 +1,171 @@
+import { Platform } from "@prisma/client"
+
+export interface MarketplaceCategory {
+  id: string
+  // Path in the marketplace's tree
+  name: string
+  // Listings in the category are rejected without these
+  required: string[]
+  // Improve search placement, listings go through without them
+  recommended: string[]
+}
+
+// Marketplaces that place listings in their own category tree
+export const CATEGORY_PLATFORMS: Platform[] = [
+  Platform.EBAY,
+  Platform.AMAZON,
+  Platform.GOOGLE_SHOPPING,
+  Platform.ETSY,
+]
+
+/**
+ * The categories we know the attributes of. Mappings may point anywhere in a marketplace's
+ * tree, listings in categories missing here are synced without an attribute check.
+ */
+export const MARKETPLACE_CATEGORIES: Partial<Record<Platform, MarketplaceCategory[]>> = {
+  // Leaf category IDs, item specifics as eBay names them
+  EBAY: [
+    {
+      id: "31388",
+      name: "Cameras & Photo > Digital Cameras",
+      required: ["Brand", "Model"],
+      recommended: ["Type", "Series", "Color", "Maximum Resolution"],
+    },
+    {
+      id: "9355",
+      name: "Cell Phones & Accessories > Cell Phones & Smartphones",
+      required: ["Brand", "Model", "Storage Capacity", "Network"],
+      recommended: ["Color", "Operating System", "Screen Size"],
+    },
+    {
+      id: "177",
+      name: "Computers/Tablets & Networking > Laptops & Netbooks > PC Laptops & Netbooks",
+      required: ["Brand", "Processor", "Screen Size"],
+      recommended: ["RAM Size", "SSD Capacity", "Operating System", "Model"],
+    },
+    {
+      id: "15687",
+      name: "Clothing, Shoes & Accessories > Men > Men's Clothing > Shirts > T-Shirts",
+      required: ["Brand", "Size", "Size Type", "Color", "Department"],
+      recommended: ["Material", "Style", "Sleeve Length", "Fit"],
+    },
+    {
+      id: "15709",
+      name: "Clothing, Shoes & Accessories > Men > Men's Shoes > Athletic Shoes",
+      required: ["Brand", "US Shoe Size", "Color", "Department"],
+      recommended: ["Style", "Upper Material", "Model"],
+    },
+    {
+      id: "261186",
+      name: "Books & Magazines > Books",
+      required: ["Book Title", "Author"],
+      recommended: ["Language", "Format", "Publisher", "Publication Year"],
+    },
+  ],
+  // Product types, attributes as the listings API names them
+  AMAZON: [
+    {
+      id: "CAMERA_DIGITAL",
+      name: "Digital Camera",
+      required: ["brand", "model_number"],
+      recommended: ["color", "effective_still_resolution"],
+    },
+    {
+      id: "CELLULAR_PHONE",
+      name: "Cellular Phone",
+      required: ["brand", "model_number", "memory_storage_capacity", "color"],
+      recommended: ["operating_system", "display_size"],
+    },
+    {
+      id: "NOTEBOOK_COMPUTER",
+      name: "Notebook Computer",
+      required: ["brand", "model_number", "display_size", "processor_description"],
+      recommended: ["ram_memory", "hard_disk", "operating_system"],
+    },
+    {
+      id: "SHIRT",
+      name: "Shirt",
+      required: ["brand", "size", "color", "department", "material"],
+      recommended: ["sleeve_type", "fit_type", "style"],
+    },
+    {
+      id: "SHOES",
+      name: "Shoes",
+      required: ["brand", "footwear_size", "color", "department"],
+      recommended: ["outer_material_type", "style"],
+    },
+    {
+      id: "ABIS_BOOK",
+      name: "Book",
+      required: ["author", "binding"],
+      recommended: ["language", "publisher", "edition"],
+    },
+  ],
+  // Google product taxonomy IDs
+  GOOGLE_SHOPPING: [
+    {
+      id: "152",
+      name: "Cameras & Optics > Cameras > Digital Cameras",
+      required: ["Brand"],
+      recommended: ["MPN", "Color"],
+    },
+    {
+      id: "267",
+      name: "Electronics > Communications > Telephony > Mobile Phones",
+      required: ["Brand"],
+      recommended: ["MPN", "Color"],
+    },
+    {
+      id: "328",
+      name: "Electronics > Computers > Laptops",
+      required: ["Brand"],
+      recommended: ["MPN"],
+    },
+    {
+      id: "212",
+      name: "Apparel & Accessories > Clothing > Shirts & Tops",
+      required: ["Brand", "Color", "Size", "Gender", "Age Group"],
+      recommended: ["Material", "Pattern", "Size Type"],
+    },
+    {
+      id: "187",
+      name: "Apparel & Accessories > Shoes",
+      required: ["Brand", "Color", "Size", "Gender", "Age Group"],
+      recommended: ["Material"],
+    },
+    {
+      id: "784",
+      name: "Media > Books",
+      required: [],
+      recommended: ["Author", "Publisher"],
+    },
+  ],
+  // Seller taxonomy IDs, Etsy requires no attributes but shows them as search filters
+  ETSY: [
+    {
+      id: "1",
+      name: "Accessories",
+      required: [],
+      recommended: ["Primary color", "Material"],
+    },
+  ],
+}
+
+export function findMarketplaceCategory(platform: Platform, id: string): MarketplaceCategory | undefined {
+  return MARKETPLACE_CATEGORIES[platform]?.find((category) => category.id === id)
+}
+
+/**
+ * Known categories of a marketplace whose name or ID contains the query
+ */
+export function searchMarketplaceCategories(platform: Platform, query?: string): MarketplaceCategory[] {
+  const categories = MARKETPLACE_CATEGORIES[platform] || []
+  if (!query) {
+    return categories
+  }
+
+  const needle = query.toLowerCase()
+  return categories.filter(
+    (category) => category.name.toLowerCase().includes(needle) || category.id.toLowerCase() === needle
+  )
+}
@@ -0,0 +1,73 @@
+export class CarrierApiError extends Error {
+  readonly carrier: string
+  readonly status: number | null
+
+  constructor(carrier: string, message: string, status: number | null = null) {
+    super(message)
+    this.name = "CarrierApiError"
+    this.carrier = carrier
+    this.status = status
+  }
+}
+
+interface CachedToken {
+  accessToken: string
+  expiresAt: number
+}
+
+// Refresh tokens this long before the carrier says they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60000
+
+// Client credential tokens, shared by every request in this process
+const tokens = new Map<string, CachedToken>()
+
+/**
+ * Call a carrier API and parse its JSON response, failed calls throw CarrierApiError
+ */
+export async function fetchCarrierJson(carrier: string, url: string, init: RequestInit = {}): Promise<any> {
+  let response: Response
+
+  try {
+    response = await fetch(url, init)
+  } catch (error) {
+    throw new CarrierApiError(
+      carrier,
+      `${carrier} request failed: ${error instanceof Error ? error.message : "network error"}`
+    )
+  }
+
+  if (!response.ok) {
+    throw new CarrierApiError(carrier, `${carrier} API error: ${response.status} - ${await response.text()}`, response.status)
+  }
+
+  return response.json()
+}
+
+/**
+ * OAuth client credentials token for a carrier, cached until shortly before it expires
+ */
+export async function getCarrierToken(
+  carrier: string,
+  requestToken: () => Promise<{ access_token: string; expires_in: number | string }>
+): Promise<string> {
+  const cached = tokens.get(carrier)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.accessToken
+  }
+
+  const data = await requestToken()
+  tokens.set(carrier, {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + Number(data.expires_in) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  })
+
+  return data.access_token
+}
+
+/**
+ * Join the parts of a scan location carriers report separately
+ */
+export function formatLocation(...parts: Array<string | null | undefined>): string | undefined {
+  const location = parts.filter((part) => part && part.trim()).join(", ")
+  return location || undefined
+}
@@ -0,0 +1,66 @@
+import { CarrierAdapter, CarrierTrackingEvent, CarrierTrackingResult, TRACKING_STATUS, TrackingStatus } from "@/types/tracking"
+import { fetchCarrierJson, formatLocation } from "../carrier-client"
+
+// Shipment Tracking - Unified covers Express, Parcel and eCommerce
+const BASE_URL = "https://api-eu.dhl.com/track/shipments"
+
+const STATUS_CODES: Record<string, TrackingStatus> = {
+  "pre-transit": TRACKING_STATUS.PRE_TRANSIT,
+  transit: TRACKING_STATUS.IN_TRANSIT,
+  delivered: TRACKING_STATUS.DELIVERED,
+  failure: TRACKING_STATUS.EXCEPTION,
+  unknown: TRACKING_STATUS.UNKNOWN,
+}
+
+function toEvent(event: any): CarrierTrackingEvent {
+  const description = event.description || event.status || ""
+
+  return {
+    // Out for delivery is only told apart from transit in the description
+    status:
+      event.statusCode === "transit" && /out for delivery|with delivery courier/i.test(description)
+        ? TRACKING_STATUS.OUT_FOR_DELIVERY
+        : STATUS_CODES[event.statusCode] || TRACKING_STATUS.UNKNOWN,
+    description,
+    location: formatLocation(
+      event.location?.address?.addressLocality,
+      event.location?.address?.countryCode
+    ),
+    occurredAt: new Date(event.timestamp),
+  }
+}
+
+export class DhlCarrier implements CarrierAdapter {
+  readonly carrier = "DHL"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.DHL_API_KEY)
+  }
+
+  // Express waybills are 10 digits, Parcel and eCommerce numbers start with JJD, JVGL or GM
+  matches(trackingNumber: string): boolean {
+    return /^\d{10}$/.test(trackingNumber) || /^(JJD|JVGL|GM)[0-9A-Z]{8,}$/.test(trackingNumber)
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const params = new URLSearchParams({ trackingNumber })
+
+    const data = await fetchCarrierJson(this.carrier, `${BASE_URL}?${params}`, {
+      headers: { "DHL-API-Key": process.env.DHL_API_KEY! },
+    })
+
+    const shipment = data.shipments?.[0] || {}
+
+    // Events come newest first
+    const events: CarrierTrackingEvent[] = (shipment.events || []).map(toEvent).reverse()
+    const current = shipment.status ? toEvent(shipment.status) : events[events.length - 1]
+
+    return {
+      trackingNumber,
+      status: current?.status || TRACKING_STATUS.UNKNOWN,
+      estimatedDeliveryAt: shipment.estimatedTimeOfDelivery ? new Date(shipment.estimatedTimeOfDelivery) : undefined,
+      deliveredAt: current?.status === TRACKING_STATUS.DELIVERED ? current.occurredAt : undefined,
+      events,
+    }
+  }
+}
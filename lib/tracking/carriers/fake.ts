@@ -0,0 +1,74 @@
+import { CarrierAdapter, CarrierTrackingEvent, CarrierTrackingResult, TRACKING_STATUS, TrackingStatus } from "@/types/tracking"
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Fixed status numbers report one event at a constant time, so repeated polls do not add events
+const FIXED_EVENT_TIME = new Date("2024-01-01T00:00:00Z")
+
+// How long after the label was created a simulated parcel reaches each status
+const TIMELINE: Array<{ afterHours: number; status: TrackingStatus; description: string }> = [
+  { afterHours: 0, status: TRACKING_STATUS.PRE_TRANSIT, description: "Shipping label created" },
+  { afterHours: 24, status: TRACKING_STATUS.IN_TRANSIT, description: "Picked up by carrier" },
+  { afterHours: 48, status: TRACKING_STATUS.IN_TRANSIT, description: "Arrived at sort facility" },
+  { afterHours: 96, status: TRACKING_STATUS.OUT_FOR_DELIVERY, description: "Out for delivery" },
+  { afterHours: 100, status: TRACKING_STATUS.DELIVERED, description: "Delivered" },
+]
+
+/**
+ * Local carrier for development and tests, no API is called.
+ *
+ * FAKE-<STATUS> numbers, e.g. FAKE-EXCEPTION, always report that status. TRK<timestamp>
+ * numbers, as printed on fake carrier labels, move along a fixed timeline starting
+ * at the timestamp.
+ */
+export class FakeCarrier implements CarrierAdapter {
+  readonly carrier = "FAKE"
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  matches(trackingNumber: string): boolean {
+    return /^FAKE-[A-Z_]+$/.test(trackingNumber) || /^TRK\d{13,}$/.test(trackingNumber)
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    if (trackingNumber.startsWith("FAKE-")) {
+      return this.fixedStatus(trackingNumber)
+    }
+
+    const createdAt = parseInt(trackingNumber.slice(3, 16))
+    const events: CarrierTrackingEvent[] = TIMELINE.filter(
+      (step) => createdAt + step.afterHours * HOUR_MS <= Date.now()
+    ).map((step) => ({
+      status: step.status,
+      description: step.description,
+      location: "Test Facility",
+      occurredAt: new Date(createdAt + step.afterHours * HOUR_MS),
+    }))
+
+    const latest = events[events.length - 1]
+    const last = TIMELINE[TIMELINE.length - 1]
+
+    return {
+      trackingNumber,
+      status: latest?.status || TRACKING_STATUS.UNKNOWN,
+      estimatedDeliveryAt: new Date(createdAt + last.afterHours * HOUR_MS),
+      deliveredAt: latest?.status === TRACKING_STATUS.DELIVERED ? latest.occurredAt : undefined,
+      events,
+    }
+  }
+
+  private fixedStatus(trackingNumber: string): CarrierTrackingResult {
+    const requested = trackingNumber.slice("FAKE-".length) as TrackingStatus
+    const status = Object.values(TRACKING_STATUS).includes(requested) ? requested : TRACKING_STATUS.UNKNOWN
+    const occurredAt = FIXED_EVENT_TIME
+
+    return {
+      trackingNumber,
+      status,
+      deliveredAt: status === TRACKING_STATUS.DELIVERED ? occurredAt : undefined,
+      events: [{ status, description: `Simulated ${status.toLowerCase().replace(/_/g, " ")}`, occurredAt }],
+    }
+  }
+}
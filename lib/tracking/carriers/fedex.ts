@@ -0,0 +1,94 @@
+import { CarrierAdapter, CarrierTrackingEvent, CarrierTrackingResult, TRACKING_STATUS, TrackingStatus } from "@/types/tracking"
+import { fetchCarrierJson, formatLocation, getCarrierToken } from "../carrier-client"
+
+const BASE_URL = "https://apis.fedex.com"
+
+// Derived status codes shared by scan events and the latest status
+const DERIVED_CODES: Record<string, TrackingStatus> = {
+  IN: TRACKING_STATUS.PRE_TRANSIT,
+  PU: TRACKING_STATUS.IN_TRANSIT,
+  IT: TRACKING_STATUS.IN_TRANSIT,
+  AR: TRACKING_STATUS.IN_TRANSIT,
+  DP: TRACKING_STATUS.IN_TRANSIT,
+  OD: TRACKING_STATUS.OUT_FOR_DELIVERY,
+  DL: TRACKING_STATUS.DELIVERED,
+  DE: TRACKING_STATUS.EXCEPTION,
+  SE: TRACKING_STATUS.EXCEPTION,
+  CA: TRACKING_STATUS.EXCEPTION,
+  RS: TRACKING_STATUS.RETURNED,
+}
+
+/**
+ * OAuth token for the FedEx APIs, shared by tracking and shipping
+ */
+export function getFedexToken(): Promise<string> {
+  return getCarrierToken("FEDEX", () =>
+    fetchCarrierJson("FEDEX", `${BASE_URL}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: process.env.FEDEX_CLIENT_ID!,
+        client_secret: process.env.FEDEX_CLIENT_SECRET!,
+      }),
+    })
+  )
+}
+
+export class FedexCarrier implements CarrierAdapter {
+  readonly carrier = "FEDEX"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.FEDEX_CLIENT_ID && process.env.FEDEX_CLIENT_SECRET)
+  }
+
+  // Express and Ground numbers are 12 or 15 digits, SmartPost and door tags 20 or 22
+  matches(trackingNumber: string): boolean {
+    return /^(\d{12}|\d{15}|\d{20}|\d{22})$/.test(trackingNumber)
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const token = await getFedexToken()
+
+    const data = await fetchCarrierJson(this.carrier, `${BASE_URL}/track/v1/trackingnumbers`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        includeDetailedScans: true,
+        trackingInfo: [{ trackingNumberInfo: { trackingNumber } }],
+      }),
+    })
+
+    const result = data.output?.completeTrackResults?.[0]?.trackResults?.[0] || {}
+
+    // Scan events come newest first
+    const events: CarrierTrackingEvent[] = (result.scanEvents || [])
+      .map((scan: any) => ({
+        status: DERIVED_CODES[scan.derivedStatusCode] || TRACKING_STATUS.UNKNOWN,
+        description: scan.eventDescription || "",
+        location: formatLocation(
+          scan.scanLocation?.city,
+          scan.scanLocation?.stateOrProvinceCode,
+          scan.scanLocation?.countryCode
+        ),
+        occurredAt: new Date(scan.date),
+      }))
+      .reverse()
+
+    const dateOf = (type: string) => {
+      const entry = (result.dateAndTimes || []).find((d: any) => d.type === type)
+      return entry ? new Date(entry.dateTime) : undefined
+    }
+
+    return {
+      trackingNumber,
+      status: DERIVED_CODES[result.latestStatusDetail?.derivedCode] || TRACKING_STATUS.UNKNOWN,
+      estimatedDeliveryAt: dateOf("ESTIMATED_DELIVERY"),
+      deliveredAt: dateOf("ACTUAL_DELIVERY"),
+      events,
+    }
+  }
+}
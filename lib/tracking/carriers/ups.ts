@@ -0,0 +1,94 @@
+import crypto from "crypto"
+import { CarrierAdapter, CarrierTrackingEvent, CarrierTrackingResult, TRACKING_STATUS, TrackingStatus } from "@/types/tracking"
+import { fetchCarrierJson, formatLocation, getCarrierToken } from "../carrier-client"
+
+const BASE_URL = "https://onlinetools.ups.com"
+
+// Activity status types in Track API responses
+const STATUS_TYPES: Record<string, TrackingStatus> = {
+  M: TRACKING_STATUS.PRE_TRANSIT,
+  MV: TRACKING_STATUS.PRE_TRANSIT,
+  P: TRACKING_STATUS.IN_TRANSIT,
+  I: TRACKING_STATUS.IN_TRANSIT,
+  O: TRACKING_STATUS.OUT_FOR_DELIVERY,
+  D: TRACKING_STATUS.DELIVERED,
+  X: TRACKING_STATUS.EXCEPTION,
+  RS: TRACKING_STATUS.RETURNED,
+}
+
+// Dates come as YYYYMMDD and times as HHMMSS, in the scan's local time
+function parseUpsDate(date: string, time: string = "000000"): Date {
+  return new Date(
+    `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4, 6)}`
+  )
+}
+
+/**
+ * OAuth token for the UPS APIs, shared by tracking and shipping
+ */
+export function getUpsToken(): Promise<string> {
+  return getCarrierToken("UPS", () => {
+    const auth = Buffer.from(`${process.env.UPS_CLIENT_ID}:${process.env.UPS_CLIENT_SECRET}`).toString("base64")
+
+    return fetchCarrierJson("UPS", `${BASE_URL}/security/v1/oauth/token`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ grant_type: "client_credentials" }),
+    })
+  })
+}
+
+export class UpsCarrier implements CarrierAdapter {
+  readonly carrier = "UPS"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.UPS_CLIENT_ID && process.env.UPS_CLIENT_SECRET)
+  }
+
+  matches(trackingNumber: string): boolean {
+    return /^1Z[0-9A-Z]{16}$/.test(trackingNumber)
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const token = await getUpsToken()
+
+    const data = await fetchCarrierJson(this.carrier, `${BASE_URL}/api/track/v1/details/${trackingNumber}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        transId: crypto.randomUUID(),
+        transactionSrc: "ecommerce-manager",
+      },
+    })
+
+    const pkg = data.trackResponse?.shipment?.[0]?.package?.[0] || {}
+
+    // Activity comes newest first
+    const events: CarrierTrackingEvent[] = (pkg.activity || [])
+      .map((activity: any) => ({
+        status: STATUS_TYPES[activity.status?.type] || TRACKING_STATUS.UNKNOWN,
+        description: activity.status?.description || "",
+        location: formatLocation(
+          activity.location?.address?.city,
+          activity.location?.address?.stateProvince,
+          activity.location?.address?.country
+        ),
+        occurredAt: parseUpsDate(activity.date, activity.time),
+      }))
+      .reverse()
+
+    const delivery = (pkg.deliveryDate || []).find((d: any) => d.type === "DEL")
+    const estimate = (pkg.deliveryDate || []).find((d: any) => d.type === "SDD" || d.type === "RDD")
+    const latest = events[events.length - 1]
+
+    return {
+      trackingNumber,
+      status: latest?.status || TRACKING_STATUS.UNKNOWN,
+      estimatedDeliveryAt: estimate ? parseUpsDate(estimate.date) : undefined,
+      deliveredAt: delivery ? parseUpsDate(delivery.date, pkg.deliveryTime?.endTime) : undefined,
+      events,
+    }
+  }
+}
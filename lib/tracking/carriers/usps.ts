@@ -0,0 +1,81 @@
+import { CarrierAdapter, CarrierTrackingEvent, CarrierTrackingResult, TRACKING_STATUS, TrackingStatus } from "@/types/tracking"
+import { fetchCarrierJson, formatLocation, getCarrierToken } from "../carrier-client"
+
+const BASE_URL = "https://apis.usps.com"
+
+// USPS describes events in words rather than codes
+function statusFromEventType(eventType: string = ""): TrackingStatus {
+  const text = eventType.toLowerCase()
+
+  if (text.includes("delivered")) return TRACKING_STATUS.DELIVERED
+  if (text.includes("out for delivery")) return TRACKING_STATUS.OUT_FOR_DELIVERY
+  if (text.includes("return to sender") || text.includes("returned")) return TRACKING_STATUS.RETURNED
+  if (text.includes("alert") || text.includes("undeliverable") || text.includes("notice left")) {
+    return TRACKING_STATUS.EXCEPTION
+  }
+  if (text.includes("label created") || text.includes("pre-shipment") || text.includes("shipping label")) {
+    return TRACKING_STATUS.PRE_TRANSIT
+  }
+  return eventType ? TRACKING_STATUS.IN_TRANSIT : TRACKING_STATUS.UNKNOWN
+}
+
+/**
+ * OAuth token for the USPS APIs, shared by tracking and shipping
+ */
+export function getUspsToken(): Promise<string> {
+  return getCarrierToken("USPS", () =>
+    fetchCarrierJson("USPS", `${BASE_URL}/oauth2/v3/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        grant_type: "client_credentials",
+        client_id: process.env.USPS_CLIENT_ID,
+        client_secret: process.env.USPS_CLIENT_SECRET,
+      }),
+    })
+  )
+}
+
+export class UspsCarrier implements CarrierAdapter {
+  readonly carrier = "USPS"
+
+  isConfigured(): boolean {
+    return Boolean(process.env.USPS_CLIENT_ID && process.env.USPS_CLIENT_SECRET)
+  }
+
+  // Domestic numbers are 20 or 22 digits starting with 9, international ones look like EA123456789US
+  matches(trackingNumber: string): boolean {
+    return /^9[1-5]\d{18}(\d{2})?$/.test(trackingNumber) || /^[A-Z]{2}\d{9}US$/.test(trackingNumber)
+  }
+
+  async track(trackingNumber: string): Promise<CarrierTrackingResult> {
+    const token = await getUspsToken()
+
+    const data = await fetchCarrierJson(
+      this.carrier,
+      `${BASE_URL}/tracking/v3/tracking/${trackingNumber}?expand=DETAIL`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    )
+
+    // Tracking events come newest first
+    const events: CarrierTrackingEvent[] = (data.trackingEvents || [])
+      .map((event: any) => ({
+        status: statusFromEventType(event.eventType),
+        description: event.eventType || "",
+        location: formatLocation(event.eventCity, event.eventState, event.eventCountry),
+        occurredAt: new Date(event.eventTimestamp),
+      }))
+      .reverse()
+
+    const latest = events[events.length - 1]
+    const delivered = latest?.status === TRACKING_STATUS.DELIVERED
+
+    return {
+      trackingNumber,
+      status: latest?.status || statusFromEventType(data.statusCategory),
+      estimatedDeliveryAt: data.expectedDeliveryTimeStamp ? new Date(data.expectedDeliveryTimeStamp) : undefined,
+      deliveredAt: delivered ? latest.occurredAt : undefined,
+      events,
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { CarrierAdapter } from "@/types/tracking"
+import { knownCarrier } from "@/lib/integrations/order-mapping"
+import { DhlCarrier } from "./carriers/dhl"
+import { FakeCarrier } from "./carriers/fake"
+import { FedexCarrier } from "./carriers/fedex"
+import { UpsCarrier } from "./carriers/ups"
+import { UspsCarrier } from "./carriers/usps"
+
+// Most specific formats first: USPS numbers can also pass for FedEx ones
+const carriers: CarrierAdapter[] = [
+  new FakeCarrier(),
+  new UpsCarrier(),
+  new UspsCarrier(),
+  new DhlCarrier(),
+  new FedexCarrier(),
+]
+
+/**
+ * Carrier whose tracking number format matches, or null when none does
+ */
+export function detectCarrier(trackingNumber: string): CarrierAdapter | null {
+  const normalized = normalizeTrackingNumber(trackingNumber)
+  return carriers.find((carrier) => carrier.matches(normalized)) || null
+}
+
+/**
+ * Pick the adapter to track a shipment with. The tracking number's format wins over the
+ * carrier name entered with it, which is often free text. Returns null when the carrier
+ * is unknown or its API credentials are not set.
+ */
+export function getCarrierAdapter(trackingNumber: string, carrierName?: string | null): CarrierAdapter | null {
+  const named = carrierName ? knownCarrier(carrierName) : null
+  const adapter = detectCarrier(trackingNumber) || carriers.find((carrier) => carrier.carrier === named)
+
+  return adapter?.isConfigured() ? adapter : null
+}
+
+// Carriers print numbers with spaces and dashes, their APIs want them without
+export function normalizeTrackingNumber(trackingNumber: string): string {
+  const compact = trackingNumber.toUpperCase().replace(/[\s-]/g, "")
+  // Keep the separator of FAKE-<STATUS> numbers
+  return compact.startsWith("FAKE") ? trackingNumber.toUpperCase().trim() : compact
+}
@@ -0,0 +1,256 @@
+import { Fulfillment, Order } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { InvalidTransitionError, OrderLifecycle } from "@/lib/orders/lifecycle"
+import { FulfillmentQuantityError, FulfillmentSyncEngine } from "@/lib/sync/fulfillment-sync"
+import { FULFILLMENT_STATUS, ORDER_ACTOR_TYPE, ORDER_STATUS } from "@/types/order"
+import { CarrierTrackingResult, FINAL_TRACKING_STATUSES, TRACKING_STATUS } from "@/types/tracking"
+import { getCarrierAdapter, normalizeTrackingNumber } from "./registry"
+
+// A shipment is asked about at most this often
+const POLL_INTERVAL_MS = 2 * 60 * 60 * 1000
+// Shipments still not delivered after this long are no longer polled
+const MAX_TRACKING_DAYS = 60
+const BATCH_SIZE = 100
+
+export interface TrackingPollSummary {
+  polled: number
+  shipped: number
+  delivered: number
+  delayed: number
+  failed: number
+}
+
+type TrackedResult = CarrierTrackingResult & { carrier: string }
+
+export class ShipmentTracker {
+  private userId: string
+
+  constructor(userId: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Ask carriers about the user's parcels. Orders with a tracking number ship once the
+   * carrier scans their parcel, shipped orders are delivered once every parcel is, and
+   * carrier exceptions or missed delivery estimates notify the user.
+   */
+  async pollShipments(): Promise<TrackingPollSummary> {
+    const summary: TrackingPollSummary = { polled: 0, shipped: 0, delivered: 0, delayed: 0, failed: 0 }
+
+    await this.pollAwaitingPickup(summary)
+    await this.pollInTransit(summary)
+
+    return summary
+  }
+
+  // Orders given a tracking number before their shipment was recorded. Parcels the carrier
+  // never scans stop being polled once the order is too old to still ship.
+  private async pollAwaitingPickup(summary: TrackingPollSummary): Promise<void> {
+    const orders = await prisma.order.findMany({
+      where: {
+        userId: this.userId,
+        status: ORDER_STATUS.PROCESSING,
+        trackingNumber: { not: null },
+        fulfillments: { none: {} },
+        orderDate: { gte: new Date(Date.now() - MAX_TRACKING_DAYS * 24 * 60 * 60 * 1000) },
+        OR: [{ trackingPolledAt: null }, { trackingPolledAt: { lt: new Date(Date.now() - POLL_INTERVAL_MS) } }],
+      },
+      orderBy: [{ trackingPolledAt: { sort: "asc", nulls: "first" } }, { orderDate: "asc" }],
+      take: BATCH_SIZE,
+    })
+
+    for (const order of orders) {
+      const trackingNumber = order.trackingNumber!
+      const result = await this.track(trackingNumber, order.carrier, summary)
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { trackingPolledAt: new Date() },
+      })
+
+      if (!result) continue
+
+      await this.saveEvents(order.id, null, trackingNumber, result)
+
+      // The first scan after the label was printed is when the parcel left
+      const pickup = result.events.find(
+        (event) => event.status !== TRACKING_STATUS.PRE_TRANSIT && event.status !== TRACKING_STATUS.UNKNOWN
+      )
+      if (!pickup) continue
+
+      try {
+        const fulfillment = await new FulfillmentSyncEngine(this.userId).createFulfillment(
+          order.id,
+          {
+            trackingNumber,
+            carrier: order.carrier || result.carrier,
+            shippedAt: pickup.occurredAt,
+          },
+          { type: ORDER_ACTOR_TYPE.CARRIER, id: result.carrier }
+        )
+
+        await prisma.trackingEvent.updateMany({
+          where: { orderId: order.id, trackingNumber, fulfillmentId: null },
+          data: { fulfillmentId: fulfillment.id },
+        })
+
+        summary.shipped++
+        await this.applyResult({ ...fulfillment, order }, result, summary)
+      } catch (error) {
+        // Shipped in parts by hand or cancelled in the meantime
+        if (!(error instanceof FulfillmentQuantityError || error instanceof InvalidTransitionError)) throw error
+      }
+    }
+  }
+
+  private async pollInTransit(summary: TrackingPollSummary): Promise<void> {
+    const fulfillments = await prisma.fulfillment.findMany({
+      where: {
+        order: { userId: this.userId },
+        shippedAt: { gte: new Date(Date.now() - MAX_TRACKING_DAYS * 24 * 60 * 60 * 1000) },
+        AND: [
+          { OR: [{ trackingStatus: null }, { trackingStatus: { notIn: FINAL_TRACKING_STATUSES } }] },
+          { OR: [{ lastTrackedAt: null }, { lastTrackedAt: { lt: new Date(Date.now() - POLL_INTERVAL_MS) } }] },
+        ],
+      },
+      include: { order: true },
+      orderBy: { lastTrackedAt: { sort: "asc", nulls: "first" } },
+      take: BATCH_SIZE,
+    })
+
+    for (const fulfillment of fulfillments) {
+      const result = await this.track(fulfillment.trackingNumber, fulfillment.carrier, summary)
+
+      if (!result) {
+        // Unknown carrier or failed call, try again next interval
+        await prisma.fulfillment.update({
+          where: { id: fulfillment.id },
+          data: { lastTrackedAt: new Date() },
+        })
+        continue
+      }
+
+      await this.saveEvents(fulfillment.orderId, fulfillment.id, fulfillment.trackingNumber, result)
+      await this.applyResult(fulfillment, result, summary)
+    }
+  }
+
+  private async track(
+    trackingNumber: string,
+    carrierName: string | null,
+    summary: TrackingPollSummary
+  ): Promise<TrackedResult | null> {
+    const adapter = getCarrierAdapter(trackingNumber, carrierName)
+    if (!adapter) return null
+
+    try {
+      summary.polled++
+      const result = await adapter.track(normalizeTrackingNumber(trackingNumber))
+      return { ...result, carrier: adapter.carrier }
+    } catch (error) {
+      console.error(`Failed to track ${trackingNumber}:`, error)
+      summary.failed++
+      return null
+    }
+  }
+
+  // Scans already stored are skipped, carriers return the whole history on every call
+  private async saveEvents(
+    orderId: string,
+    fulfillmentId: string | null,
+    trackingNumber: string,
+    result: TrackedResult
+  ): Promise<void> {
+    if (!result.events.length) return
+
+    await prisma.trackingEvent.createMany({
+      data: result.events.map((event) => ({
+        orderId,
+        fulfillmentId,
+        trackingNumber,
+        carrier: result.carrier,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+      })),
+      skipDuplicates: true,
+    })
+  }
+
+  private async applyResult(
+    fulfillment: Fulfillment & { order: Order },
+    result: TrackedResult,
+    summary: TrackingPollSummary
+  ): Promise<void> {
+    const now = new Date()
+    const delivered = result.status === TRACKING_STATUS.DELIVERED
+    const exception = result.status === TRACKING_STATUS.EXCEPTION
+    const late = !delivered && !!result.estimatedDeliveryAt && result.estimatedDeliveryAt < now
+    const notifyDelay = (exception || late) && !fulfillment.delayNotifiedAt
+
+    await prisma.fulfillment.update({
+      where: { id: fulfillment.id },
+      data: {
+        trackingStatus: result.status,
+        estimatedDeliveryAt: result.estimatedDeliveryAt,
+        deliveredAt: delivered ? result.deliveredAt || now : null,
+        lastTrackedAt: now,
+        ...(notifyDelay ? { delayNotifiedAt: now } : {}),
+      },
+    })
+
+    if (notifyDelay) {
+      const latest = result.events[result.events.length - 1]
+
+      await prisma.notification.create({
+        data: {
+          userId: this.userId,
+          type: "DELAYED_SHIPMENT",
+          title: `Delayed Order: ${fulfillment.order.platformOrderId}`,
+          message: exception
+            ? `${result.carrier} reported a problem with ${fulfillment.trackingNumber}: ${latest?.description || "delivery exception"}`
+            : `${fulfillment.trackingNumber} was expected by ${result.estimatedDeliveryAt!.toDateString()} and has not been delivered`,
+          priority: "HIGH",
+          metadata: {
+            orderId: fulfillment.orderId,
+            fulfillmentId: fulfillment.id,
+            trackingNumber: fulfillment.trackingNumber,
+          },
+        },
+      })
+
+      summary.delayed++
+    }
+
+    if (delivered && (await this.completeDelivery(fulfillment.orderId, result.carrier))) {
+      summary.delivered++
+    }
+  }
+
+  // A shipped order is delivered once every one of its parcels is
+  private async completeDelivery(orderId: string, carrier: string): Promise<boolean> {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { fulfillments: true },
+    })
+
+    if (order.status !== ORDER_STATUS.SHIPPED || order.fulfillmentStatus !== FULFILLMENT_STATUS.FULFILLED) {
+      return false
+    }
+
+    const allDelivered = order.fulfillments.every(
+      (fulfillment) => fulfillment.trackingStatus === TRACKING_STATUS.DELIVERED
+    )
+    if (!allDelivered) return false
+
+    await new OrderLifecycle(this.userId).transition(
+      order.id,
+      ORDER_STATUS.DELIVERED,
+      { type: ORDER_ACTOR_TYPE.CARRIER, id: carrier },
+      { reason: "Every parcel was delivered" }
+    )
+
+    return true
+  }
+}
@@ -51,3 +51,11 @@ export function decrypt(encryptedData: string): string {
 export function hashToken(token: string): string {
   return crypto.createHash("sha256").update(token).digest("hex")
 }
+
+export function generateToken(bytes: number = 24): string {
+  return crypto.randomBytes(bytes).toString("hex")
+}
+
+export function signPayload(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex")
+}
@@ -0,0 +1,113 @@
+import { lookup } from "dns/promises"
+import { isIP } from "net"
+
+// IPv4 ranges a user-supplied URL must not reach: this host, private networks, carrier NAT,
+// link-local (cloud metadata endpoints), benchmarking, multicast and reserved space
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+]
+
+export class PrivateAddressError extends Error {
+  constructor(hostname: string) {
+    super(`${hostname} does not resolve to a public address`)
+    this.name = "PrivateAddressError"
+  }
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+
+  return !BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    const start = ipv4ToNumber(base)
+    return value >= start && value < start + size
+  })
+}
+
+function isPublicIpv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+
+  // IPv4-mapped addresses reach the IPv4 host, URLs write them in hex
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) {
+    return isPublicIpv4(mapped[1])
+  }
+
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+    return isPublicIpv4([high >> 8, high & 255, low >> 8, low & 255].join("."))
+  }
+
+  if (normalized === "::" || normalized === "::1") {
+    return false
+  }
+
+  // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return !/^(f[cd]|fe[89ab]|ff)/.test(normalized)
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIpv4(address)
+    case 6:
+      return isPublicIpv6(address)
+    default:
+      return false
+  }
+}
+
+/**
+ * Whether a URL is https and its host is not an IP literal or name of a local address.
+ * Hostnames still have to be resolved, see assertPublicHost.
+ */
+export function isPublicHttpsUrl(value: string): boolean {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+
+  if (url.protocol !== "https:" || hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return false
+  }
+
+  return isIP(hostname) ? isPublicAddress(hostname) : true
+}
+
+/**
+ * Throws PrivateAddressError unless every address the URL's host resolves to is public,
+ * so requests with user-supplied URLs cannot reach this host or its internal network
+ */
+export async function assertPublicHost(value: string): Promise<void> {
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, "")
+
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true, verbatim: true })
+
+  if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new PrivateAddressError(hostname)
+  }
+}
@@ -0,0 +1,25 @@
+import { z } from "zod"
+import { CatalogImportAction, Platform } from "@prisma/client"
+
+export const catalogImportSchema = z.object({
+  platform: z.nativeEnum(Platform),
+})
+
+// Which value a linked product keeps for a field that differs from the listing
+const resolutionSchema = z.enum(["LOCAL", "PLATFORM"])
+
+export const catalogItemUpdateSchema = z.object({
+  action: z.nativeEnum(CatalogImportAction).optional(),
+  // Link to a different product than the one matched
+  productId: z.string().optional(),
+  resolutions: z
+    .object({
+      title: resolutionSchema.optional(),
+      price: resolutionSchema.optional(),
+      quantity: resolutionSchema.optional(),
+    })
+    .optional(),
+})
+
+export type CatalogImportInput = z.infer<typeof catalogImportSchema>
+export type CatalogItemUpdateInput = z.infer<typeof catalogItemUpdateSchema>
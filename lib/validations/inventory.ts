@@ -0,0 +1,82 @@
+import { z } from "zod"
+import { AllocationStrategy, LocationType, Platform } from "@prisma/client"
+import { AMAZON_FULFILLMENT_CHANNELS } from "@/types/platforms"
+import { shippingAddressSchema } from "./order"
+
+export const channelAllocationRuleSchema = z.object({
+  percentage: z.number().min(0).max(100).optional(),
+  priority: z.number().int().min(0).optional(),
+  cap: z.number().int().min(0, "Cap must be non-negative").optional(),
+  buffer: z.number().int().min(0, "Buffer must be non-negative").optional(),
+})
+
+const allocationPolicyBaseSchema = z.object({
+  productId: z.string().optional(),
+  category: z.string().min(1).optional(),
+  strategy: z.nativeEnum(AllocationStrategy).default(AllocationStrategy.POOLED),
+  buffer: z.number().int().min(0, "Buffer must be non-negative").default(0),
+  channelRules: z.record(z.nativeEnum(Platform), channelAllocationRuleSchema).default({}),
+})
+
+export const allocationPolicySchema = allocationPolicyBaseSchema.refine(
+  (data) => !(data.productId && data.category),
+  { message: "A policy applies to a product or a category, not both", path: ["category"] }
+)
+
+// The product or category a policy applies to is fixed once created
+export const allocationPolicyUpdateSchema = allocationPolicyBaseSchema
+  .omit({ productId: true, category: true })
+  .partial()
+
+export const locationPlatformMappingSchema = z
+  .object({
+    platform: z.nativeEnum(Platform),
+    platformLocationId: z.string().min(1, "Platform location ID is required"),
+  })
+  .refine(
+    (data) =>
+      data.platform !== Platform.AMAZON ||
+      (AMAZON_FULFILLMENT_CHANNELS as readonly string[]).includes(data.platformLocationId),
+    { message: "Amazon locations are AFN (FBA) or MFN (merchant-fulfilled)", path: ["platformLocationId"] }
+  )
+
+export const locationSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  type: z.nativeEnum(LocationType).default(LocationType.WAREHOUSE),
+  // Printed as the sender on shipping labels, carriers want a phone number with it
+  address: shippingAddressSchema.omit({ name: true }).optional(),
+  isDefault: z.boolean().default(false),
+  priority: z.number().int().min(0, "Priority must be non-negative").default(0),
+  active: z.boolean().default(true),
+  platformMappings: z
+    .array(locationPlatformMappingSchema)
+    .default([])
+    .refine(
+      (mappings) => new Set(mappings.map((m) => m.platform)).size === mappings.length,
+      { message: "A location maps to one location per platform" }
+    ),
+})
+
+export const locationUpdateSchema = locationSchema.partial()
+
+export const inventoryTransferSchema = z
+  .object({
+    productId: z.string().min(1, "Product is required"),
+    fromLocationId: z.string().min(1, "Source location is required"),
+    toLocationId: z.string().min(1, "Destination location is required"),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    reason: z.string().max(200).optional(),
+    platforms: z.array(z.nativeEnum(Platform)).default([]),
+  })
+  .refine((data) => data.fromLocationId !== data.toLocationId, {
+    message: "Source and destination must differ",
+    path: ["toLocationId"],
+  })
+
+export type ChannelAllocationRuleInput = z.infer<typeof channelAllocationRuleSchema>
+export type AllocationPolicyInput = z.infer<typeof allocationPolicySchema>
+export type AllocationPolicyUpdateInput = z.infer<typeof allocationPolicyUpdateSchema>
+export type LocationPlatformMappingInput = z.infer<typeof locationPlatformMappingSchema>
+export type LocationInput = z.infer<typeof locationSchema>
+export type LocationUpdateInput = z.infer<typeof locationUpdateSchema>
+export type InventoryTransferInput = z.infer<typeof inventoryTransferSchema>
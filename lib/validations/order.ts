@@ -1,11 +1,14 @@
 import { z } from "zod"
+import { FULFILLMENT_STATUS, ORDER_STATUS, PAYMENT_STATUS } from "@/types/order"
 
 export const orderItemSchema = z.object({
   sku: z.string().min(1, "SKU is required"),
   title: z.string().min(1, "Title is required"),
   quantity: z.number().int().min(1, "Quantity must be at least 1"),
   price: z.number().min(0, "Price must be non-negative"),
+  total: z.number().min(0, "Total must be non-negative").optional(),
   platformItemId: z.string().optional(),
+  platformProductId: z.string().optional(),
 })
 
 export const shippingAddressSchema = z.object({
@@ -22,24 +25,56 @@ export const shippingAddressSchema = z.object({
 export const orderSchema = z.object({
   platform: z.string(),
   platformOrderId: z.string().min(1, "Platform order ID is required"),
-  status: z.string(),
+  platformOrderNumber: z.string().optional(),
+  status: z.nativeEnum(ORDER_STATUS),
+  paymentStatus: z.nativeEnum(PAYMENT_STATUS).optional(),
+  fulfillmentStatus: z.nativeEnum(FULFILLMENT_STATUS).optional(),
   customerName: z.string().min(1, "Customer name is required"),
   customerEmail: z.string().email("Invalid email").optional(),
   shippingAddress: shippingAddressSchema,
+  billingAddress: shippingAddressSchema.partial().optional(),
+  subtotal: z.number().min(0, "Subtotal must be non-negative").optional(),
+  tax: z.number().min(0, "Tax must be non-negative").optional(),
+  shipping: z.number().min(0, "Shipping must be non-negative").optional(),
   total: z.number().min(0, "Total must be non-negative"),
   currency: z.string().default("USD"),
   orderDate: z.coerce.date(),
   items: z.array(orderItemSchema).min(1, "At least one item is required"),
 })
 
+// Platforms withhold parts of the shipping address on some orders, e.g. Amazon before
+// shipment or orders for digital goods
+export const importedOrderSchema = orderSchema.extend({
+  shippingAddress: shippingAddressSchema.partial(),
+})
+
 export const orderUpdateSchema = z.object({
-  status: z.string().optional(),
+  status: z.nativeEnum(ORDER_STATUS).optional(),
+  // Why the status changed, kept in the order's history
+  reason: z.string().max(500).optional(),
   trackingNumber: z.string().optional(),
   carrier: z.string().optional(),
   shippedAt: z.coerce.date().optional(),
   notes: z.string().optional(),
 })
 
+export const fulfillmentSchema = z.object({
+  trackingNumber: z.string().min(1, "Tracking number is required"),
+  carrier: z.string().min(1, "Carrier is required"),
+  trackingUrl: z.string().url().optional(),
+  shippedAt: z.coerce.date().optional(),
+  // Leave out to ship everything not shipped yet
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, "At least one item is required")
+    .optional(),
+})
+
 export const orderImportSchema = z.object({
   platforms: z.array(z.string()).min(1, "At least one platform is required"),
   startDate: z.coerce.date().optional(),
@@ -48,6 +83,20 @@ export const orderImportSchema = z.object({
   limit: z.number().int().min(1).max(500).default(100),
 })
 
+export const orderBackfillSchema = z
+  .object({
+    platforms: z.array(z.string()).min(1, "At least one platform is required"),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate < data.endDate, {
+    message: "Start date must be before end date",
+    path: ["endDate"],
+  })
+
 export type OrderInput = z.infer<typeof orderSchema>
+export type ImportedOrderInput = z.infer<typeof importedOrderSchema>
 export type OrderUpdateInput = z.infer<typeof orderUpdateSchema>
+export type FulfillmentInput = z.infer<typeof fulfillmentSchema>
 export type OrderImportInput = z.infer<typeof orderImportSchema>
+export type OrderBackfillInput = z.infer<typeof orderBackfillSchema>
@@ -0,0 +1,13 @@
+import { z } from "zod"
+import { isPublicHttpsUrl } from "@/lib/utils/network"
+
+export const wooCommerceConnectSchema = z.object({
+  storeUrl: z
+    .string()
+    .url("Store URL must be a valid URL")
+    .refine(isPublicHttpsUrl, "Store URL must be a public https:// address"),
+  consumerKey: z.string().startsWith("ck_", "Consumer key should start with ck_"),
+  consumerSecret: z.string().startsWith("cs_", "Consumer secret should start with cs_"),
+})
+
+export type WooCommerceConnectInput = z.infer<typeof wooCommerceConnectSchema>
@@ -1,21 +1,90 @@
 import { z } from "zod"
+import { Platform } from "@prisma/client"
+
+export const productVariantSchema = z.object({
+  sku: z.string().min(1, "SKU is required"),
+  // Shown on listings and orders, defaults to the option values
+  title: z.string().optional(),
+  // A value for each of the product's options, e.g. { Size: "M", Color: "Blue" }
+  options: z.record(z.string().min(1)),
+  price: z.number().min(0, "Price must be positive"),
+  costPrice: z.number().min(0).optional(),
+  quantity: z.number().int().min(0, "Quantity must be non-negative").default(0),
+  barcode: z.string().regex(/^\d{8,14}$/, "Barcode must be 8 to 14 digits").optional(),
+  images: z.array(z.string().url()).default([]),
+})
 
 export const productSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().optional(),
   sku: z.string().min(1, "SKU is required"),
+  // UPC, EAN or ISBN, used to match marketplace listings
+  gtin: z.string().regex(/^\d{8,14}$/, "Barcode must be 8 to 14 digits").optional(),
   price: z.number().min(0, "Price must be positive"),
   compareAtPrice: z.number().min(0).optional(),
   costPrice: z.number().min(0).optional(),
+  // Packed for shipping, in ounces and inches
+  weight: z.number().positive("Weight must be positive").optional(),
+  length: z.number().positive("Length must be positive").optional(),
+  width: z.number().positive("Width must be positive").optional(),
+  height: z.number().positive("Height must be positive").optional(),
   quantity: z.number().int().min(0, "Quantity must be non-negative"),
   images: z.array(z.string().url()).default([]),
   category: z.string().optional(),
   tags: z.array(z.string()).default([]),
-  variants: z.any().optional(),
+  // Option names such as Size or Color, marketplaces take up to three
+  options: z.array(z.string().min(1)).max(3, "A product can have at most 3 options").default([]),
+  // Item specifics marketplaces ask for, e.g. { Brand: "Canon", Model: "AE-1" }
+  attributes: z.record(z.string().min(1)).optional(),
+  variants: z.array(productVariantSchema).optional(),
   status: z.enum(["DRAFT", "ACTIVE", "ARCHIVED"]).default("DRAFT"),
 })
 
-export const productUpdateSchema = productSchema.partial()
+// Variants are changed through their own endpoints
+export const productUpdateSchema = productSchema.omit({ variants: true }).partial()
+
+export const productVariantUpdateSchema = productVariantSchema.partial()
+
+// Fields left out keep their override, null goes back to the product's value
+export const listingOverrideSchema = z.object({
+  title: z.string().min(3, "Title must be at least 3 characters").nullable().optional(),
+  description: z.string().nullable().optional(),
+  price: z.number().min(0, "Price must be positive").nullable().optional(),
+  compareAtPrice: z.number().min(0).nullable().optional(),
+  category: z.string().min(1).nullable().optional(),
+  itemSpecifics: z.record(z.string().min(1)).nullable().optional(),
+  // Empty lists every product image
+  images: z.array(z.string().url()).optional(),
+})
+
+const pricingRuleBaseSchema = z.object({
+  platform: z.nativeEnum(Platform),
+  category: z.string().min(1).optional(),
+  markupPercent: z.number().min(-100, "Markdown cannot exceed 100%").max(1000).default(0),
+  markupAmount: z.number().default(0),
+})
+
+export const pricingRuleSchema = pricingRuleBaseSchema.refine(
+  (data) => data.markupPercent !== 0 || data.markupAmount !== 0,
+  { message: "Set a percentage or an amount", path: ["markupPercent"] }
+)
+
+// The channel and category a rule applies to are fixed once created
+export const pricingRuleUpdateSchema = pricingRuleBaseSchema.omit({ platform: true, category: true }).partial()
+
+export const categoryMappingSchema = z.object({
+  category: z.string().min(1, "Category is required"),
+  platform: z.nativeEnum(Platform),
+  // eBay category ID, Amazon product type, Google product category or Etsy taxonomy ID
+  platformCategoryId: z.string().min(1, "Marketplace category is required"),
+  platformCategoryName: z.string().optional(),
+})
+
+// A mapping moves to another marketplace category, what it maps stays
+export const categoryMappingUpdateSchema = categoryMappingSchema.pick({
+  platformCategoryId: true,
+  platformCategoryName: true,
+})
 
 export const bulkProductSchema = z.object({
   products: z.array(productSchema),
@@ -28,5 +97,12 @@ export const syncProductSchema = z.object({
 
 export type ProductInput = z.infer<typeof productSchema>
 export type ProductUpdateInput = z.infer<typeof productUpdateSchema>
+export type ProductVariantInput = z.infer<typeof productVariantSchema>
+export type ProductVariantUpdateInput = z.infer<typeof productVariantUpdateSchema>
+export type ListingOverrideInput = z.infer<typeof listingOverrideSchema>
+export type PricingRuleInput = z.infer<typeof pricingRuleSchema>
+export type PricingRuleUpdateInput = z.infer<typeof pricingRuleUpdateSchema>
+export type CategoryMappingInput = z.infer<typeof categoryMappingSchema>
+export type CategoryMappingUpdateInput = z.infer<typeof categoryMappingUpdateSchema>
 export type BulkProductInput = z.infer<typeof bulkProductSchema>
 export type SyncProductInput = z.infer<typeof syncProductSchema>
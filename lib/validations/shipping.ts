@@ -0,0 +1,35 @@
+import { z } from "zod"
+
+// Ounces and inches
+export const parcelSchema = z.object({
+  weight: z.number().positive("Weight must be positive"),
+  length: z.number().positive("Length must be positive"),
+  width: z.number().positive("Width must be positive"),
+  height: z.number().positive("Height must be positive"),
+})
+
+// Without a parcel, it is worked out from the order's products
+export const shippingRateRequestSchema = z.object({
+  parcel: parcelSchema.optional(),
+})
+
+export const labelPurchaseSchema = z.object({
+  carrier: z.string().min(1, "Carrier is required"),
+  service: z.string().min(1, "Service is required"),
+  // As shown with the rate, defaults to the service code
+  serviceName: z.string().optional(),
+  parcel: parcelSchema.optional(),
+  // Buy another label for an order that has one, e.g. after the first was lost
+  replace: z.boolean().default(false),
+})
+
+export const labelPrintSchema = z.object({
+  orderIds: z.array(z.string()).min(1, "At least one order is required").max(100),
+  // Include labels printed before
+  reprint: z.boolean().default(false),
+})
+
+export type ParcelInput = z.infer<typeof parcelSchema>
+export type ShippingRateRequestInput = z.infer<typeof shippingRateRequestSchema>
+export type LabelPurchaseInput = z.infer<typeof labelPurchaseSchema>
+export type LabelPrintInput = z.infer<typeof labelPrintSchema>
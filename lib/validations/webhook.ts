@@ -0,0 +1,18 @@
+import { z } from "zod"
+import { isPublicHttpsUrl } from "@/lib/utils/network"
+import { OUTBOUND_EVENTS } from "@/types/events"
+
+export const webhookSubscriptionSchema = z.object({
+  url: z
+    .string()
+    .url("Enter a valid URL")
+    .refine(isPublicHttpsUrl, "Endpoints must be public https:// addresses"),
+  events: z.array(z.enum(OUTBOUND_EVENTS)).min(1, "Subscribe to at least one event"),
+  description: z.string().max(200).optional(),
+  active: z.boolean().default(true),
+})
+
+export const webhookSubscriptionUpdateSchema = webhookSubscriptionSchema.partial()
+
+export type WebhookSubscriptionInput = z.infer<typeof webhookSubscriptionSchema>
+export type WebhookSubscriptionUpdateInput = z.infer<typeof webhookSubscriptionUpdateSchema>
@@ -0,0 +1,21 @@
+-- PlatformListing.syncErrors changes from the error message to the error's details as JSON.
+-- Run before pushing the schema, which would otherwise drop the column and the messages in it.
+-- Existing messages become details with the UNKNOWN code. Safe to run again once converted.
+-- Run with: npx prisma db execute --file prisma/upgrades/platform-error-details.sql --schema prisma/schema.prisma
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'PlatformListing' AND column_name = 'syncErrors' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE "PlatformListing" ALTER COLUMN "syncErrors" TYPE JSONB USING
+      CASE WHEN "syncErrors" IS NULL THEN NULL ELSE jsonb_build_object(
+        'code', 'UNKNOWN',
+        'platform', "platform"::text,
+        'message', "syncErrors",
+        'status', NULL,
+        'occurredAt', to_char("updatedAt" AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+      ) END;
+  END IF;
+END $$;
@@ -0,0 +1,105 @@
+-- Products used to keep their variants as free-form JSON in Product.variants, which the schema
+-- now maps as legacyVariants. This moves entries with a SKU into ProductVariant rows and takes
+-- the option names from their "options" object, or from their other text and number fields.
+-- A product's stock is the sum of its variants' and the JSON cannot say how it splits, so only
+-- products without stock of their own are moved and their variants start with none. Count the
+-- others' stock out, run this again, then count it back in per variant. Products with entries
+-- that have no SKU or reuse a taken one keep their JSON. Moved products have it cleared, so
+-- the script is safe to run again.
+-- Run after pushing the schema with: npx prisma db execute --file prisma/upgrades/product-variants.sql --schema prisma/schema.prisma
+
+BEGIN;
+
+CREATE TEMP TABLE legacy_variant ON COMMIT DROP AS
+SELECT
+  p.id AS product_id,
+  p."userId" AS user_id,
+  p.price AS product_price,
+  e.entry,
+  (e.position - 1)::int AS position,
+  NULL::jsonb AS options
+FROM "Product" p
+CROSS JOIN LATERAL jsonb_array_elements(p.variants) WITH ORDINALITY AS e(entry, position)
+WHERE jsonb_typeof(p.variants) = 'array'
+  AND p.quantity = 0
+  AND p."reservedQuantity" = 0
+  AND NOT EXISTS (SELECT 1 FROM "ProductVariant" v WHERE v."productId" = p.id);
+
+DELETE FROM legacy_variant
+WHERE product_id IN (
+  SELECT l.product_id
+  FROM legacy_variant l
+  WHERE jsonb_typeof(l.entry) <> 'object'
+    OR coalesce(l.entry->>'sku', '') = ''
+    OR EXISTS (SELECT 1 FROM "Product" p WHERE p."userId" = l.user_id AND p.sku = l.entry->>'sku')
+    OR EXISTS (SELECT 1 FROM "ProductVariant" v WHERE v."userId" = l.user_id AND v.sku = l.entry->>'sku')
+    OR EXISTS (
+      SELECT 1 FROM legacy_variant d
+      WHERE d.user_id = l.user_id
+        AND d.entry->>'sku' = l.entry->>'sku'
+        AND (d.product_id, d.position) <> (l.product_id, l.position)
+    )
+);
+
+UPDATE legacy_variant SET options = CASE
+  WHEN jsonb_typeof(entry->'options') = 'object' THEN (
+    SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each_text(entry->'options')
+    WHERE value IS NOT NULL
+  )
+  ELSE (
+    SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each_text(entry)
+    WHERE jsonb_typeof(entry->key) IN ('string', 'number')
+      AND key NOT IN (
+        'id', 'sku', 'title', 'name', 'price', 'costPrice', 'compareAtPrice', 'quantity',
+        'inventory_quantity', 'stock', 'barcode', 'gtin', 'weight', 'position'
+      )
+  )
+END;
+
+INSERT INTO "ProductVariant" (
+  id, "userId", "productId", sku, title, options, price, "costPrice", barcode, images, position, "updatedAt"
+)
+SELECT
+  gen_random_uuid()::text,
+  user_id,
+  product_id,
+  entry->>'sku',
+  coalesce(
+    nullif(entry->>'title', ''),
+    nullif(entry->>'name', ''),
+    (SELECT string_agg(value, ' / ') FROM jsonb_each_text(options)),
+    entry->>'sku'
+  ),
+  options,
+  CASE WHEN entry->>'price' ~ '^[0-9]+(\.[0-9]+)?$' THEN (entry->>'price')::numeric ELSE product_price END,
+  CASE WHEN entry->>'costPrice' ~ '^[0-9]+(\.[0-9]+)?$' THEN (entry->>'costPrice')::numeric END,
+  nullif(coalesce(entry->>'barcode', entry->>'gtin'), ''),
+  CASE
+    WHEN jsonb_typeof(entry->'images') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(entry->'images'))
+    ELSE '{}'::text[]
+  END,
+  position,
+  now()
+FROM legacy_variant;
+
+-- Option names in the order the variants first use them
+UPDATE "Product" p
+SET options = names.options
+FROM (
+  SELECT product_id, array_agg(key ORDER BY first_position, key) AS options
+  FROM (
+    SELECT product_id, key, min(position) AS first_position
+    FROM legacy_variant, jsonb_object_keys(options) AS key
+    GROUP BY product_id, key
+  ) keys
+  GROUP BY product_id
+) names
+WHERE p.id = names.product_id;
+
+UPDATE "Product"
+SET variants = NULL
+WHERE id IN (SELECT product_id FROM legacy_variant);
+
+COMMIT;
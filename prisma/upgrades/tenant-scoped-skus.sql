@@ -0,0 +1,7 @@
+-- SKUs become unique per user instead of across all users.
+-- Safe to run on existing data: SKUs that were unique globally are unique per user too.
+-- Run with: npx prisma db execute --file prisma/upgrades/tenant-scoped-skus.sql --schema prisma/schema.prisma
+
+DROP INDEX IF EXISTS "Product_sku_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "Product_userId_sku_key" ON "Product"("userId", "sku");
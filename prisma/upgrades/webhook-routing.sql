@@ -0,0 +1,24 @@
+-- Webhooks are routed to a connection by the account identifier in its metadata or by the
+-- webhook token in the URL they were registered with. This fills both in for connections
+-- made before they were stored. Google merchant IDs are looked up on the next token refresh.
+-- Amazon seller IDs only come with the OAuth redirect, those connections have to be reconnected.
+-- Safe to run again, only missing values are set.
+-- Run with: npx prisma db execute --file prisma/upgrades/webhook-routing.sql --schema prisma/schema.prisma
+
+BEGIN;
+
+-- 24 random bytes as hex, like generateToken()
+UPDATE "PlatformConnection"
+SET metadata = CASE WHEN jsonb_typeof(metadata) = 'object' THEN metadata ELSE '{}'::jsonb END || jsonb_build_object(
+  'webhookToken', substr(replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''), 1, 48)
+)
+WHERE jsonb_typeof(metadata) IS DISTINCT FROM 'object' OR NOT metadata ? 'webhookToken';
+
+-- Etsy connections kept the seller's shops, the first one is the shop that is synced
+UPDATE "PlatformConnection"
+SET metadata = metadata || jsonb_build_object('shopId', metadata->'shops'->0->>'shopId')
+WHERE platform = 'ETSY'
+  AND NOT metadata ? 'shopId'
+  AND metadata->'shops'->0->>'shopId' IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,240 @@
+import { Platform } from "@prisma/client"
+import { CircuitOpenError, NotFoundError, RateLimitedError, TransientError } from "@/lib/integrations/errors"
+import { PlatformTransport, TokenBucket, getCircuitStatus } from "@/lib/integrations/transport"
+
+jest.mock("@/lib/integrations/metrics", () => ({ recordApiCall: jest.fn() }))
+
+const fetchMock = jest.fn()
+let connections = 0
+
+// Circuits and rate limits are kept per connection, so each test gets its own
+function createTransport() {
+  const connectionId = `connection-${++connections}`
+  const transport = new PlatformTransport({
+    platform: Platform.SHOPIFY,
+    label: "Shopify API",
+    connectionId,
+    rateLimit: { ratePerSecond: 1000, burst: 1000 },
+  })
+
+  return { transport, connectionId }
+}
+
+function reply(status: number, headers: Record<string, string> = {}) {
+  return new Response(status === 204 ? null : "{}", { status, headers })
+}
+
+beforeAll(() => {
+  global.fetch = fetchMock
+})
+
+beforeEach(() => {
+  fetchMock.mockReset()
+  // No backoff between retries
+  jest.spyOn(Math, "random").mockReturnValue(0)
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("PlatformTransport retries", () => {
+  it("retries server errors on reads", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValueOnce(reply(503)).mockResolvedValueOnce(reply(200))
+
+    const response = await transport.request("https://example.com/products")
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not repeat a POST after a server error", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValue(reply(500))
+
+    await expect(transport.request("https://example.com/orders", { method: "POST" })).rejects.toBeInstanceOf(
+      TransientError
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("repeats an idempotent POST after a server error", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValueOnce(reply(502)).mockResolvedValueOnce(reply(200))
+
+    await transport.request("https://example.com/graphql", { method: "POST", idempotent: true })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("repeats any request after a 429", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValueOnce(reply(429)).mockResolvedValueOnce(reply(201))
+
+    const response = await transport.request("https://example.com/orders", { method: "POST" })
+
+    expect(response.status).toBe(201)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up after four retries", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockImplementation(async () => reply(503))
+
+    await expect(transport.request("https://example.com/products")).rejects.toBeInstanceOf(TransientError)
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+  })
+
+  it("leaves Retry-After waits over a minute to the caller", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValue(reply(429, { "retry-after": "120" }))
+
+    await expect(transport.request("https://example.com/products")).rejects.toBeInstanceOf(RateLimitedError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not retry client errors", async () => {
+    const { transport } = createTransport()
+    fetchMock.mockResolvedValue(reply(404))
+
+    await expect(transport.request("https://example.com/products/1")).rejects.toBeInstanceOf(NotFoundError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("PlatformTransport circuit", () => {
+  // Each failed POST is one call without retries
+  async function fail(transport: PlatformTransport, status: number) {
+    fetchMock.mockResolvedValueOnce(reply(status))
+    await transport.request("https://example.com/orders", { method: "POST" }).catch(() => undefined)
+  }
+
+  it("opens after five outages in a row and rejects calls without sending them", async () => {
+    const { transport, connectionId } = createTransport()
+
+    for (let i = 0; i < 5; i++) {
+      await fail(transport, 503)
+    }
+
+    expect(getCircuitStatus(connectionId)).toBe("open")
+    await expect(transport.request("https://example.com/products")).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+  })
+
+  it("counts network errors as outages", async () => {
+    const { transport, connectionId } = createTransport()
+
+    for (let i = 0; i < 5; i++) {
+      fetchMock.mockRejectedValueOnce(new TypeError("fetch failed"))
+      await transport.request("https://example.com/orders", { method: "POST" }).catch(() => undefined)
+    }
+
+    expect(getCircuitStatus(connectionId)).toBe("open")
+  })
+
+  it("does not count throttling", async () => {
+    const { transport, connectionId } = createTransport()
+    fetchMock.mockImplementation(async () => reply(429))
+
+    for (let i = 0; i < 5; i++) {
+      await expect(transport.request("https://example.com/products")).rejects.toBeInstanceOf(RateLimitedError)
+    }
+
+    expect(getCircuitStatus(connectionId)).toBe("closed")
+  })
+
+  it("starts counting again after a client error", async () => {
+    const { transport, connectionId } = createTransport()
+
+    for (let i = 0; i < 4; i++) {
+      await fail(transport, 500)
+    }
+    await fail(transport, 422)
+    for (let i = 0; i < 4; i++) {
+      await fail(transport, 500)
+    }
+
+    expect(getCircuitStatus(connectionId)).toBe("closed")
+  })
+
+  it("lets one trial call through after the cool-down and closes when it succeeds", async () => {
+    const { transport, connectionId } = createTransport()
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+
+    for (let i = 0; i < 5; i++) {
+      await fail(transport, 503)
+    }
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 60_000)
+    expect(getCircuitStatus(connectionId)).toBe("half-open")
+
+    fetchMock.mockResolvedValueOnce(reply(200))
+    await transport.request("https://example.com/products")
+
+    expect(getCircuitStatus(connectionId)).toBe("closed")
+  })
+
+  it("opens again when the trial call fails", async () => {
+    const { transport, connectionId } = createTransport()
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+
+    for (let i = 0; i < 5; i++) {
+      await fail(transport, 503)
+    }
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 60_000)
+    await fail(transport, 503)
+
+    expect(getCircuitStatus(connectionId)).toBe("open")
+  })
+})
+
+describe("TokenBucket", () => {
+  it("lets the burst through and then spaces calls at the rate", () => {
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+    const bucket = new TokenBucket({ ratePerSecond: 2, burst: 2 })
+
+    expect(bucket.reserve()).toBe(0)
+    expect(bucket.reserve()).toBe(0)
+    expect(bucket.reserve()).toBe(500)
+    expect(bucket.reserve()).toBe(1000)
+  })
+
+  it("refills over time up to the burst", () => {
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+    const bucket = new TokenBucket({ ratePerSecond: 1, burst: 2 })
+    bucket.reserve()
+    bucket.reserve()
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 10_000)
+
+    expect(bucket.reserve()).toBe(0)
+    expect(bucket.reserve()).toBe(0)
+    expect(bucket.reserve()).toBe(1000)
+  })
+
+  it("waits out a pause even with tokens left", () => {
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+    const bucket = new TokenBucket({ ratePerSecond: 10, burst: 10 })
+
+    bucket.pause(5000)
+
+    expect(bucket.reserve()).toBe(5000)
+  })
+
+  it("adopts the remaining allowance the platform reports", () => {
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+    const bucket = new TokenBucket({ ratePerSecond: 1, burst: 40 })
+
+    bucket.sync(0)
+
+    expect(bucket.reserve()).toBe(1000)
+  })
+})
@@ -0,0 +1,197 @@
+import { OrderItem } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { InventoryLedger, StockLine } from "@/lib/inventory/ledger"
+import { reconcileOrderStock } from "@/lib/inventory/order-stock"
+import { chooseFulfillmentLocation } from "@/lib/inventory/routing"
+
+const mockTx = {
+  order: { findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  orderItem: { update: jest.fn() },
+}
+const mockLedger = {
+  commitSale: jest.fn(),
+  recordReturn: jest.fn(),
+  publishDeferredEvents: jest.fn(),
+}
+
+jest.mock("@/lib/db/client", () => ({
+  prisma: {
+    $transaction: jest.fn((run: (tx: unknown) => unknown) => run(mockTx)),
+    notification: { create: jest.fn() },
+  },
+}))
+jest.mock("@/lib/orders/locks", () => ({ lockOrder: jest.fn() }))
+jest.mock("@/lib/inventory/routing", () => ({ chooseFulfillmentLocation: jest.fn() }))
+jest.mock("@/lib/inventory/ledger", () => ({ InventoryLedger: jest.fn(() => mockLedger) }))
+
+function item(id: string, overrides: Partial<OrderItem> = {}): OrderItem {
+  return {
+    id,
+    productId: "product-1",
+    variantId: null,
+    quantity: 2,
+    stockDeducted: 0,
+    stockShort: 0,
+    ...overrides,
+  } as OrderItem
+}
+
+function order(status: string, items: OrderItem[], fulfillmentLocationId: string | null = "warehouse") {
+  mockTx.order.findUniqueOrThrow.mockResolvedValue({
+    id: "order-1",
+    platformOrderId: "1001",
+    platform: "SHOPIFY",
+    status,
+    fulfillmentLocationId,
+    items,
+  })
+}
+
+// The ledger takes up to the given units per product, as if that were on hand
+function onHand(units: Record<string, number>) {
+  mockLedger.commitSale.mockImplementation(async (lines: StockLine[]) =>
+    lines.map((line) => ({ ...line, taken: Math.min(line.quantity, units[line.productId] ?? 0) }))
+  )
+}
+
+function savedLines() {
+  return Object.fromEntries(
+    mockTx.orderItem.update.mock.calls.map(([{ where, data }]) => [where.id, data])
+  )
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe("reconcileOrderStock", () => {
+  it("takes the units of new lines and records them on each line", async () => {
+    order("PENDING", [item("a"), item("b", { productId: "product-2", quantity: 1 })])
+    onHand({ "product-1": 10, "product-2": 10 })
+
+    const changed = await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockLedger.commitSale).toHaveBeenCalledWith(
+      [
+        { productId: "product-1", variantId: null, quantity: 2 },
+        { productId: "product-2", variantId: null, quantity: 1 },
+      ],
+      expect.objectContaining({ orderId: "order-1", locationId: "warehouse" })
+    )
+    expect(savedLines()).toEqual({
+      a: { stockDeducted: 2, stockShort: 0 },
+      b: { stockDeducted: 1, stockShort: 0 },
+    })
+    expect(changed).toEqual(["product-1", "product-2"])
+    expect(mockLedger.publishDeferredEvents).toHaveBeenCalled()
+    expect(prisma.notification.create).not.toHaveBeenCalled()
+  })
+
+  it("only moves the difference when called again", async () => {
+    order("PENDING", [item("a", { quantity: 5, stockDeducted: 2 })])
+    onHand({ "product-1": 10 })
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockLedger.commitSale).toHaveBeenCalledWith(
+      [{ productId: "product-1", variantId: null, quantity: 3 }],
+      expect.anything()
+    )
+    expect(savedLines()).toEqual({ a: { stockDeducted: 5, stockShort: 0 } })
+  })
+
+  it("keeps units sold beyond on hand as short and notifies the user", async () => {
+    order("PENDING", [item("a", { quantity: 4 })])
+    onHand({ "product-1": 1 })
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(savedLines()).toEqual({ a: { stockDeducted: 1, stockShort: 3 } })
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "OUT_OF_STOCK",
+        metadata: { orderId: "order-1", productIds: ["product-1"] },
+      }),
+    })
+  })
+
+  it("splits what a shared product took over its lines in order", async () => {
+    order("PENDING", [item("a", { quantity: 2 }), item("b", { quantity: 3 })])
+    onHand({ "product-1": 4 })
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockLedger.commitSale).toHaveBeenCalledWith(
+      [{ productId: "product-1", variantId: null, quantity: 5 }],
+      expect.anything()
+    )
+    expect(savedLines()).toEqual({
+      a: { stockDeducted: 2, stockShort: 0 },
+      b: { stockDeducted: 2, stockShort: 1 },
+    })
+  })
+
+  it("returns the units a cancelled order took, short units are only forgotten", async () => {
+    order("CANCELLED", [item("a", { quantity: 4, stockDeducted: 3, stockShort: 1 })])
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockLedger.commitSale).not.toHaveBeenCalled()
+    expect(mockLedger.recordReturn).toHaveBeenCalledWith(
+      "product-1",
+      3,
+      expect.objectContaining({ orderId: "order-1", locationId: "warehouse" })
+    )
+    expect(savedLines()).toEqual({ a: { stockDeducted: 0, stockShort: 0 } })
+  })
+
+  it("gives back short units before on hand ones when a line shrinks", async () => {
+    order("PENDING", [item("a", { quantity: 1, stockDeducted: 2, stockShort: 2 })])
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockLedger.recordReturn).toHaveBeenCalledWith("product-1", 1, expect.anything())
+    expect(savedLines()).toEqual({ a: { stockDeducted: 1, stockShort: 0 } })
+  })
+
+  it("returns the units of removed lines", async () => {
+    order("PENDING", [])
+
+    await reconcileOrderStock("user-1", "order-1", [
+      { productId: "product-1", variantId: "variant-1", stockDeducted: 2 },
+      { productId: null, variantId: null, stockDeducted: null },
+    ])
+
+    expect(mockLedger.recordReturn).toHaveBeenCalledTimes(1)
+    expect(mockLedger.recordReturn).toHaveBeenCalledWith(
+      "product-1",
+      2,
+      expect.objectContaining({ variantId: "variant-1" })
+    )
+  })
+
+  it("skips lines without a product or with untracked stock", async () => {
+    order("PENDING", [item("a", { productId: null }), item("b", { stockDeducted: null })])
+
+    expect(await reconcileOrderStock("user-1", "order-1")).toEqual([])
+    expect(InventoryLedger).not.toHaveBeenCalled()
+    expect(mockTx.orderItem.update).not.toHaveBeenCalled()
+  })
+
+  it("picks where an order ships from on its first sale", async () => {
+    order("PENDING", [item("a")], null)
+    onHand({ "product-1": 10 })
+    ;(chooseFulfillmentLocation as jest.Mock).mockResolvedValue("store")
+
+    await reconcileOrderStock("user-1", "order-1")
+
+    expect(mockTx.order.update).toHaveBeenCalledWith({
+      where: { id: "order-1" },
+      data: { fulfillmentLocationId: "store" },
+    })
+    expect(mockLedger.commitSale).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ locationId: "store" })
+    )
+  })
+})
@@ -0,0 +1,64 @@
+import { canTransition, isLaterStatus } from "@/lib/orders/lifecycle"
+import { ORDER_STATUS, ORDER_TRANSITIONS, OrderStatus } from "@/types/order"
+
+jest.mock("@/lib/db/client", () => ({ prisma: {} }))
+jest.mock("@/lib/inventory/order-stock", () => ({ holdsStock: jest.fn(), reconcileOrderStock: jest.fn() }))
+jest.mock("@/lib/sync/inventory-sync", () => ({ InventorySyncEngine: jest.fn() }))
+
+const statuses = Object.values(ORDER_STATUS) as OrderStatus[]
+
+describe("ORDER_TRANSITIONS", () => {
+  it("lists every status", () => {
+    expect(Object.keys(ORDER_TRANSITIONS).sort()).toEqual([...statuses].sort())
+  })
+
+  it("only moves to known statuses and never to the same one", () => {
+    for (const from of statuses) {
+      for (const to of ORDER_TRANSITIONS[from]) {
+        expect(statuses).toContain(to)
+        expect(to).not.toBe(from)
+      }
+    }
+  })
+
+  it("has no cycles", () => {
+    for (const from of statuses) {
+      expect(isLaterStatus(from, from)).toBe(false)
+    }
+  })
+
+  it("ends at REFUNDED", () => {
+    expect(ORDER_TRANSITIONS.REFUNDED).toEqual([])
+    for (const from of statuses.filter((status) => status !== ORDER_STATUS.REFUNDED)) {
+      expect(isLaterStatus(from, ORDER_STATUS.REFUNDED)).toBe(true)
+    }
+  })
+})
+
+describe("canTransition", () => {
+  it("allows the listed moves", () => {
+    expect(canTransition(ORDER_STATUS.PENDING, ORDER_STATUS.PROCESSING)).toBe(true)
+    expect(canTransition(ORDER_STATUS.PENDING, ORDER_STATUS.SHIPPED)).toBe(true)
+    expect(canTransition(ORDER_STATUS.SHIPPED, ORDER_STATUS.DELIVERED)).toBe(true)
+    expect(canTransition(ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED)).toBe(true)
+  })
+
+  it("rejects skipped, backward and unknown moves", () => {
+    expect(canTransition(ORDER_STATUS.PENDING, ORDER_STATUS.DELIVERED)).toBe(false)
+    expect(canTransition(ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED)).toBe(false)
+    expect(canTransition(ORDER_STATUS.DELIVERED, ORDER_STATUS.SHIPPED)).toBe(false)
+    expect(canTransition("ON_HOLD", ORDER_STATUS.PROCESSING)).toBe(false)
+  })
+})
+
+describe("isLaterStatus", () => {
+  it("follows transitions over several steps", () => {
+    expect(isLaterStatus(ORDER_STATUS.PENDING, ORDER_STATUS.DELIVERED)).toBe(true)
+    expect(isLaterStatus(ORDER_STATUS.PROCESSING, ORDER_STATUS.REFUNDED)).toBe(true)
+  })
+
+  it("is false for earlier or unreachable statuses", () => {
+    expect(isLaterStatus(ORDER_STATUS.SHIPPED, ORDER_STATUS.PROCESSING)).toBe(false)
+    expect(isLaterStatus(ORDER_STATUS.DELIVERED, ORDER_STATUS.CANCELLED)).toBe(false)
+  })
+})
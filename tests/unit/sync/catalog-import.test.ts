@@ -0,0 +1,86 @@
+import { CatalogMatchType } from "@prisma/client"
+import { CatalogMatcher, titleSimilarity } from "@/lib/sync/catalog-import"
+import { PlatformProduct } from "@/types/platforms"
+
+jest.mock("@/lib/db/client", () => ({ prisma: {} }))
+jest.mock("@/lib/integrations/registry", () => ({ getPlatformAdapter: jest.fn() }))
+jest.mock("@/lib/inventory/ledger", () => ({ InventoryLedger: jest.fn() }))
+
+function listing(overrides: Partial<PlatformProduct>): PlatformProduct {
+  return {
+    platformProductId: "listing-1",
+    title: "Unrelated listing",
+    images: [],
+    status: "active",
+    ...overrides,
+  }
+}
+
+const products = [
+  { id: "mug", sku: "MUG-01", gtin: "0012345678905", title: "Blue Ceramic Coffee Mug" },
+  { id: "tee", sku: "TEE-01", gtin: null, title: "Organic Cotton T-Shirt, Large" },
+]
+
+describe("titleSimilarity", () => {
+  it("is 1 for equal titles", () => {
+    expect(titleSimilarity("coffee mug", "coffee mug")).toBe(1)
+  })
+
+  it("is 0 when no character pairs are shared", () => {
+    expect(titleSimilarity("abc", "xyz")).toBe(0)
+  })
+
+  it("is 0 for titles too short to have pairs", () => {
+    expect(titleSimilarity("a", "ab")).toBe(0)
+  })
+
+  it("counts repeated pairs only as often as both titles have them", () => {
+    // "aaaa" has three "aa" pairs, "aa" has one
+    expect(titleSimilarity("aaaa", "aa")).toBeCloseTo(0.5)
+  })
+
+  it("scores small edits higher than different titles", () => {
+    const edited = titleSimilarity("blue ceramic coffee mug", "blue ceramic coffee mugs")
+    const different = titleSimilarity("blue ceramic coffee mug", "organic cotton t shirt")
+
+    expect(edited).toBeGreaterThan(0.9)
+    expect(different).toBeLessThan(0.3)
+  })
+})
+
+describe("CatalogMatcher", () => {
+  const matcher = new CatalogMatcher(products, [{ productId: "tee", platformProductId: "listing-tee" }])
+
+  it("matches by SKU first, ignoring surrounding whitespace", () => {
+    expect(matcher.match(listing({ sku: " MUG-01 ", platformProductId: "listing-tee" }))).toEqual({
+      matchType: CatalogMatchType.SKU,
+      productId: "mug",
+    })
+  })
+
+  it("matches a listing that is already linked", () => {
+    expect(matcher.match(listing({ sku: "UNKNOWN", platformProductId: "listing-tee" }))).toEqual({
+      matchType: CatalogMatchType.LISTING,
+      productId: "tee",
+    })
+  })
+
+  it("matches barcodes without leading zeros or separators", () => {
+    expect(matcher.match(listing({ gtin: "12345-678905" }))).toEqual({
+      matchType: CatalogMatchType.GTIN,
+      productId: "mug",
+    })
+  })
+
+  it("matches the most similar title above the threshold", () => {
+    const match = matcher.match(listing({ title: "Blue ceramic coffee mug!" }))
+
+    expect(match.matchType).toBe(CatalogMatchType.TITLE)
+    expect(match.productId).toBe("mug")
+    expect(match.matchScore).toBe(1)
+  })
+
+  it("does not match titles below the threshold", () => {
+    expect(matcher.match(listing({ title: "Blue Glass Vase" }))).toEqual({ matchType: CatalogMatchType.NONE })
+  })
+})
@@ -0,0 +1,84 @@
+import { InventoryLevel, LocationType, Platform } from "@prisma/client"
+import { prisma } from "@/lib/db/client"
+import { InventorySyncEngine } from "@/lib/sync/inventory-sync"
+
+jest.mock("@/lib/db/client", () => ({
+  prisma: { locationPlatformMapping: { findMany: jest.fn() } },
+}))
+jest.mock("@/lib/integrations/registry", () => ({ getPlatformAdapter: jest.fn() }))
+jest.mock("@/lib/inventory/ledger", () => ({ InventoryLedger: jest.fn() }))
+
+const findMappings = prisma.locationPlatformMapping.findMany as jest.Mock
+
+function level(locationId: string, quantity: number, reservedQuantity = 0): InventoryLevel {
+  return { locationId, quantity, reservedQuantity } as InventoryLevel
+}
+
+// Mappings come back in location priority order
+function mapped(...pairs: Array<[string, string]>) {
+  findMappings.mockResolvedValue(
+    pairs.map(([locationId, platformLocationId]) => ({ locationId, platformLocationId }))
+  )
+}
+
+describe("InventorySyncEngine splitAcrossPlatformLocations", () => {
+  const engine = new InventorySyncEngine("user-1")
+  const split = (levels: InventoryLevel[], quantity: number) =>
+    engine["splitAcrossPlatformLocations"](Platform.SHOPIFY, levels, quantity)
+
+  beforeEach(() => {
+    findMappings.mockReset()
+  })
+
+  it("pushes everything to the default location when nothing is mapped", async () => {
+    mapped()
+
+    expect(await split([level("warehouse", 5)], 7)).toEqual(new Map([[undefined, 7]]))
+  })
+
+  it("fills mapped locations in priority order with what each has available", async () => {
+    mapped(["warehouse", "shopify-a"], ["store", "shopify-b"])
+
+    const pushes = await split([level("warehouse", 6, 2), level("store", 10)], 9)
+
+    expect(pushes).toEqual(
+      new Map([
+        ["shopify-a", 4],
+        ["shopify-b", 5],
+      ])
+    )
+  })
+
+  it("pushes 0 to locations without stock", async () => {
+    mapped(["warehouse", "shopify-a"], ["store", "shopify-b"])
+
+    const pushes = await split([level("warehouse", 3, 5)], 3)
+
+    expect(pushes).toEqual(
+      new Map([
+        ["shopify-a", 0],
+        ["shopify-b", 0],
+      ])
+    )
+  })
+
+  it("adds up our locations that map to the same platform location", async () => {
+    mapped(["warehouse", "amazon-mfn"], ["store", "amazon-mfn"])
+
+    expect(await split([level("warehouse", 2), level("store", 3)], 10)).toEqual(new Map([["amazon-mfn", 5]]))
+  })
+
+  it("only asks for active locations that are not fulfillment services", async () => {
+    mapped()
+    await split([], 1)
+
+    expect(findMappings).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          platform: Platform.SHOPIFY,
+          location: { userId: "user-1", active: true, type: { not: LocationType.FULFILLMENT_SERVICE } },
+        },
+      })
+    )
+  })
+})
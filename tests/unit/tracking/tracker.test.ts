@@ -0,0 +1,202 @@
+import { prisma } from "@/lib/db/client"
+import { OrderLifecycle } from "@/lib/orders/lifecycle"
+import { ShipmentTracker } from "@/lib/tracking/tracker"
+import { FULFILLMENT_STATUS, ORDER_STATUS } from "@/types/order"
+import { TRACKING_STATUS } from "@/types/tracking"
+
+const HOUR_MS = 60 * 60 * 1000
+
+const mockLifecycle = { transition: jest.fn() }
+const mockFulfillments = { createFulfillment: jest.fn() }
+
+jest.mock("@/lib/db/client", () => ({
+  prisma: {
+    order: { findMany: jest.fn(), update: jest.fn(), findUniqueOrThrow: jest.fn() },
+    fulfillment: { findMany: jest.fn(), update: jest.fn() },
+    trackingEvent: { createMany: jest.fn(), updateMany: jest.fn() },
+    notification: { create: jest.fn() },
+  },
+}))
+jest.mock("@/lib/orders/lifecycle", () => ({
+  OrderLifecycle: jest.fn(() => mockLifecycle),
+  InvalidTransitionError: class InvalidTransitionError extends Error {},
+}))
+jest.mock("@/lib/sync/fulfillment-sync", () => ({
+  FulfillmentSyncEngine: jest.fn(() => mockFulfillments),
+  FulfillmentQuantityError: class FulfillmentQuantityError extends Error {},
+}))
+
+const db = prisma as unknown as {
+  order: { findMany: jest.Mock; update: jest.Mock; findUniqueOrThrow: jest.Mock }
+  fulfillment: { findMany: jest.Mock; update: jest.Mock }
+  trackingEvent: { createMany: jest.Mock; updateMany: jest.Mock }
+  notification: { create: jest.Mock }
+}
+
+// A label printed by the fake shipping carrier some hours ago
+function fakeLabel(hoursAgo: number): { trackingNumber: string; createdAt: number } {
+  const createdAt = Date.now() - hoursAgo * HOUR_MS
+  return { trackingNumber: `TRK${createdAt}`, createdAt }
+}
+
+function awaitingPickup(trackingNumber: string) {
+  return {
+    id: "order-1",
+    platformOrderId: "1001",
+    status: ORDER_STATUS.PROCESSING,
+    trackingNumber,
+    carrier: null,
+  }
+}
+
+function inTransit(trackingNumber: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: "fulfillment-1",
+    orderId: "order-1",
+    trackingNumber,
+    carrier: "FAKE",
+    delayNotifiedAt: null,
+    order: { id: "order-1", platformOrderId: "1001" },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  db.order.findMany.mockResolvedValue([])
+  db.fulfillment.findMany.mockResolvedValue([])
+})
+
+describe("ShipmentTracker awaiting pickup", () => {
+  it("records the shipment once the carrier scans the parcel", async () => {
+    const { trackingNumber, createdAt } = fakeLabel(30)
+    db.order.findMany.mockResolvedValue([awaitingPickup(trackingNumber)])
+    mockFulfillments.createFulfillment.mockResolvedValue(inTransit(trackingNumber))
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(mockFulfillments.createFulfillment).toHaveBeenCalledWith(
+      "order-1",
+      { trackingNumber, carrier: "FAKE", shippedAt: new Date(createdAt + 24 * HOUR_MS) },
+      { type: "CARRIER", id: "FAKE" }
+    )
+    // Label created and picked up
+    expect(db.trackingEvent.createMany.mock.calls[0][0].data).toHaveLength(2)
+    expect(db.fulfillment.update).toHaveBeenCalledWith({
+      where: { id: "fulfillment-1" },
+      data: expect.objectContaining({ trackingStatus: TRACKING_STATUS.IN_TRANSIT, deliveredAt: null }),
+    })
+    expect(summary).toEqual({ polled: 1, shipped: 1, delivered: 0, delayed: 0, failed: 0 })
+  })
+
+  it("waits while the label is only printed", async () => {
+    const { trackingNumber } = fakeLabel(1)
+    db.order.findMany.mockResolvedValue([awaitingPickup(trackingNumber)])
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(mockFulfillments.createFulfillment).not.toHaveBeenCalled()
+    expect(summary.shipped).toBe(0)
+  })
+
+  it("remembers when each order was polled", async () => {
+    const { trackingNumber } = fakeLabel(1)
+    db.order.findMany.mockResolvedValue([awaitingPickup(trackingNumber)])
+
+    await new ShipmentTracker("user-1").pollShipments()
+
+    expect(db.order.update).toHaveBeenCalledWith({
+      where: { id: "order-1" },
+      data: { trackingPolledAt: expect.any(Date) },
+    })
+  })
+
+  it("only asks for recent orders not polled in the last interval", async () => {
+    await new ShipmentTracker("user-1").pollShipments()
+
+    const { where, orderBy } = db.order.findMany.mock.calls[0][0]
+    expect(where.orderDate.gte.getTime()).toBeCloseTo(Date.now() - 60 * 24 * HOUR_MS, -4)
+    expect(where.OR[1].trackingPolledAt.lt.getTime()).toBeCloseTo(Date.now() - 2 * HOUR_MS, -4)
+    expect(orderBy[0]).toEqual({ trackingPolledAt: { sort: "asc", nulls: "first" } })
+  })
+})
+
+describe("ShipmentTracker in transit", () => {
+  it("delivers the order once every parcel is delivered", async () => {
+    db.fulfillment.findMany.mockResolvedValue([inTransit("FAKE-DELIVERED")])
+    db.order.findUniqueOrThrow.mockResolvedValue({
+      id: "order-1",
+      status: ORDER_STATUS.SHIPPED,
+      fulfillmentStatus: FULFILLMENT_STATUS.FULFILLED,
+      fulfillments: [{ trackingStatus: TRACKING_STATUS.DELIVERED }],
+    })
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(db.fulfillment.update).toHaveBeenCalledWith({
+      where: { id: "fulfillment-1" },
+      data: expect.objectContaining({
+        trackingStatus: TRACKING_STATUS.DELIVERED,
+        deliveredAt: new Date("2024-01-01T00:00:00Z"),
+      }),
+    })
+    expect(mockLifecycle.transition).toHaveBeenCalledWith(
+      "order-1",
+      ORDER_STATUS.DELIVERED,
+      { type: "CARRIER", id: "FAKE" },
+      expect.anything()
+    )
+    expect(summary.delivered).toBe(1)
+  })
+
+  it("waits for the order's other parcels", async () => {
+    db.fulfillment.findMany.mockResolvedValue([inTransit("FAKE-DELIVERED")])
+    db.order.findUniqueOrThrow.mockResolvedValue({
+      id: "order-1",
+      status: ORDER_STATUS.SHIPPED,
+      fulfillmentStatus: FULFILLMENT_STATUS.FULFILLED,
+      fulfillments: [{ trackingStatus: TRACKING_STATUS.DELIVERED }, { trackingStatus: TRACKING_STATUS.IN_TRANSIT }],
+    })
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(OrderLifecycle).not.toHaveBeenCalled()
+    expect(summary.delivered).toBe(0)
+  })
+
+  it("notifies the user of a carrier exception once", async () => {
+    db.fulfillment.findMany.mockResolvedValue([inTransit("FAKE-EXCEPTION")])
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(db.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "DELAYED_SHIPMENT",
+        message: "FAKE reported a problem with FAKE-EXCEPTION: Simulated exception",
+      }),
+    })
+    expect(db.fulfillment.update.mock.calls[0][0].data.delayNotifiedAt).toEqual(expect.any(Date))
+    expect(summary.delayed).toBe(1)
+
+    jest.clearAllMocks()
+    db.order.findMany.mockResolvedValue([])
+    db.fulfillment.findMany.mockResolvedValue([inTransit("FAKE-EXCEPTION", { delayNotifiedAt: new Date() })])
+
+    await new ShipmentTracker("user-1").pollShipments()
+
+    expect(db.notification.create).not.toHaveBeenCalled()
+  })
+
+  it("tries unknown tracking numbers again next interval without counting them", async () => {
+    db.fulfillment.findMany.mockResolvedValue([inTransit("NOT-A-NUMBER", { carrier: null })])
+
+    const summary = await new ShipmentTracker("user-1").pollShipments()
+
+    expect(db.fulfillment.update).toHaveBeenCalledWith({
+      where: { id: "fulfillment-1" },
+      data: { lastTrackedAt: expect.any(Date) },
+    })
+    expect(db.trackingEvent.createMany).not.toHaveBeenCalled()
+    expect(summary.polled).toBe(0)
+  })
+})
@@ -0,0 +1,17 @@
+// Internal events users can subscribe their own endpoints to
+export const OUTBOUND_EVENTS = [
+  "order.imported",
+  "inventory.low_stock",
+  "sync.failed",
+  "agent.action.completed",
+] as const
+
+export type OutboundEvent = (typeof OUTBOUND_EVENTS)[number]
+
+// Body POSTed to subscribed endpoints
+export type OutboundEventPayload = {
+  id: string
+  event: OutboundEvent
+  createdAt: string
+  data: Record<string, any>
+}
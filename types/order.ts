@@ -1,10 +1,13 @@
 import { Platform } from "@prisma/client"
+import { PlatformErrorDetails } from "@/types/platforms"
 
 export interface OrderSyncResult {
   platform: Platform
   success: boolean
   orderCount?: number
-  error?: string
+  // Orders the platform returned that could not be saved
+  failedCount?: number
+  error?: PlatformErrorDetails
 }
 
 export interface OrderItem {
@@ -37,13 +40,89 @@ export interface Order {
   updatedAt: Date
 }
 
+// Order as returned by a platform adapter, before it is saved locally
+export interface PlatformOrderItem {
+  sku: string
+  title: string
+  quantity: number
+  // Unit price
+  price: number
+  // Line total after discounts
+  total?: number
+  platformItemId?: string
+  // Matches PlatformListing.platformProductId, used to link items without a known SKU
+  platformProductId?: string
+}
+
+export interface OrderAddress {
+  name?: string
+  addressLine1?: string
+  addressLine2?: string
+  city?: string
+  state?: string
+  postalCode?: string
+  country?: string
+  phone?: string
+}
+
+export interface PlatformOrder {
+  platformOrderId: string
+  // The number shown to sellers and buyers, when it differs from the ID
+  platformOrderNumber?: string
+  status: OrderStatus
+  paymentStatus?: PaymentStatus
+  fulfillmentStatus?: FulfillmentStatus
+  customerName: string
+  customerEmail?: string
+  shippingAddress: OrderAddress
+  billingAddress?: OrderAddress
+  subtotal?: number
+  tax?: number
+  shipping?: number
+  total: number
+  currency: string
+  orderDate: Date
+  items: PlatformOrderItem[]
+}
+
 export interface OrderImportOptions {
+  // Creation date range, for imports and backfills
   startDate?: Date
   endDate?: Date
+  // Orders created or changed since, for incremental syncs
+  updatedSince?: Date
   status?: string
   limit?: number
 }
 
+// A shipment sent back to the marketplace the order came from
+export interface FulfillmentLine {
+  // The marketplace's line item ID, OrderItem.platformItemId
+  platformItemId: string
+  sku: string
+  quantity: number
+}
+
+export interface PlatformFulfillment {
+  // Our fulfillment ID, sent as the idempotency key to platforms that take one
+  reference: string
+  // Position among the order's shipments, starting at 1
+  sequence: number
+  trackingNumber: string
+  carrier: string
+  trackingUrl?: string
+  shippedAt: Date
+  lines: FulfillmentLine[]
+  // True when nothing on the order is left to ship after this
+  completesOrder: boolean
+}
+
+// What the marketplace returned for a submitted fulfillment
+export interface FulfillmentAcknowledgement {
+  platformFulfillmentId?: string
+  response?: any
+}
+
 export interface OrderUpdateData {
   status?: string
   trackingNumber?: string
@@ -62,3 +141,60 @@ export const ORDER_STATUS = {
 } as const
 
 export type OrderStatus = typeof ORDER_STATUS[keyof typeof ORDER_STATUS]
+
+// Statuses an order may move to from each status, see lib/orders/lifecycle.ts
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [ORDER_STATUS.PROCESSING, ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED],
+  PROCESSING: [ORDER_STATUS.SHIPPED, ORDER_STATUS.CANCELLED],
+  SHIPPED: [ORDER_STATUS.DELIVERED, ORDER_STATUS.REFUNDED],
+  DELIVERED: [ORDER_STATUS.REFUNDED],
+  CANCELLED: [ORDER_STATUS.REFUNDED],
+  REFUNDED: [],
+}
+
+// Who moved an order to a status
+export const ORDER_ACTOR_TYPE = {
+  USER: "USER",
+  AGENT: "AGENT",
+  PLATFORM: "PLATFORM",
+  CARRIER: "CARRIER",
+} as const
+
+export type OrderActorType = typeof ORDER_ACTOR_TYPE[keyof typeof ORDER_ACTOR_TYPE]
+
+export interface OrderActor {
+  type: OrderActorType
+  // User ID, agent role, platform or carrier
+  id: string
+}
+
+export const PAYMENT_STATUS = {
+  PENDING: "PENDING",
+  AUTHORIZED: "AUTHORIZED",
+  PAID: "PAID",
+  PARTIALLY_REFUNDED: "PARTIALLY_REFUNDED",
+  REFUNDED: "REFUNDED",
+  VOIDED: "VOIDED",
+  FAILED: "FAILED",
+} as const
+
+export type PaymentStatus = typeof PAYMENT_STATUS[keyof typeof PAYMENT_STATUS]
+
+export const FULFILLMENT_STATUS = {
+  UNFULFILLED: "UNFULFILLED",
+  PARTIALLY_FULFILLED: "PARTIALLY_FULFILLED",
+  FULFILLED: "FULFILLED",
+} as const
+
+export type FulfillmentStatus = typeof FULFILLMENT_STATUS[keyof typeof FULFILLMENT_STATUS]
+
+export const FULFILLMENT_SUBMISSION_STATUS = {
+  PENDING: "PENDING",
+  // Claimed by a submitter, the platform call is in flight
+  SUBMITTING: "SUBMITTING",
+  SUBMITTED: "SUBMITTED",
+  FAILED: "FAILED",
+} as const
+
+export type FulfillmentSubmissionStatus =
+  typeof FULFILLMENT_SUBMISSION_STATUS[keyof typeof FULFILLMENT_SUBMISSION_STATUS]
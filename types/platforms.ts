@@ -1,4 +1,5 @@
-import { Platform } from "@prisma/client"
+import { Platform, PlatformListing, Product, ProductVariant } from "@prisma/client"
+import { FulfillmentAcknowledgement, OrderImportOptions, PlatformFulfillment, PlatformOrder } from "@/types/order"
 
 export interface PlatformConfig {
   name: string
@@ -20,12 +21,141 @@ export interface OAuthTokens {
   scope?: string
 }
 
-export interface PlatformApiClient {
-  fetchProducts: (options?: any) => Promise<any[]>
-  fetchOrders: (options?: any) => Promise<any[]>
-  updateInventory: (productId: string, quantity: number) => Promise<void>
-  createProduct: (product: any) => Promise<any>
-  updateProduct: (productId: string, updates: any) => Promise<any>
+export interface PlatformInventoryLevel {
+  sku: string
+  quantity: number
+  // Set by platforms that report stock per location
+  platformLocationId?: string
+}
+
+// A listing as the platform has it, for importing catalogs. Platforms that keep prices or
+// stock elsewhere (eBay offers, Amazon listings) leave them out
+export interface PlatformProduct {
+  platformProductId: string
+  sku?: string
+  gtin?: string
+  title: string
+  description?: string
+  price?: number
+  quantity?: number
+  images: string[]
+  platformUrl?: string
+  status: string
+}
+
+// One page of a platform listing. cursor is what fetched the page (absent for the first),
+// nextCursor is absent on the last page. Cursors are opaque: offsets, page numbers or tokens
+export interface PlatformPage<T> {
+  items: T[]
+  cursor?: string
+  nextCursor?: string
+  // Items across all pages, for platforms that report it
+  total?: number
+}
+
+// What went wrong on a platform call, which tells the user what to do about it:
+// reconnect (AUTH_EXPIRED, NOT_CONNECTED), fix the data (VALIDATION, NOT_FOUND) or wait
+export type PlatformErrorCode =
+  | "AUTH_EXPIRED"
+  | "NOT_CONNECTED"
+  | "RATE_LIMITED"
+  | "VALIDATION"
+  | "NOT_FOUND"
+  | "TRANSIENT"
+  | "UNKNOWN"
+
+export type PlatformFieldError = {
+  field?: string
+  message: string
+  code?: string
+}
+
+// Serializable form of a platform error, stored on listings and sync jobs. Object types
+// rather than interfaces, so they can be written to Json columns as they are.
+export type PlatformErrorDetails = {
+  code: PlatformErrorCode
+  platform: Platform
+  message: string
+  status: number | null
+  fields?: PlatformFieldError[]
+  retryAfter?: string
+  occurredAt: string
+}
+
+export const PLATFORM_ERROR_ACTIONS: Record<PlatformErrorCode, string> = {
+  AUTH_EXPIRED: "Reconnect the platform to resume syncing",
+  NOT_CONNECTED: "Connect the platform first",
+  RATE_LIMITED: "The platform is limiting requests, this will retry automatically",
+  VALIDATION: "The platform rejected the data, fix the fields below and sync again",
+  NOT_FOUND: "The item no longer exists on the platform, sync again to recreate it",
+  TRANSIENT: "The platform is having problems, this will retry automatically",
+  UNKNOWN: "Sync again, and check the platform connection if this persists",
+}
+
+// Amazon has no location IDs: stock is either in its fulfillment network (FBA) or merchant-fulfilled
+export const AMAZON_FULFILLMENT_CHANNELS = ["AFN", "MFN"] as const
+
+// A change described by a platform webhook delivery
+export type WebhookChange =
+  | {
+      kind: "order"
+      platformOrderId: string
+      // Present when the payload carries the full order, otherwise it is fetched
+      order?: PlatformOrder
+    }
+  | {
+      kind: "inventory"
+      sku: string
+      quantity: number
+      platformLocationId?: string
+    }
+  | {
+      kind: "listing"
+      platformProductId: string
+      price?: number
+      quantity?: number
+      status?: string
+    }
+
+// What listings are built from, variants in position order
+export type ProductWithVariants = Product & { variants: ProductVariant[] }
+
+// A product as listed on one channel, with its overrides and pricing rule applied
+export type ListingProduct = ProductWithVariants & {
+  // Product attributes with the channel's own on top, attribute name to value
+  itemSpecifics: Record<string, string>
+  // Where the category is mapped to in the marketplace's tree, see CategoryMapping
+  platformCategoryId: string | null
+}
+
+export interface PlatformListingIds {
+  platformProductId: string
+  // Platform ID of each variant's listing, keyed by our variant ID
+  variantIds?: Record<string, string>
+}
+
+/**
+ * Normalized view of a marketplace API client used by the sync engines.
+ * Each supported platform registers one adapter in lib/integrations/registry.ts.
+ */
+export interface PlatformAdapter {
+  readonly platform: Platform
+  // Stream every stock level page by page, resuming from a saved cursor when given
+  inventoryPages: (cursor?: string) => AsyncIterable<PlatformPage<PlatformInventoryLevel>>
+  // Platforms with locations default to their primary one when none is given
+  updateInventory: (sku: string, quantity: number, platformLocationId?: string) => Promise<void>
+  orderPages: (options?: OrderImportOptions, cursor?: string) => AsyncIterable<PlatformPage<PlatformOrder>>
+  fetchOrder: (platformOrderId: string) => Promise<PlatformOrder | null>
+  // Mark the shipped lines of an order as fulfilled, with tracking, on the platform
+  createFulfillment: (platformOrderId: string, fulfillment: PlatformFulfillment) => Promise<FulfillmentAcknowledgement>
+  // Stream the catalog page by page, resuming from a saved cursor when given
+  productPages: (cursor?: string) => AsyncIterable<PlatformPage<PlatformProduct>>
+  // Creates or updates the listing, with one platform variant per product variant
+  upsertProduct: (product: ListingProduct, existingListing?: PlatformListing) => Promise<PlatformListingIds>
+  // Cheap authenticated call used by the connection health check
+  ping: () => Promise<void>
+  // Translate a webhook delivery into the changes it describes, empty for ignored topics
+  parseWebhook: (event: string, payload: any) => Promise<WebhookChange[]>
 }
 
 export const PLATFORM_CONFIGS: Record<Platform, Partial<PlatformConfig>> = {
@@ -36,7 +166,11 @@ export const PLATFORM_CONFIGS: Record<Platform, Partial<PlatformConfig>> = {
     color: "#E53238",
     authUrl: "https://auth.ebay.com/oauth2/authorize",
     tokenUrl: "https://api.ebay.com/identity/v1/oauth2/token",
-    scopes: ["https://api.ebay.com/oauth/api_scope", "https://api.ebay.com/oauth/api_scope/sell.inventory"],
+    scopes: [
+      "https://api.ebay.com/oauth/api_scope",
+      "https://api.ebay.com/oauth/api_scope/sell.inventory",
+      "https://api.ebay.com/oauth/api_scope/sell.fulfillment",
+    ],
     clientId: process.env.EBAY_CLIENT_ID || "",
     clientSecret: process.env.EBAY_CLIENT_SECRET || "",
     redirectUri: process.env.NEXTAUTH_URL + "/api/oauth/ebay/callback",
@@ -59,7 +193,7 @@ export const PLATFORM_CONFIGS: Record<Platform, Partial<PlatformConfig>> = {
     color: "#F56400",
     authUrl: "https://www.etsy.com/oauth/connect",
     tokenUrl: "https://api.etsy.com/v3/public/oauth/token",
-    scopes: ["listings_r", "listings_w", "transactions_r", "shops_r"],
+    scopes: ["listings_r", "listings_w", "transactions_r", "transactions_w", "shops_r"],
     clientId: process.env.ETSY_CLIENT_ID || "",
     clientSecret: process.env.ETSY_CLIENT_SECRET || "",
     redirectUri: process.env.NEXTAUTH_URL + "/api/oauth/etsy/callback",
@@ -69,7 +203,15 @@ export const PLATFORM_CONFIGS: Record<Platform, Partial<PlatformConfig>> = {
     displayName: "Shopify",
     icon: "🛍️",
     color: "#96BF48",
-    scopes: ["read_products", "write_products", "read_orders", "write_orders", "read_inventory", "write_inventory"],
+    scopes: [
+      "read_products",
+      "write_products",
+      "read_orders",
+      "write_orders",
+      "read_inventory",
+      "write_inventory",
+      "write_merchant_managed_fulfillment_orders",
+    ],
     clientId: process.env.SHOPIFY_CLIENT_ID || "",
     clientSecret: process.env.SHOPIFY_CLIENT_SECRET || "",
   },
@@ -1,10 +1,13 @@
 import { Platform } from "@prisma/client"
+import { PlatformErrorDetails } from "@/types/platforms"
 
 export interface ProductSyncResult {
   platform: Platform
   success: boolean
   platformProductId?: string
-  error?: string
+  error?: PlatformErrorDetails
+  // Listing went through but could place better, e.g. missing recommended attributes
+  warnings?: string[]
 }
 
 export interface SyncJob {
@@ -0,0 +1,66 @@
+import { OrderAddress } from "./order"
+
+// One box, in ounces and inches
+export type Parcel = {
+  weight: number
+  length: number
+  width: number
+  height: number
+}
+
+export interface ShipmentAddress extends OrderAddress {
+  company?: string
+  email?: string
+}
+
+// What goes in the box, for customs declarations
+export interface ShipmentContent {
+  description: string
+  sku: string
+  quantity: number
+  // Value of one unit
+  value: number
+}
+
+export interface ShipmentRequest {
+  from: ShipmentAddress
+  to: ShipmentAddress
+  parcel: Parcel
+  contents: ShipmentContent[]
+  currency: string
+  // Printed on the label, usually the order number
+  reference: string
+}
+
+export interface ShippingRate {
+  carrier: string
+  // Code the carrier expects when buying the label
+  service: string
+  serviceName: string
+  amount: number
+  currency: string
+  estimatedDays?: number
+}
+
+export interface PurchasedLabel {
+  trackingNumber: string
+  // 4x6 label as a PDF
+  labelPdf: Buffer
+  amount: number
+  currency: string
+  carrierShipmentId?: string
+}
+
+/**
+ * Normalized view of a carrier shipping API.
+ * Each supported carrier registers one adapter in lib/shipping/registry.ts.
+ */
+export interface ShippingCarrierAdapter {
+  // USPS, UPS, FEDEX, DHL or FAKE, as in tracking
+  readonly carrier: string
+  // Whether credentials and a shipper account for the carrier are set
+  isConfigured: () => boolean
+  // Services the carrier offers for the shipment, an empty list when it does not serve the route
+  getRates: (shipment: ShipmentRequest) => Promise<ShippingRate[]>
+  purchaseLabel: (shipment: ShipmentRequest, service: string) => Promise<PurchasedLabel>
+}
@@ -0,0 +1,45 @@
+export const TRACKING_STATUS = {
+  PRE_TRANSIT: "PRE_TRANSIT",
+  IN_TRANSIT: "IN_TRANSIT",
+  OUT_FOR_DELIVERY: "OUT_FOR_DELIVERY",
+  DELIVERED: "DELIVERED",
+  EXCEPTION: "EXCEPTION",
+  RETURNED: "RETURNED",
+  UNKNOWN: "UNKNOWN",
+} as const
+
+export type TrackingStatus = typeof TRACKING_STATUS[keyof typeof TRACKING_STATUS]
+
+// Statuses after which a shipment is no longer polled
+export const FINAL_TRACKING_STATUSES: TrackingStatus[] = [TRACKING_STATUS.DELIVERED, TRACKING_STATUS.RETURNED]
+
+// One scan or status update reported by a carrier
+export interface CarrierTrackingEvent {
+  status: TrackingStatus
+  description: string
+  location?: string
+  occurredAt: Date
+}
+
+export interface CarrierTrackingResult {
+  trackingNumber: string
+  status: TrackingStatus
+  estimatedDeliveryAt?: Date
+  deliveredAt?: Date
+  // Oldest first
+  events: CarrierTrackingEvent[]
+}
+
+/**
+ * Normalized view of a carrier tracking API.
+ * Each supported carrier registers one adapter in lib/tracking/registry.ts.
+ */
+export interface CarrierAdapter {
+  // USPS, UPS, FEDEX, DHL or FAKE
+  readonly carrier: string
+  // Whether credentials for the carrier's API are set
+  isConfigured: () => boolean
+  // Whether the tracking number has one of the carrier's formats
+  matches: (trackingNumber: string) => boolean
+  track: (trackingNumber: string) => Promise<CarrierTrackingResult>
+}